@@ -0,0 +1,116 @@
+import crypto from 'crypto';
+import http from 'http';
+import { utils } from 'ethers';
+import type { USDOExpressV2 } from '../typechain-types';
+import { KycExpiredError, KycTierNotSetError, PreflightError } from '../sdk/errors';
+import { SignedKycAttestation, kycAttestationToJson, signKycAttestation } from '../sdk/attestations';
+import { intentDomain } from '../sdk/intents';
+import { readBody, reply } from '../utils/http';
+
+// Largest tier id of USDOExpressV2.KycAttestation, a uint32
+const MAX_TIER = 2 ** 32 - 1;
+
+// Attestation requests are an address and two numbers
+const MAX_BODY_BYTES = 4 * 1024;
+
+export interface KycAttestationRequest {
+  account: string;
+  // Defaults to the default tier, 0
+  tier?: number;
+  // Unix timestamp, 0 never expires
+  expiry?: number;
+}
+
+export interface AttestorServerOptions {
+  // Bearer token the compliance backend sends in the Authorization header
+  token: string;
+}
+
+// The attestor cannot sign for now, e.g. its key is not a compliance signer of USDOExpressV2
+export class AttestationRefusedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Sign a KYC attestation with the signer `express` is connected to, for the next KYC nonce of the account.
+ * Throws an AttestationRefusedError while the signer is not registered with setKycSigner, and a PreflightError for
+ * an attestation USDOExpressV2 would reject for its tier or expiry. Nothing is sent on-chain.
+ */
+export const issueKycAttestation = async (
+  express: USDOExpressV2,
+  request: KycAttestationRequest,
+): Promise<SignedKycAttestation> => {
+  const { tier = 0, expiry = 0 } = request;
+  if (!utils.isAddress(request.account)) throw new TypeError(`Invalid account: ${request.account}`);
+  if (!Number.isInteger(tier) || tier < 0 || tier > MAX_TIER) throw new TypeError(`Invalid tier: ${tier}`);
+  if (!Number.isSafeInteger(expiry) || expiry < 0) throw new TypeError(`Invalid expiry: ${expiry}`);
+  const account = utils.getAddress(request.account);
+
+  const signer = await express.signer.getAddress();
+  const [registered, block, nonce, domain] = await Promise.all([
+    express._kycSigners(signer),
+    express.provider.getBlock('latest'),
+    express._kycNonces(account),
+    intentDomain(express),
+  ]);
+  if (!registered) throw new AttestationRefusedError(`${signer} is not a compliance signer of ${express.address}`);
+  if (expiry > 0 && expiry <= block.timestamp) throw new KycExpiredError(account, expiry);
+  if (tier !== 0 && !(await express.getKycTier(tier)).isSet) throw new KycTierNotSetError(tier);
+
+  return signKycAttestation(express.signer, domain, { account, tier, expiry, nonce });
+};
+
+// Constant time, the token guards the compliance key
+const authorised = (req: http.IncomingMessage, token: string): boolean => {
+  const expected = Buffer.from(`Bearer ${token}`);
+  const given = Buffer.from(req.headers.authorization ?? '');
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+};
+
+const statusOf = (error: unknown): number => {
+  if (error instanceof TypeError || error instanceof SyntaxError) return 400;
+  if (error instanceof PreflightError) return 422;
+  if (error instanceof AttestationRefusedError) return 503;
+  return 500;
+};
+
+/**
+ * HTTP front of issueKycAttestation for the compliance backend. `POST /attestations` takes a KycAttestationRequest
+ * as JSON with the bearer token and answers with the signed attestation in its JSON form (see
+ * kycAttestationToJson), which the customer passes along with its next mint or redeem.
+ */
+export const createAttestorServer = (express: USDOExpressV2, options: AttestorServerOptions): http.Server => {
+  if (options.token === '') throw new TypeError('The attestor needs a bearer token');
+
+  return http.createServer(async (req, res) => {
+    if (req.method !== 'POST' || req.url !== '/attestations') {
+      reply(res, 404, { error: 'Not found' });
+      return;
+    }
+    if (!authorised(req, options.token)) {
+      reply(res, 401, { error: 'Unauthorised' });
+      return;
+    }
+
+    try {
+      const request = JSON.parse(await readBody(req, MAX_BODY_BYTES)) as KycAttestationRequest;
+      const signed = await issueKycAttestation(express, request ?? {});
+      console.log(
+        '%s attested %s, tier %d, expiry %d, nonce %s',
+        new Date().toISOString(),
+        signed.attestation.account,
+        signed.attestation.tier,
+        signed.attestation.expiry,
+        signed.attestation.nonce,
+      );
+      reply(res, 200, kycAttestationToJson(signed));
+    } catch (error) {
+      const status = statusOf(error);
+      if (status === 500) console.error('%s attestation failed:', new Date().toISOString(), error);
+      reply(res, status, { error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+};
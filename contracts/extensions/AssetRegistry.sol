@@ -22,17 +22,32 @@ contract AssetRegistry is IAssetRegistry, UUPSUpgradeable, AccessControlUpgradea
     error AssetRegistryInvalidPrice(int256 price);
     error AssetRegistryStalePriceData(uint256 updatedAt, uint256 currentTime, uint256 maxStale);
     error AssetRegistryUnsupportedAssetConfiguration();
+    error AssetRegistryInvalidOracleConfiguration();
+    error AssetRegistryPriceDeviation(uint256 primaryPrice, uint256 secondaryPrice, uint256 maxDeviationBps);
+    error AssetRegistryInvalidPriceBounds(uint256 minPrice, uint256 maxPrice);
+    error AssetRegistryPriceOutOfBounds(uint256 price, uint256 minPrice, uint256 maxPrice);
+    error AssetRegistryInvalidDepegGuard();
+    error AssetRegistryDepegged(address asset, uint256 price, uint256 threshold);
+
+    struct CachedDecimals {
+        bool isCached;
+        uint8 decimals;
+    }
 
     bytes32 public constant MAINTAINER_ROLE = keccak256("MAINTAINER_ROLE");
     bytes32 public constant UPGRADE_ROLE = keccak256("UPGRADE_ROLE");
 
     // Constants
     uint256 private constant _USDO_DECIMALS = 18;
+    uint256 private constant _BPS_BASE = 10_000;
+    uint256 private constant _PRICE_UNIT = 1e18;
 
     // Asset configurations
     mapping(address => AssetConfig) private _assetConfigs;
     address[] private _supportedAssets;
     mapping(address => uint256) private _assetIndex;
+    // Decimals of each asset, read once by setAssetConfig
+    mapping(address => CachedDecimals) private _assetDecimals;
 
     /// @custom:oz-upgrades-unsafe-allow constructor
     constructor() {
@@ -78,16 +93,208 @@ contract AssetRegistry is IAssetRegistry, UUPSUpgradeable, AccessControlUpgradea
         decimals = IPriceFeed(priceFeed).decimals();
     }
 
+    /**
+     * @notice Same checks as _getFreshPrice without reverting, a feed that reverts counts as not fresh
+     * @param priceFeed The price feed address
+     * @param maxStalePeriod The maximum staleness period of the asset
+     * @return fresh Whether the feed returned a valid and fresh price
+     * @return price The fresh price
+     * @return decimals The price feed decimals
+     */
+    function _tryGetFreshPrice(
+        address priceFeed,
+        uint256 maxStalePeriod
+    ) internal view returns (bool fresh, uint256 price, uint8 decimals) {
+        try IPriceFeed(priceFeed).latestRoundData() returns (
+            uint80 roundId,
+            int256 answer,
+            uint256,
+            uint256 updatedAt,
+            uint80 answeredInRound
+        ) {
+            if (answer <= 0 || updatedAt + maxStalePeriod < block.timestamp || answeredInRound < roundId) {
+                return (false, 0, 0);
+            }
+            price = uint256(answer);
+        } catch {
+            return (false, 0, 0);
+        }
+
+        try IPriceFeed(priceFeed).decimals() returns (uint8 feedDecimals) {
+            return (true, price, feedDecimals);
+        } catch {
+            return (false, 0, 0);
+        }
+    }
+
+    /**
+     * @notice Get the price of an asset from its price feeds and check it against the asset's price bounds
+     * @param config The asset configuration
+     * @param favourLower Whether the lower of two disagreeing prices favours the protocol
+     * @return price The price
+     * @return decimals The decimals of the feed the price comes from
+     */
+    function _getPrice(
+        AssetConfig memory config,
+        bool favourLower
+    ) internal view returns (uint256 price, uint8 decimals) {
+        (price, decimals) = _selectPrice(config, favourLower);
+
+        if (config.minPrice != 0 || config.maxPrice != 0) {
+            uint256 normalized = price.mulDiv(_PRICE_UNIT, 10 ** decimals);
+            if (normalized < config.minPrice || (config.maxPrice != 0 && normalized > config.maxPrice)) {
+                revert AssetRegistryPriceOutOfBounds(normalized, config.minPrice, config.maxPrice);
+            }
+        }
+    }
+
+    /**
+     * @notice Select the price of an asset from its price feeds according to its oracle policy
+     * @dev With a single feed this is _getFreshPrice. Under REVERT both feeds must be fresh and agree, the primary
+     * price is used. Under FALLBACK a failing feed is skipped, and of two disagreeing prices the one favouring the
+     * protocol is used: the lower one when minting, the higher one when redeeming.
+     * @param config The asset configuration
+     * @param favourLower Whether the lower of two disagreeing prices favours the protocol
+     * @return price The price
+     * @return decimals The decimals of the feed the price comes from
+     */
+    function _selectPrice(
+        AssetConfig memory config,
+        bool favourLower
+    ) internal view returns (uint256 price, uint8 decimals) {
+        if (config.secondaryPriceFeed == address(0)) return _getFreshPrice(config.asset, config.priceFeed);
+
+        if (config.oraclePolicy == OraclePolicy.REVERT) {
+            (price, decimals) = _getFreshPrice(config.asset, config.priceFeed);
+            (uint256 checkPrice, uint8 checkDecimals) = _getFreshPrice(config.asset, config.secondaryPriceFeed);
+            if (!_withinDeviation(price, decimals, checkPrice, checkDecimals, config.maxDeviationBps)) {
+                revert AssetRegistryPriceDeviation(price, checkPrice, config.maxDeviationBps);
+            }
+            return (price, decimals);
+        }
+
+        (bool primaryFresh, uint256 primary, uint8 primaryDecimals) = _tryGetFreshPrice(
+            config.priceFeed,
+            config.maxStalePeriod
+        );
+        (bool secondaryFresh, uint256 secondary, uint8 secondaryDecimals) = _tryGetFreshPrice(
+            config.secondaryPriceFeed,
+            config.maxStalePeriod
+        );
+
+        // Neither feed works, revert with the reason of the primary one
+        if (!primaryFresh && !secondaryFresh) return _getFreshPrice(config.asset, config.priceFeed);
+        if (!secondaryFresh) return (primary, primaryDecimals);
+        if (!primaryFresh) return (secondary, secondaryDecimals);
+        if (_withinDeviation(primary, primaryDecimals, secondary, secondaryDecimals, config.maxDeviationBps)) {
+            return (primary, primaryDecimals);
+        }
+
+        bool secondaryLower = secondary * 10 ** primaryDecimals < primary * 10 ** secondaryDecimals;
+        return secondaryLower == favourLower ? (secondary, secondaryDecimals) : (primary, primaryDecimals);
+    }
+
+    /**
+     * @notice Whether the secondary price is within maxDeviationBps of the primary one
+     * @dev The prices are brought to the same decimals by cross-multiplying
+     */
+    function _withinDeviation(
+        uint256 primary,
+        uint8 primaryDecimals,
+        uint256 secondary,
+        uint8 secondaryDecimals,
+        uint256 maxDeviationBps
+    ) internal pure returns (bool) {
+        uint256 scaledPrimary = primary * 10 ** secondaryDecimals;
+        uint256 scaledSecondary = secondary * 10 ** primaryDecimals;
+        uint256 difference = scaledPrimary > scaledSecondary
+            ? scaledPrimary - scaledSecondary
+            : scaledSecondary - scaledPrimary;
+        return difference * _BPS_BASE <= scaledPrimary * maxDeviationBps;
+    }
+
+    /**
+     * @notice USDO per base unit of an asset as a fraction, combining its price with the decimals of both tokens
+     * @dev Kept as a fraction so each conversion rounds once, in a single mulDiv
+     * @param config The asset configuration
+     * @param favourLower Whether the lower of two disagreeing prices favours the protocol
+     * @return numerator The numerator of the USDO amount per asset unit
+     * @return denominator The denominator of the USDO amount per asset unit
+     */
+    function _usdoPerAsset(
+        AssetConfig memory config,
+        bool favourLower
+    ) internal view returns (uint256 numerator, uint256 denominator) {
+        (numerator, denominator) = (1, 1);
+        if (config.priceFeed != address(0)) {
+            (uint256 rate, uint8 feedDecimals) = _getPrice(config, favourLower);
+            (numerator, denominator) = (rate, 10 ** feedDecimals);
+        }
+
+        uint8 assetDecimals = _getAssetDecimals(config.asset);
+        if (assetDecimals <= _USDO_DECIMALS) {
+            numerator *= 10 ** (_USDO_DECIMALS - assetDecimals);
+        } else {
+            denominator *= 10 ** (assetDecimals - _USDO_DECIMALS);
+        }
+    }
+
+    /**
+     * @notice Get the decimals of an asset, from the cache unless the asset was configured before it existed
+     * @param asset The asset address
+     * @return decimals The asset decimals
+     */
+    function _getAssetDecimals(address asset) internal view returns (uint8 decimals) {
+        CachedDecimals memory cached = _assetDecimals[asset];
+        return cached.isCached ? cached.decimals : IERC20Metadata(asset).decimals();
+    }
+
+    /**
+     * @notice Cache the decimals of an asset. Without code or decimals() nothing is cached and conversions revert.
+     * @param asset The asset address
+     */
+    function _cacheDecimals(address asset) internal {
+        CachedDecimals memory cached;
+        if (asset.code.length != 0) {
+            try IERC20Metadata(asset).decimals() returns (uint8 assetDecimals) {
+                cached = CachedDecimals(true, assetDecimals);
+            } catch {}
+        }
+        _assetDecimals[asset] = cached;
+    }
+
     function setAssetConfig(AssetConfig calldata config) external onlyRole(MAINTAINER_ROLE) {
         address asset = config.asset;
         if (asset == address(0)) revert AssetRegistryZeroAddress();
 
-        if (config.priceFeed != address(0) && config.maxStalePeriod == 0) {
+        if ((config.priceFeed != address(0) || config.depegGuardFeed != address(0)) && config.maxStalePeriod == 0) {
             revert AssetRegistryInvalidStalePeriod(config.maxStalePeriod);
         }
 
+        // A secondary feed is checked against a different primary feed
+        if (
+            config.secondaryPriceFeed != address(0) &&
+            (config.priceFeed == address(0) ||
+                config.secondaryPriceFeed == config.priceFeed ||
+                config.maxDeviationBps > _BPS_BASE)
+        ) {
+            revert AssetRegistryInvalidOracleConfiguration();
+        }
+
+        // Bounds apply to priced assets, a depeg guard to assets assumed to be worth 1 USD
+        if (
+            (config.minPrice != 0 || config.maxPrice != 0) &&
+            (config.priceFeed == address(0) || (config.maxPrice != 0 && config.minPrice > config.maxPrice))
+        ) {
+            revert AssetRegistryInvalidPriceBounds(config.minPrice, config.maxPrice);
+        }
+        if (config.depegGuardFeed != address(0) && (config.priceFeed != address(0) || config.depegThreshold == 0)) {
+            revert AssetRegistryInvalidDepegGuard();
+        }
+
         bool wasSupported = _assetConfigs[asset].isSupported;
         _assetConfigs[asset] = config;
+        _cacheDecimals(asset);
 
         if (config.isSupported && !wasSupported) {
             _supportedAssets.push(asset);
@@ -120,36 +327,31 @@ contract AssetRegistry is IAssetRegistry, UUPSUpgradeable, AccessControlUpgradea
         AssetConfig memory config = _assetConfigs[asset];
         if (!config.isSupported) revert AssetRegistryAssetNotSupported(asset);
 
-        uint256 amount = assetAmount;
-        uint8 assetDecimals = IERC20Metadata(asset).decimals();
-
-        // If asset has price feed, convert to USD value first
-        if (config.priceFeed != address(0)) {
-            (uint256 rate, uint8 feedDecimals) = _getFreshPrice(asset, config.priceFeed);
-            amount = assetAmount.mulDiv(rate, 10 ** feedDecimals);
+        if (config.priceFeed == address(0) && config.depegGuardFeed != address(0)) {
+            // Only mints convert from the underlying, redemptions keep working through a depeg
+            (uint256 guardPrice, uint8 guardDecimals) = _getFreshPrice(asset, config.depegGuardFeed);
+            uint256 normalized = guardPrice.mulDiv(_PRICE_UNIT, 10 ** guardDecimals);
+            if (normalized < config.depegThreshold) {
+                revert AssetRegistryDepegged(asset, normalized, config.depegThreshold);
+            }
         }
 
-        // Scale to USDO decimals
-        usdoAmount = amount * (10 ** (_USDO_DECIMALS - assetDecimals));
+        // Round down, a mint never credits more USDO than the asset is worth
+        (uint256 numerator, uint256 denominator) = _usdoPerAsset(config, true);
+        usdoAmount = assetAmount.mulDiv(numerator, denominator, MathUpgradeable.Rounding.Down);
     }
 
     function convertToUnderlying(address asset, uint256 usdoAmount) external view returns (uint256 assetAmount) {
         AssetConfig memory config = _assetConfigs[asset];
         if (!config.isSupported) revert AssetRegistryAssetNotSupported(asset);
 
-        uint8 assetDecimals = IERC20Metadata(asset).decimals();
-
-        // Scale down from USDO decimals to asset decimals with proper rounding
-        uint256 divisor = 10 ** (_USDO_DECIMALS - assetDecimals);
-        uint256 amount = usdoAmount.mulDiv(1, divisor, MathUpgradeable.Rounding.Down);
+        // Round down, a redemption never pays out more of the asset than the USDO is worth
+        (uint256 numerator, uint256 denominator) = _usdoPerAsset(config, false);
+        assetAmount = usdoAmount.mulDiv(denominator, numerator, MathUpgradeable.Rounding.Down);
+    }
 
-        // If asset has price feed, convert from USD value
-        if (config.priceFeed != address(0)) {
-            (uint256 rate, uint8 feedDecimals) = _getFreshPrice(asset, config.priceFeed);
-            assetAmount = amount.mulDiv(10 ** feedDecimals, rate);
-        } else {
-            assetAmount = amount;
-        }
+    function getAssetDecimals(address asset) external view returns (uint8 decimals) {
+        return _getAssetDecimals(asset);
     }
 
     function getSupportedAssets() external view returns (address[] memory assets) {
@@ -175,5 +377,5 @@ contract AssetRegistry is IAssetRegistry, UUPSUpgradeable, AccessControlUpgradea
      * variables without shifting down storage in the inheritance chain.
      * See https://docs.openzeppelin.com/contracts/4.x/upgradeable#storage_gaps
      */
-    uint256[50] private __gap;
+    uint256[49] private __gap;
 }
@@ -19,12 +19,12 @@ abstract contract USDOExpressPausable {
     //////////////////////////////////////////////////////////////*/
 
     modifier whenNotPausedMint() {
-        require(!pausedMint(), "Pausable: Mint paused");
+        _requireNotPausedMint();
         _;
     }
 
     modifier whenPausedMint() {
-        require(pausedMint(), "Pausable: Mint not paused");
+        _requirePausedMint();
         _;
     }
 
@@ -32,6 +32,15 @@ abstract contract USDOExpressPausable {
         return _pausedMint;
     }
 
+    // The modifiers call these instead of inlining the revert string into every function they guard
+    function _requireNotPausedMint() internal view virtual {
+        require(!pausedMint(), "Pausable: Mint paused");
+    }
+
+    function _requirePausedMint() internal view virtual {
+        require(pausedMint(), "Pausable: Mint not paused");
+    }
+
     function _pauseMint() internal virtual whenNotPausedMint {
         _pausedMint = true;
         emit PausedMint(msg.sender);
@@ -47,12 +56,12 @@ abstract contract USDOExpressPausable {
     //////////////////////////////////////////////////////////////*/
 
     modifier whenNotPausedRedeem() {
-        require(!pausedRedeem(), "Pausable: Redeem paused");
+        _requireNotPausedRedeem();
         _;
     }
 
     modifier whenPausedRedeem() {
-        require(pausedRedeem(), "Pausable: Redeem not paused");
+        _requirePausedRedeem();
         _;
     }
 
@@ -60,6 +69,15 @@ abstract contract USDOExpressPausable {
         return _pausedRedeem;
     }
 
+    // The modifiers call these instead of inlining the revert string into every function they guard
+    function _requireNotPausedRedeem() internal view virtual {
+        require(!pausedRedeem(), "Pausable: Redeem paused");
+    }
+
+    function _requirePausedRedeem() internal view virtual {
+        require(pausedRedeem(), "Pausable: Redeem not paused");
+    }
+
     function _pauseRedeem() internal virtual whenNotPausedRedeem {
         _pausedRedeem = true;
         emit PausedRedeem(msg.sender);
@@ -1,168 +1,27 @@
 // SPDX-License-Identifier: MIT
 pragma solidity 0.8.18;
 
-import {UUPSUpgradeable} from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
 import {IERC20Metadata} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
-import {AccessControlUpgradeable} from "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/token/ERC20/utils/SafeERC20Upgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/utils/math/MathUpgradeable.sol";
-import "./USDOExpressPausable.sol";
-import "./USDOMintRedeemLimiterV2.sol";
-import "./DoubleQueueModified.sol";
-
-import {IUSDO} from "../interfaces/IUSDO.sol";
-import {ICUSDO} from "../interfaces/ICUSDO.sol";
-import "../interfaces/IRedemption.sol";
-import "../interfaces/IAssetRegistry.sol";
-
-enum TxType {
-    MINT,
-    REDEEM,
-    INSTANT_REDEEM
-}
+import "./USDOExpressV2Storage.sol";
 
-contract USDOExpressV2 is UUPSUpgradeable, AccessControlUpgradeable, USDOExpressPausable, USDOMintRedeemLimiter {
+contract USDOExpressV2 is USDOExpressV2Storage {
     using MathUpgradeable for uint256;
     using DoubleQueueModified for DoubleQueueModified.BytesDeque;
 
-    // Roles
-    bytes32 public constant MULTIPLIER_ROLE = keccak256("MULTIPLIER_ROLE");
-    bytes32 public constant PAUSE_ROLE = keccak256("PAUSE_ROLE");
-    bytes32 public constant WHITELIST_ROLE = keccak256("WHITELIST_ROLE");
-    bytes32 public constant UPGRADE_ROLE = keccak256("UPGRADE_ROLE");
-    bytes32 public constant MAINTAINER_ROLE = keccak256("MAINTAINER_ROLE");
-    bytes32 public constant OPERATOR_ROLE = keccak256("OPERATOR_ROLE");
-
-    // APY in base points, scaled by 1e4 (e.g., 100 = 1%)
-    uint256 public _apy; // 500 => 5%
-
-    // fee rate for mint, scaled by 1e4, e.g., 100 stands for 1%
-    uint256 public _mintFeeRate;
-    uint256 public _redeemFeeRate;
-
-    // constants for base points and scaling
-    uint256 private constant _BPS_BASE = 1e4;
-    uint256 private constant _BASE = 1e18;
-
-    // daily bonus multiplier increment, scaled by 1e18
-    uint256 public _increment;
-
-    // The last time the bonus multiplier was updated
-    uint256 public _lastUpdateTS;
-
-    // Time buffer for the operator to update the bonus multiplier
-    uint256 public _timeBuffer;
-
-    // core token addresses
-    IUSDO public _usdo;
-    address public _usdc;
-
-    // #previous: _tbill
-    address public RESERVE1;
-
-    // the address to receive the tokens
-    address public _treasury;
-    // the address to receive the fees
-    address public _feeTo;
-
-    // Asset registry for pluggable asset management  #previous: _buidl;
-    IAssetRegistry public _assetRegistry;
-
-    // for instant redeem - pluggable redemption contract, #previous: _buidlRedemption
-    IRedemption public _redemptionContract;
-
-    // cUSDO contract , #previous: _buidlTreasury
-    ICUSDO public _cusdo;
-
-    // check if the user has deposited before
-    mapping(address => bool) public _firstDeposit;
-
-    // kyc list
-    mapping(address => bool) public _kycList;
-
-    // Queue for redemption requests
-    DoubleQueueModified.BytesDeque private _redemptionQueue;
-
-    // Track redemption amounts for users in the queue
-    mapping(address => uint256) private _redemptionInfo;
-
-    // fee rate for instant redeem, scaled by 1e4, e.g., 100 stands for 1%
-    uint256 public _instantRedeemFeeRate;
-
-    // Events
-    event UpdateAPY(uint256 apy, uint256 increment);
-    event UpdateCusdo(address cusdo);
-    event UpdateMintFeeRate(uint256 fee);
-    event UpdateRedeemFeeRate(uint256 fee);
-    event UpdateInstantRedeemFee(uint256 fee);
-    event UpdateTreasury(address treasury);
-    event UpdateFeeTo(address feeTo);
-    event UpdateTimeBuffer(uint256 timeBuffer);
-    event InstantMint(
-        address indexed underlying,
-        address indexed from,
-        address indexed to,
-        uint256 reqAmt,
-        uint256 receiveAmt,
-        uint256 fee
-    );
-    event InstantMintAndWrap(
-        address indexed underlying,
-        address indexed from,
-        address indexed to,
-        uint256 reqAmt,
-        uint256 usdoAmt,
-        uint256 cusdoAmt,
-        uint256 fee
-    );
-    event USDOKycGranted(address[] addresses);
-    event USDOKycRevoked(address[] addresses);
-
-    event InstantRedeem(
-        address indexed from,
-        address indexed to,
-        uint256 reqAmt,
-        uint256 receiveAmt,
-        uint256 fee,
-        uint256 payout,
-        uint256 usycFee,
-        uint256 minUsdcOut
-    );
-    event ManualRedeem(address indexed from, uint256 reqAmt, uint256 receiveAmt, uint256 fee);
-    event UpdateFirstDeposit(address indexed account, bool flag);
-
-    // Queue-related events
-    event AddToRedemptionQueue(address indexed from, address indexed to, uint256 usdoAmt, bytes32 id);
-    event ProcessRedeem(
-        address indexed from,
-        address indexed to,
-        uint256 usdoAmt,
-        uint256 usdcAmt,
-        uint256 fee,
-        bytes32 id
-    );
-    event ProcessRedemptionQueue(uint256 totalRedeemAssets, uint256 totalBurnUsdo, uint256 totalFees);
-    event ProcessRedemptionCancel(address indexed from, address indexed to, uint256 usdoAmt, bytes32 id);
-    event Cancel(uint256 len, uint256 totalUsdo);
-    event SetRedemption(address redemptionContract);
-    event AssetRegistryUpdated(address indexed newRegistry);
-    event OffRamp(address indexed to, uint256 amount);
-
-    error USDOExpressTooEarly(uint256 amount);
-    error USDOExpressZeroAddress();
-    error USDOExpressTokenNotSupported(address token);
-    error USDOExpressReceiveUSDCFailed(uint256 amount, uint256 received);
-
-    error MintLessThanMinimum(uint256 amount, uint256 minimum);
-    error TotalSupplyCapExceeded();
-    error FirstDepositLessThanRequired(uint256 amount, uint256 minimum);
-    error USDOExpressNotInKycList(address from, address to);
-    error USDOExpressInvalidInput(uint256 input);
-    error USDOExpressInsufficientLiquidity(uint256 required, uint256 available);
-    error InsufficientOutput(uint256 received, uint256 minimum);
-
-    /// @custom:oz-upgrades-unsafe-allow constructor
-    constructor() {
+    // USDOExpressV2Ext, runs the functions moved out of this contract, they check the roles of the caller themselves
+    /// @custom:oz-upgrades-unsafe-allow state-variable-immutable
+    address private immutable _extension;
+
+    /**
+     * @dev The extension is deployed on its own, its code does not fit in the creation code of this contract.
+     * @param extension The USDOExpressV2Ext matching this implementation.
+     * @custom:oz-upgrades-unsafe-allow constructor
+     */
+    constructor(address extension) {
+        if (extension == address(0)) revert USDOExpressZeroAddress();
+        _extension = extension;
         _disableInitializers();
     }
 
@@ -215,14 +74,12 @@ contract USDOExpressV2 is UUPSUpgradeable, AccessControlUpgradeable, USDOExpress
         _grantRole(OPERATOR_ROLE, operator);
     }
 
-    function _authorizeUpgrade(address) internal override onlyRole(UPGRADE_ROLE) {}
-
     /**
      * @notice Updates the APY.
      * @dev This function can only be called by the owner.
      * @param newAPY The new APY value in base points, apy example: 514 = 5.14%
      */
-    function updateAPY(uint256 newAPY) external onlyRole(MAINTAINER_ROLE) {
+    function updateAPY(uint256 newAPY) external onlyMaintainer {
         _apy = newAPY;
 
         // 140821917808219
@@ -235,7 +92,7 @@ contract USDOExpressV2 is UUPSUpgradeable, AccessControlUpgradeable, USDOExpress
      * @notice Update the cUSDO contract.
      * @param cusdo The address of the cUSDO contract.
      */
-    function updateCusdo(address cusdo) external onlyRole(MAINTAINER_ROLE) {
+    function updateCusdo(address cusdo) external onlyMaintainer {
         if (cusdo == address(0)) revert USDOExpressZeroAddress();
         _cusdo = ICUSDO(cusdo);
         emit UpdateCusdo(cusdo);
@@ -245,7 +102,7 @@ contract USDOExpressV2 is UUPSUpgradeable, AccessControlUpgradeable, USDOExpress
      * @notice Update the asset registry address
      * @param newRegistry The new asset registry address
      */
-    function setAssetRegistry(address newRegistry) external onlyRole(MAINTAINER_ROLE) {
+    function setAssetRegistry(address newRegistry) external onlyMaintainer {
         if (newRegistry == address(0)) revert USDOExpressZeroAddress();
         _assetRegistry = IAssetRegistry(newRegistry);
         emit AssetRegistryUpdated(newRegistry);
@@ -268,7 +125,7 @@ contract USDOExpressV2 is UUPSUpgradeable, AccessControlUpgradeable, USDOExpress
      * @dev Can only be called by the contract operator
      * @param timeBuffer Time buffer in seconds
      */
-    function updateTimeBuffer(uint256 timeBuffer) external onlyRole(MAINTAINER_ROLE) {
+    function updateTimeBuffer(uint256 timeBuffer) external onlyMaintainer {
         _timeBuffer = timeBuffer;
         emit UpdateTimeBuffer(timeBuffer);
     }
@@ -278,7 +135,7 @@ contract USDOExpressV2 is UUPSUpgradeable, AccessControlUpgradeable, USDOExpress
      * @dev This function can only be called by the operator.
      * @param fee The new fee percentage in base points.
      */
-    function updateMintFee(uint256 fee) external onlyRole(MAINTAINER_ROLE) {
+    function updateMintFee(uint256 fee) external onlyMaintainer {
         _mintFeeRate = fee;
         emit UpdateMintFeeRate(fee);
     }
@@ -288,7 +145,7 @@ contract USDOExpressV2 is UUPSUpgradeable, AccessControlUpgradeable, USDOExpress
      * @dev This function can only be called by the operator.
      * @param fee The new fee percentage in base points.
      */
-    function updateRedeemFee(uint256 fee) external onlyRole(MAINTAINER_ROLE) {
+    function updateRedeemFee(uint256 fee) external onlyMaintainer {
         _redeemFeeRate = fee;
         emit UpdateRedeemFeeRate(fee);
     }
@@ -298,11 +155,26 @@ contract USDOExpressV2 is UUPSUpgradeable, AccessControlUpgradeable, USDOExpress
      * @dev This function can only be called by the operator.
      * @param fee The new fee percentage in base points.
      */
-    function updateInstantRedeemFee(uint256 fee) external onlyRole(MAINTAINER_ROLE) {
+    function updateInstantRedeemFee(uint256 fee) external onlyMaintainer {
         _instantRedeemFeeRate = fee;
         emit UpdateInstantRedeemFee(fee);
     }
 
+    /**
+     * @notice Overrides the global fee percentage of a transaction type for one asset.
+     * @dev The asset must be supported by the asset registry.
+     */
+    function setAssetFeeRate(address /* asset */, TxType /* txType */, uint256 /* fee */) external {
+        _delegateToExtension();
+    }
+
+    /**
+     * @notice Removes the fee override of an asset, the global fee percentage applies again.
+     */
+    function removeAssetFeeRate(address /* asset */, TxType /* txType */) external {
+        _delegateToExtension();
+    }
+
     /**
      * @notice Allows a whitelisted user to perform an instant mint.
      * @param underlying The address of the token to mint USDO from.
@@ -310,11 +182,7 @@ contract USDOExpressV2 is UUPSUpgradeable, AccessControlUpgradeable, USDOExpress
      * @param amt The supplied amount of the underlying token.
      */
     function instantMint(address underlying, address to, uint256 amt) external whenNotPausedMint {
-        address from = _msgSender();
-        if (!_kycList[from] || !_kycList[to]) revert USDOExpressNotInKycList(from, to);
-
-        (uint256 usdoAmtCurr, uint256 fee) = _instantMintInternal(underlying, from, to, to, amt);
-        emit InstantMint(underlying, from, to, amt, usdoAmtCurr, fee);
+        _instantMint(underlying, _msgSender(), to, amt);
     }
 
     /**
@@ -324,16 +192,61 @@ contract USDOExpressV2 is UUPSUpgradeable, AccessControlUpgradeable, USDOExpress
      * @param amt The supplied amount of the underlying token.
      */
     function instantMintAndWrap(address underlying, address to, uint256 amt) external whenNotPausedMint {
-        address from = _msgSender();
-        if (!_kycList[from] || !_kycList[to]) revert USDOExpressNotInKycList(from, to);
+        _instantMintAndWrap(underlying, _msgSender(), to, amt);
+    }
 
-        (uint256 usdoAmtCurr, uint256 fee) = _instantMintInternal(underlying, from, address(this), to, amt);
+    /**
+     * @notice Instant mint that first caches a KYC attestation, of the caller or of the receiver.
+     * @dev Same rules as instantMint once the attestation is cached, see setKycSigner.
+     */
+    function instantMintWithKyc(
+        address /* underlying */,
+        address /* to */,
+        uint256 /* amt */,
+        KycAttestation calldata /* attestation */,
+        bytes calldata /* signature */
+    ) external {
+        _delegateToExtension();
+    }
 
-        _usdo.approve(address(_cusdo), usdoAmtCurr);
-        uint256 cusdoAmt = _cusdo.deposit(usdoAmtCurr, to);
+    /**
+     * @notice Instant mint that approves the underlying with an ERC-2612 permit in the same transaction.
+     * @dev Falls back to the existing allowance when the permit fails, e.g. after someone else submitted it first.
+     */
+    function instantMintWithPermit(
+        address /* underlying */,
+        address /* to */,
+        uint256 /* amt */,
+        uint256 /* deadline */,
+        uint8 /* v */,
+        bytes32 /* r */,
+        bytes32 /* s */
+    ) external {
+        _delegateToExtension();
+    }
 
-        emit InstantMint(underlying, from, to, amt, usdoAmtCurr, fee);
-        emit InstantMintAndWrap(underlying, from, to, amt, usdoAmtCurr, cusdoAmt, fee);
+    /**
+     * @notice Instant mint and wrap that approves the underlying with an ERC-2612 permit in the same transaction.
+     * @dev Falls back to the existing allowance like instantMintWithPermit.
+     */
+    function instantMintAndWrapWithPermit(
+        address /* underlying */,
+        address /* to */,
+        uint256 /* amt */,
+        uint256 /* deadline */,
+        uint8 /* v */,
+        bytes32 /* r */,
+        bytes32 /* s */
+    ) external {
+        _delegateToExtension();
+    }
+
+    /**
+     * @notice Executes an instant mint signed by `intent.from`, sent by any relayer.
+     * @dev Same rules as instantMint for the signer, who pays the underlying and must have approved it.
+     */
+    function instantMintWithIntent(MintIntent calldata /* intent */, bytes calldata /* signature */) external {
+        _delegateToExtension();
     }
 
     /**
@@ -344,31 +257,52 @@ contract USDOExpressV2 is UUPSUpgradeable, AccessControlUpgradeable, USDOExpress
      * @param minUsdcOut Minimum USDC amount to receive (slippage protection).
      */
     function instantRedeemSelf(address to, uint256 amt, uint256 minUsdcOut) external whenNotPausedRedeem {
-        address from = _msgSender();
-        if (!_kycList[from] || !_kycList[to]) revert USDOExpressNotInKycList(from, to);
-        _checkRedeemLimit(amt);
-
-        // 1. burn the USDO
-        _usdo.burn(from, amt);
-
-        // 2. calculate the USDO amount into USDC and request redemption
-        uint256 usdcNeeded = convertToUnderlying(_usdc, amt);
+        _instantRedeemUsdc(_msgSender(), to, amt, minUsdcOut);
+    }
 
-        // 3. redeem through the redemption contract and process
-        (uint256 payout, uint256 redemptionFee, ) = _redemptionContract.redeemFor(from, usdcNeeded);
+    /**
+     * @notice Instant redeem that first caches a KYC attestation, of the caller or of the receiver.
+     * @dev Same rules as instantRedeemSelf once the attestation is cached, see setKycSigner.
+     */
+    function instantRedeemSelfWithKyc(
+        address /* to */,
+        uint256 /* amt */,
+        uint256 /* minUsdcOut */,
+        KycAttestation calldata /* attestation */,
+        bytes calldata /* signature */
+    ) external {
+        _delegateToExtension();
+    }
 
-        // 4. calculate fees
-        uint256 feeInUsdc = txsFee(usdcNeeded, TxType.INSTANT_REDEEM);
-        uint256 usdcToUser = payout - feeInUsdc;
+    /**
+     * @notice Allows a whitelisted user to perform an instant redeem into any supported asset.
+     * @dev USDC goes through the redemption contract like instantRedeemSelf, other assets are paid from the
+     * contract's own balance of the asset, less what the queued requests paid out in it are due. The asset must be
+     * supported by the asset registry, minAmtOut is the minimum amount of it received (slippage protection).
+     */
+    function instantRedeemAsset(
+        address /* asset */,
+        address /* to */,
+        uint256 /* amt */,
+        uint256 /* minAmtOut */
+    ) external {
+        _delegateToExtension();
+    }
 
-        // 5. slippage protection
-        if (minUsdcOut > 0 && usdcToUser < minUsdcOut) {
-            revert InsufficientOutput(usdcToUser, minUsdcOut);
-        }
+    /**
+     * @notice Redeems cUSDO shares of the caller and instantly redeems the USDO they give for USDC.
+     * @dev The caller approves USDOExpressV2 for the shares. Same rules as instantRedeemSelf for the USDO received.
+     */
+    function instantRedeemFromCusdo(uint256 /* shares */, address /* to */, uint256 /* minUsdcOut */) external {
+        _delegateToExtension();
+    }
 
-        // 6. transfer USDC fee to feeTo and the rest to user
-        _distributeUsdc(to, usdcToUser, feeInUsdc);
-        emit InstantRedeem(from, to, amt, usdcToUser, feeInUsdc, payout, redemptionFee, minUsdcOut);
+    /**
+     * @notice Executes an instant redeem signed by `intent.from`, sent by any relayer.
+     * @dev Same rules as instantRedeemAsset for the signer, whose USDO is burned.
+     */
+    function instantRedeemWithIntent(RedeemIntent calldata /* intent */, bytes calldata /* signature */) external {
+        _delegateToExtension();
     }
 
     /**
@@ -378,19 +312,40 @@ contract USDOExpressV2 is UUPSUpgradeable, AccessControlUpgradeable, USDOExpress
      * @param amt The requested amount of USDO to redeem.
      */
     function redeemRequest(address to, uint256 amt) external whenNotPausedRedeem {
-        address from = _msgSender();
-        if (!_kycList[from] || !_kycList[to]) revert USDOExpressNotInKycList(from, to);
-        _checkRedeemLimit(amt);
+        _redeemRequest(_msgSender(), _usdc, to, amt);
+    }
 
-        // Burn USDO from the user
-        _usdo.burn(from, amt);
-        _redemptionInfo[to] += amt;
+    /**
+     * @notice Queue a redemption request after caching a KYC attestation, of the caller or of the receiver.
+     * @dev Same rules as redeemRequest once the attestation is cached, see setKycSigner.
+     */
+    function redeemRequestWithKyc(
+        address /* to */,
+        uint256 /* amt */,
+        KycAttestation calldata /* attestation */,
+        bytes calldata /* signature */
+    ) external {
+        _delegateToExtension();
+    }
 
-        bytes32 id = keccak256(abi.encode(from, to, amt, block.timestamp, _redemptionQueue.length()));
-        bytes memory data = abi.encode(from, to, amt, id);
-        _redemptionQueue.pushBack(data);
+    /**
+     * @notice Redeems cUSDO shares of the caller and queues the USDO they give for a USDC redemption.
+     * @dev The caller approves USDOExpressV2 for the shares. Same rules as redeemRequest for the USDO received.
+     */
+    function redeemRequestFromCusdo(uint256 /* shares */, address /* to */) external {
+        _delegateToExtension();
+    }
 
-        emit AddToRedemptionQueue(from, to, amt, id);
+    /**
+     * @notice Queue a redemption request paid out in any supported asset.
+     * @dev The request is processed in queue order once the contract holds enough of the asset.
+     * @param asset The asset to receive, must be supported by the asset registry.
+     * @param to The address to redeem the asset to.
+     * @param amt The requested amount of USDO to redeem.
+     */
+    function redeemRequestAsset(address asset, address to, uint256 amt) external whenNotPausedRedeem {
+        if (!_assetRegistry.isAssetSupported(asset)) revert USDOExpressTokenNotSupported(asset);
+        _redeemRequest(_msgSender(), asset, to, amt);
     }
 
     /**
@@ -399,9 +354,9 @@ contract USDOExpressV2 is UUPSUpgradeable, AccessControlUpgradeable, USDOExpress
      */
     function redeem(uint256 amt) external whenNotPausedRedeem {
         address from = _msgSender();
-        if (!_kycList[from]) revert USDOExpressNotInKycList(from, from);
+        _checkKyc(from, from);
 
-        _checkRedeemLimit(amt);
+        _checkRedeem(from, amt);
         _usdo.burn(from, amt);
 
         (uint256 feeAmt, uint256 usdcAmt, ) = previewRedeem(amt, false);
@@ -411,88 +366,64 @@ contract USDOExpressV2 is UUPSUpgradeable, AccessControlUpgradeable, USDOExpress
     /**
      * @notice Cancel the first _len redemption requests in the queue.
      * @dev Only operators can call this function.
-     * @param _len The length of the cancel requests.
      */
-    function cancel(uint256 _len) external onlyRole(MAINTAINER_ROLE) {
-        if (_redemptionQueue.empty()) revert USDOExpressInvalidInput(0);
-        if (_len > _redemptionQueue.length()) revert USDOExpressInvalidInput(_len);
-
-        uint256 totalUsdo;
-        uint256 originalLen = _len;
+    function cancel(uint256 /* _len */) external {
+        _delegateToExtension();
+    }
 
-        while (_len > 0) {
-            bytes memory data = _redemptionQueue.popFront();
+    /**
+     * @notice Cancel a redemption request of the caller, wherever it sits in the queue.
+     * @dev The USDO not paid out yet is minted back to the caller, also while redemptions are paused.
+     */
+    function cancelRedemption(bytes32 /* id */) external {
+        _delegateToExtension();
+    }
 
-            (address sender, address receiver, uint256 usdoAmt, bytes32 prevId) = _decodeData(data);
+    /**
+     * @notice Cancel a redemption request by its ID, wherever it sits in the queue.
+     * @dev Only maintainers can call this function.
+     */
+    function cancelById(bytes32 /* id */) external {
+        _delegateToExtension();
+    }
 
-            unchecked {
-                totalUsdo += usdoAmt;
-                _redemptionInfo[receiver] -= usdoAmt;
-                _len--;
-            }
+    /**
+     * @notice Move the requests queued before the upgrade to the id-indexed queue, oldest first.
+     * @dev New requests are refused until all of them are moved, the ones already moved can be processed meanwhile.
+     */
+    function migrateRedemptionQueue(uint256 /* _len */) external {
+        _delegateToExtension();
+    }
 
-            // Mint USDO back to the user
-            _usdo.mint(sender, usdoAmt);
-            emit ProcessRedemptionCancel(sender, receiver, usdoAmt, prevId);
-        }
-        emit Cancel(originalLen, totalUsdo);
+    /**
+     * @notice Enable or disable partial fills of the redemption queue.
+     * @dev When enabled, processRedemptionQueue pays out the part of the head request the liquidity covers instead of
+     * stopping in front of it.
+     * @param enabled Whether partial fills are enabled.
+     */
+    function setPartialFill(bool enabled) external onlyMaintainer {
+        _partialFill = enabled;
+        emit UpdatePartialFill(enabled);
     }
 
     /**
      * @notice Process the redemption queue.
      * @dev Only operators can call this function.
-     * @param _len The length of the queue to process, 0 means process all.
-     */
-    function processRedemptionQueue(uint256 _len) external onlyRole(OPERATOR_ROLE) {
-        uint256 length = _redemptionQueue.length();
-        if (length == 0) revert USDOExpressInvalidInput(0);
-        if (_len > length) revert USDOExpressInvalidInput(_len);
-        if (_len == 0) _len = length;
-
-        uint256 totalRedeemAssets;
-        uint256 totalBurnUsdo;
-        uint256 totalFees;
-
-        for (uint count = 0; count < _len; ) {
-            bytes memory data = _redemptionQueue.front();
-            (address sender, address receiver, uint256 usdoAmt, bytes32 prevId) = _decodeData(data);
-
-            if (!_kycList[sender] || !_kycList[receiver]) revert USDOExpressNotInKycList(sender, receiver);
-
-            // Convert USDO to USDC amount
-            uint256 usdcAmt = convertToUnderlying(_usdc, usdoAmt);
-
-            // Check if we have enough USDC liquidity
-            uint256 availableLiquidity = getTokenBalance(_usdc);
-            if (usdcAmt > availableLiquidity) {
-                break; // Stop processing if not enough liquidity
-            }
-
-            // Calculate fees
-            uint256 feeInUsdc = txsFee(usdcAmt, TxType.REDEEM);
-            uint256 usdcToUser = usdcAmt - feeInUsdc;
-
-            // Remove from queue
-            _redemptionQueue.popFront();
-
-            unchecked {
-                ++count;
-                totalRedeemAssets += usdcToUser;
-                totalBurnUsdo += usdoAmt;
-                totalFees += feeInUsdc;
-                _redemptionInfo[receiver] -= usdoAmt;
-            }
-
-            _distributeUsdc(receiver, usdcToUser, feeInUsdc);
-            emit ProcessRedeem(sender, receiver, usdoAmt, usdcToUser, feeInUsdc, prevId);
-        }
+     */
+    function processRedemptionQueue(uint256 /* _len */) external {
+        _delegateToExtension();
+    }
 
-        emit ProcessRedemptionQueue(totalRedeemAssets, totalBurnUsdo, totalFees);
+    function updateTreasury(address treasury) external onlyMaintainer {
+        if (treasury == address(0)) revert USDOExpressZeroAddress();
+        _treasury = treasury;
+        emit UpdateTreasury(treasury);
     }
 
-    function _distributeUsdc(address to, uint256 usdcToUser, uint256 fee) private {
-        if (fee > 0) SafeERC20Upgradeable.safeTransfer(IERC20Upgradeable(_usdc), _feeTo, fee);
-        SafeERC20Upgradeable.safeTransfer(IERC20Upgradeable(_usdc), to, usdcToUser);
+    function updateFeeTo(address feeTo) external onlyMaintainer {
+        if (feeTo == address(0)) revert USDOExpressZeroAddress();
+        _feeTo = feeTo;
+        emit UpdateFeeTo(feeTo);
     }
 
     /**
@@ -503,35 +434,37 @@ contract USDOExpressV2 is UUPSUpgradeable, AccessControlUpgradeable, USDOExpress
      * @return usdoAmt The value of the token in USDO.
      */
     function convertFromUnderlying(address token, uint256 amt) public view returns (uint256 usdoAmt) {
-        return _assetRegistry.convertFromUnderlying(token, amt);
+        return _convertFromUnderlying(token, amt);
     }
 
     function convertToUnderlying(address token, uint256 usdoAmt) public view returns (uint256 amt) {
-        return _assetRegistry.convertToUnderlying(token, usdoAmt);
+        return _convertToUnderlying(token, usdoAmt);
     }
 
-    function updateTreasury(address treasury) external onlyRole(MAINTAINER_ROLE) {
-        if (treasury == address(0)) revert USDOExpressZeroAddress();
-        _treasury = treasury;
-        emit UpdateTreasury(treasury);
+    /**
+     * @notice The fee for an amount of an asset, at the asset's override or the global fee percentage.
+     */
+    function assetTxsFee(address asset, uint256 amt, TxType txType) public view returns (uint256 fee) {
+        return _assetTxsFee(asset, amt, txType);
     }
 
-    function updateFeeTo(address feeTo) external onlyRole(MAINTAINER_ROLE) {
-        if (feeTo == address(0)) revert USDOExpressZeroAddress();
-        _feeTo = feeTo;
-        emit UpdateFeeTo(feeTo);
+    /**
+     * @notice The fee percentage applied to an asset.
+     * @param asset The underlying asset.
+     * @param txType The transaction type.
+     * @return rate The asset's override if set, the global fee percentage otherwise.
+     */
+    function getFeeRate(address asset, TxType txType) public view returns (uint256 rate) {
+        return _getFeeRate(asset, txType);
     }
 
-    function txsFee(uint256 amt, TxType txType) public view returns (uint256 fee) {
-        uint256 feeRate;
-        if (txType == TxType.MINT) {
-            feeRate = _mintFeeRate;
-        } else if (txType == TxType.REDEEM) {
-            feeRate = _redeemFeeRate;
-        } else if (txType == TxType.INSTANT_REDEEM) {
-            feeRate = _instantRedeemFeeRate;
-        }
-        fee = (amt * feeRate) / _BPS_BASE;
+    /**
+     * @notice Retrieve the on-chain assets amount.
+     * @param token The address of the token.
+     * @return assetAmt Amount of onchain usdc.
+     */
+    function getTokenBalance(address token) public view returns (uint256 assetAmt) {
+        return _getTokenBalance(token);
     }
 
     /**
@@ -541,24 +474,25 @@ contract USDOExpressV2 is UUPSUpgradeable, AccessControlUpgradeable, USDOExpress
      * @return usdoAmtNext The amount of USDO minted with the next bonus multiplier.
      */
     function previewIssuance(uint256 usdoAmt) public view returns (uint256 usdoAmtCurr, uint256 usdoAmtNext) {
-        (uint256 curr, uint256 next) = getBonusMultiplier();
-        usdoAmtCurr = usdoAmt.mulDiv(curr, next);
-        usdoAmtNext = usdoAmtCurr.mulDiv(next, curr);
+        return _previewIssuance(usdoAmt);
     }
 
     function getBonusMultiplier() public view returns (uint256 curr, uint256 next) {
-        curr = _usdo.bonusMultiplier();
-        next = curr + _increment;
+        return _getBonusMultiplier();
     }
 
     function previewMint(
         address underlying,
         uint256 amt
     ) public view returns (uint256 netAmt, uint256 fee, uint256 usdoAmtCurr, uint256 usdoAmtNext) {
-        fee = txsFee(amt, TxType.MINT);
-        netAmt = amt - fee;
-        uint256 usdoAmt = convertFromUnderlying(underlying, netAmt);
-        (usdoAmtCurr, usdoAmtNext) = previewIssuance(usdoAmt);
+        return _previewMint(underlying, amt);
+    }
+
+    /**
+     * @notice The fee for an amount at the global fee percentage of the transaction type.
+     */
+    function txsFee(uint256 amt, TxType txType) public view returns (uint256 fee) {
+        fee = (amt * _globalFeeRate(txType)) / _BPS_BASE;
     }
 
     function previewRedeem(
@@ -566,74 +500,115 @@ contract USDOExpressV2 is UUPSUpgradeable, AccessControlUpgradeable, USDOExpress
         bool isInstant
     ) public view returns (uint256 feeAmt, uint256 usdcAmt, uint256 extraFee) {
         TxType txType = isInstant ? TxType.INSTANT_REDEEM : TxType.REDEEM;
-        uint256 feeInUsdo = txsFee(amt, txType);
+        uint256 feeInUsdo = _assetTxsFee(_usdc, amt, txType);
+        // USDOExpress fee in USDC
+        feeAmt = _convertToUnderlying(_usdc, feeInUsdo);
 
         if (isInstant && address(_redemptionContract) != address(0)) {
-            // For instant redemption, include fees from the redemption contract
-            uint256 usdcNeeded = convertToUnderlying(_usdc, amt);
-
-            // Get redemption preview (payout and redemption fee)
-            (uint256 redemptionPayout, uint256 redemptionFee, ) = _redemptionContract.previewRedeem(usdcNeeded);
-
-            // Calculate USDOExpress fee in USDC
-            feeAmt = convertToUnderlying(_usdc, feeInUsdo);
-
-            // Redemption contract fee (extraFee)
-            extraFee = redemptionFee;
+            // For instant redemption, the redemption contract pays out and charges its own fee (extraFee)
+            uint256 redemptionPayout;
+            (redemptionPayout, extraFee, ) = _redemptionContract.previewRedeem(_convertToUnderlying(_usdc, amt));
 
             // User receives: redemption payout - USDOExpress fee
             usdcAmt = redemptionPayout - feeAmt;
         } else {
             // For manual redemption, only USDOExpress fees apply
-            feeAmt = convertToUnderlying(_usdc, feeInUsdo);
-            usdcAmt = convertToUnderlying(_usdc, amt - feeInUsdo);
-            extraFee = 0; // No redemption contract fees for manual redemption
+            usdcAmt = _convertToUnderlying(_usdc, amt - feeInUsdo);
         }
     }
 
     /**
-     * @notice Set the redemption contract and token addresses.
-     * @param redemptionContract Address of the redemption contract.
+     * @notice Previews a redemption into any supported asset.
+     * @param asset The asset to receive.
+     * @param amt The amount of USDO to redeem.
+     * @param isInstant Whether the redemption is instant or queued.
+     * @return feeAmt The fee in the asset.
+     * @return assetAmt The amount of the asset received.
+     * @return extraFee The redemption contract fee, only charged on instant USDC redemptions.
      */
-    function setRedemption(address redemptionContract) external onlyRole(MAINTAINER_ROLE) {
-        _redemptionContract = IRedemption(redemptionContract);
-        emit SetRedemption(redemptionContract);
+    function previewRedeemAsset(
+        address asset,
+        uint256 amt,
+        bool isInstant
+    ) public view returns (uint256 feeAmt, uint256 assetAmt, uint256 extraFee) {
+        if (asset == _usdc) return previewRedeem(amt, isInstant);
+
+        uint256 grossAmt = _convertToUnderlying(asset, amt);
+        feeAmt = _assetTxsFee(asset, grossAmt, isInstant ? TxType.INSTANT_REDEEM : TxType.REDEEM);
+        assetAmt = grossAmt - feeAmt;
     }
 
     /**
-     * @notice Retrieve the on-chain assets amount.
-     * @param token The address of the token.
-     * @return assetAmt Amount of onchain usdc.
+     * @notice Set the redemption contract and token addresses.
+     * @param redemptionContract Address of the redemption contract.
      */
-    function getTokenBalance(address token) public view returns (uint256 assetAmt) {
-        return IERC20Upgradeable(token).balanceOf(address(this));
+    function setRedemption(address redemptionContract) external onlyMaintainer {
+        _redemptionContract = IRedemption(redemptionContract);
+        emit SetRedemption(redemptionContract);
     }
 
     /**
      * @notice Update the mint status of the account.
      */
-    function updateFirstDeposit(address account, bool flag) external onlyRole(MAINTAINER_ROLE) {
+    function updateFirstDeposit(address account, bool flag) external onlyMaintainer {
         _firstDeposit[account] = flag;
         emit UpdateFirstDeposit(account, flag);
     }
 
     /**
      * @notice Retrieve redemption queue information for a given index.
+     * @dev Requests cancelled by id stay in the queue as zero entries until processing or cancel reaches them.
      * @param _index Index to retrieve data from.
      * @return sender The sender's address.
      * @return receiver The receiver's address.
      * @return usdoAmt The number of USDO.
      * @return id The ID associated with the redemption.
+     * @return asset The asset the redemption is paid out in.
      */
     function getRedemptionQueueInfo(
         uint256 _index
-    ) external view returns (address sender, address receiver, uint256 usdoAmt, bytes32 id) {
-        if (_redemptionQueue.empty() || _index > _redemptionQueue.length() - 1) {
-            return (address(0), address(0), 0, 0x0);
+    ) external view returns (address sender, address receiver, uint256 usdoAmt, bytes32 id, address asset) {
+        if (_index >= _redemptionTail - _redemptionHead) return (address(0), address(0), 0, 0x0, address(0));
+
+        RedemptionRequest storage request = _redemptions[_redemptionHead + _index];
+        return (request.sender, request.receiver, request.usdoAmt, request.id, request.asset);
+    }
+
+    /**
+     * @notice Retrieve the position of a queued redemption request.
+     * @param id The ID of the redemption request.
+     * @return Index of the request, as taken by getRedemptionQueueInfo.
+     */
+    function getRedemptionIndex(bytes32 id) external view returns (uint256) {
+        return _findRedemption(id) - _redemptionHead;
+    }
+
+    /**
+     * @notice Retrieve the queued redemption requests of a sender, in queue order.
+     * @param _user Address of the sender.
+     * @return ids IDs of the requests.
+     */
+    function getUserRedemptions(address _user) external view returns (bytes32[] memory ids) {
+        uint256[] storage numbers = _userRedemptions[_user];
+        // Binary search for the first request not processed yet
+        uint256 low;
+        uint256 high = numbers.length;
+        while (low < high) {
+            uint256 mid = (low + high) / 2;
+            if (numbers[mid] < _redemptionHead) low = mid + 1;
+            else high = mid;
         }
 
-        bytes memory data = bytes(_redemptionQueue.at(_index));
-        (sender, receiver, usdoAmt, id) = _decodeData(data);
+        // Requests cancelled by id leave no id behind
+        uint256 count;
+        for (uint256 i = low; i < numbers.length; ++i) {
+            if (_redemptions[numbers[i]].id != 0x0) ++count;
+        }
+        ids = new bytes32[](count);
+        for (count = 0; low < numbers.length; ++low) {
+            bytes32 id = _redemptions[numbers[low]].id;
+            if (id != 0x0) ids[count++] = id;
+        }
     }
 
     /**
@@ -647,10 +622,32 @@ contract USDOExpressV2 is UUPSUpgradeable, AccessControlUpgradeable, USDOExpress
 
     /**
      * @notice Retrieve the length of the redemption queue.
+     * @dev Counts slots, not live requests. Requests cancelled by id keep their slot until processing or cancel reaches
+     * it, so this is the bound of the indexes taken by getRedemptionQueueInfo.
      * @return Length of the redemption queue.
      */
     function getRedemptionQueueLength() external view returns (uint256) {
-        return _redemptionQueue.length();
+        return _redemptionTail - _redemptionHead;
+    }
+
+    /**
+     * @notice Retrieve the KYC record of an account and the rules of its tier.
+     * @dev The default tier reports the global mint minimum and first deposit amount.
+     * @param account Address of the account.
+     * @return record Expiry and tier of the account, empty for accounts granted by grantKycInBulk.
+     * @return tier Rules applied to the mints and redeems of the account.
+     */
+    function getKycRecord(address account) external view returns (KycRecord memory record, KycTier memory tier) {
+        return (_kycRecords[account], _kycTierOf(account));
+    }
+
+    /**
+     * @notice Retrieve the rules of a KYC tier, e.g. the one a KYC attestation grants.
+     * @param id The tier id, 0 is the default tier.
+     * @return tier Rules of the tier, isSet is false for tiers following the global limits.
+     */
+    function getKycTier(uint32 id) external view returns (KycTier memory tier) {
+        return _kycTier(id);
     }
 
     /*//////////////////////////////////////////////////////////////
@@ -692,147 +689,154 @@ contract USDOExpressV2 is UUPSUpgradeable, AccessControlUpgradeable, USDOExpress
      * @notice Set the mint minimum in USDO equivalent.
      * @dev Amount should be in 18 decimals (USDO decimals) for accurate comparison across different underlying assets
      */
-    function setMintMinimum(uint256 mintMinimum) external onlyRole(MAINTAINER_ROLE) {
+    function setMintMinimum(uint256 mintMinimum) external onlyMaintainer {
         _setMintMinimum(mintMinimum);
     }
 
     /**
      * @notice Set the mint limit for a certain duration in seconds, etc 8400s.
      */
-    function setMintDuration(uint256 mintDuration) external onlyRole(MAINTAINER_ROLE) {
+    function setMintDuration(uint256 mintDuration) external onlyMaintainer {
         _setMintDuration(mintDuration);
     }
 
     /**
      * @notice Set the mint limit for a certain duration in seconds.
      */
-    function setMintLimit(uint256 mintLimit) external onlyRole(MAINTAINER_ROLE) {
+    function setMintLimit(uint256 mintLimit) external onlyMaintainer {
         _setMintLimit(mintLimit);
     }
 
+    /**
+     * @notice Set whether the mint limit is given back all at once per window, the default, or continuously.
+     */
+    function setMintLimiterMode(LimiterMode /* mode */) external {
+        _delegateToExtension();
+    }
+
     /**
      * @notice Set the redeem minimum in USDO.
      * @dev with 18 decimals
      */
-    function setRedeemMinimum(uint256 redeemMinimum) external onlyRole(MAINTAINER_ROLE) {
+    function setRedeemMinimum(uint256 redeemMinimum) external onlyMaintainer {
         _setRedeemMinimum(redeemMinimum);
     }
 
     /**
      * @notice Set the redeem duration for a certain duration in seconds, etc 8400s.
      */
-    function setRedeemDuration(uint256 redeemDuration) external onlyRole(MAINTAINER_ROLE) {
+    function setRedeemDuration(uint256 redeemDuration) external onlyMaintainer {
         _setRedeemDuration(redeemDuration);
     }
 
     /**
      * @notice Set the redeem limit for a certain duration in seconds.
      */
-    function setRedeemLimit(uint256 redeemLimit) external onlyRole(MAINTAINER_ROLE) {
+    function setRedeemLimit(uint256 redeemLimit) external onlyMaintainer {
         _setRedeemLimit(redeemLimit);
     }
 
+    /**
+     * @notice Set whether the redeem limit is given back all at once per window, the default, or continuously.
+     */
+    function setRedeemLimiterMode(LimiterMode /* mode */) external {
+        _delegateToExtension();
+    }
+
+    /**
+     * @notice Set the per-account limits of the accounts without their own, for the same durations as the global ones.
+     * @dev with 18 decimals, 0 disables the per-account limit
+     */
+    function setAccountLimitDefaults(uint256 /* mintLimit */, uint256 /* redeemLimit */) external {
+        _delegateToExtension();
+    }
+
+    /**
+     * @notice Give an account its own mint and redeem limits instead of the defaults.
+     * @dev with 18 decimals, 0 leaves the account to the global limits only
+     */
+    function setAccountLimits(address /* account */, uint256 /* mintLimit */, uint256 /* redeemLimit */) external {
+        _delegateToExtension();
+    }
+
+    /**
+     * @notice Put an account back on the default per-account limits.
+     */
+    function removeAccountLimits(address /* account */) external {
+        _delegateToExtension();
+    }
+
     /**
      * @notice Set the first deposit amount for the account.
      * @dev Amount should be in 18 decimals (USDO decimals) for accurate comparison across different underlying assets
      * @param amount The amount of the first deposit in USDO equivalent.
      */
-    function setFirstDepositAmount(uint256 amount) external onlyRole(MAINTAINER_ROLE) {
+    function setFirstDepositAmount(uint256 amount) external onlyMaintainer {
         _setFirstDepositAmount(amount);
     }
 
     /**
      * @notice Grant KYC to the address.
-     * @param _addresses The address to grant KYC.
+     * @dev Default tier without expiry, replacing the records set by setKycRecords.
      */
-    function grantKycInBulk(address[] calldata _addresses) external onlyRole(WHITELIST_ROLE) {
-        for (uint256 i = 0; i < _addresses.length; i++) {
-            _kycList[_addresses[i]] = true;
-        }
-        emit USDOKycGranted(_addresses);
+    function grantKycInBulk(address[] calldata /* _addresses */) external {
+        _delegateToExtension();
     }
 
     /**
      * @notice Revoke KYC to the address.
-     * @param _addresses The address to revoke KYC.
      */
-    function revokeKycInBulk(address[] calldata _addresses) external onlyRole(WHITELIST_ROLE) {
-        for (uint256 i = 0; i < _addresses.length; i++) {
-            _kycList[_addresses[i]] = false;
-        }
-        emit USDOKycRevoked(_addresses);
+    function revokeKycInBulk(address[] calldata /* _addresses */) external {
+        _delegateToExtension();
     }
 
     /**
-     * @dev transfer underlying from vault to treasury, only operator can call this function
-     * @param amt the amount of the token to transfer
+     * @notice Grant KYC to the accounts with an expiry and a tier, replacing their previous records.
+     * @dev An expiry of 0 never expires, the tier has to be set unless it is the default tier 0.
      */
-    function offRamp(uint256 amt) external onlyRole(OPERATOR_ROLE) {
-        SafeERC20Upgradeable.safeTransfer(IERC20Upgradeable(_usdc), _treasury, amt);
-        emit OffRamp(_treasury, amt);
+    function setKycRecords(address[] calldata /* accounts */, KycRecord[] calldata /* records */) external {
+        _delegateToExtension();
     }
 
-    /*//////////////////////////////////////////////////////////////
-                          INTERNAL FUNCTIONS
-    //////////////////////////////////////////////////////////////*/
-
     /**
-     * @dev Decodes a given data bytes into its components.
-     * @param _data Encoded data bytes.
-     * @return sender Sender's address.
-     * @return receiver Receiver's address.
-     * @return usdoAmt Number of USDO.
-     * @return prevId Previous ID.
+     * @notice Set the mint minimum, the first deposit amount and the per-transaction limits of a KYC tier.
+     * @dev with 18 decimals, tier 0 is the default tier and cannot be set
      */
-    function _decodeData(
-        bytes memory _data
-    ) internal pure returns (address sender, address receiver, uint256 usdoAmt, bytes32 prevId) {
-        (sender, receiver, usdoAmt, prevId) = abi.decode(_data, (address, address, uint256, bytes32));
+    function setKycTier(
+        uint32 /* tier */,
+        uint256 /* mintMinimum */,
+        uint256 /* firstDepositAmount */,
+        uint256 /* maxMintPerTx */,
+        uint256 /* maxRedeemPerTx */
+    ) external {
+        _delegateToExtension();
     }
 
     /**
-     * @notice Allows a whitelisted user to perform an instant mint.
-     * @param underlying The address of the token to mint USDO from.
-     * @param to The address to mint the USDO to.
-     * @param amt The supplied amount of the underlying token.
-     * @param user The end user to mint the USDO to.
+     * @notice Allow or disallow a compliance signer to grant KYC with signed attestations.
+     * @dev An attestation is EIP-712 typed data in the domain of the intents. It carries the next nonce of its
+     * account in _kycNonces, which every grant, revocation or record update bumps, so it cannot undo them.
      */
-    function _instantMintInternal(
-        address underlying,
-        address from,
-        address to,
-        address user,
-        uint256 amt
-    ) internal returns (uint256, uint256) {
-        // Convert underlying amount to USDO decimals for comparison
-        uint256 usdoEquivalent = convertFromUnderlying(underlying, amt);
-
-        // if the user has not deposited before, the first deposit amount should be set
-        // if the user has deposited before, the mint amount should be greater than the mint minimum
-        // do noted: the first deposit amount will be greater than the mint minimum
-        if (!_firstDeposit[user]) {
-            if (usdoEquivalent < _firstDepositAmount)
-                revert FirstDepositLessThanRequired(usdoEquivalent, _firstDepositAmount);
-            _firstDeposit[user] = true;
-        } else {
-            if (usdoEquivalent < _mintMinimum) revert MintLessThanMinimum(usdoEquivalent, _mintMinimum);
-        }
-
-        (uint256 netAmt, uint256 fee, uint256 usdoAmtCurr, ) = previewMint(underlying, amt);
-        _checkMintLimit(usdoAmtCurr);
-
-        // 2. transfer netAmt to treasury, and fee to feeTo
-        if (fee > 0) SafeERC20Upgradeable.safeTransferFrom(IERC20Upgradeable(underlying), from, _feeTo, fee);
-        SafeERC20Upgradeable.safeTransferFrom(IERC20Upgradeable(underlying), from, address(_treasury), netAmt);
-
-        _usdo.mint(to, usdoAmtCurr);
-        return (usdoAmtCurr, fee);
+    function setKycSigner(address /* signer */, bool /* allowed */) external {
+        _delegateToExtension();
     }
 
     /**
-     * @dev This empty reserved space is put in place to allow future versions to add new
-     * variables without shifting down storage in the inheritance chain.
-     * See https://docs.openzeppelin.com/contracts/4.x/upgradeable#storage_gaps
+     * @dev transfer underlying from vault to treasury, only operator can call this function
+     * @param amt the amount of the token to transfer
      */
-    uint256[50] private __gap;
+    function offRamp(uint256 amt) external onlyRole(OPERATOR_ROLE) {
+        SafeERC20Upgradeable.safeTransfer(IERC20Upgradeable(_usdc), _treasury, amt);
+        emit OffRamp(_treasury, amt);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                          INTERNAL FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    // The extension declares the same functions, the call data is forwarded as is
+    /// @custom:oz-upgrades-unsafe-allow-reachable delegatecall
+    function _delegateToExtension() private {
+        AddressUpgradeable.functionDelegateCall(_extension, msg.data);
+    }
 }
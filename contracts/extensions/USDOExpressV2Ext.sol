@@ -0,0 +1,641 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.18;
+
+import {ECDSAUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/cryptography/ECDSAUpgradeable.sol";
+import {SignatureCheckerUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/cryptography/SignatureCheckerUpgradeable.sol";
+import {IERC20PermitUpgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/IERC20PermitUpgradeable.sol";
+import "./USDOExpressV2Storage.sol";
+
+/**
+ * @title USDOExpressV2Ext
+ * @notice Functions of USDOExpressV2 that do not fit in its bytecode. It is deployed on its own and passed to the
+ * USDOExpressV2 constructor, which delegatecalls it, so they run on the storage of the USDOExpressV2 proxy. Called
+ * directly, they only see the empty storage of this contract, where nobody holds a role.
+ */
+contract USDOExpressV2Ext is USDOExpressV2Storage {
+    using DoubleQueueModified for DoubleQueueModified.BytesDeque;
+
+    // EIP-712 domain of the intents: name "USDOExpressV2", version "1", the USDOExpressV2 proxy as verifying contract
+    bytes32 private constant _DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+    bytes32 private constant _MINT_INTENT_TYPEHASH =
+        keccak256(
+            "MintIntent(address from,address underlying,uint256 amount,address recipient,uint256 minOut,uint256 nonce,uint256 deadline)"
+        );
+    bytes32 private constant _REDEEM_INTENT_TYPEHASH =
+        keccak256(
+            "RedeemIntent(address from,address underlying,uint256 amount,address recipient,uint256 minOut,uint256 nonce,uint256 deadline)"
+        );
+    bytes32 private constant _KYC_ATTESTATION_TYPEHASH =
+        keccak256("KycAttestation(address account,uint32 tier,uint64 expiry,uint256 nonce)");
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    /**
+     * @dev See {USDOExpressV2-setAssetFeeRate}.
+     * @param asset The underlying asset minted with or redeemed into.
+     * @param txType The transaction type the rate applies to.
+     * @param fee The fee percentage in base points.
+     */
+    function setAssetFeeRate(address asset, TxType txType, uint256 fee) external onlyMaintainer {
+        if (!_assetRegistry.isAssetSupported(asset)) revert USDOExpressTokenNotSupported(asset);
+        if (fee > _BPS_BASE) revert USDOExpressInvalidInput(fee);
+        _assetFeeRates[asset][txType] = AssetFeeRate({isSet: true, rate: fee});
+        emit UpdateAssetFeeRate(asset, txType, fee);
+    }
+
+    /**
+     * @dev See {USDOExpressV2-removeAssetFeeRate}.
+     * @param asset The underlying asset.
+     * @param txType The transaction type.
+     */
+    function removeAssetFeeRate(address asset, TxType txType) external onlyMaintainer {
+        delete _assetFeeRates[asset][txType];
+        emit RemoveAssetFeeRate(asset, txType);
+    }
+
+    /**
+     * @dev See {USDOExpressV2-migrateRedemptionQueue}.
+     * @param _len The number of requests to move, 0 means move all.
+     */
+    function migrateRedemptionQueue(uint256 _len) external onlyMaintainer {
+        uint256 length = _redemptionQueue.length();
+        if (_len == 0 || _len > length) _len = length;
+
+        for (uint256 i = 0; i < _len; ++i) {
+            // The bytes queue only ever held USDC redemptions
+            (address sender, address receiver, uint256 usdoAmt, bytes32 id) = _decodeData(_redemptionQueue.popFront());
+            _pushRedemption(sender, receiver, usdoAmt, id, _usdc);
+        }
+        emit MigrateRedemptionQueue(_len, length - _len);
+    }
+
+    /**
+     * @dev See {USDOExpressV2-cancel}.
+     * @param _len The length of the cancel requests.
+     */
+    function cancel(uint256 _len) external onlyMaintainer {
+        uint256 head = _redemptionHead;
+        uint256 length = _redemptionTail - head;
+        if (length == 0) revert USDOExpressInvalidInput(0);
+        if (_len > length) revert USDOExpressInvalidInput(_len);
+
+        uint256 totalUsdo;
+        uint256 end = head + _len;
+
+        for (; head < end; ++head) {
+            // Cancelled by id
+            if (_redemptions[head].sender == address(0)) continue;
+            unchecked {
+                totalUsdo += _refundRedemption(head);
+            }
+        }
+        _redemptionHead = head;
+        emit Cancel(_len, totalUsdo);
+    }
+
+    /**
+     * @dev See {USDOExpressV2-cancelRedemption}.
+     * @param id The ID of the redemption request.
+     */
+    function cancelRedemption(bytes32 id) external {
+        uint256 number = _findRedemption(id);
+        if (_redemptions[number].sender != _msgSender()) revert USDOExpressNotRedemptionSender(_msgSender(), id);
+        _refundRedemption(number);
+    }
+
+    /**
+     * @dev See {USDOExpressV2-cancelById}.
+     * @param id The ID of the redemption request.
+     */
+    function cancelById(bytes32 id) external onlyMaintainer {
+        _refundRedemption(_findRedemption(id));
+    }
+
+    /**
+     * @dev See {USDOExpressV2-processRedemptionQueue}.
+     * @param _len The length of the queue to process, 0 means process all.
+     */
+    function processRedemptionQueue(uint256 _len) external onlyRole(OPERATOR_ROLE) {
+        uint256 head = _redemptionHead;
+        uint256 length = _redemptionTail - head;
+        if (length == 0) revert USDOExpressInvalidInput(0);
+        if (_len > length) revert USDOExpressInvalidInput(_len);
+        if (_len == 0) _len = length;
+
+        uint256 totalRedeemAssets;
+        uint256 totalBurnUsdo;
+        uint256 totalFees;
+
+        for (; _len > 0; ) {
+            RedemptionRequest memory request = _redemptions[head];
+            if (request.sender == address(0)) {
+                // Cancelled by id
+                unchecked {
+                    ++head;
+                    --_len;
+                }
+                continue;
+            }
+
+            _checkKyc(request.sender, request.receiver);
+
+            // Convert USDO to the payout asset amount
+            uint256 assetAmt = _convertToUnderlying(request.asset, request.usdoAmt);
+            uint256 remainingUsdo;
+
+            // Check if we have enough liquidity in the payout asset
+            uint256 availableLiquidity = _getTokenBalance(request.asset);
+            if (assetAmt > availableLiquidity) {
+                if (!_partialFill) break; // Stop processing if not enough liquidity
+
+                // Pay out the part of the request the liquidity covers, the rest stays at the head.
+                // Priced from the redemption conversion, convertFromUnderlying is for mints.
+                uint256 filledUsdo = (request.usdoAmt * availableLiquidity) / assetAmt;
+                if (filledUsdo == 0) break;
+                remainingUsdo = request.usdoAmt - filledUsdo;
+                request.usdoAmt = filledUsdo;
+                assetAmt = _convertToUnderlying(request.asset, filledUsdo);
+            }
+
+            // Calculate fees
+            uint256 fee = _assetTxsFee(request.asset, assetAmt, TxType.REDEEM);
+            uint256 assetToUser = assetAmt - fee;
+
+            unchecked {
+                totalBurnUsdo += request.usdoAmt;
+                _redemptionInfo[request.receiver] -= request.usdoAmt;
+                _queuedUsdo[request.asset] -= request.usdoAmt;
+            }
+
+            _distribute(request.asset, request.receiver, assetToUser, fee);
+            if (request.asset == _usdc) {
+                unchecked {
+                    totalRedeemAssets += assetToUser;
+                    totalFees += fee;
+                }
+            }
+
+            if (remainingUsdo > 0) {
+                // Keep the id so the request can still be followed
+                _redemptions[head].usdoAmt = remainingUsdo;
+                emit PartialProcessRedeem(
+                    request.asset,
+                    request.sender,
+                    request.receiver,
+                    request.usdoAmt,
+                    assetToUser,
+                    fee,
+                    remainingUsdo,
+                    request.id
+                );
+                break;
+            }
+
+            if (request.asset == _usdc) {
+                emit ProcessRedeem(request.sender, request.receiver, request.usdoAmt, assetToUser, fee, request.id);
+            } else {
+                emit ProcessRedeemAsset(
+                    request.asset,
+                    request.sender,
+                    request.receiver,
+                    request.usdoAmt,
+                    assetToUser,
+                    fee,
+                    request.id
+                );
+            }
+
+            // Remove from queue
+            delete _redemptions[head];
+            unchecked {
+                ++head;
+                --_len;
+            }
+        }
+        _redemptionHead = head;
+
+        emit ProcessRedemptionQueue(totalRedeemAssets, totalBurnUsdo, totalFees);
+    }
+
+    /**
+     * @dev See {USDOExpressV2-instantMintWithPermit}.
+     * @param underlying The address of the token to mint USDO from, must implement ERC-2612.
+     * @param to The address to mint the USDO to.
+     * @param amt The supplied amount of the underlying token, also the permitted value.
+     * @param deadline Deadline of the permit.
+     * @param v Signature of the permit.
+     * @param r Signature of the permit.
+     * @param s Signature of the permit.
+     */
+    function instantMintWithPermit(
+        address underlying,
+        address to,
+        uint256 amt,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external whenNotPausedMint {
+        address from = _msgSender();
+        _usePermit(underlying, from, amt, deadline, v, r, s);
+        _instantMint(underlying, from, to, amt);
+    }
+
+    /**
+     * @dev See {USDOExpressV2-instantMintAndWrapWithPermit}.
+     * @param underlying The address of the token to mint USDO from, must implement ERC-2612.
+     * @param to The address to deposit the cUSDO for.
+     * @param amt The supplied amount of the underlying token, also the permitted value.
+     * @param deadline Deadline of the permit.
+     * @param v Signature of the permit.
+     * @param r Signature of the permit.
+     * @param s Signature of the permit.
+     */
+    function instantMintAndWrapWithPermit(
+        address underlying,
+        address to,
+        uint256 amt,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external whenNotPausedMint {
+        address from = _msgSender();
+        _usePermit(underlying, from, amt, deadline, v, r, s);
+        _instantMintAndWrap(underlying, from, to, amt);
+    }
+
+    /**
+     * @dev See {USDOExpressV2-instantMintWithIntent}.
+     * @param intent The signed mint intent.
+     * @param signature EIP-712 signature of the intent by `intent.from`, ERC-1271 when it is a contract.
+     */
+    function instantMintWithIntent(MintIntent calldata intent, bytes calldata signature) external whenNotPausedMint {
+        _useMintIntent(intent, signature);
+        _checkKyc(intent.from, intent.recipient);
+
+        (uint256 usdoAmtCurr, uint256 fee) = _instantMintInternal(
+            intent.underlying,
+            intent.from,
+            intent.recipient,
+            intent.recipient,
+            intent.amount
+        );
+        if (usdoAmtCurr < intent.minOut) revert InsufficientOutput(usdoAmtCurr, intent.minOut);
+        emit InstantMint(intent.underlying, intent.from, intent.recipient, intent.amount, usdoAmtCurr, fee);
+    }
+
+    /**
+     * @dev See {USDOExpressV2-instantRedeemWithIntent}.
+     * @param intent The signed redeem intent.
+     * @param signature EIP-712 signature of the intent by `intent.from`, ERC-1271 when it is a contract.
+     */
+    function instantRedeemWithIntent(
+        RedeemIntent calldata intent,
+        bytes calldata signature
+    ) external whenNotPausedRedeem {
+        _useRedeemIntent(intent, signature);
+        _instantRedeemAsset(intent.from, intent.underlying, intent.recipient, intent.amount, intent.minOut);
+    }
+
+    /**
+     * @dev See {USDOExpressV2-instantRedeemAsset}.
+     * @param asset The asset to receive, must be supported by the asset registry.
+     * @param to The address to redeem the asset to.
+     * @param amt The requested amount of USDO to redeem.
+     * @param minAmtOut Minimum asset amount to receive (slippage protection).
+     */
+    function instantRedeemAsset(
+        address asset,
+        address to,
+        uint256 amt,
+        uint256 minAmtOut
+    ) external whenNotPausedRedeem {
+        _instantRedeemAsset(_msgSender(), asset, to, amt, minAmtOut);
+    }
+
+    /**
+     * @dev See {USDOExpressV2-instantRedeemFromCusdo}.
+     * @param shares The cUSDO shares to redeem.
+     * @param to The address to redeem the USDC to.
+     * @param minUsdcOut Minimum USDC amount to receive (slippage protection).
+     */
+    function instantRedeemFromCusdo(uint256 shares, address to, uint256 minUsdcOut) external whenNotPausedRedeem {
+        address from = _msgSender();
+        _instantRedeemUsdc(from, to, _unwrapCusdo(from, shares), minUsdcOut);
+    }
+
+    /**
+     * @dev See {USDOExpressV2-redeemRequestFromCusdo}.
+     * @param shares The cUSDO shares to redeem.
+     * @param to The address to redeem the USDC to.
+     */
+    function redeemRequestFromCusdo(uint256 shares, address to) external whenNotPausedRedeem {
+        address from = _msgSender();
+        _redeemRequest(from, _usdc, to, _unwrapCusdo(from, shares));
+    }
+
+    /**
+     * @dev See {USDOExpressV2-instantMintWithKyc}.
+     * @param underlying The address of the token to mint USDO from.
+     * @param to The address to mint the USDO to.
+     * @param amt The supplied amount of the underlying token.
+     * @param attestation The KYC record signed by a compliance signer.
+     * @param signature EIP-712 signature of the attestation.
+     */
+    function instantMintWithKyc(
+        address underlying,
+        address to,
+        uint256 amt,
+        KycAttestation calldata attestation,
+        bytes calldata signature
+    ) external whenNotPausedMint {
+        _useKycAttestation(attestation, signature);
+        _instantMint(underlying, _msgSender(), to, amt);
+    }
+
+    /**
+     * @dev See {USDOExpressV2-instantRedeemSelfWithKyc}.
+     * @param to The address to redeem the USDC to.
+     * @param amt The requested amount of USDO to redeem.
+     * @param minUsdcOut Minimum USDC amount to receive (slippage protection).
+     * @param attestation The KYC record signed by a compliance signer.
+     * @param signature EIP-712 signature of the attestation.
+     */
+    function instantRedeemSelfWithKyc(
+        address to,
+        uint256 amt,
+        uint256 minUsdcOut,
+        KycAttestation calldata attestation,
+        bytes calldata signature
+    ) external whenNotPausedRedeem {
+        _useKycAttestation(attestation, signature);
+        _instantRedeemUsdc(_msgSender(), to, amt, minUsdcOut);
+    }
+
+    /**
+     * @dev See {USDOExpressV2-redeemRequestWithKyc}.
+     * @param to The address to redeem the USDC to.
+     * @param amt The requested amount of USDO to redeem.
+     * @param attestation The KYC record signed by a compliance signer.
+     * @param signature EIP-712 signature of the attestation.
+     */
+    function redeemRequestWithKyc(
+        address to,
+        uint256 amt,
+        KycAttestation calldata attestation,
+        bytes calldata signature
+    ) external whenNotPausedRedeem {
+        _useKycAttestation(attestation, signature);
+        _redeemRequest(_msgSender(), _usdc, to, amt);
+    }
+
+    /// @dev See {USDOExpressV2-setMintLimiterMode}.
+    function setMintLimiterMode(LimiterMode mode) external onlyMaintainer {
+        _setMintLimiterMode(mode);
+    }
+
+    /// @dev See {USDOExpressV2-setRedeemLimiterMode}.
+    function setRedeemLimiterMode(LimiterMode mode) external onlyMaintainer {
+        _setRedeemLimiterMode(mode);
+    }
+
+    /// @dev See {USDOExpressV2-setAccountLimitDefaults}.
+    function setAccountLimitDefaults(uint256 mintLimit, uint256 redeemLimit) external onlyMaintainer {
+        _setAccountLimitDefaults(mintLimit, redeemLimit);
+    }
+
+    /// @dev See {USDOExpressV2-setAccountLimits}.
+    function setAccountLimits(address account, uint256 mintLimit, uint256 redeemLimit) external onlyMaintainer {
+        _setAccountLimits(account, mintLimit, redeemLimit);
+    }
+
+    /// @dev See {USDOExpressV2-removeAccountLimits}.
+    function removeAccountLimits(address account) external onlyMaintainer {
+        _removeAccountLimits(account);
+    }
+
+    /**
+     * @dev See {USDOExpressV2-grantKycInBulk}.
+     * @param _addresses The address to grant KYC.
+     */
+    function grantKycInBulk(address[] calldata _addresses) external onlyRole(WHITELIST_ROLE) {
+        for (uint256 i = 0; i < _addresses.length; i++) {
+            _kycList[_addresses[i]] = true;
+            delete _kycRecords[_addresses[i]];
+            _kycNonces[_addresses[i]]++;
+        }
+        emit USDOKycGranted(_addresses);
+    }
+
+    /**
+     * @dev See {USDOExpressV2-revokeKycInBulk}.
+     * @param _addresses The address to revoke KYC.
+     */
+    function revokeKycInBulk(address[] calldata _addresses) external onlyRole(WHITELIST_ROLE) {
+        for (uint256 i = 0; i < _addresses.length; i++) {
+            _kycList[_addresses[i]] = false;
+            delete _kycRecords[_addresses[i]];
+            _kycNonces[_addresses[i]]++;
+        }
+        emit USDOKycRevoked(_addresses);
+    }
+
+    /**
+     * @dev See {USDOExpressV2-setKycRecords}.
+     * @param accounts The accounts to grant KYC.
+     * @param records The expiry and tier of each account.
+     */
+    function setKycRecords(
+        address[] calldata accounts,
+        KycRecord[] calldata records
+    ) external onlyRole(WHITELIST_ROLE) {
+        if (accounts.length != records.length) revert USDOExpressInvalidInput(records.length);
+
+        for (uint256 i = 0; i < accounts.length; i++) {
+            KycRecord calldata record = records[i];
+            if (record.tier != 0 && !_kycTiers[record.tier].isSet) revert USDOExpressKycTierNotSet(record.tier);
+
+            _kycList[accounts[i]] = true;
+            _kycRecords[accounts[i]] = record;
+            _kycNonces[accounts[i]]++;
+            emit UpdateKycRecord(accounts[i], record.expiry, record.tier);
+        }
+    }
+
+    /**
+     * @dev See {USDOExpressV2-setKycTier}.
+     * @param tier The tier id, not 0.
+     * @param mintMinimum Replaces _mintMinimum for the accounts of the tier.
+     * @param firstDepositAmount Replaces _firstDepositAmount for the accounts of the tier.
+     * @param maxMintPerTx The most USDO one mint can issue, 0 means no limit.
+     * @param maxRedeemPerTx The most USDO one redemption can burn, 0 means no limit.
+     */
+    function setKycTier(
+        uint32 tier,
+        uint256 mintMinimum,
+        uint256 firstDepositAmount,
+        uint256 maxMintPerTx,
+        uint256 maxRedeemPerTx
+    ) external onlyMaintainer {
+        if (tier == 0) revert USDOExpressInvalidInput(tier);
+        _kycTiers[tier] = KycTier(true, mintMinimum, firstDepositAmount, maxMintPerTx, maxRedeemPerTx);
+        emit UpdateKycTier(tier, mintMinimum, firstDepositAmount, maxMintPerTx, maxRedeemPerTx);
+    }
+
+    /**
+     * @dev See {USDOExpressV2-setKycSigner}.
+     * @param signer The compliance signer.
+     * @param allowed Whether its attestations grant KYC.
+     */
+    function setKycSigner(address signer, bool allowed) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (signer == address(0)) revert USDOExpressZeroAddress();
+        _kycSigners[signer] = allowed;
+        emit UpdateKycSigner(signer, allowed);
+    }
+
+    /// @dev USDOExpressV2 upgrades the proxy, the extension is never its implementation
+    function upgradeTo(address) public pure override {
+        revert();
+    }
+
+    /// @dev See {upgradeTo}.
+    function upgradeToAndCall(address, bytes memory) public payable override {
+        revert();
+    }
+
+    // Mint the USDO of a queued request back to its sender and delete it
+    function _refundRedemption(uint256 number) private returns (uint256 usdoAmt) {
+        RedemptionRequest storage request = _redemptions[number];
+        (address sender, address receiver) = (request.sender, request.receiver);
+        usdoAmt = request.usdoAmt;
+        _redemptionInfo[receiver] -= usdoAmt;
+        _queuedUsdo[request.asset] -= usdoAmt;
+
+        _usdo.mint(sender, usdoAmt);
+        emit ProcessRedemptionCancel(sender, receiver, usdoAmt, request.id);
+        // The queue keeps the number as an empty slot until the head moves past it
+        delete _redemptions[number];
+    }
+
+    /**
+     * @dev Decodes a given data bytes into its components.
+     * @param _data Encoded data bytes.
+     * @return sender Sender's address.
+     * @return receiver Receiver's address.
+     * @return usdoAmt Number of USDO.
+     * @return prevId Previous ID.
+     */
+    function _decodeData(
+        bytes memory _data
+    ) internal pure returns (address sender, address receiver, uint256 usdoAmt, bytes32 prevId) {
+        (sender, receiver, usdoAmt, prevId) = abi.decode(_data, (address, address, uint256, bytes32));
+    }
+
+    /**
+     * @dev Anyone can submit a permit once it is public, so a failed permit is not an error as long as the allowance
+     * it would have set is there.
+     */
+    function _usePermit(
+        address token,
+        address owner,
+        uint256 amt,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) private {
+        try IERC20PermitUpgradeable(token).permit(owner, address(this), amt, deadline, v, r, s) {} catch {
+            if (IERC20Upgradeable(token).allowance(owner, address(this)) < amt) {
+                revert USDOExpressPermitFailed(token, owner);
+            }
+        }
+    }
+
+    /**
+     * @dev The USDO of the shares goes to `from` and is redeemed from there, as if the holder had unwrapped it in a
+     * transaction of its own.
+     */
+    function _unwrapCusdo(address from, uint256 shares) private returns (uint256 usdoAmt) {
+        usdoAmt = _cusdo.redeem(shares, from, from);
+        emit RedeemFromCusdo(from, shares, usdoAmt);
+    }
+
+    function _useMintIntent(MintIntent calldata intent, bytes calldata signature) private {
+        // All members are static, abi.encode lays them out as the EIP-712 encodeData
+        bytes32 structHash = keccak256(abi.encode(_MINT_INTENT_TYPEHASH, intent));
+        _useIntent(intent.from, intent.nonce, intent.deadline, structHash, signature);
+    }
+
+    function _useRedeemIntent(RedeemIntent calldata intent, bytes calldata signature) private {
+        bytes32 structHash = keccak256(abi.encode(_REDEEM_INTENT_TYPEHASH, intent));
+        _useIntent(intent.from, intent.nonce, intent.deadline, structHash, signature);
+    }
+
+    /**
+     * @dev Accepts an EOA signature or an ERC-1271 one when `from` is a contract wallet. The nonces of a signer are
+     * used in order, so its intents execute in the order they were signed.
+     */
+    function _useIntent(
+        address from,
+        uint256 nonce,
+        uint256 deadline,
+        bytes32 structHash,
+        bytes calldata signature
+    ) private {
+        if (block.timestamp > deadline) revert USDOExpressIntentExpired(deadline);
+        if (nonce != _intentNonces[from]) revert USDOExpressInvalidIntentNonce(from, nonce);
+
+        bytes32 digest = ECDSAUpgradeable.toTypedDataHash(_domainSeparator(), structHash);
+        if (!SignatureCheckerUpgradeable.isValidSignatureNow(from, digest, signature)) {
+            revert USDOExpressInvalidIntentSignature(from);
+        }
+        _intentNonces[from] = nonce + 1;
+        emit IntentExecuted(from, nonce, _msgSender());
+    }
+
+    /**
+     * @dev Grants KYC as setKycRecords would. The nonce makes an attestation usable once, and only until the KYC
+     * of its account changes on-chain. A used attestation of a registered signer is skipped while the KYC still
+     * matches it, so sending it first, e.g. from the mempool, does not make the transaction that carried it revert.
+     */
+    function _useKycAttestation(KycAttestation calldata attestation, bytes calldata signature) private {
+        address account = attestation.account;
+        if (attestation.expiry != 0 && block.timestamp > attestation.expiry) {
+            revert USDOExpressKycExpired(account, attestation.expiry);
+        }
+        if (attestation.tier != 0 && !_kycTiers[attestation.tier].isSet) {
+            revert USDOExpressKycTierNotSet(attestation.tier);
+        }
+
+        bytes32 structHash = keccak256(abi.encode(_KYC_ATTESTATION_TYPEHASH, attestation));
+        (address signer, ) = ECDSAUpgradeable.tryRecover(
+            ECDSAUpgradeable.toTypedDataHash(_domainSeparator(), structHash),
+            signature
+        );
+        if (!_kycSigners[signer]) revert USDOExpressInvalidKycSigner(signer);
+
+        if (attestation.nonce != _kycNonces[account]) {
+            KycRecord storage record = _kycRecords[account];
+            if (_kycList[account] && record.expiry == attestation.expiry && record.tier == attestation.tier) return;
+            revert USDOExpressInvalidKycNonce(account, attestation.nonce);
+        }
+
+        _kycList[account] = true;
+        _kycRecords[account] = KycRecord(attestation.expiry, attestation.tier);
+        _kycNonces[account] = attestation.nonce + 1;
+        emit KycAttested(account, signer, attestation.expiry, attestation.tier, attestation.nonce);
+    }
+
+    // Delegatecalled, address(this) is the USDOExpressV2 proxy
+    function _domainSeparator() private view returns (bytes32) {
+        return
+            keccak256(
+                abi.encode(_DOMAIN_TYPEHASH, keccak256("USDOExpressV2"), keccak256("1"), block.chainid, address(this))
+            );
+    }
+}
@@ -0,0 +1,588 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.18;
+
+import {UUPSUpgradeable} from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import {AccessControlUpgradeable} from "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import "./USDOExpressPausable.sol";
+import "./USDOMintRedeemLimiterV2.sol";
+import "./DoubleQueueModified.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC20/utils/SafeERC20Upgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/math/MathUpgradeable.sol";
+
+import {IUSDO} from "../interfaces/IUSDO.sol";
+import {ICUSDO} from "../interfaces/ICUSDO.sol";
+import "../interfaces/IRedemption.sol";
+import "../interfaces/IAssetRegistry.sol";
+
+enum TxType {
+    MINT,
+    REDEEM,
+    INSTANT_REDEEM
+}
+
+/**
+ * @title USDOExpressV2Storage
+ * @notice Storage, events, errors and the helpers of USDOExpressV2, shared with USDOExpressV2Ext which runs on the
+ * same storage.
+ */
+abstract contract USDOExpressV2Storage is
+    UUPSUpgradeable,
+    AccessControlUpgradeable,
+    USDOExpressPausable,
+    USDOMintRedeemLimiter
+{
+    using MathUpgradeable for uint256;
+    using DoubleQueueModified for DoubleQueueModified.BytesDeque;
+
+    // Roles
+    bytes32 public constant MULTIPLIER_ROLE = keccak256("MULTIPLIER_ROLE");
+    bytes32 public constant PAUSE_ROLE = keccak256("PAUSE_ROLE");
+    bytes32 public constant WHITELIST_ROLE = keccak256("WHITELIST_ROLE");
+    bytes32 public constant UPGRADE_ROLE = keccak256("UPGRADE_ROLE");
+    bytes32 public constant MAINTAINER_ROLE = keccak256("MAINTAINER_ROLE");
+    bytes32 public constant OPERATOR_ROLE = keccak256("OPERATOR_ROLE");
+
+    // APY in base points, scaled by 1e4 (e.g., 100 = 1%)
+    uint256 public _apy; // 500 => 5%
+
+    // fee rate for mint, scaled by 1e4, e.g., 100 stands for 1%
+    uint256 public _mintFeeRate;
+    uint256 public _redeemFeeRate;
+
+    // constants for base points and scaling
+    uint256 internal constant _BPS_BASE = 1e4;
+    uint256 internal constant _BASE = 1e18;
+
+    // daily bonus multiplier increment, scaled by 1e18
+    uint256 public _increment;
+
+    // The last time the bonus multiplier was updated
+    uint256 public _lastUpdateTS;
+
+    // Time buffer for the operator to update the bonus multiplier
+    uint256 public _timeBuffer;
+
+    // core token addresses
+    IUSDO public _usdo;
+    address public _usdc;
+
+    // #previous: _tbill
+    address public RESERVE1;
+
+    // the address to receive the tokens
+    address public _treasury;
+    // the address to receive the fees
+    address public _feeTo;
+
+    // Asset registry for pluggable asset management  #previous: _buidl;
+    IAssetRegistry public _assetRegistry;
+
+    // for instant redeem - pluggable redemption contract, #previous: _buidlRedemption
+    IRedemption public _redemptionContract;
+
+    // cUSDO contract , #previous: _buidlTreasury
+    ICUSDO public _cusdo;
+
+    // check if the user has deposited before
+    mapping(address => bool) public _firstDeposit;
+
+    // kyc list
+    mapping(address => bool) public _kycList;
+
+    // Queue for redemption requests
+    DoubleQueueModified.BytesDeque internal _redemptionQueue;
+
+    // Track redemption amounts for users in the queue
+    mapping(address => uint256) internal _redemptionInfo;
+
+    // fee rate for instant redeem, scaled by 1e4, e.g., 100 stands for 1%
+    uint256 public _instantRedeemFeeRate;
+
+    // Per-asset fee rate replacing the global rate of a TxType, scaled by 1e4
+    struct AssetFeeRate {
+        bool isSet;
+        uint256 rate;
+    }
+
+    // asset => tx type => fee rate override
+    mapping(address => mapping(TxType => AssetFeeRate)) internal _assetFeeRates;
+
+    // pay out the head request in part when the liquidity does not cover all of it
+    bool public _partialFill;
+
+    // request id => queue number of the request in _redemptions
+    mapping(bytes32 => uint256) internal _redemptionIndex;
+
+    // Redemption request in the id-indexed queue
+    struct RedemptionRequest {
+        address sender;
+        address receiver;
+        address asset;
+        uint256 usdoAmt;
+        bytes32 id;
+    }
+
+    // queue number => request, the requests from _redemptionHead up to _redemptionTail are queued and the ones
+    // cancelled by id are deleted. Replaces _redemptionQueue, which only holds requests not migrated yet
+    mapping(uint256 => RedemptionRequest) internal _redemptions;
+    uint256 internal _redemptionHead;
+    uint256 internal _redemptionTail;
+
+    // sender => queue numbers of all their requests in ascending order, the ones below _redemptionHead are gone
+    mapping(address => uint256[]) internal _userRedemptions;
+
+    // Mint signed by `from` and sent by any relayer, minOut is the minimum USDO minted
+    struct MintIntent {
+        address from;
+        address underlying;
+        uint256 amount;
+        address recipient;
+        uint256 minOut;
+        uint256 nonce;
+        uint256 deadline;
+    }
+
+    // Instant redeem signed by `from` and sent by any relayer. underlying is the asset paid out, amount the USDO
+    // burned and minOut the minimum amount of the asset received
+    struct RedeemIntent {
+        address from;
+        address underlying;
+        uint256 amount;
+        address recipient;
+        uint256 minOut;
+        uint256 nonce;
+        uint256 deadline;
+    }
+
+    // signer => nonce its next mint or redeem intent has to carry
+    mapping(address => uint256) public _intentNonces;
+
+    // Verification of an account in _kycList, valid up to and including `expiry`, 0 never expires
+    struct KycRecord {
+        uint64 expiry;
+        uint32 tier;
+    }
+
+    // Mint and redeem rules of a KYC tier in USDO decimals, a per-transaction limit of 0 means no limit. Tier 0 is
+    // the default tier: it uses _mintMinimum and _firstDepositAmount and has no per-transaction limits
+    struct KycTier {
+        bool isSet;
+        uint256 mintMinimum;
+        uint256 firstDepositAmount;
+        uint256 maxMintPerTx;
+        uint256 maxRedeemPerTx;
+    }
+
+    // account => KYC record, accounts granted by grantKycInBulk have none: default tier, no expiry
+    mapping(address => KycRecord) internal _kycRecords;
+
+    // tier id => rules
+    mapping(uint32 => KycTier) internal _kycTiers;
+
+    // KYC record of `account` signed by a compliance signer, cached on the first call it is passed to
+    struct KycAttestation {
+        address account;
+        uint32 tier;
+        uint64 expiry;
+        uint256 nonce;
+    }
+
+    // compliance signers whose attestations grant KYC
+    mapping(address => bool) public _kycSigners;
+
+    // account => nonce its next attestation has to carry, bumped whenever its KYC changes
+    mapping(address => uint256) public _kycNonces;
+
+    // payout asset => USDO of the queued requests paid out in it, instant redemptions leave the asset held for them
+    mapping(address => uint256) public _queuedUsdo;
+
+    // Events
+    event UpdateAPY(uint256 apy, uint256 increment);
+    event UpdateCusdo(address cusdo);
+    event UpdateMintFeeRate(uint256 fee);
+    event UpdateRedeemFeeRate(uint256 fee);
+    event UpdateInstantRedeemFee(uint256 fee);
+    event UpdateAssetFeeRate(address indexed asset, TxType txType, uint256 fee);
+    event RemoveAssetFeeRate(address indexed asset, TxType txType);
+    event UpdateTreasury(address treasury);
+    event UpdateFeeTo(address feeTo);
+    event UpdateTimeBuffer(uint256 timeBuffer);
+    event UpdatePartialFill(bool enabled);
+    event InstantMint(
+        address indexed underlying,
+        address indexed from,
+        address indexed to,
+        uint256 reqAmt,
+        uint256 receiveAmt,
+        uint256 fee
+    );
+    event InstantMintAndWrap(
+        address indexed underlying,
+        address indexed from,
+        address indexed to,
+        uint256 reqAmt,
+        uint256 usdoAmt,
+        uint256 cusdoAmt,
+        uint256 fee
+    );
+    event USDOKycGranted(address[] addresses);
+    event USDOKycRevoked(address[] addresses);
+    event UpdateKycRecord(address indexed account, uint64 expiry, uint32 tier);
+    event UpdateKycSigner(address indexed signer, bool allowed);
+    event KycAttested(address indexed account, address indexed signer, uint64 expiry, uint32 tier, uint256 nonce);
+    event UpdateKycTier(
+        uint32 indexed tier,
+        uint256 mintMinimum,
+        uint256 firstDepositAmount,
+        uint256 maxMintPerTx,
+        uint256 maxRedeemPerTx
+    );
+
+    event InstantRedeem(
+        address indexed from,
+        address indexed to,
+        uint256 reqAmt,
+        uint256 receiveAmt,
+        uint256 fee,
+        uint256 payout,
+        uint256 usycFee,
+        uint256 minUsdcOut
+    );
+    event InstantRedeemAsset(
+        address indexed asset,
+        address indexed from,
+        address indexed to,
+        uint256 reqAmt,
+        uint256 receiveAmt,
+        uint256 fee,
+        uint256 minAmtOut
+    );
+    event RedeemFromCusdo(address indexed from, uint256 shares, uint256 usdoAmt);
+    event ManualRedeem(address indexed from, uint256 reqAmt, uint256 receiveAmt, uint256 fee);
+    event UpdateFirstDeposit(address indexed account, bool flag);
+
+    // Queue-related events
+    event AddToRedemptionQueue(address indexed from, address indexed to, uint256 usdoAmt, bytes32 id);
+    event ProcessRedeem(
+        address indexed from,
+        address indexed to,
+        uint256 usdoAmt,
+        uint256 usdcAmt,
+        uint256 fee,
+        bytes32 id
+    );
+    event ProcessRedeemAsset(
+        address indexed asset,
+        address indexed from,
+        address indexed to,
+        uint256 usdoAmt,
+        uint256 assetAmt,
+        uint256 fee,
+        bytes32 id
+    );
+    event PartialProcessRedeem(
+        address indexed asset,
+        address indexed from,
+        address indexed to,
+        uint256 usdoAmt,
+        uint256 assetAmt,
+        uint256 fee,
+        uint256 remainingUsdo,
+        bytes32 id
+    );
+    // totalRedeemAssets and totalFees count the USDC payouts, other assets are reported by ProcessRedeemAsset
+    event ProcessRedemptionQueue(uint256 totalRedeemAssets, uint256 totalBurnUsdo, uint256 totalFees);
+    event MigrateRedemptionQueue(uint256 moved, uint256 remaining);
+    event ProcessRedemptionCancel(address indexed from, address indexed to, uint256 usdoAmt, bytes32 id);
+    event Cancel(uint256 len, uint256 totalUsdo);
+    event SetRedemption(address redemptionContract);
+    event AssetRegistryUpdated(address indexed newRegistry);
+    event OffRamp(address indexed to, uint256 amount);
+    event IntentExecuted(address indexed from, uint256 nonce, address indexed relayer);
+
+    error USDOExpressTooEarly(uint256 amount);
+    error USDOExpressZeroAddress();
+    error USDOExpressTokenNotSupported(address token);
+    error USDOExpressReceiveUSDCFailed(uint256 amount, uint256 received);
+
+    error MintLessThanMinimum(uint256 amount, uint256 minimum);
+    error TotalSupplyCapExceeded();
+    error FirstDepositLessThanRequired(uint256 amount, uint256 minimum);
+    error USDOExpressNotInKycList(address from, address to);
+    error USDOExpressInvalidInput(uint256 input);
+    error USDOExpressInsufficientLiquidity(uint256 required, uint256 available);
+    error InsufficientOutput(uint256 received, uint256 minimum);
+    error USDOExpressRedemptionNotFound(bytes32 id);
+    error USDOExpressNotRedemptionSender(address caller, bytes32 id);
+    error USDOExpressQueueMigrationPending(uint256 remaining);
+    error USDOExpressIntentExpired(uint256 deadline);
+    error USDOExpressInvalidIntentNonce(address from, uint256 nonce);
+    error USDOExpressInvalidIntentSignature(address from);
+    error USDOExpressPermitFailed(address token, address owner);
+    error USDOExpressKycExpired(address account, uint256 expiry);
+    error USDOExpressKycTierNotSet(uint32 tier);
+    error USDOExpressInvalidKycNonce(address account, uint256 nonce);
+    error USDOExpressInvalidKycSigner(address signer);
+    error MintTxLimitExceeded(uint256 amount, uint256 limit);
+    error RedeemTxLimitExceeded(uint256 amount, uint256 limit);
+
+    modifier onlyMaintainer() {
+        _checkMaintainer();
+        _;
+    }
+
+    function _checkMaintainer() internal view {
+        _checkRole(MAINTAINER_ROLE);
+    }
+
+    function _authorizeUpgrade(address) internal override onlyRole(UPGRADE_ROLE) {}
+
+    // Append a request to the queue and to the indexes by id and by sender
+    function _pushRedemption(address sender, address receiver, uint256 usdoAmt, bytes32 id, address asset) internal {
+        uint256 number = _redemptionTail++;
+        _redemptions[number] = RedemptionRequest(sender, receiver, asset, usdoAmt, id);
+        _userRedemptions[sender].push(number);
+        _redemptionIndex[id] = number;
+        _queuedUsdo[asset] += usdoAmt;
+    }
+
+    // Queue number of a queued request
+    function _findRedemption(bytes32 id) internal view returns (uint256 number) {
+        number = _redemptionIndex[id];
+        // Processed and cancelled requests are deleted
+        if (id == 0x0 || _redemptions[number].id != id) revert USDOExpressRedemptionNotFound(id);
+    }
+
+    function _redeemRequest(address from, address asset, address to, uint256 amt) internal {
+        // Requests queued before the upgrade go first, they have to be migrated to keep the queue order
+        if (!_redemptionQueue.empty()) revert USDOExpressQueueMigrationPending(_redemptionQueue.length());
+        _checkKyc(from, to);
+        _checkRedeem(from, amt);
+
+        // Burn USDO from the user
+        _usdo.burn(from, amt);
+        _redemptionInfo[to] += amt;
+
+        bytes32 id = keccak256(abi.encode(from, to, amt, block.timestamp, _redemptionTail));
+        _pushRedemption(from, to, amt, id, asset);
+
+        emit AddToRedemptionQueue(from, to, amt, id);
+    }
+
+    // Public as convertFromUnderlying etc. in USDOExpressV2 only, the extension has no use for their selectors
+    function _convertFromUnderlying(address token, uint256 amt) internal view returns (uint256 usdoAmt) {
+        return _assetRegistry.convertFromUnderlying(token, amt);
+    }
+
+    function _convertToUnderlying(address token, uint256 usdoAmt) internal view returns (uint256 amt) {
+        return _assetRegistry.convertToUnderlying(token, usdoAmt);
+    }
+
+    function _assetTxsFee(address asset, uint256 amt, TxType txType) internal view returns (uint256 fee) {
+        fee = (amt * _getFeeRate(asset, txType)) / _BPS_BASE;
+    }
+
+    // The asset's override if set, the global fee percentage otherwise
+    function _getFeeRate(address asset, TxType txType) internal view returns (uint256 rate) {
+        AssetFeeRate memory assetRate = _assetFeeRates[asset][txType];
+        return assetRate.isSet ? assetRate.rate : _globalFeeRate(txType);
+    }
+
+    function _getTokenBalance(address token) internal view returns (uint256 assetAmt) {
+        return IERC20Upgradeable(token).balanceOf(address(this));
+    }
+
+    function _previewIssuance(uint256 usdoAmt) internal view returns (uint256 usdoAmtCurr, uint256 usdoAmtNext) {
+        (uint256 curr, uint256 next) = _getBonusMultiplier();
+        usdoAmtCurr = usdoAmt.mulDiv(curr, next);
+        usdoAmtNext = usdoAmtCurr.mulDiv(next, curr);
+    }
+
+    function _getBonusMultiplier() internal view returns (uint256 curr, uint256 next) {
+        curr = _usdo.bonusMultiplier();
+        next = curr + _increment;
+    }
+
+    function _previewMint(
+        address underlying,
+        uint256 amt
+    ) internal view returns (uint256 netAmt, uint256 fee, uint256 usdoAmtCurr, uint256 usdoAmtNext) {
+        fee = _assetTxsFee(underlying, amt, TxType.MINT);
+        netAmt = amt - fee;
+        uint256 usdoAmt = _convertFromUnderlying(underlying, netAmt);
+        (usdoAmtCurr, usdoAmtNext) = _previewIssuance(usdoAmt);
+    }
+
+    function _distribute(address asset, address to, uint256 amtToUser, uint256 fee) internal {
+        if (fee > 0) SafeERC20Upgradeable.safeTransfer(IERC20Upgradeable(asset), _feeTo, fee);
+        SafeERC20Upgradeable.safeTransfer(IERC20Upgradeable(asset), to, amtToUser);
+    }
+
+    function _globalFeeRate(TxType txType) internal view returns (uint256 feeRate) {
+        if (txType == TxType.MINT) {
+            feeRate = _mintFeeRate;
+        } else if (txType == TxType.REDEEM) {
+            feeRate = _redeemFeeRate;
+        } else if (txType == TxType.INSTANT_REDEEM) {
+            feeRate = _instantRedeemFeeRate;
+        }
+    }
+
+    function _checkKyc(address from, address to) internal view {
+        if (!_kycList[from] || !_kycList[to]) revert USDOExpressNotInKycList(from, to);
+        _checkKycExpiry(from);
+        _checkKycExpiry(to);
+    }
+
+    function _checkKycExpiry(address account) private view {
+        uint256 expiry = _kycRecords[account].expiry;
+        if (expiry != 0 && block.timestamp > expiry) revert USDOExpressKycExpired(account, expiry);
+    }
+
+    // Rules of the KYC tier of `account`
+    function _kycTierOf(address account) internal view returns (KycTier memory tier) {
+        return _kycTier(_kycRecords[account].tier);
+    }
+
+    // Rules of tier `id`, tiers that are not set fall back to the global minimums
+    function _kycTier(uint32 id) internal view returns (KycTier memory tier) {
+        tier = _kycTiers[id];
+        if (!tier.isSet) {
+            tier.mintMinimum = _mintMinimum;
+            tier.firstDepositAmount = _firstDepositAmount;
+        }
+    }
+
+    // Per-transaction limit of the tier of `from`, then the redeem limits
+    function _checkRedeem(address from, uint256 amt) internal {
+        uint256 limit = _kycTierOf(from).maxRedeemPerTx;
+        if (limit > 0 && amt > limit) revert RedeemTxLimitExceeded(amt, limit);
+        _checkRedeemLimit(from, amt);
+    }
+
+    function _instantRedeemAsset(address from, address asset, address to, uint256 amt, uint256 minAmtOut) internal {
+        if (asset == _usdc) {
+            _instantRedeemUsdc(from, to, amt, minAmtOut);
+            return;
+        }
+
+        _checkKyc(from, to);
+        _checkRedeem(from, amt);
+
+        _usdo.burn(from, amt);
+
+        uint256 assetAmt = _convertToUnderlying(asset, amt);
+        // The balance pays the queued requests first, an instant redemption must not jump the queue
+        uint256 available = _getTokenBalance(asset);
+        uint256 queued = _convertToUnderlying(asset, _queuedUsdo[asset]);
+        available = available > queued ? available - queued : 0;
+        if (assetAmt > available) revert USDOExpressInsufficientLiquidity(assetAmt, available);
+
+        uint256 fee = _assetTxsFee(asset, assetAmt, TxType.INSTANT_REDEEM);
+        uint256 assetToUser = assetAmt - fee;
+        if (minAmtOut > 0 && assetToUser < minAmtOut) {
+            revert InsufficientOutput(assetToUser, minAmtOut);
+        }
+
+        _distribute(asset, to, assetToUser, fee);
+        emit InstantRedeemAsset(asset, from, to, amt, assetToUser, fee, minAmtOut);
+    }
+
+    function _instantRedeemUsdc(address from, address to, uint256 amt, uint256 minUsdcOut) internal {
+        _checkKyc(from, to);
+        _checkRedeem(from, amt);
+
+        // 1. burn the USDO
+        _usdo.burn(from, amt);
+
+        // 2. calculate the USDO amount into USDC and request redemption
+        uint256 usdcNeeded = _convertToUnderlying(_usdc, amt);
+
+        // 3. redeem through the redemption contract and process
+        (uint256 payout, uint256 redemptionFee, ) = _redemptionContract.redeemFor(from, usdcNeeded);
+
+        // 4. calculate fees
+        uint256 feeInUsdc = _assetTxsFee(_usdc, usdcNeeded, TxType.INSTANT_REDEEM);
+        uint256 usdcToUser = payout - feeInUsdc;
+
+        // 5. slippage protection
+        if (minUsdcOut > 0 && usdcToUser < minUsdcOut) {
+            revert InsufficientOutput(usdcToUser, minUsdcOut);
+        }
+
+        // 6. transfer USDC fee to feeTo and the rest to user
+        _distribute(_usdc, to, usdcToUser, feeInUsdc);
+        emit InstantRedeem(from, to, amt, usdcToUser, feeInUsdc, payout, redemptionFee, minUsdcOut);
+    }
+
+    /**
+     * @notice Allows a whitelisted user to perform an instant mint.
+     * @param underlying The address of the token to mint USDO from.
+     * @param to The address to mint the USDO to.
+     * @param amt The supplied amount of the underlying token.
+     * @param user The end user to mint the USDO to.
+     */
+    function _instantMintInternal(
+        address underlying,
+        address from,
+        address to,
+        address user,
+        uint256 amt
+    ) internal returns (uint256, uint256) {
+        // Convert underlying amount to USDO decimals for comparison
+        uint256 usdoEquivalent = _convertFromUnderlying(underlying, amt);
+        // The minimums and the per-transaction limit come from the KYC tier of the account the first deposit is
+        // tracked on
+        KycTier memory tier = _kycTierOf(user);
+
+        // if the user has not deposited before, the first deposit amount should be set
+        // if the user has deposited before, the mint amount should be greater than the mint minimum
+        // do noted: the first deposit amount will be greater than the mint minimum
+        if (!_firstDeposit[user]) {
+            if (usdoEquivalent < tier.firstDepositAmount)
+                revert FirstDepositLessThanRequired(usdoEquivalent, tier.firstDepositAmount);
+            _firstDeposit[user] = true;
+        } else {
+            if (usdoEquivalent < tier.mintMinimum) revert MintLessThanMinimum(usdoEquivalent, tier.mintMinimum);
+        }
+
+        (uint256 netAmt, uint256 fee, uint256 usdoAmtCurr, ) = _previewMint(underlying, amt);
+        if (tier.maxMintPerTx > 0 && usdoAmtCurr > tier.maxMintPerTx) {
+            revert MintTxLimitExceeded(usdoAmtCurr, tier.maxMintPerTx);
+        }
+        _checkMintLimit(from, usdoAmtCurr);
+
+        // 2. transfer netAmt to treasury, and fee to feeTo
+        if (fee > 0) SafeERC20Upgradeable.safeTransferFrom(IERC20Upgradeable(underlying), from, _feeTo, fee);
+        SafeERC20Upgradeable.safeTransferFrom(IERC20Upgradeable(underlying), from, address(_treasury), netAmt);
+
+        _usdo.mint(to, usdoAmtCurr);
+        return (usdoAmtCurr, fee);
+    }
+
+    function _instantMint(address underlying, address from, address to, uint256 amt) internal {
+        _checkKyc(from, to);
+
+        (uint256 usdoAmtCurr, uint256 fee) = _instantMintInternal(underlying, from, to, to, amt);
+        emit InstantMint(underlying, from, to, amt, usdoAmtCurr, fee);
+    }
+
+    function _instantMintAndWrap(address underlying, address from, address to, uint256 amt) internal {
+        _checkKyc(from, to);
+
+        (uint256 usdoAmtCurr, uint256 fee) = _instantMintInternal(underlying, from, address(this), to, amt);
+
+        _usdo.approve(address(_cusdo), usdoAmtCurr);
+        uint256 cusdoAmt = _cusdo.deposit(usdoAmtCurr, to);
+
+        emit InstantMint(underlying, from, to, amt, usdoAmtCurr, fee);
+        emit InstantMintAndWrap(underlying, from, to, amt, usdoAmtCurr, cusdoAmt, fee);
+    }
+
+    /**
+     * @dev This empty reserved space is put in place to allow future versions to add new
+     * variables without shifting down storage in the inheritance chain.
+     * See https://docs.openzeppelin.com/contracts/4.x/upgradeable#storage_gaps
+     */
+    uint256[37] private __gap;
+}
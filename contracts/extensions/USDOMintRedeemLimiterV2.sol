@@ -13,6 +13,14 @@ struct USDOMintRedeemLimiterCfg {
     uint256 firstDepositAmount;
 }
 
+// How the used amount of a rate limit is given back
+enum LimiterMode {
+    // All of it at once when the duration has passed since the window started
+    FIXED_WINDOW,
+    // Continuously, the limit per duration
+    TOKEN_BUCKET
+}
+
 /**
  * @title USDOMintRedeemLimiter
  * @notice contract implementing time-based rate limiting for minting and redeeming.
@@ -38,6 +46,35 @@ abstract contract USDOMintRedeemLimiter {
     // First deposit amount
     uint256 public _firstDepositAmount;
 
+    // Per-account limits replacing the defaults for one account
+    struct AccountLimits {
+        bool isSet;
+        uint256 mintLimit;
+        uint256 redeemLimit;
+    }
+
+    // Amount an account minted or redeemed in its own window
+    struct AccountWindow {
+        uint256 resetTime;
+        uint256 amount;
+    }
+
+    // Default per-account limits for one duration, 0 leaves the accounts to the global limits only
+    uint256 public _accountMintLimit;
+    uint256 public _accountRedeemLimit;
+
+    // account => limits replacing the defaults
+    mapping(address => AccountLimits) private _accountLimits;
+
+    // account => usage of its mint and redeem windows, which last _mintDuration and _redeemDuration
+    mapping(address => AccountWindow) private _accountMinted;
+    mapping(address => AccountWindow) private _accountRedeemed;
+
+    // Mode of the global limits. In TOKEN_BUCKET mode _mintedAmount / _redeemedAmount hold what is still used and
+    // _mintResetTime / _redeemResetTime when it was last updated, so the counters carry over when the mode changes
+    LimiterMode public _mintLimiterMode;
+    LimiterMode public _redeemLimiterMode;
+
     // Events
     event MintMinimumUpdated(uint256 newMinimum);
     event MintLimitUpdated(uint256 newLimit);
@@ -47,11 +84,18 @@ abstract contract USDOMintRedeemLimiter {
     event RedeemLimitUpdated(uint256 newLimit);
     event RedeemDurationUpdated(uint256 newDuration);
     event FirstDepositAmount(uint256 amount);
+    event AccountLimitDefaultsUpdated(uint256 mintLimit, uint256 redeemLimit);
+    event AccountLimitsUpdated(address indexed account, uint256 mintLimit, uint256 redeemLimit);
+    event AccountLimitsRemoved(address indexed account);
+    event MintLimiterModeUpdated(LimiterMode mode);
+    event RedeemLimiterModeUpdated(LimiterMode mode);
 
     // Errors
     error RedeemLessThanMinimum(uint256 amount, uint256 minimum);
     error MintLimitExceeded();
     error RedeemLimitExceeded();
+    error AccountMintLimitExceeded(address account, uint256 amount, uint256 limit);
+    error AccountRedeemLimitExceeded(address account, uint256 amount, uint256 limit);
 
     /**
      * @notice Initializes mint and redeem rate limits.
@@ -92,17 +136,26 @@ abstract contract USDOMintRedeemLimiter {
                           Mint Limit Functions
     //////////////////////////////////////////////////////////////*/
     /**
-     * @dev Ensures mint amount doesn't exceed the rate limit.
+     * @dev Ensures mint amount doesn't exceed the rate limit, nor the per-account limit of the account.
+     * @param account Account minting.
      * @param amount Amount to mint.
      */
-    function _checkMintLimit(uint256 amount) internal {
-        if (block.timestamp >= _mintResetTime + _mintDuration) {
-            _mintedAmount = 0;
-            _mintResetTime = block.timestamp;
-        }
+    function _checkMintLimit(address account, uint256 amount) internal {
+        (uint256 minted, uint256 resetTime) = _currentWindow(
+            _mintLimiterMode,
+            _mintedAmount,
+            _mintResetTime,
+            _mintDuration,
+            _mintLimit
+        );
+        if (minted + amount > _mintLimit) revert MintLimitExceeded();
+        _mintedAmount = minted + amount;
+        _mintResetTime = resetTime;
 
-        if (_mintedAmount + amount > _mintLimit) revert MintLimitExceeded();
-        _mintedAmount += amount;
+        (uint256 mintLimit, ) = _accountLimitsOf(account);
+        if (!_useAccountWindow(_accountMinted[account], mintLimit, _mintDuration, amount)) {
+            revert AccountMintLimitExceeded(account, amount, mintLimit);
+        }
     }
 
     /**
@@ -133,24 +186,42 @@ abstract contract USDOMintRedeemLimiter {
         emit MintDurationUpdated(mintDuration);
     }
 
+    /**
+     * @dev Updates how the mint limit is given back.
+     * @param mode New mode of the mint limit.
+     */
+    function _setMintLimiterMode(LimiterMode mode) internal {
+        _mintLimiterMode = mode;
+        emit MintLimiterModeUpdated(mode);
+    }
+
     /*//////////////////////////////////////////////////////////////
                           Redeem Limit Functions
     //////////////////////////////////////////////////////////////*/
 
     /**
-     * @dev Ensures redeem amount doesn't exceed the rate limit.
+     * @dev Ensures redeem amount doesn't exceed the rate limit, nor the per-account limit of the account.
+     * @param account Account redeeming.
      * @param amount Amount to redeem.
      */
-    function _checkRedeemLimit(uint256 amount) internal {
+    function _checkRedeemLimit(address account, uint256 amount) internal {
         if (amount < _redeemMinimum) revert RedeemLessThanMinimum(amount, _redeemMinimum);
 
-        if (block.timestamp >= _redeemResetTime + _redeemDuration) {
-            _redeemedAmount = 0;
-            _redeemResetTime = block.timestamp;
-        }
+        (uint256 redeemed, uint256 resetTime) = _currentWindow(
+            _redeemLimiterMode,
+            _redeemedAmount,
+            _redeemResetTime,
+            _redeemDuration,
+            _redeemLimit
+        );
+        if (redeemed + amount > _redeemLimit) revert RedeemLimitExceeded();
+        _redeemedAmount = redeemed + amount;
+        _redeemResetTime = resetTime;
 
-        if (_redeemedAmount + amount > _redeemLimit) revert RedeemLimitExceeded();
-        _redeemedAmount += amount;
+        (, uint256 redeemLimit) = _accountLimitsOf(account);
+        if (!_useAccountWindow(_accountRedeemed[account], redeemLimit, _redeemDuration, amount)) {
+            revert AccountRedeemLimitExceeded(account, amount, redeemLimit);
+        }
     }
 
     /**
@@ -180,6 +251,15 @@ abstract contract USDOMintRedeemLimiter {
         emit RedeemDurationUpdated(redeemDuration);
     }
 
+    /**
+     * @dev Updates how the redeem limit is given back.
+     * @param mode New mode of the redeem limit.
+     */
+    function _setRedeemLimiterMode(LimiterMode mode) internal {
+        _redeemLimiterMode = mode;
+        emit RedeemLimiterModeUpdated(mode);
+    }
+
     /// @notice Set the first deposit amount
     /// @dev Amount should be in USDO decimals (18) for accurate comparison across different underlying assets
     /// @param amount The first deposit amount in USDO equivalent
@@ -188,5 +268,148 @@ abstract contract USDOMintRedeemLimiter {
         emit FirstDepositAmount(amount);
     }
 
-    uint256[10] private __gap;
+    /*//////////////////////////////////////////////////////////////
+                          Capacity Functions
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Retrieve what can be minted now and when the full mint limit is available again.
+     * @return remaining Amount that can be minted now (in USDO decimals - 18).
+     * @return refillTime Seconds until the full limit is available again, 0 if it already is.
+     */
+    function getMintCapacity() external view returns (uint256 remaining, uint256 refillTime) {
+        return _capacity(_mintLimiterMode, _mintedAmount, _mintResetTime, _mintDuration, _mintLimit);
+    }
+
+    /**
+     * @notice Retrieve what can be redeemed now and when the full redeem limit is available again.
+     * @return remaining Amount that can be redeemed now (in USDO decimals - 18).
+     * @return refillTime Seconds until the full limit is available again, 0 if it already is.
+     */
+    function getRedeemCapacity() external view returns (uint256 remaining, uint256 refillTime) {
+        return _capacity(_redeemLimiterMode, _redeemedAmount, _redeemResetTime, _redeemDuration, _redeemLimit);
+    }
+
+    function _capacity(
+        LimiterMode mode,
+        uint256 used,
+        uint256 resetTime,
+        uint256 duration,
+        uint256 limit
+    ) private view returns (uint256 remaining, uint256 refillTime) {
+        (used, resetTime) = _currentWindow(mode, used, resetTime, duration, limit);
+        if (used == 0) return (limit, 0);
+
+        if (mode == LimiterMode.FIXED_WINDOW) {
+            refillTime = resetTime + duration - block.timestamp;
+        } else if (limit > 0) {
+            // Rounded up, the bucket drains by limit / duration per second
+            refillTime = (used * duration + limit - 1) / limit;
+        }
+        remaining = used < limit ? limit - used : 0;
+    }
+
+    /**
+     * @dev Used amount and start of the current window of a global limit, once the mode gave back what it owes.
+     * A token bucket drains limit / duration per second, rounded down, and its window starts at every update.
+     */
+    function _currentWindow(
+        LimiterMode mode,
+        uint256 used,
+        uint256 resetTime,
+        uint256 duration,
+        uint256 limit
+    ) private view returns (uint256, uint256) {
+        if (mode == LimiterMode.TOKEN_BUCKET) {
+            if (duration == 0) return (0, block.timestamp);
+            uint256 drained = ((block.timestamp - resetTime) * limit) / duration;
+            return (used > drained ? used - drained : 0, block.timestamp);
+        }
+        if (block.timestamp >= resetTime + duration) return (0, block.timestamp);
+        return (used, resetTime);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                        Per-account Limit Functions
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Retrieve the per-account limits of an account and what is left of them in its current windows.
+     * @dev A limit of 0 leaves the account to the global limits only, what is left is then type(uint256).max.
+     * @param account Address of the account.
+     */
+    function getAccountLimits(
+        address account
+    ) external view returns (uint256 mintLimit, uint256 mintRemaining, uint256 redeemLimit, uint256 redeemRemaining) {
+        (mintLimit, redeemLimit) = _accountLimitsOf(account);
+        mintRemaining = _accountRemaining(_accountMinted[account], mintLimit, _mintDuration);
+        redeemRemaining = _accountRemaining(_accountRedeemed[account], redeemLimit, _redeemDuration);
+    }
+
+    /**
+     * @dev Updates the per-account limits of the accounts without their own.
+     * @param mintLimit New default mint limit per account, 0 disables it.
+     * @param redeemLimit New default redeem limit per account, 0 disables it.
+     */
+    function _setAccountLimitDefaults(uint256 mintLimit, uint256 redeemLimit) internal {
+        _accountMintLimit = mintLimit;
+        _accountRedeemLimit = redeemLimit;
+        emit AccountLimitDefaultsUpdated(mintLimit, redeemLimit);
+    }
+
+    /**
+     * @dev Gives an account its own limits instead of the defaults.
+     * @param account Address of the account.
+     * @param mintLimit Mint limit of the account, 0 leaves it to the global limit only.
+     * @param redeemLimit Redeem limit of the account, 0 leaves it to the global limit only.
+     */
+    function _setAccountLimits(address account, uint256 mintLimit, uint256 redeemLimit) internal {
+        _accountLimits[account] = AccountLimits(true, mintLimit, redeemLimit);
+        emit AccountLimitsUpdated(account, mintLimit, redeemLimit);
+    }
+
+    /**
+     * @dev Puts an account back on the default limits.
+     * @param account Address of the account.
+     */
+    function _removeAccountLimits(address account) internal {
+        delete _accountLimits[account];
+        emit AccountLimitsRemoved(account);
+    }
+
+    function _accountLimitsOf(address account) private view returns (uint256 mintLimit, uint256 redeemLimit) {
+        AccountLimits storage limits = _accountLimits[account];
+        if (limits.isSet) return (limits.mintLimit, limits.redeemLimit);
+        return (_accountMintLimit, _accountRedeemLimit);
+    }
+
+    // Add amount to the window of an account, returns false once it is over the limit
+    function _useAccountWindow(
+        AccountWindow storage window,
+        uint256 limit,
+        uint256 duration,
+        uint256 amount
+    ) private returns (bool) {
+        if (limit == 0) return true;
+        if (block.timestamp >= window.resetTime + duration) {
+            window.amount = 0;
+            window.resetTime = block.timestamp;
+        }
+
+        window.amount += amount;
+        return window.amount <= limit;
+    }
+
+    function _accountRemaining(
+        AccountWindow storage window,
+        uint256 limit,
+        uint256 duration
+    ) private view returns (uint256) {
+        if (limit == 0) return type(uint256).max;
+        if (block.timestamp >= window.resetTime + duration) return limit;
+        // The limit may have been lowered below what the window used
+        return window.amount < limit ? limit - window.amount : 0;
+    }
+
+    uint256[4] private __gap;
 }
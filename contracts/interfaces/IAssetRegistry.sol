@@ -6,11 +6,24 @@ pragma solidity 0.8.18;
  * @notice Simple interface for managing supported underlying assets
  */
 interface IAssetRegistry {
+    // What a conversion does when the two price feeds of an asset disagree or one of them fails
+    enum OraclePolicy {
+        REVERT, // Revert unless both feeds are fresh and within maxDeviationBps of each other
+        FALLBACK // Use the feed that works, and the price favouring the protocol when both work but disagree
+    }
+
     struct AssetConfig {
         address asset;
         bool isSupported;
-        address priceFeed; // Optional: IPriceFeed contract for price conversion (like TBILL)
-        uint256 maxStalePeriod; // Maximum staleness period for this asset's price feed (in seconds)
+        address priceFeed; // Optional: IPriceFeed contract for price conversion (like TBILL), the primary feed
+        uint256 maxStalePeriod; // Maximum staleness period for this asset's price feeds (in seconds)
+        address secondaryPriceFeed; // Optional: second IPriceFeed checked against priceFeed
+        uint16 maxDeviationBps; // Maximum deviation of the secondary price from the primary one, in basis points
+        OraclePolicy oraclePolicy; // Only used with a secondary feed
+        uint256 minPrice; // Optional: lowest accepted price of a priced asset (18 decimals, 0: no bound)
+        uint256 maxPrice; // Optional: highest accepted price of a priced asset (18 decimals, 0: no bound)
+        address depegGuardFeed; // Optional: IPriceFeed of an asset without priceFeed, mints stop below the threshold
+        uint256 depegThreshold; // Lowest depeg guard price that still allows mints (18 decimals)
     }
 
     /**
@@ -55,6 +68,13 @@ interface IAssetRegistry {
      */
     function convertToUnderlying(address asset, uint256 usdoAmount) external view returns (uint256 assetAmount);
 
+    /**
+     * @notice Get the decimals of an asset, as read by setAssetConfig
+     * @param asset The asset address
+     * @return decimals The asset decimals
+     */
+    function getAssetDecimals(address asset) external view returns (uint8 decimals);
+
     /**
      * @notice Get list of all supported assets
      * @return assets Array of supported asset addresses
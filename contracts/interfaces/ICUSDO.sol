@@ -6,9 +6,13 @@ interface ICUSDO {
 
     function withdraw(uint256 assets, address receiver, address owner) external returns (uint256);
 
+    function redeem(uint256 shares, address receiver, address owner) external returns (uint256);
+
     function maxDeposit(address receiver) external view returns (uint256);
 
     function maxWithdraw(address owner) external view returns (uint256);
 
     function previewDeposit(uint256 assets) external view returns (uint256);
+
+    function previewRedeem(uint256 shares) external view returns (uint256);
 }
@@ -13,15 +13,19 @@ contract MockCUSDO is ERC20, ICUSDO {
 
     function deposit(uint256 assets, address receiver) external override returns (uint256) {
         // Simple 1:1 conversion for testing
+        underlying.transferFrom(msg.sender, address(this), assets);
         _mint(receiver, assets);
         return assets;
     }
 
     function withdraw(uint256 assets, address receiver, address owner) external override returns (uint256) {
         // Simple 1:1 conversion for testing
-        receiver;
-        _burn(owner, assets);
-        return assets;
+        return _redeem(assets, receiver, owner);
+    }
+
+    function redeem(uint256 shares, address receiver, address owner) external override returns (uint256) {
+        // Simple 1:1 conversion for testing
+        return _redeem(shares, receiver, owner);
     }
 
     function maxDeposit(address receiver) external pure override returns (uint256) {
@@ -37,4 +41,16 @@ contract MockCUSDO is ERC20, ICUSDO {
         // Simple 1:1 conversion for testing
         return assets;
     }
+
+    function previewRedeem(uint256 shares) external pure override returns (uint256) {
+        // Simple 1:1 conversion for testing
+        return shares;
+    }
+
+    function _redeem(uint256 shares, address receiver, address owner) private returns (uint256) {
+        if (msg.sender != owner) _spendAllowance(owner, msg.sender, shares);
+        _burn(owner, shares);
+        underlying.transfer(receiver, shares);
+        return shares;
+    }
 }
@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: MIT
+pragma solidity =0.8.18;
+
+import {IERC1271} from "@openzeppelin/contracts/interfaces/IERC1271.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {Address} from "@openzeppelin/contracts/utils/Address.sol";
+
+/**
+ * @title MockERC1271Wallet
+ * @dev Contract wallet accepting the signatures of its owner, like a custody wallet signing intents
+ */
+contract MockERC1271Wallet is IERC1271 {
+    address public owner;
+
+    constructor(address _owner) {
+        owner = _owner;
+    }
+
+    function isValidSignature(bytes32 hash, bytes memory signature) external view override returns (bytes4) {
+        (address signer, ECDSA.RecoverError error) = ECDSA.tryRecover(hash, signature);
+        return error == ECDSA.RecoverError.NoError && signer == owner ? this.isValidSignature.selector : bytes4(0);
+    }
+
+    function execute(address target, bytes calldata data) external returns (bytes memory) {
+        require(msg.sender == owner, "MockERC1271Wallet: not the owner");
+        return Address.functionCall(target, data);
+    }
+}
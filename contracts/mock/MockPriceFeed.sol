@@ -0,0 +1,42 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.18;
+
+import "../interfaces/IPriceFeed.sol";
+
+contract MockPriceFeed is IPriceFeed {
+    uint8 public immutable override decimals;
+
+    int256 public answer;
+    uint256 public updatedAt;
+    uint80 public roundId = 1;
+    uint80 public answeredInRound = 1;
+    bool public reverting;
+
+    constructor(uint8 _decimals) {
+        decimals = _decimals;
+    }
+
+    function setAnswer(int256 _answer, uint256 _updatedAt) external {
+        answer = _answer;
+        updatedAt = _updatedAt;
+    }
+
+    function setRound(uint80 _roundId, uint80 _answeredInRound) external {
+        roundId = _roundId;
+        answeredInRound = _answeredInRound;
+    }
+
+    function setReverting(bool _reverting) external {
+        reverting = _reverting;
+    }
+
+    function latestAnswer() external view override returns (uint256) {
+        require(!reverting, "MockPriceFeed: reverting");
+        return uint256(answer);
+    }
+
+    function latestRoundData() external view override returns (uint80, int256, uint256, uint256, uint80) {
+        require(!reverting, "MockPriceFeed: reverting");
+        return (roundId, answer, updatedAt, updatedAt, answeredInRound);
+    }
+}
@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.18;
+
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+
+/**
+ * @title MockUSDCPermit
+ * @dev USDC with ERC-2612 permits, like the FiatToken deployments of USDC
+ */
+contract MockUSDCPermit is ERC20Permit {
+    constructor() ERC20("Mock USDC", "USDC") ERC20Permit("Mock USDC") {
+        _mint(msg.sender, 100000000000000000000000000000 * 10 ** decimals());
+    }
+
+    function decimals() public view virtual override returns (uint8) {
+        return 6;
+    }
+}
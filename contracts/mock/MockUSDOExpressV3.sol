@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: MIT
+pragma solidity =0.8.18;
+
+import "../extensions/USDOExpressV2.sol";
+
+/**
+ * @title MockUSDOExpressV3
+ * @dev Upgrade target for the upgrade task tests, appends a variable after the USDOExpressV2 storage
+ */
+contract MockUSDOExpressV3 is USDOExpressV2 {
+    uint256 public upgradeVersion;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor(address extension) USDOExpressV2(extension) {}
+
+    function setUpgradeVersion(uint256 version) external onlyRole(UPGRADE_ROLE) {
+        upgradeVersion = version;
+    }
+}
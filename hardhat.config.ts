@@ -6,6 +6,7 @@ import 'hardhat-storage-layout';
 import 'hardhat-contract-sizer';
 // import '@nomicfoundation/hardhat-verify';
 import dotenv from 'dotenv';
+import './tasks';
 
 dotenv.config();
 
@@ -0,0 +1,178 @@
+import { providers, utils } from 'ethers';
+import { Column, EVENT_TABLES, SourceName, TableName, columnValue, eventColumns, eventFragment } from './schema';
+import { BlockRecord, IndexerStore, RowInsert } from './store';
+
+const DEFAULT_BATCH_SIZE = 2_000;
+
+export interface IndexerSource {
+  name: SourceName;
+  address: string;
+  // Deployment block, nothing before it is fetched
+  startBlock: number;
+}
+
+export interface IndexerOptions {
+  // Blocks per eth_getLogs call
+  batchSize?: number;
+  // Blocks behind the head left alone, reorgs within them never reach the database
+  confirmations?: number;
+}
+
+export interface SyncResult {
+  // Block every source is indexed up to once the run is complete
+  head: number;
+  // False when a reorg during the run left a batch for the next run
+  complete: boolean;
+  // Rows written per table
+  inserted: Partial<Record<TableName, number>>;
+  reorg?: { ancestor?: number; removed: number };
+}
+
+interface DecodableEvent {
+  table: TableName;
+  fragment: utils.EventFragment;
+  iface: utils.Interface;
+  // Columns of the table, from its current signature
+  columns: Column[];
+}
+
+// topic0 -> table, per source, legacy signatures included
+const eventsBySource = (): Map<SourceName, Map<string, DecodableEvent>> => {
+  const bySource = new Map<SourceName, Map<string, DecodableEvent>>();
+  for (const { table, sources, signature, legacySignatures = [] } of EVENT_TABLES) {
+    const columns = eventColumns(eventFragment(signature));
+    for (const version of [signature, ...legacySignatures]) {
+      const iface = new utils.Interface([version]);
+      const fragment = Object.values(iface.events)[0];
+      for (const source of sources) {
+        if (!bySource.has(source)) bySource.set(source, new Map());
+        bySource
+          .get(source)
+          ?.set(iface.getEventTopic(fragment), { table: table as TableName, fragment, iface, columns });
+      }
+    }
+  }
+  return bySource;
+};
+
+const EVENTS = eventsBySource();
+
+/**
+ * Compare the recorded block hashes with the chain, newest first, and roll the database back to the newest block
+ * that is still canonical.
+ */
+const handleReorg = async (
+  provider: providers.Provider,
+  store: IndexerStore,
+): Promise<SyncResult['reorg'] | undefined> => {
+  const recorded = store.blocks();
+  for (const [i, block] of recorded.entries()) {
+    const onChain = await provider.getBlock(block.number);
+    if (onChain?.hash === block.hash) {
+      return i === 0 ? undefined : { ancestor: block.number, removed: store.rollback(block) };
+    }
+  }
+  return recorded.length === 0 ? undefined : { removed: store.rollback() };
+};
+
+class ReorgDuringBatch extends Error {}
+
+const indexBatch = async (
+  provider: providers.Provider,
+  store: IndexerStore,
+  source: IndexerSource,
+  fromBlock: number,
+  toBlock: number,
+  inserted: SyncResult['inserted'],
+): Promise<void> => {
+  const events = EVENTS.get(source.name) ?? new Map<string, DecodableEvent>();
+
+  const blocks = new Map<number, BlockRecord>();
+  const blockAt = async (number: number): Promise<BlockRecord> => {
+    let block = blocks.get(number);
+    if (!block) {
+      const { hash, timestamp } = await provider.getBlock(number);
+      block = { number, hash, timestamp };
+      blocks.set(number, block);
+    }
+    return block;
+  };
+
+  // Read before the logs: if the batch is reorged afterwards, the recorded hash is stale and the next run notices
+  const last = await blockAt(toBlock);
+  const logs = await provider.getLogs({ address: source.address, fromBlock, toBlock });
+
+  const rows: RowInsert[] = [];
+  for (const log of logs) {
+    const event = events.get(log.topics[0]);
+    if (!event) continue;
+
+    const block = await blockAt(log.blockNumber);
+    // The block was replaced between eth_getLogs and eth_getBlockByNumber
+    if (block.hash !== log.blockHash) throw new ReorgDuringBatch();
+
+    const args = event.iface.decodeEventLog(event.fragment, log.data, log.topics);
+    rows.push({
+      table: event.table,
+      values: [
+        log.blockNumber,
+        log.blockHash,
+        block.timestamp,
+        log.transactionHash,
+        log.logIndex,
+        utils.getAddress(log.address),
+        ...event.columns.map(column => columnValue(args, column)),
+      ],
+    });
+  }
+
+  store.writeBatch(
+    { source: source.name, address: source.address, block_number: last.number, block_hash: last.hash },
+    [...blocks.values()],
+    rows,
+  );
+  store.save();
+
+  for (const row of rows) inserted[row.table] = (inserted[row.table] ?? 0) + 1;
+};
+
+/**
+ * Bring every source up to the chain head less the confirmations, in batches, each committed with its checkpoint so
+ * an interrupted run resumes where it stopped. A reorg below the recorded blocks is rolled back first.
+ */
+export const syncEvents = async (
+  provider: providers.Provider,
+  store: IndexerStore,
+  sources: IndexerSource[],
+  options: IndexerOptions = {},
+): Promise<SyncResult> => {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const head = (await provider.getBlockNumber()) - (options.confirmations ?? 0);
+  const inserted: SyncResult['inserted'] = {};
+
+  const reorg = await handleReorg(provider, store);
+
+  for (const source of sources) {
+    const checkpoint = store.checkpoint(source.name);
+    if (checkpoint && checkpoint.address.toLowerCase() !== source.address.toLowerCase()) {
+      throw new Error(
+        `${source.name} was indexed at ${checkpoint.address}, not ${source.address}, use a fresh database`,
+      );
+    }
+
+    let fromBlock = checkpoint ? checkpoint.block_number + 1 : source.startBlock;
+    while (fromBlock <= head) {
+      const toBlock = Math.min(fromBlock + batchSize - 1, head);
+      try {
+        await indexBatch(provider, store, source, fromBlock, toBlock, inserted);
+      } catch (error) {
+        // Leave the batch for the next run, which starts with the reorg check
+        if (error instanceof ReorgDuringBatch) return { head, complete: false, inserted, reorg };
+        throw error;
+      }
+      fromBlock = toBlock + 1;
+    }
+  }
+
+  return { head, complete: true, inserted, reorg };
+};
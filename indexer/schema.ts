@@ -0,0 +1,414 @@
+import { BigNumber, utils } from 'ethers';
+
+export type SourceName =
+  | 'USDOExpressV2'
+  | 'USDO'
+  | 'cUSDO'
+  | 'AssetRegistry'
+  | 'UsycRedemption'
+  | 'LiquidityController';
+
+export const SOURCE_NAMES: SourceName[] = [
+  'USDOExpressV2',
+  'USDO',
+  'cUSDO',
+  'AssetRegistry',
+  'UsycRedemption',
+  'LiquidityController',
+];
+
+export interface EventTable {
+  table: string;
+  // Contracts the event is read from
+  sources: SourceName[];
+  signature: string;
+  // Earlier signatures of the event, older logs still land in the table with the columns they lack left empty
+  legacySignatures?: string[];
+}
+
+/**
+ * Events copied into their own table, one column per argument (tuples are flattened).
+ * UsycRedemption emits nothing of its own, like every source it is covered by `upgrades`.
+ */
+export const EVENT_TABLES: EventTable[] = [
+  {
+    table: 'instant_mints',
+    sources: ['USDOExpressV2'],
+    signature:
+      'event InstantMint(address indexed underlying, address indexed from, address indexed to, uint256 reqAmt, uint256 receiveAmt, uint256 fee)',
+  },
+  {
+    table: 'instant_mint_and_wraps',
+    sources: ['USDOExpressV2'],
+    signature:
+      'event InstantMintAndWrap(address indexed underlying, address indexed from, address indexed to, uint256 reqAmt, uint256 usdoAmt, uint256 cusdoAmt, uint256 fee)',
+  },
+  {
+    table: 'instant_redeems',
+    sources: ['USDOExpressV2'],
+    signature:
+      'event InstantRedeem(address indexed from, address indexed to, uint256 reqAmt, uint256 receiveAmt, uint256 fee, uint256 payout, uint256 usycFee, uint256 minUsdcOut)',
+  },
+  {
+    table: 'instant_redeem_assets',
+    sources: ['USDOExpressV2'],
+    signature:
+      'event InstantRedeemAsset(address indexed asset, address indexed from, address indexed to, uint256 reqAmt, uint256 receiveAmt, uint256 fee, uint256 minAmtOut)',
+  },
+  {
+    table: 'redemption_requests',
+    sources: ['USDOExpressV2'],
+    signature: 'event AddToRedemptionQueue(address indexed from, address indexed to, uint256 usdoAmt, bytes32 id)',
+  },
+  {
+    table: 'processed_redemptions',
+    sources: ['USDOExpressV2'],
+    signature:
+      'event ProcessRedeem(address indexed from, address indexed to, uint256 usdoAmt, uint256 usdcAmt, uint256 fee, bytes32 id)',
+  },
+  {
+    table: 'processed_redemption_assets',
+    sources: ['USDOExpressV2'],
+    signature:
+      'event ProcessRedeemAsset(address indexed asset, address indexed from, address indexed to, uint256 usdoAmt, uint256 assetAmt, uint256 fee, bytes32 id)',
+  },
+  {
+    table: 'partial_redemptions',
+    sources: ['USDOExpressV2'],
+    signature:
+      'event PartialProcessRedeem(address indexed asset, address indexed from, address indexed to, uint256 usdoAmt, uint256 assetAmt, uint256 fee, uint256 remainingUsdo, bytes32 id)',
+  },
+  {
+    table: 'cancelled_redemptions',
+    sources: ['USDOExpressV2'],
+    signature: 'event ProcessRedemptionCancel(address indexed from, address indexed to, uint256 usdoAmt, bytes32 id)',
+  },
+  {
+    table: 'off_ramps',
+    sources: ['USDOExpressV2'],
+    signature: 'event OffRamp(address indexed to, uint256 amount)',
+  },
+  {
+    table: 'usdo_mints',
+    sources: ['USDO'],
+    signature: 'event Mint(address indexed to, uint256 amount)',
+  },
+  {
+    table: 'usdo_burns',
+    sources: ['USDO'],
+    signature: 'event Burn(address indexed from, uint256 amount)',
+  },
+  {
+    table: 'bonus_multipliers',
+    sources: ['USDO'],
+    signature: 'event BonusMultiplier(uint256 indexed value)',
+  },
+  {
+    table: 'cusdo_deposits',
+    sources: ['cUSDO'],
+    signature: 'event Deposit(address indexed sender, address indexed owner, uint256 assets, uint256 shares)',
+  },
+  {
+    table: 'cusdo_withdrawals',
+    sources: ['cUSDO'],
+    signature:
+      'event Withdraw(address indexed sender, address indexed receiver, address indexed owner, uint256 assets, uint256 shares)',
+  },
+  {
+    table: 'assets_added',
+    sources: ['AssetRegistry'],
+    signature:
+      'event AssetAdded(address indexed asset, tuple(address asset, bool isSupported, address priceFeed, uint256 maxStalePeriod, address secondaryPriceFeed, uint16 maxDeviationBps, uint8 oraclePolicy, uint256 minPrice, uint256 maxPrice, address depegGuardFeed, uint256 depegThreshold) config)',
+    legacySignatures: [
+      'event AssetAdded(address indexed asset, tuple(address asset, bool isSupported, address priceFeed, uint256 maxStalePeriod, address secondaryPriceFeed, uint16 maxDeviationBps, uint8 oraclePolicy) config)',
+      'event AssetAdded(address indexed asset, tuple(address asset, bool isSupported, address priceFeed, uint256 maxStalePeriod) config)',
+    ],
+  },
+  {
+    table: 'assets_updated',
+    sources: ['AssetRegistry'],
+    signature:
+      'event AssetUpdated(address indexed asset, tuple(address asset, bool isSupported, address priceFeed, uint256 maxStalePeriod, address secondaryPriceFeed, uint16 maxDeviationBps, uint8 oraclePolicy, uint256 minPrice, uint256 maxPrice, address depegGuardFeed, uint256 depegThreshold) config)',
+    legacySignatures: [
+      'event AssetUpdated(address indexed asset, tuple(address asset, bool isSupported, address priceFeed, uint256 maxStalePeriod, address secondaryPriceFeed, uint16 maxDeviationBps, uint8 oraclePolicy) config)',
+      'event AssetUpdated(address indexed asset, tuple(address asset, bool isSupported, address priceFeed, uint256 maxStalePeriod) config)',
+    ],
+  },
+  {
+    table: 'assets_removed',
+    sources: ['AssetRegistry'],
+    signature: 'event AssetRemoved(address indexed asset)',
+  },
+  {
+    table: 'quota_used',
+    sources: ['LiquidityController'],
+    signature: 'event QuotaUsed(address indexed user, uint256 amount, uint256 remainingQuota)',
+  },
+  {
+    table: 'quota_restored',
+    sources: ['LiquidityController'],
+    signature: 'event QuotaRestored(address indexed user, uint256 amount, uint256 remainingQuota)',
+  },
+  {
+    table: 'upgrades',
+    sources: SOURCE_NAMES,
+    signature: 'event Upgraded(address indexed implementation)',
+  },
+];
+
+// Columns every event table starts with
+export interface EventRow {
+  block_number: number;
+  block_hash: string;
+  block_timestamp: number;
+  tx_hash: string;
+  log_index: number;
+  // Emitting contract
+  address: string;
+}
+
+// uint256 values are stored as decimal strings, SQLite integers stop at 2^63
+export interface InstantMintRow extends EventRow {
+  underlying: string;
+  from: string;
+  to: string;
+  req_amt: string;
+  receive_amt: string;
+  fee: string;
+}
+
+export interface InstantMintAndWrapRow extends EventRow {
+  underlying: string;
+  from: string;
+  to: string;
+  req_amt: string;
+  usdo_amt: string;
+  cusdo_amt: string;
+  fee: string;
+}
+
+export interface InstantRedeemRow extends EventRow {
+  from: string;
+  to: string;
+  req_amt: string;
+  receive_amt: string;
+  fee: string;
+  payout: string;
+  usyc_fee: string;
+  min_usdc_out: string;
+}
+
+// Instant redemption into an asset other than USDC, amounts in the asset's decimals
+export interface InstantRedeemAssetRow extends EventRow {
+  asset: string;
+  from: string;
+  to: string;
+  req_amt: string;
+  receive_amt: string;
+  fee: string;
+  min_amt_out: string;
+}
+
+export interface RedemptionRequestRow extends EventRow {
+  from: string;
+  to: string;
+  usdo_amt: string;
+  id: string;
+}
+
+export interface ProcessedRedemptionRow extends EventRow {
+  from: string;
+  to: string;
+  usdo_amt: string;
+  usdc_amt: string;
+  fee: string;
+  id: string;
+}
+
+export interface ProcessedRedemptionAssetRow extends EventRow {
+  asset: string;
+  from: string;
+  to: string;
+  usdo_amt: string;
+  asset_amt: string;
+  fee: string;
+  id: string;
+}
+
+export interface PartialRedemptionRow extends ProcessedRedemptionAssetRow {
+  remaining_usdo: string;
+}
+
+export type CancelledRedemptionRow = RedemptionRequestRow;
+
+export interface OffRampRow extends EventRow {
+  to: string;
+  amount: string;
+}
+
+export interface UsdoMintRow extends EventRow {
+  to: string;
+  amount: string;
+}
+
+export interface UsdoBurnRow extends EventRow {
+  from: string;
+  amount: string;
+}
+
+export interface BonusMultiplierRow extends EventRow {
+  value: string;
+}
+
+export interface CusdoDepositRow extends EventRow {
+  sender: string;
+  owner: string;
+  assets: string;
+  shares: string;
+}
+
+export interface CusdoWithdrawalRow extends EventRow {
+  sender: string;
+  receiver: string;
+  owner: string;
+  assets: string;
+  shares: string;
+}
+
+export interface AssetConfigRow extends EventRow {
+  asset: string;
+  config_asset: string;
+  // 0 or 1
+  config_is_supported: number;
+  config_price_feed: string;
+  config_max_stale_period: string;
+  // Empty for events from before the secondary price feed
+  config_secondary_price_feed: string;
+  config_max_deviation_bps: string;
+  // IAssetRegistry.OraclePolicy, 0 REVERT or 1 FALLBACK
+  config_oracle_policy: string;
+  // Empty for events from before the price guards, prices with 18 decimals
+  config_min_price: string;
+  config_max_price: string;
+  config_depeg_guard_feed: string;
+  config_depeg_threshold: string;
+}
+
+export interface AssetRemovedRow extends EventRow {
+  asset: string;
+}
+
+export interface QuotaRow extends EventRow {
+  user: string;
+  amount: string;
+  remaining_quota: string;
+}
+
+export interface UpgradeRow extends EventRow {
+  implementation: string;
+}
+
+export interface EventRows {
+  instant_mints: InstantMintRow;
+  instant_mint_and_wraps: InstantMintAndWrapRow;
+  instant_redeems: InstantRedeemRow;
+  instant_redeem_assets: InstantRedeemAssetRow;
+  redemption_requests: RedemptionRequestRow;
+  processed_redemptions: ProcessedRedemptionRow;
+  processed_redemption_assets: ProcessedRedemptionAssetRow;
+  partial_redemptions: PartialRedemptionRow;
+  cancelled_redemptions: CancelledRedemptionRow;
+  off_ramps: OffRampRow;
+  usdo_mints: UsdoMintRow;
+  usdo_burns: UsdoBurnRow;
+  bonus_multipliers: BonusMultiplierRow;
+  cusdo_deposits: CusdoDepositRow;
+  cusdo_withdrawals: CusdoWithdrawalRow;
+  assets_added: AssetConfigRow;
+  assets_updated: AssetConfigRow;
+  assets_removed: AssetRemovedRow;
+  quota_used: QuotaRow;
+  quota_restored: QuotaRow;
+  upgrades: UpgradeRow;
+}
+
+export type TableName = keyof EventRows;
+
+export type ColumnValue = string | number;
+
+export interface Column {
+  name: string;
+  sqlType: 'TEXT' | 'INTEGER';
+  // Path into the decoded event arguments, two entries for tuple components
+  path: string[];
+}
+
+export const eventFragment = (signature: string): utils.EventFragment =>
+  utils.Fragment.from(signature) as utils.EventFragment;
+
+const snakeCase = (name: string): string => name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+
+export const eventColumns = (fragment: utils.EventFragment): Column[] =>
+  fragment.inputs.flatMap(input => {
+    if (input.baseType !== 'tuple') {
+      return [{ name: snakeCase(input.name), sqlType: input.type === 'bool' ? 'INTEGER' : 'TEXT', path: [input.name] }];
+    }
+    return input.components.map(component => ({
+      name: `${snakeCase(input.name)}_${snakeCase(component.name)}`,
+      sqlType: component.type === 'bool' ? ('INTEGER' as const) : ('TEXT' as const),
+      path: [input.name, component.name],
+    }));
+  });
+
+export const columnValue = (args: utils.Result, column: Column): ColumnValue => {
+  const value = column.path.reduce<unknown>((result, key) => (result as utils.Result)[key], args);
+  // Missing from a legacy signature
+  if (value === undefined) return column.sqlType === 'INTEGER' ? 0 : '';
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (BigNumber.isBigNumber(value)) return value.toString();
+  return String(value);
+};
+
+const quote = (identifier: string): string => `"${identifier}"`;
+
+export const EVENT_ROW_COLUMNS = ['block_number', 'block_hash', 'block_timestamp', 'tx_hash', 'log_index', 'address'];
+
+export const createTableSql = (table: string, columns: Column[]): string =>
+  `CREATE TABLE IF NOT EXISTS ${quote(table)} (
+    block_number INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    block_timestamp INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    address TEXT NOT NULL,
+    ${columns.map(column => `${quote(column.name)} ${column.sqlType} NOT NULL`).join(',\n    ')},
+    PRIMARY KEY (block_number, log_index)
+  )`;
+
+// Adds a column introduced by a newer signature to a table created before it
+export const addColumnSql = (table: string, column: Column): string =>
+  `ALTER TABLE ${quote(table)} ADD COLUMN ${quote(column.name)} ${column.sqlType} NOT NULL DEFAULT ${
+    column.sqlType === 'INTEGER' ? '0' : "''"
+  }`;
+
+export const insertSql = (table: string, columns: Column[]): string => {
+  const names = [...EVENT_ROW_COLUMNS, ...columns.map(column => column.name)];
+  return `INSERT OR REPLACE INTO ${quote(table)} (${names.map(quote).join(', ')}) VALUES (${names
+    .map(() => '?')
+    .join(', ')})`;
+};
+
+// Bookkeeping tables: the last indexed block per source, and the hash of every block rows were written for
+export const BOOKKEEPING_SQL = [
+  `CREATE TABLE IF NOT EXISTS checkpoints (
+    source TEXT PRIMARY KEY,
+    address TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    block_hash TEXT NOT NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL
+  )`,
+];
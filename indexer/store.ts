@@ -0,0 +1,163 @@
+import fs from 'fs';
+import path from 'path';
+import initSqlJs from 'sql.js';
+import {
+  BOOKKEEPING_SQL,
+  ColumnValue,
+  EVENT_TABLES,
+  EventRows,
+  TableName,
+  addColumnSql,
+  createTableSql,
+  eventColumns,
+  eventFragment,
+  insertSql,
+} from './schema';
+
+export const DATA_DIR = path.join(__dirname, '..', 'data');
+
+export const dbPath = (network: string): string => path.join(DATA_DIR, `events-${network}.sqlite`);
+
+export interface BlockRecord {
+  number: number;
+  hash: string;
+  timestamp: number;
+}
+
+export interface Checkpoint {
+  source: string;
+  address: string;
+  block_number: number;
+  block_hash: string;
+}
+
+export interface RowInsert {
+  table: TableName;
+  values: ColumnValue[];
+}
+
+type Row = Record<string, ColumnValue | null>;
+
+/**
+ * SQLite database behind the indexer. sql.js keeps it in memory, `save` writes the whole file, so the file on disk
+ * only ever holds complete batches.
+ */
+export class IndexerStore {
+  private constructor(private readonly db: initSqlJs.Database, readonly file?: string) {}
+
+  // Opens `file` or creates it, without a file the database only lives in memory
+  static async open(file?: string): Promise<IndexerStore> {
+    const SQL = await initSqlJs();
+    const db = file && fs.existsSync(file) ? new SQL.Database(fs.readFileSync(file)) : new SQL.Database();
+
+    for (const sql of BOOKKEEPING_SQL) db.run(sql);
+    const store = new IndexerStore(db, file);
+    for (const { table, signature } of EVENT_TABLES) {
+      const columns = eventColumns(eventFragment(signature));
+      db.run(createTableSql(table, columns));
+      const existing = new Set(store.query(`PRAGMA table_info("${table}")`).map(row => row.name));
+      for (const column of columns.filter(({ name }) => !existing.has(name))) db.run(addColumnSql(table, column));
+    }
+    return store;
+  }
+
+  save(): void {
+    if (!this.file) return;
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    const tmp = `${this.file}.tmp`;
+    fs.writeFileSync(tmp, this.db.export());
+    fs.renameSync(tmp, this.file);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  query(sql: string, params: ColumnValue[] = []): Row[] {
+    const statement = this.db.prepare(sql);
+    try {
+      statement.bind(params);
+      const rows: Row[] = [];
+      while (statement.step()) rows.push(statement.getAsObject() as Row);
+      return rows;
+    } finally {
+      statement.free();
+    }
+  }
+
+  rows<T extends TableName>(table: T): EventRows[T][] {
+    return this.query(`SELECT * FROM "${table}" ORDER BY block_number, log_index`) as unknown as EventRows[T][];
+  }
+
+  checkpoint(source: string): Checkpoint | undefined {
+    return this.query('SELECT * FROM checkpoints WHERE source = ?', [source])[0] as unknown as Checkpoint | undefined;
+  }
+
+  // Recorded blocks, newest first
+  blocks(): BlockRecord[] {
+    return this.query('SELECT * FROM blocks ORDER BY number DESC') as unknown as BlockRecord[];
+  }
+
+  // Write the rows of one batch together with the blocks they came from and the new checkpoint
+  writeBatch(checkpoint: Checkpoint, blocks: BlockRecord[], rows: RowInsert[]): void {
+    const statements = new Map<TableName, initSqlJs.Statement>();
+    const statementFor = (table: TableName) => {
+      let statement = statements.get(table);
+      if (!statement) {
+        const { signature } = EVENT_TABLES.find(spec => spec.table === table) as { signature: string };
+        statement = this.db.prepare(insertSql(table, eventColumns(eventFragment(signature))));
+        statements.set(table, statement);
+      }
+      return statement;
+    };
+
+    this.db.run('BEGIN');
+    try {
+      for (const block of blocks) {
+        this.db.run('INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (?, ?, ?)', [
+          block.number,
+          block.hash,
+          block.timestamp,
+        ]);
+      }
+      for (const row of rows) statementFor(row.table).run(row.values);
+      this.db.run(
+        'INSERT OR REPLACE INTO checkpoints (source, address, block_number, block_hash) VALUES (?, ?, ?, ?)',
+        [checkpoint.source, checkpoint.address, checkpoint.block_number, checkpoint.block_hash],
+      );
+      this.db.run('COMMIT');
+    } catch (error) {
+      this.db.run('ROLLBACK');
+      throw error;
+    } finally {
+      for (const statement of statements.values()) statement.free();
+    }
+  }
+
+  /**
+   * Drop everything above `ancestor`, the last block still on the canonical chain.
+   * Checkpoints past it move back to it, without an ancestor every source starts over. Returns the rows removed.
+   */
+  rollback(ancestor?: BlockRecord): number {
+    const above = ancestor?.number ?? -1;
+    let removed = 0;
+
+    this.db.run('BEGIN');
+    for (const { table } of EVENT_TABLES) {
+      this.db.run(`DELETE FROM "${table}" WHERE block_number > ?`, [above]);
+      removed += this.db.getRowsModified();
+    }
+    this.db.run('DELETE FROM blocks WHERE number > ?', [above]);
+    if (ancestor) {
+      this.db.run('UPDATE checkpoints SET block_number = ?, block_hash = ? WHERE block_number > ?', [
+        ancestor.number,
+        ancestor.hash,
+        above,
+      ]);
+    } else {
+      this.db.run('DELETE FROM checkpoints');
+    }
+    this.db.run('COMMIT');
+    return removed;
+  }
+}
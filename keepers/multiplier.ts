@@ -0,0 +1,161 @@
+import fs from 'fs';
+import path from 'path';
+import { BigNumber, utils } from 'ethers';
+import type { USDO, USDOExpressV2 } from '../typechain-types';
+
+export const LOGS_DIR = path.join(__dirname, '..', 'logs');
+
+const DAY = 24 * 60 * 60;
+const BPS_BASE = 10_000;
+
+export interface MultiplierState {
+  // Latest block timestamp, the chain's notion of now
+  now: number;
+  apy: BigNumber;
+  increment: BigNumber;
+  lastUpdateTS: number;
+  timeBuffer: number;
+  bonusMultiplier: BigNumber;
+}
+
+export interface ApyDrift {
+  // APY in bps implied by adding _increment daily for a year, linear like updateAPY
+  impliedApy: number;
+  drift: number;
+  exceeded: boolean;
+}
+
+export interface AccrualLogEntry {
+  timestamp: number;
+  blockNumber: number;
+  txHash: string;
+  apy: string;
+  increment: string;
+  bonusMultiplierBefore: string;
+  bonusMultiplierAfter: string;
+}
+
+export interface MultiplierKeeperOptions {
+  dryRun?: boolean;
+  // JSON file the accruals are appended to
+  logFile?: string;
+  // Seconds between two accruals, _timeBuffer only guards against calls that are too early
+  period?: number;
+  // Accepted difference in bps between _apy and the APY implied by _increment
+  maxDrift?: number;
+  // Skip the accrual instead of only warning when the drift is exceeded
+  refuseOnDrift?: boolean;
+}
+
+export interface MultiplierKeeperResult {
+  state: MultiplierState;
+  drift: ApyDrift;
+  // Earliest timestamp of the next accrual
+  dueAt: number;
+  txHash?: string;
+  entry?: AccrualLogEntry;
+  skipped?: string;
+}
+
+export const logPath = (network: string): string => path.join(LOGS_DIR, `bonus-multiplier-${network}.json`);
+
+export const readAccrualLog = (file: string): AccrualLogEntry[] =>
+  fs.existsSync(file) ? (JSON.parse(fs.readFileSync(file, 'utf8')) as AccrualLogEntry[]) : [];
+
+const appendAccrualLog = (file: string, entry: AccrualLogEntry): void => {
+  const entries = readAccrualLog(file);
+  entries.push(entry);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(entries, null, 2) + '\n');
+};
+
+export const readMultiplierState = async (express: USDOExpressV2, usdo: USDO): Promise<MultiplierState> => {
+  const [block, apy, increment, lastUpdateTS, timeBuffer, bonusMultiplier] = await Promise.all([
+    express.provider.getBlock('latest'),
+    express._apy(),
+    express._increment(),
+    express._lastUpdateTS(),
+    express._timeBuffer(),
+    usdo.bonusMultiplier(),
+  ]);
+
+  return {
+    now: block.timestamp,
+    apy,
+    increment,
+    lastUpdateTS: lastUpdateTS.toNumber(),
+    timeBuffer: timeBuffer.toNumber(),
+    bonusMultiplier,
+  };
+};
+
+// updateAPY sets _increment = apy * 1e18 / 365 / 1e4, any other value means one of the two was changed on its own
+export const apyDrift = (state: MultiplierState, maxDrift: number): ApyDrift => {
+  const impliedApy = Number(utils.formatUnits(state.increment.mul(365 * BPS_BASE), 18));
+  const drift = Math.abs(impliedApy - state.apy.toNumber());
+  return { impliedApy, drift, exceeded: drift > maxDrift };
+};
+
+// The contract accepts a call once _timeBuffer has passed, the keeper additionally keeps the daily cadence
+export const nextAccrualAt = (state: MultiplierState, period = DAY): number =>
+  state.lastUpdateTS === 0 ? state.now : state.lastUpdateTS + Math.max(state.timeBuffer, period);
+
+/**
+ * Call addBonusMultiplier once it is due.
+ * `express` must be connected to a MULTIPLIER_ROLE signer unless running dry.
+ */
+export const runMultiplierKeeper = async (
+  express: USDOExpressV2,
+  usdo: USDO,
+  options: MultiplierKeeperOptions = {},
+): Promise<MultiplierKeeperResult> => {
+  const state = await readMultiplierState(express, usdo);
+  const drift = apyDrift(state, options.maxDrift ?? 1);
+  const dueAt = nextAccrualAt(state, options.period);
+  const result = { state, drift, dueAt };
+
+  if (state.now < dueAt) return { ...result, skipped: `next accrual due at ${new Date(dueAt * 1000).toISOString()}` };
+  if (state.increment.isZero()) return { ...result, skipped: '_increment is 0, USDO rejects a zero increment' };
+  if (drift.exceeded && options.refuseOnDrift) {
+    return { ...result, skipped: `_increment implies ${drift.impliedApy} bps, _apy is ${state.apy} bps` };
+  }
+
+  const next = state.bonusMultiplier.add(state.increment);
+  const [totalShares, totalSupplyCap] = await Promise.all([usdo.totalShares(), usdo.totalSupplyCap()]);
+  const nextSupply = totalShares.mul(next).div(utils.parseUnits('1', 18));
+  if (nextSupply.gt(totalSupplyCap)) {
+    throw new Error(`Accrual would raise the USDO supply to ${nextSupply}, above the cap of ${totalSupplyCap}`);
+  }
+
+  if (!(await usdo.hasRole(await usdo.MULTIPLIER_ROLE(), express.address))) {
+    throw new Error(`${express.address} does not hold MULTIPLIER_ROLE on USDO ${usdo.address}`);
+  }
+  if (options.dryRun) return result;
+
+  const keeper = await express.signer.getAddress();
+  if (!(await express.hasRole(await express.MULTIPLIER_ROLE(), keeper))) {
+    throw new Error(`${keeper} does not hold MULTIPLIER_ROLE on ${express.address}`);
+  }
+
+  const tx = await express.addBonusMultiplier();
+  const receipt = await tx.wait();
+  const block = await express.provider.getBlock(receipt.blockNumber);
+
+  const entry: AccrualLogEntry = {
+    timestamp: block.timestamp,
+    blockNumber: receipt.blockNumber,
+    txHash: receipt.transactionHash,
+    apy: state.apy.toString(),
+    increment: state.increment.toString(),
+    bonusMultiplierBefore: state.bonusMultiplier.toString(),
+    bonusMultiplierAfter: (await usdo.bonusMultiplier()).toString(),
+  };
+  if (options.logFile) appendAccrualLog(options.logFile, entry);
+
+  return {
+    ...result,
+    dueAt: block.timestamp + Math.max(state.timeBuffer, options.period ?? DAY),
+    txHash: tx.hash,
+    entry,
+  };
+};
@@ -0,0 +1,326 @@
+import { BigNumber, BigNumberish, constants } from 'ethers';
+import type { USDOExpressV2 } from '../typechain-types';
+
+// USDOExpressV2.TxType.REDEEM
+const TX_TYPE_REDEEM = 1;
+
+// Head room on top of the estimate, the queue may change between estimation and inclusion
+const GAS_LIMIT_MARGIN_BPS = 12_000;
+
+export interface QueueEntry {
+  index: number;
+  sender: string;
+  receiver: string;
+  usdoAmt: BigNumber;
+  id: string;
+  // Asset the request is paid out in
+  asset: string;
+  // Amount of the asset leaving the contract for the request, fee included
+  assetAmt: BigNumber;
+  fee: BigNumber;
+}
+
+// Part of a request paid out by a partial fill, usdoAmt is the USDO filled
+export interface PartialFill extends QueueEntry {
+  // USDO left in the request at the head of the queue
+  remainingUsdo: BigNumber;
+}
+
+// Amounts per payout asset, keyed by asset address
+export type AssetAmounts = Record<string, BigNumber>;
+
+// First request processRedemptionQueue would not get past
+export type QueueBlocker =
+  | { reason: 'liquidity'; index: number; asset: string; shortfall: BigNumber }
+  | { reason: 'kyc'; index: number; account: string };
+
+export interface QueuePlan {
+  queueLength: number;
+  // Contract balance of USDC and of every other payout asset met on the way
+  balances: AssetAmounts;
+  // Leading requests the current balances pay out in full
+  covered: QueueEntry[];
+  // With partial fills enabled, the part of the blocking request the balance left pays out
+  partial?: PartialFill;
+  totals: AssetAmounts;
+  fees: AssetAmounts;
+  blocker?: QueueBlocker;
+}
+
+export interface QueueKeeperOptions {
+  dryRun?: boolean;
+  // Upper bound on the number of requests processed in one transaction
+  maxItems?: number;
+  // Gas limit cap, the batch is shortened until it fits
+  maxGas?: BigNumberish;
+  // The run is skipped while the network asks for more than this per gas
+  maxFeePerGas?: BigNumberish;
+}
+
+export interface QueueKeeperResult {
+  plan: QueuePlan;
+  // Length passed (or, in dry-run, that would be passed) to processRedemptionQueue
+  length: number;
+  gasEstimate?: BigNumber;
+  txHash?: string;
+  skipped?: string;
+}
+
+const addTo = (amounts: AssetAmounts, asset: string, amount: BigNumber): BigNumber =>
+  (amounts[asset] = (amounts[asset] ?? constants.Zero).add(amount));
+
+// In the KYC list with a record that has not expired at `timestamp`, what USDOExpressV2 checks before paying out
+const hasKyc = async (express: USDOExpressV2, account: string, timestamp: number): Promise<boolean> => {
+  if (!(await express._kycList(account))) return false;
+  const { expiry } = (await express.getKycRecord(account)).record;
+  return expiry.isZero() || expiry.gt(timestamp);
+};
+
+/**
+ * Walk the redemption queue from the front and work out how many requests the assets held by USDOExpressV2 cover.
+ * Mirrors processRedemptionQueue: it reverts on a request whose sender or receiver lost KYC, or whose KYC expired
+ * by the last block, and stops at the first request the remaining balance of its payout asset cannot pay, after
+ * paying out part of it when partial fills are on.
+ */
+export const planRedemptionQueue = async (express: USDOExpressV2, maxItems = Infinity): Promise<QueuePlan> => {
+  const usdc = await express._usdc();
+  const [queueLength, usdcBalance, partialFill, { timestamp }] = await Promise.all([
+    express.getRedemptionQueueLength(),
+    express.getTokenBalance(usdc),
+    express._partialFill(),
+    express.provider.getBlock('latest'),
+  ]);
+
+  const balances: AssetAmounts = { [usdc]: usdcBalance };
+  const totals: AssetAmounts = {};
+  const fees: AssetAmounts = {};
+  const covered: QueueEntry[] = [];
+  let partial: PartialFill | undefined;
+  let blocker: QueueBlocker | undefined;
+
+  const limit = Math.min(queueLength.toNumber(), maxItems);
+  for (let index = 0; index < limit; index++) {
+    const { sender, receiver, usdoAmt, id, asset } = await express.getRedemptionQueueInfo(index);
+    // Cancelled by id, processing pops the empty slot
+    if (id === constants.HashZero) continue;
+
+    const [senderKyc, receiverKyc] = await Promise.all([
+      hasKyc(express, sender, timestamp),
+      hasKyc(express, receiver, timestamp),
+    ]);
+    if (!senderKyc || !receiverKyc) {
+      blocker = { reason: 'kyc', index, account: senderKyc ? receiver : sender };
+      break;
+    }
+
+    balances[asset] ??= await express.getTokenBalance(asset);
+    const remaining = balances[asset].sub(totals[asset] ?? constants.Zero);
+    const assetAmt = await express.convertToUnderlying(asset, usdoAmt);
+    if (assetAmt.gt(remaining)) {
+      blocker = { reason: 'liquidity', index, asset, shortfall: assetAmt.sub(remaining) };
+
+      // Same proportion as processRedemptionQueue, which prices the filled part from convertToUnderlying
+      const filledUsdo = partialFill ? usdoAmt.mul(remaining).div(assetAmt) : constants.Zero;
+      if (filledUsdo.gt(0)) {
+        const filledAmt = await express.convertToUnderlying(asset, filledUsdo);
+        const fee = await express.assetTxsFee(asset, filledAmt, TX_TYPE_REDEEM);
+        addTo(totals, asset, filledAmt);
+        addTo(fees, asset, fee);
+        const remainingUsdo = usdoAmt.sub(filledUsdo);
+        partial = { index, sender, receiver, usdoAmt: filledUsdo, id, asset, assetAmt: filledAmt, fee, remainingUsdo };
+      }
+      break;
+    }
+
+    const fee = await express.assetTxsFee(asset, assetAmt, TX_TYPE_REDEEM);
+    addTo(totals, asset, assetAmt);
+    addTo(fees, asset, fee);
+    covered.push({ index, sender, receiver, usdoAmt, id, asset, assetAmt, fee });
+  }
+
+  return { queueLength: queueLength.toNumber(), balances, covered, partial, totals, fees, blocker };
+};
+
+// processRedemptionQueue costs roughly the same per request, shrink the batch proportionally until it fits the cap
+const fitGasCap = async (
+  express: USDOExpressV2,
+  length: number,
+  maxGas?: BigNumberish,
+): Promise<{ length: number; estimate?: BigNumber }> => {
+  let candidate = length;
+  while (candidate > 0) {
+    const estimate = await express.estimateGas.processRedemptionQueue(candidate);
+    if (maxGas === undefined || estimate.lte(maxGas)) return { length: candidate, estimate };
+
+    const scaled = BigNumber.from(maxGas).mul(candidate).div(estimate).toNumber();
+    candidate = Math.min(candidate - 1, scaled);
+  }
+  return { length: 0 };
+};
+
+// Queue slots processRedemptionQueue goes through, up to the partially filled request and cancelled slots included
+const plannedLength = (plan: QueuePlan): number => {
+  const last = plan.partial ?? plan.covered[plan.covered.length - 1];
+  return last ? last.index + 1 : 0;
+};
+
+/**
+ * Process exactly the covered prefix of the redemption queue, and the partial fill that follows it.
+ * `express` must be connected to an OPERATOR_ROLE signer unless running dry.
+ */
+export const runQueueKeeper = async (
+  express: USDOExpressV2,
+  options: QueueKeeperOptions = {},
+): Promise<QueueKeeperResult> => {
+  const plan = await planRedemptionQueue(express, options.maxItems);
+
+  if (plan.queueLength === 0) return { plan, length: 0, skipped: 'queue is empty' };
+  // processRedemptionQueue(0) processes the whole queue, never send it
+  const length = plannedLength(plan);
+  if (length === 0) {
+    return {
+      plan,
+      length: 0,
+      skipped: plan.blocker ? `request ${plan.blocker.index} is blocked` : 'nothing to process',
+    };
+  }
+
+  if (options.maxFeePerGas !== undefined) {
+    const { maxFeePerGas, gasPrice } = await express.provider.getFeeData();
+    const fee = maxFeePerGas ?? gasPrice;
+    if (fee && fee.gt(options.maxFeePerGas)) {
+      return { plan, length: 0, skipped: `network fee ${fee} wei above cap ${options.maxFeePerGas}` };
+    }
+  }
+
+  if (!options.dryRun) {
+    const operator = await express.signer.getAddress();
+    if (!(await express.hasRole(await express.OPERATOR_ROLE(), operator))) {
+      throw new Error(`${operator} does not hold OPERATOR_ROLE on ${express.address}`);
+    }
+  }
+
+  let fitted: { length: number; estimate?: BigNumber };
+  try {
+    fitted = await fitGasCap(express, length, options.maxGas);
+  } catch (error) {
+    // Estimation needs OPERATOR_ROLE, a dry run from any account still reports the plan
+    if (!options.dryRun) throw error;
+    return { plan, length, skipped: 'dry run, gas estimation failed' };
+  }
+
+  if (fitted.length === 0) {
+    return { plan, length: 0, skipped: `a single request exceeds the gas cap ${options.maxGas}` };
+  }
+  if (options.dryRun) return { plan, length: fitted.length, gasEstimate: fitted.estimate };
+
+  let gasLimit = (fitted.estimate as BigNumber).mul(GAS_LIMIT_MARGIN_BPS).div(10_000);
+  if (options.maxGas !== undefined && gasLimit.gt(options.maxGas)) gasLimit = BigNumber.from(options.maxGas);
+
+  const tx = await express.processRedemptionQueue(fitted.length, { gasLimit });
+  await tx.wait();
+
+  return { plan, length: fitted.length, gasEstimate: fitted.estimate, txHash: tx.hash };
+};
+
+export interface QueueListingEntry extends QueueEntry {
+  // Asset paid to the receiver, assetAmt less the fee
+  netAmt: BigNumber;
+  // Amount of the asset the contract has to hold to pay out this request and every request in front of it
+  cumulativeAmt: BigNumber;
+  // Timestamp of the AddToRedemptionQueue event, unset when it falls outside the scanned blocks
+  requestedAt?: number;
+  // USDO of the request when it was queued, more than usdoAmt once partially filled. Unset like requestedAt
+  requestedUsdo?: BigNumber;
+  // Sender and/or receiver no longer in the KYC list or with an expired KYC, processRedemptionQueue reverts on such
+  // a request
+  kycLost: string[];
+}
+
+// Blocks searched for AddToRedemptionQueue events when no fromBlock is given
+export const DEFAULT_LOOKBACK_BLOCKS = 100_000;
+export const DEFAULT_BLOCK_RANGE = 10_000;
+
+export interface QueueListingOptions {
+  // First block searched for AddToRedemptionQueue events, defaults to the last DEFAULT_LOOKBACK_BLOCKS blocks
+  fromBlock?: number;
+  // Blocks per eth_getLogs call, for providers that cap the range
+  blockRange?: number;
+}
+
+interface QueuedRequest {
+  timestamp: number;
+  usdoAmt: BigNumber;
+}
+
+const queuedRequests = async (
+  express: USDOExpressV2,
+  options: QueueListingOptions,
+): Promise<Map<string, QueuedRequest>> => {
+  const filter = express.filters.AddToRedemptionQueue();
+  // Unlike getBlockNumber, not held at the highest block seen, which a reverted snapshot leaves behind
+  const { number: toBlock } = await express.provider.getBlock('latest');
+  const fromBlock = options.fromBlock ?? Math.max(toBlock - DEFAULT_LOOKBACK_BLOCKS + 1, 0);
+  const step = options.blockRange ?? DEFAULT_BLOCK_RANGE;
+
+  const blockTimes = new Map<number, number>();
+  const requests = new Map<string, QueuedRequest>();
+  for (let start = fromBlock; start <= toBlock; start += step) {
+    const events = await express.queryFilter(filter, start, Math.min(start + step - 1, toBlock));
+    for (const event of events) {
+      let timestamp = blockTimes.get(event.blockNumber);
+      if (timestamp === undefined) {
+        timestamp = (await event.getBlock()).timestamp;
+        blockTimes.set(event.blockNumber, timestamp);
+      }
+      requests.set(event.args.id, { timestamp, usdoAmt: event.args.usdoAmt });
+    }
+  }
+  return requests;
+};
+
+/**
+ * List the whole redemption queue in processing order, including the requests processRedemptionQueue would not
+ * get to. Unlike planRedemptionQueue it does not stop at a blocked request. Requests cancelled by id are left out,
+ * `index` keeps counting their slots.
+ */
+export const listRedemptionQueue = async (
+  express: USDOExpressV2,
+  options: QueueListingOptions = {},
+): Promise<QueueListingEntry[]> => {
+  const queueLength = (await express.getRedemptionQueueLength()).toNumber();
+  const requests = queueLength > 0 ? await queuedRequests(express, options) : new Map<string, QueuedRequest>();
+  const { timestamp } = await express.provider.getBlock('latest');
+
+  const entries: QueueListingEntry[] = [];
+  const cumulative: AssetAmounts = {};
+  for (let index = 0; index < queueLength; index++) {
+    const { sender, receiver, usdoAmt, id, asset } = await express.getRedemptionQueueInfo(index);
+    if (id === constants.HashZero) continue;
+
+    const assetAmt = await express.convertToUnderlying(asset, usdoAmt);
+    const fee = await express.assetTxsFee(asset, assetAmt, TX_TYPE_REDEEM);
+
+    const kycLost: string[] = [];
+    for (const account of new Set([sender, receiver])) {
+      if (!(await hasKyc(express, account, timestamp))) kycLost.push(account);
+    }
+
+    entries.push({
+      index,
+      sender,
+      receiver,
+      usdoAmt,
+      id,
+      asset,
+      assetAmt,
+      fee,
+      netAmt: assetAmt.sub(fee),
+      cumulativeAmt: addTo(cumulative, asset, assetAmt),
+      requestedAt: requests.get(id)?.timestamp,
+      requestedUsdo: requests.get(id)?.usdoAmt,
+      kycLost,
+    });
+  }
+  return entries;
+};
@@ -0,0 +1,135 @@
+import http from 'http';
+import { BigNumber, BigNumberish, ContractReceipt } from 'ethers';
+import type { USDOExpressV2 } from '../typechain-types';
+import { IntentExpiredError, IntentNonceError, IntentSignatureError, PreflightError } from '../sdk/errors';
+import { IntentKind, SignedIntent, intentDomain, intentFromJson, recoverIntentSigner } from '../sdk/intents';
+import { ErrorRegistry, RevertError, explainError } from '../utils/errorDecoder';
+import { readBody, reply } from '../utils/http';
+
+// An intent closer to its deadline may expire before the transaction is included
+const DEFAULT_MIN_VALIDITY = 60;
+
+// Signed intents are a few hundred bytes, anything much larger is not one
+const MAX_BODY_BYTES = 16 * 1024;
+
+export interface RelayerOptions {
+  // Intents are refused while the network asks for more than this per gas
+  maxFeePerGas?: BigNumberish;
+  // Seconds an intent has to stay valid for to be sent
+  minValidity?: number;
+  // Errors to decode reverts with, defaults to the compiled artifacts of this repository
+  errors?: ErrorRegistry;
+}
+
+export interface RelayResult {
+  kind: IntentKind;
+  from: string;
+  nonce: BigNumber;
+  txHash: string;
+  receipt: ContractReceipt;
+}
+
+// The relayer does not send the intent now, it may still be valid later
+export class RelayRefusedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+// The checks USDOExpressV2Ext._useIntent runs, so an intent it would reject costs the relayer no gas
+const checkIntent = async (express: USDOExpressV2, signed: SignedIntent, minValidity: number): Promise<void> => {
+  const { intent } = signed;
+  const [block, expected, code] = await Promise.all([
+    express.provider.getBlock('latest'),
+    express._intentNonces(intent.from),
+    express.provider.getCode(intent.from),
+  ]);
+
+  if (intent.deadline.lt(block.timestamp + minValidity)) throw new IntentExpiredError(intent.deadline);
+  if (!intent.nonce.eq(expected)) throw new IntentNonceError(intent.from, intent.nonce, expected);
+
+  // Contract wallets sign with ERC-1271, only the simulation checks their signatures
+  if (code !== '0x') return;
+  let signer: string | undefined;
+  try {
+    signer = recoverIntentSigner(await intentDomain(express), signed);
+  } catch {
+    // Malformed signature
+  }
+  if (signer !== intent.from) throw new IntentSignatureError(intent.from);
+};
+
+/**
+ * Check a signed intent, simulate it and send it from the signer `express` is connected to, which pays the gas.
+ * Throws a PreflightError for an intent USDOExpressV2 would reject for its nonce, deadline or signature, and a
+ * RevertError when the simulation reverts for another reason. Nothing is sent in both cases.
+ */
+export const relayIntent = async (
+  express: USDOExpressV2,
+  signed: SignedIntent,
+  options: RelayerOptions = {},
+): Promise<RelayResult> => {
+  const { kind, intent, signature } = signed;
+  await checkIntent(express, signed, options.minValidity ?? DEFAULT_MIN_VALIDITY);
+
+  if (options.maxFeePerGas !== undefined) {
+    const { maxFeePerGas, gasPrice } = await express.provider.getFeeData();
+    const fee = maxFeePerGas ?? gasPrice;
+    if (fee && fee.gt(options.maxFeePerGas)) {
+      throw new RelayRefusedError(`Network fee ${fee} wei above cap ${options.maxFeePerGas}`);
+    }
+  }
+
+  try {
+    if (kind === 'mint') {
+      await express.callStatic.instantMintWithIntent(intent, signature);
+    } else {
+      await express.callStatic.instantRedeemWithIntent(intent, signature);
+    }
+    const tx =
+      kind === 'mint'
+        ? await express.instantMintWithIntent(intent, signature)
+        : await express.instantRedeemWithIntent(intent, signature);
+    const receipt = await tx.wait();
+    return { kind, from: intent.from, nonce: intent.nonce, txHash: tx.hash, receipt };
+  } catch (error) {
+    throw explainError(error, options.errors);
+  }
+};
+
+const statusOf = (error: unknown): number => {
+  if (error instanceof TypeError || error instanceof SyntaxError) return 400;
+  if (error instanceof PreflightError || error instanceof RevertError) return 422;
+  if (error instanceof RelayRefusedError) return 503;
+  return 500;
+};
+
+/**
+ * HTTP front of relayIntent. `POST /intents` takes a signed intent in its JSON form (see intentToJson) and answers
+ * with the transaction hash once it is mined. Intents are sent one at a time, so the relayer's own transactions
+ * never compete for a nonce.
+ */
+export const createRelayerServer = (express: USDOExpressV2, options: RelayerOptions = {}): http.Server => {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  return http.createServer(async (req, res) => {
+    if (req.method !== 'POST' || req.url !== '/intents') {
+      reply(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    try {
+      const signed = intentFromJson(JSON.parse(await readBody(req, MAX_BODY_BYTES)));
+      const relayed = queue.then(() => relayIntent(express, signed, options));
+      queue = relayed.catch(() => undefined);
+
+      const { kind, from, nonce, txHash } = await relayed;
+      reply(res, 200, { kind, from, nonce: nonce.toString(), txHash });
+    } catch (error) {
+      const status = statusOf(error);
+      if (status === 500) console.error('%s relay failed:', new Date().toISOString(), error);
+      reply(res, status, { error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+};
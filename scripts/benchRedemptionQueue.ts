@@ -0,0 +1,108 @@
+import { ethers, network, upgrades } from 'hardhat';
+import { BigNumber } from 'ethers';
+import { keccak256, parseUnits, toUtf8Bytes } from 'ethers/lib/utils';
+import { AssetRegistry, MockUSDC, USDO, USDOExpressV2 } from '../typechain-types';
+import { explainError } from '../utils/errorDecoder';
+import { deployExpressExtension } from '../utils/extension';
+import { assetConfig } from '../utils/assetConfig';
+
+// Gas of the redemption queue on a fresh local stack, run it before and after a change of the queue storage
+// npx hardhat run scripts/benchRedemptionQueue.ts
+// QUEUE_LENGTH=250 npx hardhat run scripts/benchRedemptionQueue.ts
+
+const QUEUE_LENGTH = Number(process.env.QUEUE_LENGTH ?? 100);
+const USERS = 4;
+
+const MINTER_ROLE = keccak256(toUtf8Bytes('MINTER_ROLE'));
+const BURNER_ROLE = keccak256(toUtf8Bytes('BURNER_ROLE'));
+
+const usdo = (amount: string) => parseUnits(amount, 18);
+const usdc = (amount: string) => parseUnits(amount, 6);
+
+const deployStack = async () => {
+  const [owner] = await ethers.getSigners();
+
+  const usdoToken = (await upgrades.deployProxy(await ethers.getContractFactory('USDO'), [
+    'USDO Token',
+    'USDO',
+    owner.address,
+  ])) as USDO;
+  await usdoToken.updateTotalSupplyCap(usdo('1000000000'));
+
+  const usdcToken = (await (await ethers.getContractFactory('MockUSDC')).deploy()) as MockUSDC;
+  const cusdo = await (await ethers.getContractFactory('MockCUSDO')).deploy(usdoToken.address);
+
+  const assetRegistry = (await upgrades.deployProxy(await ethers.getContractFactory('AssetRegistry'), [
+    owner.address,
+  ])) as AssetRegistry;
+  await assetRegistry.setAssetConfig(assetConfig({ asset: usdcToken.address }));
+
+  const express = (await upgrades.deployProxy(
+    await ethers.getContractFactory('USDOExpressV2'),
+    [
+      usdoToken.address,
+      cusdo.address,
+      usdcToken.address,
+      owner.address,
+      owner.address,
+      owner.address,
+      owner.address,
+      owner.address,
+      assetRegistry.address,
+      {
+        mintMinimum: 0,
+        mintLimit: usdo('1000000000'),
+        mintDuration: 86400,
+        redeemMinimum: 0,
+        redeemLimit: usdo('1000000000'),
+        redeemDuration: 86400,
+        firstDepositAmount: 0,
+      },
+    ],
+    { constructorArgs: [await deployExpressExtension(ethers)] },
+  )) as USDOExpressV2;
+
+  await usdoToken.grantRole(MINTER_ROLE, express.address);
+  await usdoToken.grantRole(BURNER_ROLE, express.address);
+  return { express, usdcToken };
+};
+
+const average = (values: BigNumber[]): BigNumber =>
+  values.reduce((sum, value) => sum.add(value), BigNumber.from(0)).div(values.length);
+
+const bench = async () => {
+  if (network.name !== 'hardhat') throw new Error('The benchmark deploys its own stack, run it on the hardhat network');
+
+  const signers = await ethers.getSigners();
+  const users = signers.slice(1, USERS + 1);
+  const { express, usdcToken } = await deployStack();
+  await express.grantKycInBulk(users.map(user => user.address));
+
+  for (const user of users) {
+    await usdcToken.transfer(user.address, usdc('10000'));
+    await usdcToken.connect(user).approve(express.address, usdc('10000'));
+    await express.connect(user).instantMint(usdcToken.address, user.address, usdc('10000'));
+  }
+
+  const requestGas: BigNumber[] = [];
+  for (let i = 0; i < QUEUE_LENGTH; i++) {
+    const user = users[i % users.length];
+    const receipt = await (await express.connect(user).redeemRequest(user.address, usdo('10'))).wait();
+    requestGas.push(receipt.gasUsed);
+  }
+
+  // Cover the whole queue so every request is paid out
+  await usdcToken.transfer(express.address, usdc('10').mul(QUEUE_LENGTH));
+  const receipt = await (await express.processRedemptionQueue(QUEUE_LENGTH)).wait();
+
+  console.log('redeemRequest, average of %d:        %s gas', QUEUE_LENGTH, average(requestGas).toString());
+  console.log('processRedemptionQueue(%d):          %s gas', QUEUE_LENGTH, receipt.gasUsed.toString());
+  console.log('processRedemptionQueue, per request: %s gas', receipt.gasUsed.div(QUEUE_LENGTH).toString());
+};
+
+bench()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error(explainError(error));
+    process.exit(1);
+  });
@@ -1,22 +1,18 @@
-import { ethers, upgrades } from 'hardhat';
-import config from 'config';
+import hre, { ethers, upgrades } from 'hardhat';
+import { loadNetworkConfig } from '../utils/config';
+import { explainError } from '../utils/errorDecoder';
 
-// export NODE_ENV=sepolia
 // npx hardhat run scripts/deployAssetRegistry.ts --network sepolia
+// npx hardhat run scripts/deployAssetRegistry.ts --network base_sepolia
 
-// export NODE_ENV=base_sepolia
-// npx hardhat run scripts/deployUSDO.ts --network base_sepolia
-
-const { ADMIN_ADDRESS } = config.get('ADDRESS') as {
-  ADMIN_ADDRESS: string;
-};
 const contractName = 'AssetRegistry';
-const initializerArgs = [ADMIN_ADDRESS];
 const salt = '1337';
 
 // Deploy with terminal
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 const deploy = async () => {
+  const { ADDRESS } = await loadNetworkConfig(hre, { require: ['ADMIN_ADDRESS'] });
+  const initializerArgs = [ADDRESS.ADMIN_ADDRESS];
   const [deployer] = await ethers.getSigners();
 
   console.log('Deployer: %s', await deployer.getAddress());
@@ -39,6 +35,6 @@ const deploy = async () => {
 deploy()
   .then(() => process.exit(0))
   .catch(error => {
-    console.error(error);
+    console.error(explainError(error));
     process.exit(1);
   });
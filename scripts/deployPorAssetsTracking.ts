@@ -1,5 +1,6 @@
 import { ethers } from 'hardhat';
 import dotenv from 'dotenv';
+import { explainError } from '../utils/errorDecoder';
 
 dotenv.config();
 
@@ -38,7 +39,7 @@ const deploy = async () => {
     console.log(`Contract ${contractName} deployed to: ${res.address}`);
     console.log('Transaction hash:', res.deployTransaction.hash);
   } catch (error) {
-    console.error('Deployment failed:', error);
+    console.error('Deployment failed:', explainError(error));
     throw error;
   }
 };
@@ -48,6 +49,6 @@ const deploy = async () => {
 deploy()
   .then(() => process.exit(0))
   .catch(error => {
-    console.error('Deployment script failed:', error);
+    console.error('Deployment script failed:', explainError(error));
     process.exit(1);
   });
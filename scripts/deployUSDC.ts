@@ -1,5 +1,6 @@
 import { ethers, platform, upgrades } from 'hardhat';
 import dotenv from 'dotenv';
+import { explainError } from '../utils/errorDecoder';
 
 dotenv.config();
 
@@ -19,6 +20,6 @@ const deploy = async () => {
 deploy()
   .then(() => process.exit(0))
   .catch(error => {
-    console.error(error);
+    console.error(explainError(error));
     process.exit(1);
   });
@@ -1,27 +1,25 @@
-import { ethers, upgrades } from 'hardhat';
-import config from 'config';
+import hre, { ethers, upgrades } from 'hardhat';
+import { loadNetworkConfig } from '../utils/config';
+import { explainError } from '../utils/errorDecoder';
 
-// export NODE_ENV=sepolia
-// npx hardhat run scripts/deployUSDO.ts --network sepolia
+// npx hardhat run scripts/deployUSDOToken.ts --network sepolia
+// npx hardhat run scripts/deployUSDOToken.ts --network base_sepolia
 
-// export NODE_ENV=base_sepolia
-// npx hardhat run scripts/deployUSDO.ts --network base_sepolia
+// upgrades go through the upgrade task
+// npx hardhat upgrade --contract USDO --proxy <USDO_ADDRESS> --network sepolia
 
-const { ADMIN_ADDRESS, USDO_ADDRESS } = config.get('ADDRESS') as {
-  USDO_ADDRESS: string;
-  ADMIN_ADDRESS: string;
-};
 const contractName = 'USDO';
-const initializerArgs = ['OpenEden Open Dollar', 'USDO', ADMIN_ADDRESS];
 const salt = '1337';
 
 // const contractName = 'cUSDO';
-// const initializerArgs = [USDO_ADDRESS, ADMIN_ADDRESS];
+// const initializerArgs = [ADDRESS.USDO_ADDRESS, ADDRESS.ADMIN_ADDRESS];
 // const salt = '1337w';
 
 // Deploy with terminal
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 const deploy = async () => {
+  const { ADDRESS } = await loadNetworkConfig(hre, { require: ['ADMIN_ADDRESS'] });
+  const initializerArgs = ['OpenEden Open Dollar', 'USDO', ADDRESS.ADMIN_ADDRESS];
   const [deployer] = await ethers.getSigners();
 
   console.log('Deployer: %s', await deployer.getAddress());
@@ -41,20 +39,9 @@ const deploy = async () => {
   console.log('Contract address: %s', contract.address);
 };
 
-// Upgrade with terminal
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-const upgradeUSDO = async () => {
-  console.log('Upgrading USDO contract... %s', USDO_ADDRESS);
-
-  const newContract = await ethers.getContractFactory(contractName);
-  await upgrades.upgradeProxy(USDO_ADDRESS || '', newContract);
-
-  console.log('USDO Contract upgraded!');
-};
-
 deploy()
   .then(() => process.exit(0))
   .catch(error => {
-    console.error(error);
+    console.error(explainError(error));
     process.exit(1);
   });
@@ -1,19 +1,10 @@
-import { ethers, upgrades } from 'hardhat';
+import hre, { ethers, upgrades } from 'hardhat';
+import { loadNetworkConfig } from '../utils/config';
+import { explainError } from '../utils/errorDecoder';
 
-// export NODE_ENV=sepolia
 // npx hardhat run scripts/deployUSYCRedemption.ts --network sepolia
-
-// export NODE_ENV=base_sepolia
 // npx hardhat run scripts/deployUSYCRedemption.ts --network base_sepolia
 
-// If DEPLOY_MOCKS is true, these will be set after deployment
-// If false, you need to provide existing contract addresses
-const usycAddress = '0x38D3A3f8717F4DB1CcB4Ad7D8C755919440848A3';
-const usdcAddress = '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238';
-const helperAddress = '0xbb0524426bc1d13dAB721DB69D86374FC6BaCDba';
-const callerAddress = '0xE8191108261f3234f1C2acA52a0D5C11795Aef9E';
-const usycTreasury = '0xC4109e427A149239e6C1E35Bb2eCD0015B6500B8';
-
 const contractName = 'UsycRedemption';
 // const salt = '1337';
 
@@ -24,6 +15,17 @@ const contractName = 'UsycRedemption';
 // Deploy with terminal
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 const deploy = async () => {
+  const { ADDRESS } = await loadNetworkConfig(hre, {
+    require: ['USYC_ADDRESS', 'USDC_ADDRESS', 'USYC_HELPER', 'USDO_EXPRESS_ADDRESS', 'USYC_TREASURY'],
+  });
+  const usycAddress = ADDRESS.USYC_ADDRESS;
+  const usdcAddress = ADDRESS.USDC_ADDRESS;
+  const helperAddress = ADDRESS.USYC_HELPER;
+  const callerAddress = ADDRESS.USDO_EXPRESS_ADDRESS;
+  const usycTreasury = ADDRESS.USYC_TREASURY;
+  // Wired afterwards with setLiquidityController once the LiquidityController is deployed
+  const liquidityController = ethers.constants.AddressZero;
+
   const [deployer] = await ethers.getSigners();
 
   console.log('Deployer: %s', await deployer.getAddress());
@@ -41,7 +43,7 @@ const deploy = async () => {
   const contractFactory = await ethers.getContractFactory(contractName);
 
   // Prepare initializer arguments
-  const initializerArgs = [usycAddress, usdcAddress, helperAddress, callerAddress, usycTreasury];
+  const initializerArgs = [usycAddress, usdcAddress, helperAddress, callerAddress, usycTreasury, liquidityController];
 
   try {
     const contract = await upgrades.deployProxy(contractFactory, initializerArgs, {
@@ -74,7 +76,7 @@ const deploy = async () => {
     console.log('Caller:', caller);
     console.log('Treasury:', treasury);
   } catch (error) {
-    console.error('❌ Deployment failed:', error);
+    console.error('❌ Deployment failed:', explainError(error));
     throw error;
   }
 };
@@ -82,6 +84,6 @@ const deploy = async () => {
 deploy()
   .then(() => process.exit(0))
   .catch(error => {
-    console.error(error);
+    console.error(explainError(error));
     process.exit(1);
   });
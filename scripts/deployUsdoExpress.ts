@@ -1,115 +1,117 @@
-import { ethers, platform, upgrades } from 'hardhat';
-import config from 'config';
+import hre, { ethers, upgrades } from 'hardhat';
+import { BigNumber } from 'ethers';
+import { NetworkConfig, loadNetworkConfig } from '../utils/config';
+import { USDOExpressInitializerArgs, USDOExpressV2InitializerArgs } from '../utils/initializers';
+import { explainError } from '../utils/errorDecoder';
+import { implementationConstructorArgs } from '../utils/extension';
 
 // testnet
-// export NODE_ENV=sepolia
 // npx hardhat run scripts/deployUsdoExpress.ts --network sepolia
-
-// export NODE_ENV=base_sepolia
 // npx hardhat run scripts/deployUsdoExpress.ts --network base_sepolia
-
-// export NODE_ENV=arbi_sepolia
 // npx hardhat run scripts/deployUsdoExpress.ts --network arbi_sepolia
 
 // mainnet
-// export NODE_ENV=mainnet
 // npx hardhat run scripts/deployUsdoExpress.ts --network mainnet
-
-// export NODE_ENV=base_mainnet
 // npx hardhat run scripts/deployUsdoExpress.ts --network base_mainnet
+// npx hardhat run scripts/deployUsdoExpress.ts --network arb_mainnet
 
-// export NODE_ENV=arbi_mainnet
-// npx hardhat run scripts/deployUsdoExpress.ts --network arbi_mainnet
+// legacy: the original v1 USDOExpress (TBILL / BUIDL), only to reproduce historical deployments
+// export USDOEXPRESS_LEGACY_V1=true
+// npx hardhat run scripts/deployUsdoExpress.ts --network sepolia
 
-const contractName = 'USDOExpress';
+const legacyV1 = process.env.USDOEXPRESS_LEGACY_V1 === 'true';
+const contractName = legacyV1 ? 'USDOExpress' : 'USDOExpressV2';
 const salt = '1337e';
 
-const {
-  USDO_ADDRESS,
-  USDC_ADDRESS,
-  TBILL_ADDRESS,
-  BUIDL_ADDRESS,
-  BUIDL_REDEMPTION,
-  TREASURY,
-  BUIDL_TREASURY,
-  FEE_TO,
-  ADMIN_ADDRESS,
-} = config.get('ADDRESS') as {
-  USDO_ADDRESS: string;
-  USDC_ADDRESS: string;
-  TBILL_ADDRESS: string;
-  BUIDL_ADDRESS: string;
-  BUIDL_REDEMPTION: string;
-  TREASURY: string;
-  BUIDL_TREASURY: string;
-  FEE_TO: string;
-  ADMIN_ADDRESS: string;
-};
-
-const {
-  TOTAL_SUPPLY_CAP,
-  FIRST_DEPOSIT_AMOUNT,
-  MINT_MINIMUM,
-  MINT_LIMIT,
-  MINT_DURATION,
-  REDEEM_MINIMUM,
-  REDEEM_LIMIT,
-  REDEEM_DURATION,
-  MIN_FEE,
-  REDEEM_FEE,
-} = config.get('LIMITS') as {
-  TOTAL_SUPPLY_CAP: string;
-  FIRST_DEPOSIT_AMOUNT: string;
-  MINT_MINIMUM: string;
-  MINT_LIMIT: string;
-  MINT_DURATION: string;
-  REDEEM_MINIMUM: string;
-  REDEEM_LIMIT: string;
-  REDEEM_DURATION: string;
-  MIN_FEE: string;
-  REDEEM_FEE: string;
-};
-
-const parseNumericString = (value: string): string => value.replace(/_/g, '');
-
-const limiterConfig = {
-  totalSupplyCap: ethers.utils.parseUnits(parseNumericString(TOTAL_SUPPLY_CAP), 18),
-  mintMinimum: ethers.utils.parseUnits(parseNumericString(MINT_MINIMUM), 6),
-  mintLimit: ethers.utils.parseUnits(parseNumericString(MINT_LIMIT), 18),
-  mintDuration: parseNumericString(MINT_DURATION),
-  redeemMinimum: ethers.utils.parseUnits(parseNumericString(REDEEM_MINIMUM), 18),
-  redeemLimit: ethers.utils.parseUnits(parseNumericString(REDEEM_LIMIT), 18),
-  redeemDuration: parseNumericString(REDEEM_DURATION),
-  firstDepositAmount: ethers.utils.parseUnits(parseNumericString(FIRST_DEPOSIT_AMOUNT), 6),
-};
-
-const initializerArgs = [
-  USDO_ADDRESS,
-  USDC_ADDRESS,
-  TBILL_ADDRESS,
-  BUIDL_ADDRESS,
-  BUIDL_REDEMPTION,
-  TREASURY,
-  BUIDL_TREASURY,
-  FEE_TO,
-  ADMIN_ADDRESS,
-  limiterConfig,
+// V2 compares every limit in USDO decimals (18), whatever the underlying asset
+const buildInitializerArgs = ({ ADDRESS, LIMITS }: NetworkConfig): USDOExpressV2InitializerArgs => [
+  ADDRESS.USDO_ADDRESS,
+  ADDRESS.CUSDO_ADDRESS,
+  ADDRESS.USDC_ADDRESS,
+  ADDRESS.TREASURY,
+  ADDRESS.FEE_TO,
+  ADDRESS.MAINTAINER_ADDRESS,
+  ADDRESS.OPERATOR_ADDRESS,
+  ADDRESS.ADMIN_ADDRESS,
+  ADDRESS.ASSET_REGISTRY,
+  {
+    mintMinimum: LIMITS.MINT_MINIMUM,
+    mintLimit: LIMITS.MINT_LIMIT,
+    mintDuration: LIMITS.MINT_DURATION,
+    redeemMinimum: LIMITS.REDEEM_MINIMUM,
+    redeemLimit: LIMITS.REDEEM_LIMIT,
+    redeemDuration: LIMITS.REDEEM_DURATION,
+    firstDepositAmount: LIMITS.FIRST_DEPOSIT_AMOUNT,
+  },
 ];
 
-console.log('Deploying contract with the following arguments:', initializerArgs);
+const toUsdcDecimals = (amount: BigNumber): BigNumber =>
+  ethers.utils.parseUnits(ethers.utils.formatUnits(amount, 18), 6);
+
+// V1 takes the mint minimum and first deposit in USDC decimals (6) and owns the total supply cap
+const buildLegacyInitializerArgs = ({ ADDRESS, LIMITS }: NetworkConfig): USDOExpressInitializerArgs => [
+  ADDRESS.USDO_ADDRESS,
+  ADDRESS.USDC_ADDRESS,
+  ADDRESS.TBILL_ADDRESS,
+  ADDRESS.BUIDL_ADDRESS,
+  ADDRESS.BUIDL_REDEMPTION,
+  ADDRESS.TREASURY,
+  ADDRESS.BUIDL_TREASURY,
+  ADDRESS.FEE_TO,
+  ADDRESS.ADMIN_ADDRESS,
+  {
+    totalSupplyCap: LIMITS.TOTAL_SUPPLY_CAP,
+    mintMinimum: toUsdcDecimals(LIMITS.MINT_MINIMUM),
+    mintLimit: LIMITS.MINT_LIMIT,
+    mintDuration: LIMITS.MINT_DURATION,
+    redeemMinimum: LIMITS.REDEEM_MINIMUM,
+    redeemLimit: LIMITS.REDEEM_LIMIT,
+    redeemDuration: LIMITS.REDEEM_DURATION,
+    firstDepositAmount: toUsdcDecimals(LIMITS.FIRST_DEPOSIT_AMOUNT),
+  },
+];
 
 // Deploy with terminal
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 const deploy = async () => {
+  const networkConfig = await loadNetworkConfig(hre, {
+    require: legacyV1
+      ? ['USDO_ADDRESS', 'USDC_ADDRESS', 'TBILL_ADDRESS', 'TREASURY', 'FEE_TO', 'ADMIN_ADDRESS']
+      : [
+          'USDO_ADDRESS',
+          'CUSDO_ADDRESS',
+          'USDC_ADDRESS',
+          'TREASURY',
+          'FEE_TO',
+          'ADMIN_ADDRESS',
+          'MAINTAINER_ADDRESS',
+          'OPERATOR_ADDRESS',
+          'ASSET_REGISTRY',
+        ],
+  });
+  const initializerArgs = legacyV1 ? buildLegacyInitializerArgs(networkConfig) : buildInitializerArgs(networkConfig);
+
+  console.log('Deploying %s with the following arguments:', contractName, initializerArgs);
+
   const [deployer] = await ethers.getSigners();
 
   console.log('Deployer: %s', await deployer.getAddress());
   console.log('Account balance: %s', ethers.utils.formatEther(await deployer.getBalance()));
 
+  if (legacyV1) console.warn('USDOEXPRESS_LEGACY_V1 is set, deploying the deprecated v1 contract');
+
   const contractFactory = await ethers.getContractFactory(contractName);
+  // USDOEXPRESS_EXTENSION reuses a deployed USDOExpressV2Ext, a new one is deployed otherwise
+  const constructorArgs = await implementationConstructorArgs(
+    ethers,
+    contractFactory,
+    process.env.USDOEXPRESS_EXTENSION,
+  );
+  if (constructorArgs.length > 0) console.log('Extension: %s', constructorArgs[0]);
   const contract = await upgrades.deployProxy(contractFactory, initializerArgs, {
     initializer: 'initialize',
     kind: 'uups',
+    constructorArgs,
     salt,
     verifySourceCode: true,
   });
@@ -125,6 +127,6 @@ const deploy = async () => {
 deploy()
   .then(() => process.exit(0))
   .catch(error => {
-    console.error(error);
+    console.error(explainError(error));
     process.exit(1);
   });
@@ -1,5 +1,7 @@
 import { ethers, platform, upgrades } from 'hardhat';
 import dotenv from 'dotenv';
+import { explainError } from '../utils/errorDecoder';
+import { deployExpressExtension } from '../utils/extension';
 
 dotenv.config();
 
@@ -14,7 +16,10 @@ const deploy = async () => {
   console.log('Account balance: %s', ethers.utils.formatEther(await deployer.getBalance()));
 
   const contractFactory = await ethers.getContractFactory(contractName);
-  const contract = await contractFactory.deploy();
+  // USDOEXPRESS_EXTENSION reuses a deployed USDOExpressV2Ext, a new one is deployed otherwise
+  const extension = process.env.USDOEXPRESS_EXTENSION ?? (await deployExpressExtension(ethers));
+  console.log('Extension: %s', extension);
+  const contract = await contractFactory.deploy(extension);
   const res = await contract.deployed();
   console.log(`Contract ${contractName} deployed to: ${res.address}`);
 };
@@ -24,6 +29,6 @@ const deploy = async () => {
 deploy()
   .then(() => process.exit(0))
   .catch(error => {
-    console.error(error);
+    console.error(explainError(error));
     process.exit(1);
   });
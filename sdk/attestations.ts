@@ -0,0 +1,75 @@
+import { BigNumber, BigNumberish, Signer, TypedDataDomain, TypedDataField, utils } from 'ethers';
+import { signTypedData } from './intents';
+
+// Largest tier id of USDOExpressV2.KycAttestation, a uint32
+const MAX_TIER = 2 ** 32 - 1;
+
+/**
+ * KycAttestation of USDOExpressV2, signed by a compliance signer in the domain of the intents (see intentDomain).
+ * nonce is the value of _kycNonces(account) when it is signed, any KYC change of the account voids it.
+ */
+export interface KycAttestation {
+  account: string;
+  tier: number;
+  // Unix timestamp, 0 never expires
+  expiry: number;
+  nonce: BigNumber;
+}
+
+export interface SignedKycAttestation {
+  attestation: KycAttestation;
+  signature: string;
+}
+
+// Same order as the Solidity struct, the order is part of the type hash
+export const KYC_ATTESTATION_TYPES: Record<string, TypedDataField[]> = {
+  KycAttestation: [
+    { name: 'account', type: 'address' },
+    { name: 'tier', type: 'uint32' },
+    { name: 'expiry', type: 'uint64' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+};
+
+export const signKycAttestation = async (
+  signer: Signer,
+  domain: TypedDataDomain,
+  attestation: KycAttestation,
+): Promise<SignedKycAttestation> => {
+  const signature = await signTypedData(signer, domain, KYC_ATTESTATION_TYPES, { ...attestation });
+  return { attestation, signature };
+};
+
+// Address that signed the attestation, USDOExpressV2 only accepts the ones in _kycSigners
+export const recoverKycAttestationSigner = (domain: TypedDataDomain, signed: SignedKycAttestation): string =>
+  utils.verifyTypedData(domain, KYC_ATTESTATION_TYPES, signed.attestation, signed.signature);
+
+// JSON form of a signed attestation, the nonce as a decimal string
+export interface SignedKycAttestationJson {
+  attestation: { account: string; tier: number; expiry: number; nonce: string };
+  signature: string;
+}
+
+export const kycAttestationToJson = ({ attestation, signature }: SignedKycAttestation): SignedKycAttestationJson => ({
+  attestation: { ...attestation, nonce: attestation.nonce.toString() },
+  signature,
+});
+
+// Parses and checks untrusted input, throws a TypeError naming the first invalid member
+export const kycAttestationFromJson = (json: unknown): SignedKycAttestation => {
+  const { attestation, signature } = (json ?? {}) as Partial<SignedKycAttestationJson>;
+  if (typeof signature !== 'string' || !utils.isHexString(signature)) throw new TypeError('Invalid signature');
+  if (!attestation) throw new TypeError('Missing attestation');
+
+  const { account, tier, expiry } = attestation;
+  const nonce: BigNumberish | undefined = attestation.nonce;
+  if (typeof account !== 'string' || !utils.isAddress(account)) throw new TypeError(`Invalid account: ${account}`);
+  if (!Number.isInteger(tier) || tier < 0 || tier > MAX_TIER) throw new TypeError(`Invalid tier: ${tier}`);
+  if (!Number.isSafeInteger(expiry) || expiry < 0) throw new TypeError(`Invalid expiry: ${expiry}`);
+  if (typeof nonce !== 'string' || !/^\d+$/.test(nonce)) throw new TypeError(`Invalid nonce: ${nonce}`);
+
+  return {
+    attestation: { account: utils.getAddress(account), tier, expiry, nonce: BigNumber.from(nonce) },
+    signature,
+  };
+};
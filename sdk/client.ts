@@ -0,0 +1,675 @@
+import {
+  BigNumber,
+  BigNumberish,
+  ContractReceipt,
+  ContractTransaction,
+  Signer,
+  constants,
+  providers,
+  utils,
+} from 'ethers';
+import {
+  AssetRegistry__factory,
+  ERC20Permit__factory,
+  ICUSDO__factory,
+  IERC20Metadata__factory,
+  USDOExpressV2__factory,
+} from '../typechain-types';
+import type { USDOExpressV2 } from '../typechain-types';
+import type { USDOExpressV2Storage } from '../typechain-types/contracts/extensions/USDOExpressV2';
+import { ErrorRegistry, decodeError, explainError } from '../utils/errorDecoder';
+import {
+  AccountLimitExceededError,
+  AttestationUnsupportedError,
+  BelowMinimumError,
+  FirstDepositTooSmallError,
+  InsufficientAllowanceError,
+  InsufficientBalanceError,
+  InsufficientLiquidityError,
+  KycExpiredError,
+  KycSignerError,
+  KycTierNotSetError,
+  LimitExceededError,
+  NoRedemptionContractError,
+  NotInKycListError,
+  NotRedemptionSenderError,
+  PausedError,
+  RedemptionNotFoundError,
+  TxLimitExceededError,
+  UnsupportedAssetError,
+} from './errors';
+import { Intent, IntentKind, SignedIntent, intentDomain, signIntent } from './intents';
+import { SignedKycAttestation, recoverKycAttestationSigner } from './attestations';
+import { SignedPermit, permitDomain, signPermit } from './permit';
+
+const BPS_BASE = 10_000;
+const DEFAULT_SLIPPAGE_BPS = 50;
+const DEFAULT_INTENT_VALIDITY = 3600;
+// The permit is sent right after it is signed
+const DEFAULT_PERMIT_VALIDITY = 600;
+// getRedemptionQueueInfo calls in flight at once while adding up the USDO ahead of a request
+const QUEUE_READ_BATCH = 50;
+
+/**
+ * Token amount. Strings are decimal amounts in whole tokens ('100.5') and are scaled by the token's decimals,
+ * BigNumbers are taken as base units.
+ */
+export type Amount = BigNumber | string;
+
+export interface MintPreview {
+  underlying: string;
+  // Supplied underlying in its own decimals, fee included
+  amount: BigNumber;
+  fee: BigNumber;
+  netAmt: BigNumber;
+  // USDO minted now and after the next bonus multiplier accrual
+  usdoAmt: BigNumber;
+  usdoAmtNext: BigNumber;
+}
+
+export interface RedeemPreview {
+  // Asset paid out
+  asset: string;
+  // USDO burned
+  amount: BigNumber;
+  // Amounts in the payout asset, see USDOExpressV2.previewRedeemAsset
+  feeAmt: BigNumber;
+  assetAmt: BigNumber;
+  extraFee: BigNumber;
+}
+
+export interface CusdoRedeemPreview extends RedeemPreview {
+  // cUSDO shares redeemed, `amount` is the USDO they give
+  shares: BigNumber;
+}
+
+export interface ReceiverOptions {
+  // Receiver of the USDO, cUSDO or redeemed asset, defaults to the sender
+  to?: string;
+}
+
+export interface AccountOptions extends ReceiverOptions {
+  // Account the transaction would be sent from, defaults to the signer
+  from?: string;
+}
+
+export interface RedeemOptions extends ReceiverOptions {
+  // Asset paid out, defaults to USDC
+  asset?: string;
+}
+
+export interface InstantRedeemOptions extends RedeemOptions {
+  // Accepted shortfall against previewRedeem, minAmtOut is derived from it
+  slippageBps?: number;
+}
+
+export interface KycOptions {
+  // Sent along while USDOExpressV2 has not cached it yet, so the KYC of its account needs no whitelisting
+  attestation?: SignedKycAttestation;
+}
+
+export interface CusdoRedeemOptions extends ReceiverOptions {
+  // Accepted shortfall against previewRedeemFromCusdo, minAmtOut is derived from it
+  slippageBps?: number;
+}
+
+export interface IntentOptions extends ReceiverOptions {
+  // Accepted shortfall against the preview, minOut is derived from it
+  slippageBps?: number;
+  // Seconds the intent can be executed for, from the latest block
+  validFor?: number;
+  // Defaults to the next nonce of the signer, set it to sign several intents ahead
+  nonce?: BigNumberish;
+}
+
+export interface PermitOptions extends ReceiverOptions {
+  // Seconds the permit can be used for, from the latest block
+  validFor?: number;
+}
+
+export interface MintResult {
+  preview: MintPreview;
+  receipt: ContractReceipt;
+}
+
+export interface InstantRedeemResult {
+  preview: RedeemPreview;
+  minAmtOut: BigNumber;
+  receipt: ContractReceipt;
+}
+
+export interface QueueRedeemResult {
+  // Redemption id emitted in AddToRedemptionQueue
+  id: string;
+  receipt: ContractReceipt;
+}
+
+export interface CancelRedeemResult {
+  // The request as it was queued before the cancellation
+  position: QueuePosition;
+  receipt: ContractReceipt;
+}
+
+export interface QueuePosition {
+  index: number;
+  id: string;
+  sender: string;
+  receiver: string;
+  // USDO still queued, less than requested once the request was partially filled
+  usdoAmt: BigNumber;
+  asset: string;
+  // USDO queued in front of the request
+  usdoAhead: BigNumber;
+}
+
+interface RateWindow {
+  remaining: BigNumber;
+  resetsAt: number;
+}
+
+// Whether the attestation is for `account`, whatever the case of either address
+const attests = ({ attestation }: SignedKycAttestation, account: string): boolean =>
+  utils.getAddress(attestation.account) === utils.getAddress(account);
+
+/**
+ * Client for the USDOExpressV2 mint and redeem flows.
+ * Every write runs the matching preflight first and throws a PreflightError instead of sending a transaction
+ * that would revert. Reverts that get past the preflight are rethrown as a RevertError naming the custom error.
+ */
+export class USDOExpressClient {
+  private readonly decimals = new Map<string, number>();
+
+  // Errors to decode reverts with, defaults to the compiled artifacts of this repository
+  constructor(readonly express: USDOExpressV2, private readonly errors?: ErrorRegistry) {}
+
+  static connect(
+    address: string,
+    signerOrProvider: Signer | providers.Provider,
+    errors?: ErrorRegistry,
+  ): USDOExpressClient {
+    return new USDOExpressClient(USDOExpressV2__factory.connect(address, signerOrProvider), errors);
+  }
+
+  async parseAmount(token: string, amount: Amount): Promise<BigNumber> {
+    if (BigNumber.isBigNumber(amount)) return amount;
+    return utils.parseUnits(amount, await this.tokenDecimals(token));
+  }
+
+  async previewMint(underlying: string, amount: Amount): Promise<MintPreview> {
+    const raw = await this.parseAmount(underlying, amount);
+    const { netAmt, fee, usdoAmtCurr, usdoAmtNext } = await this.express.previewMint(underlying, raw);
+    return { underlying, amount: raw, fee, netAmt, usdoAmt: usdoAmtCurr, usdoAmtNext };
+  }
+
+  // previewRedeem of the USDO the cUSDO shares redeem for, paid out in USDC
+  async previewRedeemFromCusdo(shares: Amount, instant = true): Promise<CusdoRedeemPreview> {
+    const { raw, usdoAmt } = await this.previewUnwrap(shares);
+    return { ...(await this.previewRedeem(usdoAmt, instant)), shares: raw };
+  }
+
+  async previewRedeem(amount: Amount, instant = true, asset?: string): Promise<RedeemPreview> {
+    const payout = asset ?? (await this.express._usdc());
+    const raw = await this.parseAmount(await this.express._usdo(), amount);
+    const { feeAmt, assetAmt, extraFee } = await this.express.previewRedeemAsset(payout, raw, instant);
+    return { asset: payout, amount: raw, feeAmt, assetAmt, extraFee };
+  }
+
+  /**
+   * Check everything instantMint and instantMintAndWrap verify before they move funds.
+   * The first-deposit rule applies to the receiver, the same account the contract flags.
+   */
+  async preflightMint(
+    underlying: string,
+    amount: Amount,
+    options: AccountOptions & KycOptions = {},
+  ): Promise<MintPreview> {
+    const { from, to } = await this.accounts(options);
+    const { express } = this;
+
+    if (await express.pausedMint()) throw new PausedError('mint');
+    const attestation = await this.pendingAttestation(options.attestation);
+    await this.checkKyc(from, to, attestation);
+
+    await this.checkAssetSupported(underlying);
+
+    const preview = await this.previewMint(underlying, amount);
+    const usdoEquivalent = await express.convertFromUnderlying(underlying, preview.amount);
+    // The minimums and the per-transaction limit come from the KYC tier of the receiver, like the first deposit
+    const tier = await this.kycTier(to, attestation);
+    if (!(await express._firstDeposit(to))) {
+      const required = tier.firstDepositAmount;
+      if (usdoEquivalent.lt(required)) throw new FirstDepositTooSmallError(usdoEquivalent, required);
+    } else {
+      const minimum = tier.mintMinimum;
+      if (usdoEquivalent.lt(minimum)) throw new BelowMinimumError('mint', usdoEquivalent, minimum);
+    }
+    if (!tier.maxMintPerTx.isZero() && preview.usdoAmt.gt(tier.maxMintPerTx)) {
+      throw new TxLimitExceededError('mint', preview.usdoAmt, tier.maxMintPerTx);
+    }
+
+    const window = await this.mintWindow();
+    if (preview.usdoAmt.gt(window.remaining)) {
+      throw new LimitExceededError('mint', preview.usdoAmt, window.remaining, window.resetsAt);
+    }
+    const { mintRemaining } = await express.getAccountLimits(from);
+    if (preview.usdoAmt.gt(mintRemaining)) {
+      throw new AccountLimitExceededError('mint', from, preview.usdoAmt, mintRemaining);
+    }
+
+    await this.checkBalance(underlying, from, preview.amount);
+    return preview;
+  }
+
+  // Check everything instantRedeemAsset (instant) or redeemRequestAsset verify before burning USDO
+  async preflightRedeem(
+    amount: Amount,
+    instant: boolean,
+    options: AccountOptions & RedeemOptions & KycOptions = {},
+  ): Promise<RedeemPreview> {
+    const usdo = await this.express._usdo();
+    const raw = await this.parseAmount(usdo, amount);
+    return this.checkRedeem(raw, instant, options, { token: usdo, amount: raw });
+  }
+
+  // Check everything instantRedeemFromCusdo (instant) or redeemRequestFromCusdo verify, the shares pay for the USDO
+  async preflightRedeemFromCusdo(
+    shares: Amount,
+    instant: boolean,
+    options: AccountOptions = {},
+  ): Promise<CusdoRedeemPreview> {
+    const { cusdo, raw, usdoAmt } = await this.previewUnwrap(shares);
+    const preview = await this.checkRedeem(usdoAmt, instant, options, { token: cusdo, amount: raw });
+    return { ...preview, shares: raw };
+  }
+
+  /**
+   * Mint USDO from `underlying`, approving USDOExpressV2 first when the allowance falls short.
+   * A KYC attestation the contract has not cached yet goes along through instantMintWithKyc.
+   */
+  async mint(underlying: string, amount: Amount, options: ReceiverOptions & KycOptions = {}): Promise<MintResult> {
+    const { to } = await this.accounts(options);
+    const attestation = await this.pendingAttestation(options.attestation);
+    const preview = await this.preflightMint(underlying, amount, { to, attestation });
+    await this.ensureAllowance(underlying, preview.amount);
+
+    const receipt = await this.send(() =>
+      attestation
+        ? this.express.instantMintWithKyc(
+            underlying,
+            to,
+            preview.amount,
+            attestation.attestation,
+            attestation.signature,
+          )
+        : this.express.instantMint(underlying, to, preview.amount),
+    );
+    return { preview, receipt };
+  }
+
+  // Mint USDO and deposit it into cUSDO on behalf of the receiver
+  async mintAndWrap(underlying: string, amount: Amount, options: ReceiverOptions = {}): Promise<MintResult> {
+    const { to } = await this.accounts(options);
+    const preview = await this.preflightMint(underlying, amount, { to });
+    await this.ensureAllowance(underlying, preview.amount);
+
+    const receipt = await this.send(() => this.express.instantMintAndWrap(underlying, to, preview.amount));
+    return { preview, receipt };
+  }
+
+  // Mint USDO with an ERC-2612 permit for the underlying instead of a separate approve transaction
+  async mintWithPermit(underlying: string, amount: Amount, options: PermitOptions = {}): Promise<MintResult> {
+    const { to } = await this.accounts(options);
+    const preview = await this.preflightMint(underlying, amount, { to });
+    const { permit, v, r, s } = await this.signPermit(underlying, preview.amount, options);
+
+    const receipt = await this.send(() =>
+      this.express.instantMintWithPermit(underlying, to, preview.amount, permit.deadline, v, r, s),
+    );
+    return { preview, receipt };
+  }
+
+  async mintAndWrapWithPermit(underlying: string, amount: Amount, options: PermitOptions = {}): Promise<MintResult> {
+    const { to } = await this.accounts(options);
+    const preview = await this.preflightMint(underlying, amount, { to });
+    const { permit, v, r, s } = await this.signPermit(underlying, preview.amount, options);
+
+    const receipt = await this.send(() =>
+      this.express.instantMintAndWrapWithPermit(underlying, to, preview.amount, permit.deadline, v, r, s),
+    );
+    return { preview, receipt };
+  }
+
+  /**
+   * Redeem USDO for USDC through the redemption contract, or for another asset from the contract's balance.
+   * minAmtOut is previewRedeem less the slippage. KYC attestations only go along with USDC redemptions.
+   */
+  async instantRedeem(amount: Amount, options: InstantRedeemOptions & KycOptions = {}): Promise<InstantRedeemResult> {
+    const { to } = await this.accounts(options);
+    const slippageBps = this.slippageBps(options.slippageBps);
+
+    const attestation = await this.pendingAttestation(options.attestation);
+    const preview = await this.preflightRedeem(amount, true, { to, asset: options.asset, attestation });
+    const minAmtOut = preview.assetAmt.mul(BPS_BASE - slippageBps).div(BPS_BASE);
+
+    const receipt = await this.send(() =>
+      attestation
+        ? this.express.instantRedeemSelfWithKyc(
+            to,
+            preview.amount,
+            minAmtOut,
+            attestation.attestation,
+            attestation.signature,
+          )
+        : this.express.instantRedeemAsset(preview.asset, to, preview.amount, minAmtOut),
+    );
+    return { preview, minAmtOut, receipt };
+  }
+
+  /**
+   * Sign a mint for a relayer to send with instantMintWithIntent, the signer sends no transaction.
+   * The underlying is pulled from the signer, who needs an allowance for USDOExpressV2 beforehand.
+   */
+  async signMintIntent(underlying: string, amount: Amount, options: IntentOptions = {}): Promise<SignedIntent> {
+    const { from, to } = await this.accounts(options);
+    const slippageBps = this.slippageBps(options.slippageBps);
+    const preview = await this.preflightMint(underlying, amount, { to });
+
+    const erc20 = IERC20Metadata__factory.connect(underlying, this.express.provider);
+    const allowance = await erc20.allowance(from, this.express.address);
+    if (allowance.lt(preview.amount)) throw new InsufficientAllowanceError(underlying, allowance, preview.amount);
+
+    const minOut = preview.usdoAmt.mul(BPS_BASE - slippageBps).div(BPS_BASE);
+    return this.signIntent('mint', { from, underlying, amount: preview.amount, recipient: to, minOut }, options);
+  }
+
+  // Sign an instant redeem for a relayer to send with instantRedeemWithIntent, the signer's USDO is burned
+  async signRedeemIntent(amount: Amount, options: IntentOptions & RedeemOptions = {}): Promise<SignedIntent> {
+    const { from, to } = await this.accounts(options);
+    const slippageBps = this.slippageBps(options.slippageBps);
+    const preview = await this.preflightRedeem(amount, true, { to, asset: options.asset });
+
+    const minOut = preview.assetAmt.mul(BPS_BASE - slippageBps).div(BPS_BASE);
+    const intent = { from, underlying: preview.asset, amount: preview.amount, recipient: to, minOut };
+    return this.signIntent('redeem', intent, options);
+  }
+
+  // Redeem cUSDO shares and the USDO they give for USDC in one transaction, approving the shares when needed
+  async instantRedeemFromCusdo(shares: Amount, options: CusdoRedeemOptions = {}): Promise<InstantRedeemResult> {
+    const { to } = await this.accounts(options);
+    const slippageBps = this.slippageBps(options.slippageBps);
+
+    const preview = await this.preflightRedeemFromCusdo(shares, true, { to });
+    const minAmtOut = preview.assetAmt.mul(BPS_BASE - slippageBps).div(BPS_BASE);
+    await this.ensureAllowance(await this.express._cusdo(), preview.shares);
+
+    const receipt = await this.send(() => this.express.instantRedeemFromCusdo(preview.shares, to, minAmtOut));
+    return { preview, minAmtOut, receipt };
+  }
+
+  // Redeem cUSDO shares and queue the USDO they give for a USDC redemption
+  async queueRedeemFromCusdo(shares: Amount, options: ReceiverOptions = {}): Promise<QueueRedeemResult> {
+    const { to } = await this.accounts(options);
+    const preview = await this.preflightRedeemFromCusdo(shares, false, { to });
+    await this.ensureAllowance(await this.express._cusdo(), preview.shares);
+
+    const receipt = await this.send(() => this.express.redeemRequestFromCusdo(preview.shares, to));
+    const event = receipt.events?.find(e => e.event === 'AddToRedemptionQueue');
+    return { id: event?.args?.id as string, receipt };
+  }
+
+  /**
+   * Burn USDO and join the redemption queue, paid out in the asset once the operator processes it.
+   * KYC attestations only go along with USDC redemptions.
+   */
+  async queueRedeem(amount: Amount, options: RedeemOptions & KycOptions = {}): Promise<QueueRedeemResult> {
+    const { to } = await this.accounts(options);
+    const attestation = await this.pendingAttestation(options.attestation);
+    const preview = await this.preflightRedeem(amount, false, { to, asset: options.asset, attestation });
+
+    const receipt = await this.send(() =>
+      attestation
+        ? this.express.redeemRequestWithKyc(to, preview.amount, attestation.attestation, attestation.signature)
+        : this.express.redeemRequestAsset(preview.asset, to, preview.amount),
+    );
+    const event = receipt.events?.find(e => e.event === 'AddToRedemptionQueue');
+    return { id: event?.args?.id as string, receipt };
+  }
+
+  // Take a queued redemption of the signer out of the queue, the USDO not paid out yet is minted back
+  async cancelRedeem(id: string): Promise<CancelRedeemResult> {
+    const position = await this.getQueuePosition(id);
+    if (!position) throw new RedemptionNotFoundError(id);
+
+    const { from } = await this.accounts({});
+    if (utils.getAddress(position.sender) !== from) throw new NotRedemptionSenderError(from, id);
+
+    const receipt = await this.send(() => this.express.cancelRedemption(id));
+    return { position, receipt };
+  }
+
+  // Locate a queued redemption by its id, undefined once it has been processed or cancelled
+  async getQueuePosition(id: string): Promise<QueuePosition | undefined> {
+    let index: number;
+    try {
+      index = (await this.express.getRedemptionIndex(id)).toNumber();
+    } catch (error) {
+      if (decodeError(error, this.errors)?.name === 'USDOExpressRedemptionNotFound') return undefined;
+      throw explainError(error, this.errors);
+    }
+
+    // Slots of requests cancelled by id read as zero
+    let usdoAhead = constants.Zero;
+    for (let start = 0; start < index; start += QUEUE_READ_BATCH) {
+      const entries = await Promise.all(
+        Array.from({ length: Math.min(QUEUE_READ_BATCH, index - start) }, (_, i) =>
+          this.express.getRedemptionQueueInfo(start + i),
+        ),
+      );
+      usdoAhead = entries.reduce((sum, entry) => sum.add(entry.usdoAmt), usdoAhead);
+    }
+    const { sender, receiver, usdoAmt, asset } = await this.express.getRedemptionQueueInfo(index);
+    return { index, id, sender, receiver, usdoAmt, asset, usdoAhead };
+  }
+
+  // Reads the limiter through its capacity view, so the window is right in the fixed window and token bucket modes
+  async mintWindow(): Promise<RateWindow> {
+    const { express } = this;
+    const [block, [remaining, refillTime]] = await Promise.all([
+      express.provider.getBlock('latest'),
+      express.getMintCapacity(),
+    ]);
+    return { remaining, resetsAt: block.timestamp + refillTime.toNumber() };
+  }
+
+  async redeemWindow(): Promise<RateWindow> {
+    const { express } = this;
+    const [block, [remaining, refillTime]] = await Promise.all([
+      express.provider.getBlock('latest'),
+      express.getRedeemCapacity(),
+    ]);
+    return { remaining, resetsAt: block.timestamp + refillTime.toNumber() };
+  }
+
+  private async accounts(options: AccountOptions): Promise<{ from: string; to: string }> {
+    // Checksummed, so that they compare equal to the addresses the contracts return
+    const from = utils.getAddress(options.from ?? (await this.express.signer.getAddress()));
+    return { from, to: utils.getAddress(options.to ?? from) };
+  }
+
+  private slippageBps(slippageBps = DEFAULT_SLIPPAGE_BPS): number {
+    if (!Number.isInteger(slippageBps) || slippageBps < 0 || slippageBps > BPS_BASE) {
+      throw new RangeError(`slippageBps must be an integer between 0 and ${BPS_BASE}, got ${slippageBps}`);
+    }
+    return slippageBps;
+  }
+
+  private async signIntent(
+    kind: IntentKind,
+    intent: Omit<Intent, 'nonce' | 'deadline'>,
+    options: IntentOptions,
+  ): Promise<SignedIntent> {
+    const { express } = this;
+    const [nonce, block, domain] = await Promise.all([
+      options.nonce === undefined ? express._intentNonces(intent.from) : BigNumber.from(options.nonce),
+      express.provider.getBlock('latest'),
+      intentDomain(express),
+    ]);
+    const deadline = BigNumber.from(block.timestamp + (options.validFor ?? DEFAULT_INTENT_VALIDITY));
+    return signIntent(express.signer, domain, kind, { ...intent, nonce, deadline });
+  }
+
+  private async signPermit(token: string, value: BigNumber, options: PermitOptions): Promise<SignedPermit> {
+    const { express } = this;
+    const owner = await express.signer.getAddress();
+    // Rejects tokens without permits before their nonces are read
+    const domain = await permitDomain(token, express.provider);
+    const [nonce, block] = await Promise.all([
+      ERC20Permit__factory.connect(token, express.provider).nonces(owner),
+      express.provider.getBlock('latest'),
+    ]);
+    const deadline = BigNumber.from(block.timestamp + (options.validFor ?? DEFAULT_PERMIT_VALIDITY));
+    return signPermit(express.signer, domain, { owner, spender: express.address, value, nonce, deadline });
+  }
+
+  private async tokenDecimals(token: string): Promise<number> {
+    let decimals = this.decimals.get(token);
+    if (decimals === undefined) {
+      decimals = await IERC20Metadata__factory.connect(token, this.express.provider).decimals();
+      this.decimals.set(token, decimals);
+    }
+    return decimals;
+  }
+
+  // USDO the cUSDO shares redeem for
+  private async previewUnwrap(shares: Amount): Promise<{ cusdo: string; raw: BigNumber; usdoAmt: BigNumber }> {
+    const cusdo = await this.express._cusdo();
+    const raw = await this.parseAmount(cusdo, shares);
+    const usdoAmt = await ICUSDO__factory.connect(cusdo, this.express.provider).previewRedeem(raw);
+    return { cusdo, raw, usdoAmt };
+  }
+
+  // The redeem rules for `usdoAmt`, `funding` is what the sender spends on it: its USDO or its cUSDO shares
+  private async checkRedeem(
+    usdoAmt: BigNumber,
+    instant: boolean,
+    options: AccountOptions & RedeemOptions & KycOptions,
+    funding: { token: string; amount: BigNumber },
+  ): Promise<RedeemPreview> {
+    const { from, to } = await this.accounts(options);
+    const { express } = this;
+    const usdc = utils.getAddress(await express._usdc());
+    const asset = utils.getAddress(options.asset ?? usdc);
+
+    if (await express.pausedRedeem()) throw new PausedError('redeem');
+    const attestation = await this.pendingAttestation(options.attestation);
+    // instantRedeemSelfWithKyc and redeemRequestWithKyc pay out USDC only
+    if (attestation && asset !== usdc) throw new AttestationUnsupportedError(asset);
+    await this.checkKyc(from, to, attestation);
+    await this.checkAssetSupported(asset);
+
+    const minimum = await express._redeemMinimum();
+    if (usdoAmt.lt(minimum)) throw new BelowMinimumError('redeem', usdoAmt, minimum);
+    const tier = await this.kycTier(from, attestation);
+    if (!tier.maxRedeemPerTx.isZero() && usdoAmt.gt(tier.maxRedeemPerTx)) {
+      throw new TxLimitExceededError('redeem', usdoAmt, tier.maxRedeemPerTx);
+    }
+
+    const window = await this.redeemWindow();
+    if (usdoAmt.gt(window.remaining)) {
+      throw new LimitExceededError('redeem', usdoAmt, window.remaining, window.resetsAt);
+    }
+    const { redeemRemaining } = await express.getAccountLimits(from);
+    if (usdoAmt.gt(redeemRemaining)) throw new AccountLimitExceededError('redeem', from, usdoAmt, redeemRemaining);
+
+    await this.checkBalance(funding.token, from, funding.amount);
+    if (instant && asset === usdc && (await express._redemptionContract()) === constants.AddressZero) {
+      throw new NoRedemptionContractError();
+    }
+
+    const preview = await this.previewRedeem(usdoAmt, instant, asset);
+    if (instant && asset !== usdc) {
+      const required = preview.assetAmt.add(preview.feeAmt);
+      // The balance pays the requests queued in the asset first
+      const [balance, queued] = await Promise.all([
+        express.getTokenBalance(asset),
+        express._queuedUsdo(asset).then(usdoAmt => express.convertToUnderlying(asset, usdoAmt)),
+      ]);
+      const available = balance.gt(queued) ? balance.sub(queued) : constants.Zero;
+      if (available.lt(required)) throw new InsufficientLiquidityError(asset, available, required);
+    }
+    return preview;
+  }
+
+  // The attestation while its nonce is the next one of its account, undefined once it was used or voided
+  private async pendingAttestation(
+    attestation: SignedKycAttestation | undefined,
+  ): Promise<SignedKycAttestation | undefined> {
+    if (!attestation) return undefined;
+    const expected = await this.express._kycNonces(attestation.attestation.account);
+    return attestation.attestation.nonce.eq(expected) ? attestation : undefined;
+  }
+
+  // The tier a pending attestation of `account` grants, otherwise the tier of its KYC record
+  private async kycTier(
+    account: string,
+    attestation: SignedKycAttestation | undefined,
+  ): Promise<USDOExpressV2Storage.KycTierStructOutput> {
+    if (attestation && attests(attestation, account)) return this.express.getKycTier(attestation.attestation.tier);
+    return (await this.express.getKycRecord(account)).tier;
+  }
+
+  private async checkKyc(from: string, to: string, attestation?: SignedKycAttestation): Promise<void> {
+    const { timestamp } = await this.express.provider.getBlock('latest');
+    if (attestation) await this.checkAttestation(attestation, timestamp);
+    for (const account of [from, to]) {
+      // The pending attestation replaces the KYC record of its account
+      if (attestation && attests(attestation, account)) continue;
+      if (!(await this.express._kycList(account))) throw new NotInKycListError(account);
+      // Valid up to and including expiry, as the contract checks it
+      const { expiry } = (await this.express.getKycRecord(account)).record;
+      if (expiry.gt(0) && expiry.lt(timestamp)) throw new KycExpiredError(account, expiry.toNumber());
+    }
+  }
+
+  // The checks USDOExpressV2Ext._useKycAttestation runs once the nonce matches
+  private async checkAttestation(signed: SignedKycAttestation, timestamp: number): Promise<void> {
+    const { account, tier, expiry } = signed.attestation;
+    if (expiry > 0 && expiry < timestamp) throw new KycExpiredError(account, expiry);
+    if (tier !== 0 && !(await this.express.getKycTier(tier)).isSet) throw new KycTierNotSetError(tier);
+
+    let signer: string | undefined;
+    try {
+      signer = recoverKycAttestationSigner(await intentDomain(this.express), signed);
+    } catch {
+      // Malformed signature
+    }
+    if (!signer || !(await this.express._kycSigners(signer))) throw new KycSignerError(signer);
+  }
+
+  private async checkAssetSupported(asset: string): Promise<void> {
+    const registry = AssetRegistry__factory.connect(await this.express._assetRegistry(), this.express.provider);
+    if (!(await registry.getAssetConfig(asset)).isSupported) throw new UnsupportedAssetError(asset);
+  }
+
+  private async checkBalance(token: string, account: string, required: BigNumber): Promise<void> {
+    const balance = await IERC20Metadata__factory.connect(token, this.express.provider).balanceOf(account);
+    if (balance.lt(required)) throw new InsufficientBalanceError(token, balance, required);
+  }
+
+  private async ensureAllowance(token: string, amount: BigNumber): Promise<void> {
+    const erc20 = IERC20Metadata__factory.connect(token, this.express.signer);
+    const owner = await this.express.signer.getAddress();
+    if ((await erc20.allowance(owner, this.express.address)).gte(amount)) return;
+
+    await this.send(() => erc20.approve(this.express.address, amount));
+  }
+
+  private async send(action: () => Promise<ContractTransaction>): Promise<ContractReceipt> {
+    try {
+      const tx = await action();
+      return await tx.wait();
+    } catch (error) {
+      throw explainError(error, this.errors);
+    }
+  }
+}
@@ -0,0 +1,177 @@
+import { BigNumber } from 'ethers';
+
+/**
+ * Base class of the errors thrown by the client preflight, before any transaction is sent.
+ * Each subclass mirrors a revert of USDOExpressV2 so callers can handle it without decoding revert data.
+ */
+export class PreflightError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+// USDOExpressNotInKycList
+export class NotInKycListError extends PreflightError {
+  constructor(readonly account: string) {
+    super(`${account} is not in the KYC list`);
+  }
+}
+
+// USDOExpressKycExpired
+export class KycExpiredError extends PreflightError {
+  constructor(readonly account: string, readonly expiry: number) {
+    super(`KYC of ${account} expired at ${expiry}`);
+  }
+}
+
+// whenNotPausedMint / whenNotPausedRedeem
+export class PausedError extends PreflightError {
+  constructor(readonly operation: 'mint' | 'redeem') {
+    super(`USDOExpressV2 ${operation} is paused`);
+  }
+}
+
+// USDOExpressTokenNotSupported
+export class UnsupportedAssetError extends PreflightError {
+  constructor(readonly asset: string) {
+    super(`${asset} is not supported by the asset registry`);
+  }
+}
+
+// FirstDepositLessThanRequired, amounts in USDO decimals
+export class FirstDepositTooSmallError extends PreflightError {
+  constructor(readonly amount: BigNumber, readonly required: BigNumber) {
+    super(`First deposit of ${amount} USDO wei is below the required ${required}`);
+  }
+}
+
+// MintLessThanMinimum / RedeemLessThanMinimum, amounts in USDO decimals
+export class BelowMinimumError extends PreflightError {
+  constructor(readonly operation: 'mint' | 'redeem', readonly amount: BigNumber, readonly minimum: BigNumber) {
+    super(`${operation} of ${amount} USDO wei is below the minimum of ${minimum}`);
+  }
+}
+
+// MintLimitExceeded / RedeemLimitExceeded, amounts in USDO decimals
+export class LimitExceededError extends PreflightError {
+  constructor(
+    readonly operation: 'mint' | 'redeem',
+    readonly amount: BigNumber,
+    readonly remaining: BigNumber,
+    // Timestamp at which the full limit is available again
+    readonly resetsAt: number,
+  ) {
+    super(`${operation} of ${amount} USDO wei exceeds the ${remaining} left in the current window`);
+  }
+}
+
+// MintTxLimitExceeded / RedeemTxLimitExceeded, the per-transaction limit of the KYC tier, amounts in USDO decimals
+export class TxLimitExceededError extends PreflightError {
+  constructor(readonly operation: 'mint' | 'redeem', readonly amount: BigNumber, readonly limit: BigNumber) {
+    super(`${operation} of ${amount} USDO wei exceeds the per-transaction limit of ${limit}`);
+  }
+}
+
+// AccountMintLimitExceeded / AccountRedeemLimitExceeded, amounts in USDO decimals
+export class AccountLimitExceededError extends PreflightError {
+  constructor(
+    readonly operation: 'mint' | 'redeem',
+    readonly account: string,
+    readonly amount: BigNumber,
+    readonly remaining: BigNumber,
+  ) {
+    super(`${operation} of ${amount} USDO wei exceeds the ${remaining} left to ${account} in its own window`);
+  }
+}
+
+export class InsufficientBalanceError extends PreflightError {
+  constructor(readonly token: string, readonly balance: BigNumber, readonly required: BigNumber) {
+    super(`Balance of ${balance} ${token} wei is below the required ${required}`);
+  }
+}
+
+// Mints through an intent pull the underlying from the signer, who approves USDOExpressV2 beforehand
+export class InsufficientAllowanceError extends PreflightError {
+  constructor(readonly token: string, readonly allowance: BigNumber, readonly required: BigNumber) {
+    super(`Allowance of ${allowance} ${token} wei is below the required ${required}`);
+  }
+}
+
+// instantRedeemSelf calls the redemption contract unconditionally
+export class NoRedemptionContractError extends PreflightError {
+  constructor() {
+    super('USDOExpressV2 has no redemption contract, instant redemption is unavailable');
+  }
+}
+
+// USDOExpressInsufficientLiquidity, instant redemptions outside USDC are paid from the contract's own balance
+export class InsufficientLiquidityError extends PreflightError {
+  constructor(readonly asset: string, readonly available: BigNumber, readonly required: BigNumber) {
+    super(`USDOExpressV2 holds ${available} ${asset} wei, the redemption needs ${required}`);
+  }
+}
+
+// USDOExpressRedemptionNotFound, the request was processed, cancelled or never queued
+export class RedemptionNotFoundError extends PreflightError {
+  constructor(readonly id: string) {
+    super(`Redemption ${id} is not in the queue`);
+  }
+}
+
+// USDOExpressNotRedemptionSender
+export class NotRedemptionSenderError extends PreflightError {
+  constructor(readonly account: string, readonly id: string) {
+    super(`${account} did not queue redemption ${id}`);
+  }
+}
+
+// USDOExpressIntentExpired
+export class IntentExpiredError extends PreflightError {
+  constructor(readonly deadline: BigNumber) {
+    super(`Intent expired at ${deadline}`);
+  }
+}
+
+// USDOExpressInvalidIntentNonce, the nonces of a signer are used in order
+export class IntentNonceError extends PreflightError {
+  constructor(readonly account: string, readonly nonce: BigNumber, readonly expected: BigNumber) {
+    super(`Intent nonce ${nonce} of ${account} is not the next one, ${expected}`);
+  }
+}
+
+// USDOExpressInvalidIntentSignature
+export class IntentSignatureError extends PreflightError {
+  constructor(readonly account: string) {
+    super(`Intent is not signed by ${account}`);
+  }
+}
+
+// The underlying does not implement ERC-2612, or its permit domain cannot be worked out
+export class PermitUnsupportedError extends PreflightError {
+  constructor(readonly token: string) {
+    super(`${token} does not support ERC-2612 permits`);
+  }
+}
+
+// USDOExpressKycTierNotSet, the tier a KYC record or attestation grants has no rules
+export class KycTierNotSetError extends PreflightError {
+  constructor(readonly tier: number) {
+    super(`KYC tier ${tier} is not set`);
+  }
+}
+
+// USDOExpressInvalidKycSigner, the attestation is not signed by a compliance signer of USDOExpressV2
+export class KycSignerError extends PreflightError {
+  constructor(readonly signer: string | undefined) {
+    super(`KYC attestation signer ${signer ?? '(invalid signature)'} is not a registered compliance signer`);
+  }
+}
+
+// Only instantMintWithKyc, instantRedeemSelfWithKyc and redeemRequestWithKyc take a KYC attestation, the latter two
+// pay out USDC
+export class AttestationUnsupportedError extends PreflightError {
+  constructor(readonly asset: string) {
+    super(`KYC attestations only go along with USDC redemptions, not with ${asset}`);
+  }
+}
@@ -0,0 +1,6 @@
+export * from './attestations';
+export * from './client';
+export * from './errors';
+export * from './intents';
+export * from './permit';
+export { DecodedError, RevertError } from '../utils/errorDecoder';
@@ -0,0 +1,136 @@
+import { BigNumber, BigNumberish, Signer, TypedDataDomain, TypedDataField, utils } from 'ethers';
+import type { USDOExpressV2 } from '../typechain-types';
+
+export type IntentKind = 'mint' | 'redeem';
+
+/**
+ * MintIntent / RedeemIntent of USDOExpressV2, both have the same members.
+ * On a mint, amount is the underlying supplied and minOut the minimum USDO minted. On a redeem, underlying is the
+ * asset paid out, amount the USDO burned and minOut the minimum amount of the asset received.
+ */
+export interface Intent {
+  from: string;
+  underlying: string;
+  amount: BigNumber;
+  recipient: string;
+  minOut: BigNumber;
+  nonce: BigNumber;
+  // Timestamp after which the intent can no longer be executed
+  deadline: BigNumber;
+}
+
+export interface SignedIntent {
+  kind: IntentKind;
+  intent: Intent;
+  signature: string;
+}
+
+// Same order as the Solidity structs, the order is part of the type hash
+const INTENT_FIELDS: TypedDataField[] = [
+  { name: 'from', type: 'address' },
+  { name: 'underlying', type: 'address' },
+  { name: 'amount', type: 'uint256' },
+  { name: 'recipient', type: 'address' },
+  { name: 'minOut', type: 'uint256' },
+  { name: 'nonce', type: 'uint256' },
+  { name: 'deadline', type: 'uint256' },
+];
+
+export const INTENT_TYPES: Record<IntentKind, Record<string, TypedDataField[]>> = {
+  mint: { MintIntent: INTENT_FIELDS },
+  redeem: { RedeemIntent: INTENT_FIELDS },
+};
+
+// Mirrors USDOExpressV2Ext._domainSeparator
+export const intentDomain = async (express: USDOExpressV2): Promise<TypedDataDomain> => ({
+  name: 'USDOExpressV2',
+  version: '1',
+  chainId: (await express.provider.getNetwork()).chainId,
+  verifyingContract: express.address,
+});
+
+interface TypedDataSigner extends Signer {
+  _signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, unknown>,
+  ): Promise<string>;
+}
+
+export const signTypedData = (
+  signer: Signer,
+  domain: TypedDataDomain,
+  types: Record<string, TypedDataField[]>,
+  value: Record<string, unknown>,
+): Promise<string> => {
+  if (!('_signTypedData' in signer)) throw new TypeError('The signer cannot sign EIP-712 typed data');
+  return (signer as TypedDataSigner)._signTypedData(domain, types, value);
+};
+
+export const signIntent = async (
+  signer: Signer,
+  domain: TypedDataDomain,
+  kind: IntentKind,
+  intent: Intent,
+): Promise<SignedIntent> => {
+  const signature = await signTypedData(signer, domain, INTENT_TYPES[kind], { ...intent });
+  return { kind, intent, signature };
+};
+
+// Address of the EOA that signed the intent, contract wallets sign with ERC-1271 and are checked on-chain only
+export const recoverIntentSigner = (domain: TypedDataDomain, signed: SignedIntent): string =>
+  utils.verifyTypedData(domain, INTENT_TYPES[signed.kind], signed.intent, signed.signature);
+
+// JSON form of a signed intent, amounts as decimal strings
+export interface SignedIntentJson {
+  kind: IntentKind;
+  intent: Record<keyof Intent, string>;
+  signature: string;
+}
+
+export const intentToJson = ({ kind, intent, signature }: SignedIntent): SignedIntentJson => ({
+  kind,
+  intent: {
+    from: intent.from,
+    underlying: intent.underlying,
+    amount: intent.amount.toString(),
+    recipient: intent.recipient,
+    minOut: intent.minOut.toString(),
+    nonce: intent.nonce.toString(),
+    deadline: intent.deadline.toString(),
+  },
+  signature,
+});
+
+// Parses and checks untrusted input, throws a TypeError naming the first invalid member
+export const intentFromJson = (json: unknown): SignedIntent => {
+  const { kind, intent, signature } = (json ?? {}) as Partial<SignedIntentJson>;
+  if (kind !== 'mint' && kind !== 'redeem') throw new TypeError(`Invalid intent kind: ${kind}`);
+  if (typeof signature !== 'string' || !utils.isHexString(signature)) throw new TypeError('Invalid signature');
+  if (!intent) throw new TypeError('Missing intent');
+
+  const address = (name: keyof Intent): string => {
+    const value = intent[name];
+    if (typeof value !== 'string' || !utils.isAddress(value)) throw new TypeError(`Invalid ${name}: ${value}`);
+    return utils.getAddress(value);
+  };
+  const uint = (name: keyof Intent): BigNumber => {
+    const value: BigNumberish | undefined = intent[name];
+    if (typeof value !== 'string' || !/^\d+$/.test(value)) throw new TypeError(`Invalid ${name}: ${value}`);
+    return BigNumber.from(value);
+  };
+
+  return {
+    kind,
+    intent: {
+      from: address('from'),
+      underlying: address('underlying'),
+      amount: uint('amount'),
+      recipient: address('recipient'),
+      minOut: uint('minOut'),
+      nonce: uint('nonce'),
+      deadline: uint('deadline'),
+    },
+    signature,
+  };
+};
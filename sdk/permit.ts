@@ -0,0 +1,71 @@
+import { BigNumber, Contract, Signer, TypedDataDomain, TypedDataField, providers, utils } from 'ethers';
+import { ERC20Permit__factory, IERC5267__factory } from '../typechain-types';
+import { PermitUnsupportedError } from './errors';
+import { signTypedData } from './intents';
+
+// ERC-2612 Permit message
+export interface Permit {
+  owner: string;
+  spender: string;
+  value: BigNumber;
+  nonce: BigNumber;
+  deadline: BigNumber;
+}
+
+export interface SignedPermit {
+  permit: Permit;
+  v: number;
+  r: string;
+  s: string;
+}
+
+export const PERMIT_TYPES: Record<string, TypedDataField[]> = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+// FiatToken (USDC) predates EIP-5267 and exposes its domain version on its own
+const VERSION_ABI = ['function version() view returns (string)'];
+
+/**
+ * EIP-712 domain the permits of `token` are signed in. Read from EIP-5267 when the token implements it, otherwise
+ * from its name and version. Throws a PermitUnsupportedError unless the domain hashes to the token's DOMAIN_SEPARATOR.
+ */
+export const permitDomain = async (token: string, provider: providers.Provider): Promise<TypedDataDomain> => {
+  const erc20 = ERC20Permit__factory.connect(token, provider);
+  let domain: TypedDataDomain;
+  try {
+    const { name, version, chainId, verifyingContract } = await IERC5267__factory.connect(
+      token,
+      provider,
+    ).eip712Domain();
+    domain = { name, version, chainId, verifyingContract };
+  } catch {
+    const [name, version, { chainId }] = await Promise.all([
+      erc20.name(),
+      new Contract(token, VERSION_ABI, provider).version().catch(() => '1'),
+      provider.getNetwork(),
+    ]);
+    domain = { name, version, chainId, verifyingContract: token };
+  }
+
+  let separator: string;
+  try {
+    separator = await erc20.DOMAIN_SEPARATOR();
+  } catch {
+    throw new PermitUnsupportedError(token);
+  }
+  if (utils._TypedDataEncoder.hashDomain(domain) !== separator) throw new PermitUnsupportedError(token);
+  return domain;
+};
+
+export const signPermit = async (signer: Signer, domain: TypedDataDomain, permit: Permit): Promise<SignedPermit> => {
+  const signature = await signTypedData(signer, domain, PERMIT_TYPES, { ...permit });
+  const { v, r, s } = utils.splitSignature(signature);
+  return { permit, v, r, s };
+};
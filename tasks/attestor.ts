@@ -0,0 +1,51 @@
+import { task, types } from 'hardhat/config';
+import type { USDOExpressV2 } from '../typechain-types';
+import { loadNetworkConfig } from '../utils/config';
+import { createAttestorServer } from '../attestor';
+
+// export ATTESTOR_TOKEN=...
+// npx hardhat attestor:serve --network sepolia
+// npx hardhat attestor:serve --port 8081 --network mainnet
+
+interface AttestorServeArgs {
+  express?: string;
+  host: string;
+  port: number;
+}
+
+task('attestor:serve', 'Signs the KYC attestations posted to /attestations by the compliance backend')
+  .addOptionalParam('express', 'USDOExpressV2 proxy, defaults to ADDRESS.USDO_EXPRESS_ADDRESS of the network config')
+  .addOptionalParam('host', 'Interface to listen on', '127.0.0.1', types.string)
+  .addOptionalParam('port', 'Port to listen on', 8081, types.int)
+  .setAction(async (args: AttestorServeArgs, hre): Promise<void> => {
+    const { ethers } = hre;
+    // Read from the environment, a command line argument would end up in the shell history
+    const token = process.env.ATTESTOR_TOKEN;
+    if (!token) throw new Error('Set ATTESTOR_TOKEN to the bearer token of the compliance backend');
+
+    const address =
+      args.express ??
+      (await loadNetworkConfig(hre, { require: ['USDO_EXPRESS_ADDRESS'] })).ADDRESS.USDO_EXPRESS_ADDRESS;
+
+    const [signer] = await ethers.getSigners();
+    const express = (await ethers.getContractAt('USDOExpressV2', address, signer)) as USDOExpressV2;
+    if (!(await express._kycSigners(signer.address))) {
+      console.warn('%s is not a compliance signer yet, requests are refused until setKycSigner', signer.address);
+    }
+    const server = createAttestorServer(express, { token });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(args.port, args.host, () => {
+        console.log(
+          'Attestor %s for %s (%s) on http://%s:%d/attestations',
+          signer.address,
+          address,
+          hre.network.name,
+          args.host,
+          args.port,
+        );
+      });
+      server.once('close', resolve);
+    });
+  });
@@ -0,0 +1,19 @@
+import { task } from 'hardhat/config';
+import { DecodedError, decodeRevertData, loadErrorRegistry } from '../utils/errorDecoder';
+
+// npx hardhat decode-error 0xce924607000000000000000000000000...
+
+interface DecodeErrorArgs {
+  data: string;
+}
+
+task('decode-error', 'Decodes revert data into the custom error of any compiled contract')
+  .addPositionalParam('data', 'Revert data, 0x-prefixed hex')
+  .setAction(async (args: DecodeErrorArgs, hre): Promise<DecodedError> => {
+    const decoded = decodeRevertData(args.data, loadErrorRegistry(hre.config.paths.artifacts));
+    if (!decoded) throw new Error(`No compiled error matches selector ${args.data.slice(0, 10)}, run compile first`);
+
+    console.log(decoded.signature);
+    for (const arg of decoded.args) console.log('  %s (%s): %s', arg.name, arg.type, arg.formatted);
+    return decoded;
+  });
@@ -0,0 +1,246 @@
+import { task } from 'hardhat/config';
+import type { HardhatRuntimeEnvironment } from 'hardhat/types';
+import type { Contract } from 'ethers';
+import { DeploymentManifest, PendingAction, manifestPath, readManifest, writeManifest } from '../utils/manifest';
+import { USDOExpressV2InitializerArgs } from '../utils/initializers';
+import { loadNetworkConfig } from '../utils/config';
+import { getStorageLayout } from '../utils/storageLayout';
+import { implementationConstructorArgs } from '../utils/extension';
+import { assetConfig } from '../utils/assetConfig';
+
+// npx hardhat deploy:stack --network base_sepolia
+// Re-running the task resumes from deployments/<network>.json and only performs the missing steps.
+
+interface WiringStep {
+  name: string;
+  target: Contract;
+  method: string;
+  args: unknown[];
+  done: () => Promise<boolean>;
+  authorised: () => Promise<boolean>;
+}
+
+const sameAddress = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase();
+
+// BigNumber args serialise to { type, hex } by default, keep the manifest human readable instead
+const serialiseArgs = (args: unknown[]): unknown[] =>
+  JSON.parse(
+    JSON.stringify(args, (_, value) => (value && value.type === 'BigNumber' ? BigInt(value.hex).toString() : value)),
+  );
+
+const deployProxy = async (
+  hre: HardhatRuntimeEnvironment,
+  manifest: DeploymentManifest,
+  file: string,
+  name: string,
+  args: unknown[],
+): Promise<Contract> => {
+  const existing = manifest.contracts[name];
+  if (existing && (await hre.ethers.provider.getCode(existing.address)) !== '0x') {
+    console.log('%s: already deployed at %s, skipping', name, existing.address);
+    return hre.ethers.getContractAt(name, existing.address);
+  }
+
+  console.log('%s: deploying...', name);
+  const factory = await hre.ethers.getContractFactory(name);
+  const constructorArgs = await implementationConstructorArgs(hre.ethers, factory);
+  const contract = await hre.upgrades.deployProxy(factory, args, {
+    initializer: 'initialize',
+    kind: 'uups',
+    constructorArgs,
+  });
+  await contract.deployed();
+  const receipt = await contract.deployTransaction.wait();
+  const implementation = await hre.upgrades.erc1967.getImplementationAddress(contract.address);
+
+  manifest.contracts[name] = {
+    contract: name,
+    address: contract.address,
+    implementation,
+    txHash: receipt.transactionHash,
+    blockNumber: receipt.blockNumber,
+    args: serialiseArgs(args),
+    deployedAt: new Date().toISOString(),
+  };
+  // Baseline for the storage layout check of the upgrade task
+  manifest.layouts[implementation] = await getStorageLayout(hre, name);
+  // Persist after every deployment so a failure half way through can be resumed
+  writeManifest(file, manifest);
+
+  console.log('%s: proxy %s, implementation %s', name, contract.address, implementation);
+  return contract;
+};
+
+const grantRoleStep = (target: Contract, name: string, role: string, account: string, signer: string): WiringStep => ({
+  name,
+  target,
+  method: 'grantRole',
+  args: [role, account],
+  done: () => target.hasRole(role, account),
+  authorised: async () => target.hasRole(await target.getRoleAdmin(role), signer),
+});
+
+task('deploy:stack', 'Deploys and wires USDO, cUSDO, AssetRegistry, USDOExpressV2, UsycRedemption, LiquidityController')
+  .addOptionalParam('networkConfig', 'Path to the network config, defaults to config/<network>.json')
+  .addOptionalParam('manifest', 'Path to the deployment manifest, defaults to deployments/<network>.json')
+  .setAction(async (args: { networkConfig?: string; manifest?: string }, hre) => {
+    const { ethers, network } = hre;
+    const manifestFile = args.manifest ?? manifestPath(network.name);
+    const { ADDRESS, LIMITS } = await loadNetworkConfig(hre, {
+      file: args.networkConfig,
+      require: [
+        'USDC_ADDRESS',
+        'TREASURY',
+        'FEE_TO',
+        'ADMIN_ADDRESS',
+        'MAINTAINER_ADDRESS',
+        'OPERATOR_ADDRESS',
+        'USYC_ADDRESS',
+        'USYC_HELPER',
+        'USYC_TREASURY',
+      ],
+    });
+
+    const [deployer] = await ethers.getSigners();
+    const { chainId } = await ethers.provider.getNetwork();
+    const manifest = readManifest(manifestFile, network.name, chainId);
+
+    console.log('Network: %s (%d)', network.name, chainId);
+    console.log('Deployer: %s', deployer.address);
+    console.log('Account balance: %s', ethers.utils.formatEther(await deployer.getBalance()));
+
+    const limiterConfig = {
+      mintMinimum: LIMITS.MINT_MINIMUM,
+      mintLimit: LIMITS.MINT_LIMIT,
+      mintDuration: LIMITS.MINT_DURATION,
+      redeemMinimum: LIMITS.REDEEM_MINIMUM,
+      redeemLimit: LIMITS.REDEEM_LIMIT,
+      redeemDuration: LIMITS.REDEEM_DURATION,
+      firstDepositAmount: LIMITS.FIRST_DEPOSIT_AMOUNT,
+    };
+
+    // 1. contracts, in dependency order
+    const usdo = await deployProxy(hre, manifest, manifestFile, 'USDO', [
+      'OpenEden Open Dollar',
+      'USDO',
+      ADDRESS.ADMIN_ADDRESS,
+    ]);
+    const cusdo = await deployProxy(hre, manifest, manifestFile, 'cUSDO', [usdo.address, ADDRESS.ADMIN_ADDRESS]);
+    const assetRegistry = await deployProxy(hre, manifest, manifestFile, 'AssetRegistry', [ADDRESS.ADMIN_ADDRESS]);
+    const usdoExpressArgs: USDOExpressV2InitializerArgs = [
+      usdo.address,
+      cusdo.address,
+      ADDRESS.USDC_ADDRESS,
+      ADDRESS.TREASURY,
+      ADDRESS.FEE_TO,
+      ADDRESS.MAINTAINER_ADDRESS,
+      ADDRESS.OPERATOR_ADDRESS,
+      ADDRESS.ADMIN_ADDRESS,
+      assetRegistry.address,
+      limiterConfig,
+    ];
+    const usdoExpress = await deployProxy(hre, manifest, manifestFile, 'USDOExpressV2', usdoExpressArgs);
+    const redemption = await deployProxy(hre, manifest, manifestFile, 'UsycRedemption', [
+      ADDRESS.USYC_ADDRESS,
+      ADDRESS.USDC_ADDRESS,
+      ADDRESS.USYC_HELPER,
+      usdoExpress.address,
+      ADDRESS.USYC_TREASURY,
+      ethers.constants.AddressZero,
+    ]);
+    const liquidityController = await deployProxy(hre, manifest, manifestFile, 'LiquidityController', [
+      redemption.address,
+      LIMITS.TOTAL_LIQUIDITY,
+    ]);
+
+    // 2. wiring, every step is checked against chain state so re-runs are idempotent
+    const steps: WiringStep[] = [
+      {
+        name: 'USDO total supply cap',
+        target: usdo,
+        method: 'updateTotalSupplyCap',
+        args: [LIMITS.TOTAL_SUPPLY_CAP],
+        done: async () => (await usdo.totalSupplyCap()).eq(LIMITS.TOTAL_SUPPLY_CAP),
+        authorised: async () => usdo.hasRole(await usdo.DEFAULT_ADMIN_ROLE(), deployer.address),
+      },
+      grantRoleStep(usdo, 'USDO MINTER_ROLE', await usdo.MINTER_ROLE(), usdoExpress.address, deployer.address),
+      grantRoleStep(usdo, 'USDO BURNER_ROLE', await usdo.BURNER_ROLE(), usdoExpress.address, deployer.address),
+      grantRoleStep(usdo, 'USDO MULTIPLIER_ROLE', await usdo.MULTIPLIER_ROLE(), usdoExpress.address, deployer.address),
+      {
+        name: 'AssetRegistry USDC',
+        target: assetRegistry,
+        method: 'setAssetConfig',
+        args: [assetConfig({ asset: ADDRESS.USDC_ADDRESS })],
+        done: () => assetRegistry.isAssetSupported(ADDRESS.USDC_ADDRESS),
+        authorised: async () => assetRegistry.hasRole(await assetRegistry.MAINTAINER_ROLE(), deployer.address),
+      },
+      {
+        name: 'USDOExpressV2 setRedemption',
+        target: usdoExpress,
+        method: 'setRedemption',
+        args: [redemption.address],
+        done: async () => sameAddress(await usdoExpress._redemptionContract(), redemption.address),
+        authorised: async () => usdoExpress.hasRole(await usdoExpress.MAINTAINER_ROLE(), deployer.address),
+      },
+      {
+        name: 'UsycRedemption setLiquidityController',
+        target: redemption,
+        method: 'setLiquidityController',
+        args: [liquidityController.address],
+        done: async () => sameAddress(await redemption.liquidityController(), liquidityController.address),
+        authorised: async () => sameAddress(await redemption.owner(), deployer.address),
+      },
+      {
+        name: 'LiquidityController updateCaller',
+        target: liquidityController,
+        method: 'updateCaller',
+        args: [redemption.address],
+        done: async () => sameAddress(await liquidityController.caller(), redemption.address),
+        authorised: async () => sameAddress(await liquidityController.owner(), deployer.address),
+      },
+    ];
+
+    const pending: PendingAction[] = [];
+    for (const step of steps) {
+      if (await step.done()) {
+        console.log('%s: already wired, skipping', step.name);
+        continue;
+      }
+      if (!(await step.authorised())) {
+        console.log('%s: deployer lacks permission, recorded as pending', step.name);
+        pending.push({
+          step: step.name,
+          to: step.target.address,
+          data: step.target.interface.encodeFunctionData(step.method, step.args),
+          reason: `${deployer.address} cannot call ${step.method}`,
+        });
+        continue;
+      }
+
+      const tx = await step.target[step.method](...step.args);
+      await tx.wait();
+      console.log('%s: done (%s)', step.name, tx.hash);
+    }
+
+    // Entries not produced by the wiring, e.g. prepared upgrades, are kept
+    manifest.pending = [
+      ...manifest.pending.filter(action => !steps.some(step => step.name === action.step)),
+      ...pending,
+    ];
+    writeManifest(manifestFile, manifest);
+
+    console.table(
+      Object.entries(manifest.contracts).map(([name, record]) => ({
+        name,
+        proxy: record.address,
+        implementation: record.implementation,
+        block: record.blockNumber,
+      })),
+    );
+    if (pending.length > 0) {
+      console.log('%d wiring step(s) must be executed by the role holder, see %s', pending.length, manifestFile);
+    }
+    console.log('Manifest written to %s', manifestFile);
+
+    return manifest;
+  });
@@ -0,0 +1,10 @@
+import './deployStack';
+import './upgrade';
+import './keeperQueue';
+import './keeperMultiplier';
+import './decodeError';
+import './queueShow';
+import './indexEvents';
+import './relayer';
+import './kycSet';
+import './attestor';
@@ -0,0 +1,108 @@
+import fs from 'fs';
+import { task, types } from 'hardhat/config';
+import type { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { AddressKey, loadNetworkConfig, networkConfigFile } from '../utils/config';
+import { explainError } from '../utils/errorDecoder';
+import { manifestPath, readManifest } from '../utils/manifest';
+import { IndexerSource, SOURCE_NAMES, SourceName, SyncResult, syncEvents } from '../indexer';
+import { IndexerStore, dbPath } from '../indexer/store';
+
+// npx hardhat index:events --network sepolia
+// npx hardhat index:events --confirmations 12 --follow --network mainnet
+
+interface IndexEventsArgs {
+  db?: string;
+  manifest?: string;
+  fromBlock: number;
+  batchSize?: number;
+  confirmations: number;
+  follow: boolean;
+  interval: number;
+}
+
+// Network config entries used for sources the manifest does not know
+const CONFIG_KEYS: Partial<Record<SourceName, AddressKey>> = {
+  USDOExpressV2: 'USDO_EXPRESS_ADDRESS',
+  USDO: 'USDO_ADDRESS',
+  cUSDO: 'CUSDO_ADDRESS',
+  AssetRegistry: 'ASSET_REGISTRY',
+};
+
+/**
+ * Contracts deployed through deploy:stack are read from the manifest and start at their deployment block, the rest
+ * come from the network config and start at --from-block.
+ */
+const resolveSources = async (hre: HardhatRuntimeEnvironment, args: IndexEventsArgs): Promise<IndexerSource[]> => {
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  const manifest = readManifest(args.manifest ?? manifestPath(hre.network.name), hre.network.name, chainId);
+
+  const sources: IndexerSource[] = [];
+  for (const name of SOURCE_NAMES) {
+    const record = manifest.contracts[name];
+    if (record) sources.push({ name, address: record.address, startBlock: record.blockNumber });
+  }
+
+  const missing = SOURCE_NAMES.filter(name => CONFIG_KEYS[name] && !manifest.contracts[name]);
+  if (missing.length > 0 && fs.existsSync(networkConfigFile(hre.network.name))) {
+    const { ADDRESS } = await loadNetworkConfig(hre);
+    for (const name of missing) {
+      const address = ADDRESS[CONFIG_KEYS[name] as AddressKey];
+      if (address !== hre.ethers.constants.AddressZero) sources.push({ name, address, startBlock: args.fromBlock });
+    }
+  }
+
+  if (sources.length === 0) {
+    throw new Error(`No contracts to index on ${hre.network.name}, neither the manifest nor the config lists any`);
+  }
+  return sources;
+};
+
+const report = (result: SyncResult): void => {
+  if (result.reorg) {
+    console.warn(
+      'Reorg: rolled back to block %s, %d row(s) removed',
+      result.reorg.ancestor ?? 'genesis',
+      result.reorg.removed,
+    );
+  }
+  const rows = Object.entries(result.inserted).map(([table, count]) => `${table} ${count}`);
+  console.log(
+    '%s block %d, %s',
+    result.complete ? 'Indexed up to' : 'Interrupted by a reorg before',
+    result.head,
+    rows.length > 0 ? rows.join(', ') : 'no new events',
+  );
+};
+
+task('index:events', 'Backfills and tails the protocol events into a SQLite database')
+  .addOptionalParam('db', 'SQLite file, defaults to data/events-<network>.sqlite')
+  .addOptionalParam('manifest', 'Deployment manifest, defaults to deployments/<network>.json')
+  .addOptionalParam('fromBlock', 'Start block of the contracts only found in the network config', 0, types.int)
+  .addOptionalParam('batchSize', 'Blocks per eth_getLogs call', undefined, types.int)
+  .addOptionalParam('confirmations', 'Blocks behind the head left unindexed', 0, types.int)
+  .addFlag('follow', 'Keep tailing new blocks')
+  .addOptionalParam('interval', 'Seconds between two polls with --follow', 15, types.int)
+  .setAction(async (args: IndexEventsArgs, hre): Promise<SyncResult> => {
+    const sources = await resolveSources(hre, args);
+    const store = await IndexerStore.open(args.db ?? dbPath(hre.network.name));
+    for (const source of sources) console.log('%s %s from block %d', source.name, source.address, source.startBlock);
+
+    try {
+      for (;;) {
+        try {
+          const result = await syncEvents(hre.ethers.provider, store, sources, {
+            batchSize: args.batchSize,
+            confirmations: args.confirmations,
+          });
+          report(result);
+          if (!args.follow) return result;
+        } catch (error) {
+          if (!args.follow) throw error;
+          console.error('%s indexer run failed:', new Date().toISOString(), explainError(error));
+        }
+        await new Promise(resolve => setTimeout(resolve, args.interval * 1000));
+      }
+    } finally {
+      store.close();
+    }
+  });
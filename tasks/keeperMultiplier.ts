@@ -0,0 +1,93 @@
+import { task, types } from 'hardhat/config';
+import type { USDO, USDOExpressV2 } from '../typechain-types';
+import { loadNetworkConfig } from '../utils/config';
+import { explainError } from '../utils/errorDecoder';
+import { MultiplierKeeperOptions, MultiplierKeeperResult, logPath, runMultiplierKeeper } from '../keepers/multiplier';
+
+// npx hardhat keeper:multiplier --dry-run --network sepolia
+// npx hardhat keeper:multiplier --refuse-on-drift --watch --network mainnet
+
+interface KeeperMultiplierArgs {
+  express?: string;
+  dryRun: boolean;
+  log?: string;
+  period?: number;
+  maxDrift: number;
+  refuseOnDrift: boolean;
+  watch: boolean;
+}
+
+// Minimum delay between two runs, and the margin added on top of the due time so the block timestamp has passed it
+const RETRY_SECONDS = 60;
+const DUE_MARGIN_SECONDS = 30;
+
+const report = (result: MultiplierKeeperResult): void => {
+  const { state, drift } = result;
+  console.log(
+    'APY %s bps, increment %s, bonus multiplier %s, last accrual %s',
+    state.apy,
+    state.increment,
+    state.bonusMultiplier,
+    state.lastUpdateTS === 0 ? 'never' : new Date(state.lastUpdateTS * 1000).toISOString(),
+  );
+  if (drift.exceeded) {
+    console.warn('ALERT: _increment implies an APY of %s bps, _apy is %s bps', drift.impliedApy, state.apy);
+  }
+
+  if (result.skipped) {
+    console.log('Skipped: %s', result.skipped);
+  } else if (result.entry) {
+    console.log(
+      'addBonusMultiplier sent: %s, bonus multiplier %s -> %s',
+      result.txHash,
+      result.entry.bonusMultiplierBefore,
+      result.entry.bonusMultiplierAfter,
+    );
+  } else {
+    console.log('Dry run: addBonusMultiplier is due');
+  }
+  console.log('Next accrual due at %s', new Date(result.dueAt * 1000).toISOString());
+};
+
+task('keeper:multiplier', 'Calls USDOExpressV2.addBonusMultiplier once a day, respecting _timeBuffer')
+  .addOptionalParam('express', 'USDOExpressV2 proxy, defaults to ADDRESS.USDO_EXPRESS_ADDRESS of the network config')
+  .addFlag('dryRun', 'Only report whether an accrual is due')
+  .addOptionalParam('log', 'Accrual log, defaults to logs/bonus-multiplier-<network>.json')
+  .addOptionalParam('period', 'Seconds between two accruals', undefined, types.int)
+  .addOptionalParam('maxDrift', 'Accepted drift in bps between _apy and the APY implied by _increment', 1, types.float)
+  .addFlag('refuseOnDrift', 'Skip the accrual instead of only alerting when the drift is exceeded')
+  .addFlag('watch', 'Keep running and accrue whenever the next call is due')
+  .setAction(async (args: KeeperMultiplierArgs, hre): Promise<MultiplierKeeperResult> => {
+    const { ethers } = hre;
+    const address =
+      args.express ??
+      (await loadNetworkConfig(hre, { require: ['USDO_EXPRESS_ADDRESS'] })).ADDRESS.USDO_EXPRESS_ADDRESS;
+
+    const [signer] = await ethers.getSigners();
+    const express = (await ethers.getContractAt('USDOExpressV2', address, signer)) as USDOExpressV2;
+    const usdo = (await ethers.getContractAt('USDO', await express._usdo())) as USDO;
+
+    const options: MultiplierKeeperOptions = {
+      dryRun: args.dryRun,
+      logFile: args.log ?? logPath(hre.network.name),
+      period: args.period,
+      maxDrift: args.maxDrift,
+      refuseOnDrift: args.refuseOnDrift,
+    };
+
+    console.log('Keeper %s on %s (%s)', signer.address, address, hre.network.name);
+
+    for (;;) {
+      let wait = RETRY_SECONDS;
+      try {
+        const result = await runMultiplierKeeper(express, usdo, options);
+        report(result);
+        if (!args.watch) return result;
+        wait = Math.max(result.dueAt - result.state.now + DUE_MARGIN_SECONDS, RETRY_SECONDS);
+      } catch (error) {
+        if (!args.watch) throw error;
+        console.error('%s keeper run failed:', new Date().toISOString(), explainError(error));
+      }
+      await new Promise(resolve => setTimeout(resolve, wait * 1000));
+    }
+  });
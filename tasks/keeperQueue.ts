@@ -0,0 +1,117 @@
+import { task, types } from 'hardhat/config';
+import type { HardhatRuntimeEnvironment } from 'hardhat/types';
+import type { USDOExpressV2 } from '../typechain-types';
+import { loadNetworkConfig } from '../utils/config';
+import { explainError } from '../utils/errorDecoder';
+import { TokenInfo, tokenLookup } from '../utils/tokens';
+import { QueueKeeperOptions, QueueKeeperResult, runQueueKeeper } from '../keepers/queue';
+
+// npx hardhat keeper:queue --dry-run --network sepolia
+// npx hardhat keeper:queue --max-gas 3000000 --max-fee-gwei 50 --interval 300 --network mainnet
+
+interface KeeperQueueArgs {
+  express?: string;
+  dryRun: boolean;
+  maxItems?: number;
+  maxGas?: number;
+  maxFeeGwei?: string;
+  interval?: number;
+}
+
+const report = async (
+  hre: HardhatRuntimeEnvironment,
+  result: QueueKeeperResult,
+  token: (address: string) => Promise<TokenInfo>,
+): Promise<void> => {
+  const { plan } = result;
+
+  console.log('Queue: %d request(s), %d covered', plan.queueLength, plan.covered.length);
+  for (const [asset, balance] of Object.entries(plan.balances)) {
+    const { symbol, format } = await token(asset);
+    const total = plan.totals[asset];
+    console.log(
+      '  %s: balance %s, the batch pays %s (%s fees)',
+      symbol,
+      format(balance),
+      total ? format(total) : '0',
+      plan.fees[asset] ? format(plan.fees[asset]) : '0',
+    );
+  }
+  const entries = plan.partial ? [...plan.covered, plan.partial] : plan.covered;
+  if (entries.length > 0) {
+    const rows = [];
+    for (const entry of entries) {
+      const { symbol, format } = await token(entry.asset);
+      rows.push({
+        index: entry.index,
+        receiver: entry.receiver,
+        usdo: hre.ethers.utils.formatUnits(entry.usdoAmt, 18),
+        asset: symbol,
+        amount: format(entry.assetAmt.sub(entry.fee)),
+        fee: format(entry.fee),
+      });
+    }
+    console.table(rows);
+  }
+  if (plan.partial) {
+    console.log(
+      'Request %d is partially filled, %s USDO stays queued',
+      plan.partial.index,
+      hre.ethers.utils.formatUnits(plan.partial.remainingUsdo, 18),
+    );
+  }
+  if (plan.blocker?.reason === 'liquidity') {
+    const { symbol, format } = await token(plan.blocker.asset);
+    console.log('Request %d needs %s more %s', plan.blocker.index, format(plan.blocker.shortfall), symbol);
+  } else if (plan.blocker?.reason === 'kyc') {
+    console.log('Request %d is blocked, %s has no valid KYC', plan.blocker.index, plan.blocker.account);
+  }
+
+  if (result.skipped) {
+    console.log('Skipped: %s', result.skipped);
+  } else if (result.txHash) {
+    console.log('processRedemptionQueue(%d) sent: %s', result.length, result.txHash);
+  } else {
+    console.log('Dry run: processRedemptionQueue(%d), estimated gas %s', result.length, result.gasEstimate);
+  }
+};
+
+task('keeper:queue', 'Processes the part of the USDOExpressV2 redemption queue the contract balances cover')
+  .addOptionalParam('express', 'USDOExpressV2 proxy, defaults to ADDRESS.USDO_EXPRESS_ADDRESS of the network config')
+  .addFlag('dryRun', 'Only report what would be processed')
+  .addOptionalParam('maxItems', 'Maximum number of requests per transaction', undefined, types.int)
+  .addOptionalParam('maxGas', 'Gas limit cap, the batch is shortened to fit', undefined, types.int)
+  .addOptionalParam('maxFeeGwei', 'Skip the run while the network fee is above this many gwei', undefined, types.string)
+  .addOptionalParam('interval', 'Keep running and check the queue every <interval> seconds', undefined, types.int)
+  .setAction(async (args: KeeperQueueArgs, hre): Promise<QueueKeeperResult> => {
+    const { ethers } = hre;
+    const address =
+      args.express ??
+      (await loadNetworkConfig(hre, { require: ['USDO_EXPRESS_ADDRESS'] })).ADDRESS.USDO_EXPRESS_ADDRESS;
+
+    const [signer] = await ethers.getSigners();
+    const express = (await ethers.getContractAt('USDOExpressV2', address, signer)) as USDOExpressV2;
+    const token = tokenLookup(hre);
+
+    const options: QueueKeeperOptions = {
+      dryRun: args.dryRun,
+      maxItems: args.maxItems,
+      maxGas: args.maxGas,
+      maxFeePerGas: args.maxFeeGwei === undefined ? undefined : ethers.utils.parseUnits(args.maxFeeGwei, 'gwei'),
+    };
+
+    console.log('Keeper %s on %s (%s)', signer.address, address, hre.network.name);
+
+    for (;;) {
+      try {
+        const result = await runQueueKeeper(express, options);
+        await report(hre, result, token);
+        if (args.interval === undefined) return result;
+      } catch (error) {
+        if (args.interval === undefined) throw error;
+        // A long running keeper logs and retries on the next tick
+        console.error('%s keeper run failed:', new Date().toISOString(), explainError(error));
+      }
+      await new Promise(resolve => setTimeout(resolve, (args.interval as number) * 1000));
+    }
+  });
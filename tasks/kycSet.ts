@@ -0,0 +1,82 @@
+import { task, types } from 'hardhat/config';
+import type { USDOExpressV2 } from '../typechain-types';
+import { loadNetworkConfig } from '../utils/config';
+import { explainError } from '../utils/errorDecoder';
+import { KycCsvRecord, readKycCsv } from '../utils/kycRecords';
+
+// npx hardhat kyc:set --file records.csv --dry-run --network sepolia
+// npx hardhat kyc:set --file records.csv --batch-size 100 --network mainnet
+//
+// records.csv:
+//   address,expiry,tier
+//   0x70997970C51812dc3A010C7d01b50e0d17dc79C8,2027-06-30T23:59:59Z,1
+//   0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC,,0
+
+interface KycSetArgs {
+  express?: string;
+  file: string;
+  batchSize: number;
+  dryRun: boolean;
+}
+
+export interface KycSetBatch {
+  records: KycCsvRecord[];
+  gasEstimate: string;
+  txHash?: string;
+}
+
+const formatExpiry = (expiry: number): string => (expiry === 0 ? 'never' : new Date(expiry * 1000).toISOString());
+
+task('kyc:set', 'Sets the KYC expiry and tier of the accounts listed in a CSV file on USDOExpressV2')
+  .addOptionalParam('express', 'USDOExpressV2 proxy, defaults to ADDRESS.USDO_EXPRESS_ADDRESS of the network config')
+  .addParam('file', 'CSV file with the columns address, expiry (unix seconds or ISO 8601, empty: never) and tier')
+  .addOptionalParam('batchSize', 'Accounts per setKycRecords transaction', 200, types.int)
+  .addFlag('dryRun', 'Only check the batches, sends nothing')
+  .setAction(async (args: KycSetArgs, hre): Promise<KycSetBatch[]> => {
+    const { ethers } = hre;
+    if (args.batchSize < 1) throw new Error(`Invalid batch size ${args.batchSize}`);
+    const records = readKycCsv(args.file);
+
+    const address =
+      args.express ??
+      (await loadNetworkConfig(hre, { require: ['USDO_EXPRESS_ADDRESS'] })).ADDRESS.USDO_EXPRESS_ADDRESS;
+    const [signer] = await ethers.getSigners();
+    const express = (await ethers.getContractAt('USDOExpressV2', address, signer)) as USDOExpressV2;
+
+    const { timestamp } = await ethers.provider.getBlock('latest');
+    const expired = records.filter(record => record.expiry !== 0 && record.expiry <= timestamp);
+    console.log('%d record(s) from %s for %s (%s)', records.length, args.file, address, hre.network.name);
+    if (expired.length > 0) console.log('%d record(s) already expired, they revoke KYC', expired.length);
+    console.table(
+      records.map(record => ({ account: record.account, expiry: formatExpiry(record.expiry), tier: record.tier })),
+    );
+
+    const batches: KycSetBatch[] = [];
+    for (let start = 0; start < records.length; start += args.batchSize) {
+      const batch = records.slice(start, start + args.batchSize);
+      const accounts = batch.map(record => record.account);
+      const values = batch.map(({ expiry, tier }) => ({ expiry, tier }));
+      const lines = `lines ${batch[0].line}-${batch[batch.length - 1].line}`;
+
+      // Unset tiers and a missing WHITELIST_ROLE surface here, before anything is sent
+      let gasEstimate;
+      try {
+        await express.callStatic.setKycRecords(accounts, values);
+        gasEstimate = await express.estimateGas.setKycRecords(accounts, values);
+      } catch (error) {
+        console.error('setKycRecords for %s of %s would revert', lines, args.file);
+        throw explainError(error);
+      }
+
+      if (args.dryRun) {
+        console.log('Dry run: setKycRecords for %s (%d), estimated gas %s', lines, batch.length, gasEstimate);
+        batches.push({ records: batch, gasEstimate: gasEstimate.toString() });
+        continue;
+      }
+      const tx = await express.setKycRecords(accounts, values);
+      await tx.wait();
+      console.log('setKycRecords for %s (%d) sent: %s', lines, batch.length, tx.hash);
+      batches.push({ records: batch, gasEstimate: gasEstimate.toString(), txHash: tx.hash });
+    }
+    return batches;
+  });
@@ -0,0 +1,134 @@
+import { task, types } from 'hardhat/config';
+import type { USDOExpressV2 } from '../typechain-types';
+import { loadNetworkConfig } from '../utils/config';
+import { manifestPath, readManifest } from '../utils/manifest';
+import { tokenLookup } from '../utils/tokens';
+import { DEFAULT_BLOCK_RANGE, DEFAULT_LOOKBACK_BLOCKS, QueueListingEntry, listRedemptionQueue } from '../keepers/queue';
+
+// npx hardhat queue:show --network sepolia
+// npx hardhat queue:show --format csv --block-range 10000 --network mainnet > queue.csv
+
+type OutputFormat = 'table' | 'csv' | 'json';
+
+interface QueueShowArgs {
+  express?: string;
+  format: OutputFormat;
+  fromBlock?: number;
+  blockRange?: number;
+}
+
+interface QueueRow {
+  index: number;
+  sender: string;
+  receiver: string;
+  usdo: string;
+  asset: string;
+  amount: string;
+  cumulative: string;
+  requestedAt: string;
+  flag: string;
+}
+
+const FORMATS: OutputFormat[] = ['table', 'csv', 'json'];
+
+const toCsv = (rows: QueueRow[]): string => {
+  const columns: (keyof QueueRow)[] = [
+    'index',
+    'sender',
+    'receiver',
+    'usdo',
+    'asset',
+    'amount',
+    'cumulative',
+    'requestedAt',
+    'flag',
+  ];
+  return [columns.join(','), ...rows.map(row => columns.map(column => row[column]).join(','))].join('\n');
+};
+
+task('queue:show', 'Lists the USDOExpressV2 redemption queue with the payout each request needs')
+  .addOptionalParam('express', 'USDOExpressV2 proxy, defaults to ADDRESS.USDO_EXPRESS_ADDRESS of the network config')
+  .addOptionalParam('format', `Output format: ${FORMATS.join(', ')}`, 'table', types.string)
+  .addOptionalParam(
+    'fromBlock',
+    'First block searched for request timestamps, defaults to the USDOExpressV2 deployment block of the manifest, ' +
+      `or to the last ${DEFAULT_LOOKBACK_BLOCKS} blocks without one`,
+    undefined,
+    types.int,
+  )
+  .addOptionalParam(
+    'blockRange',
+    `Blocks per eth_getLogs call, defaults to ${DEFAULT_BLOCK_RANGE}`,
+    undefined,
+    types.int,
+  )
+  .setAction(async (args: QueueShowArgs, hre): Promise<QueueListingEntry[]> => {
+    const { ethers } = hre;
+    if (!FORMATS.includes(args.format)) {
+      throw new Error(`Unknown format ${args.format}, expected one of ${FORMATS.join(', ')}`);
+    }
+
+    const address =
+      args.express ??
+      (await loadNetworkConfig(hre, { require: ['USDO_EXPRESS_ADDRESS'] })).ADDRESS.USDO_EXPRESS_ADDRESS;
+    const express = (await ethers.getContractAt('USDOExpressV2', address)) as USDOExpressV2;
+
+    let fromBlock = args.fromBlock;
+    if (fromBlock === undefined) {
+      const { chainId } = await ethers.provider.getNetwork();
+      const record = readManifest(manifestPath(hre.network.name), hre.network.name, chainId).contracts.USDOExpressV2;
+      if (record && record.address.toLowerCase() === address.toLowerCase()) fromBlock = record.blockNumber;
+    }
+
+    const entries = await listRedemptionQueue(express, { fromBlock, blockRange: args.blockRange });
+
+    const token = tokenLookup(hre);
+    const rows: QueueRow[] = [];
+    for (const entry of entries) {
+      const { symbol, format } = await token(entry.asset);
+      const flags: string[] = [];
+      if (entry.requestedUsdo?.gt(entry.usdoAmt)) {
+        const paid = ethers.utils.formatUnits(entry.requestedUsdo.sub(entry.usdoAmt), 18);
+        flags.push(`Partially filled: ${paid} of ${ethers.utils.formatUnits(entry.requestedUsdo, 18)} USDO paid`);
+      }
+      if (entry.kycLost.length > 0) flags.push(`KYC lost: ${entry.kycLost.join(' ')}`);
+      rows.push({
+        index: entry.index,
+        sender: entry.sender,
+        receiver: entry.receiver,
+        usdo: ethers.utils.formatUnits(entry.usdoAmt, 18),
+        asset: symbol,
+        amount: format(entry.netAmt),
+        cumulative: format(entry.cumulativeAmt),
+        requestedAt: entry.requestedAt === undefined ? '' : new Date(entry.requestedAt * 1000).toISOString(),
+        flag: flags.join('; '),
+      });
+    }
+
+    if (args.format === 'json') {
+      console.log(JSON.stringify(rows, null, 2));
+      return entries;
+    }
+    if (args.format === 'csv') {
+      console.log(toCsv(rows));
+      return entries;
+    }
+
+    const held: string[] = [];
+    for (const asset of new Set([await express._usdc(), ...entries.map(entry => entry.asset)])) {
+      const { symbol, format } = await token(asset);
+      held.push(`${format(await express.getTokenBalance(asset))} ${symbol}`);
+    }
+    console.log('Queue of %s: %d request(s), %s held', address, entries.length, held.join(', '));
+    if (rows.length > 0) console.table(rows);
+
+    const blocking = entries.find(entry => entry.kycLost.length > 0);
+    if (blocking) {
+      console.warn(
+        'Request %d blocks processRedemptionQueue: %s no longer in the KYC list',
+        blocking.index,
+        blocking.kycLost.join(' and '),
+      );
+    }
+    return entries;
+  });
@@ -0,0 +1,55 @@
+import { task, types } from 'hardhat/config';
+import type { USDOExpressV2 } from '../typechain-types';
+import { loadNetworkConfig } from '../utils/config';
+import { createRelayerServer } from '../relayer';
+
+// npx hardhat relayer:serve --network sepolia
+// npx hardhat relayer:serve --port 8080 --max-fee-gwei 50 --network mainnet
+
+interface RelayerServeArgs {
+  express?: string;
+  host: string;
+  port: number;
+  maxFeeGwei?: string;
+  minValidity?: number;
+}
+
+task('relayer:serve', 'Sends the mint and redeem intents posted to /intents to USDOExpressV2, paying their gas')
+  .addOptionalParam('express', 'USDOExpressV2 proxy, defaults to ADDRESS.USDO_EXPRESS_ADDRESS of the network config')
+  .addOptionalParam('host', 'Interface to listen on', '127.0.0.1', types.string)
+  .addOptionalParam('port', 'Port to listen on', 8080, types.int)
+  .addOptionalParam(
+    'maxFeeGwei',
+    'Refuse intents while the network fee is above this many gwei',
+    undefined,
+    types.string,
+  )
+  .addOptionalParam('minValidity', 'Refuse intents expiring within this many seconds', undefined, types.int)
+  .setAction(async (args: RelayerServeArgs, hre): Promise<void> => {
+    const { ethers } = hre;
+    const address =
+      args.express ??
+      (await loadNetworkConfig(hre, { require: ['USDO_EXPRESS_ADDRESS'] })).ADDRESS.USDO_EXPRESS_ADDRESS;
+
+    const [signer] = await ethers.getSigners();
+    const express = (await ethers.getContractAt('USDOExpressV2', address, signer)) as USDOExpressV2;
+    const server = createRelayerServer(express, {
+      maxFeePerGas: args.maxFeeGwei === undefined ? undefined : ethers.utils.parseUnits(args.maxFeeGwei, 'gwei'),
+      minValidity: args.minValidity,
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(args.port, args.host, () => {
+        console.log(
+          'Relayer %s for %s (%s) on http://%s:%d/intents',
+          signer.address,
+          address,
+          hre.network.name,
+          args.host,
+          args.port,
+        );
+      });
+      server.once('close', resolve);
+    });
+  });
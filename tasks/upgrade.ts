@@ -0,0 +1,186 @@
+import { task } from 'hardhat/config';
+import type { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { manifestPath, readManifest, writeManifest } from '../utils/manifest';
+import { StorageChange, diffStorageLayout, getStorageLayout } from '../utils/storageLayout';
+import { implementationConstructorArgs } from '../utils/extension';
+
+// npx hardhat upgrade --contract USDOExpressV2 --proxy <address> --network sepolia
+// npx hardhat upgrade --contract USDOExpressV2 --proxy <address> --prepare-only --network mainnet
+
+interface UpgradeArgs {
+  contract: string;
+  proxy: string;
+  manifest?: string;
+  prepareOnly: boolean;
+  unsafeAllowRenames: boolean;
+  extension?: string;
+}
+
+export interface UpgradeResult {
+  implementation: string;
+  // upgradeTo calldata, only set with --prepare-only
+  data?: string;
+  changes: StorageChange[];
+}
+
+interface UpgradeAuthority {
+  // Role or owner check the proxy enforces in _authorizeUpgrade
+  requirement: string;
+  authorised: boolean;
+}
+
+const UPGRADE_ABI = [
+  'function UPGRADE_ROLE() view returns (bytes32)',
+  'function hasRole(bytes32 role, address account) view returns (bool)',
+  'function owner() view returns (address)',
+  'function upgradeTo(address newImplementation)',
+];
+
+const sameAddress = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase();
+
+// Our proxies either gate upgrades with UPGRADE_ROLE (USDO, cUSDO, USDOExpressV2, AssetRegistry) or with Ownable
+const getUpgradeAuthority = async (
+  hre: HardhatRuntimeEnvironment,
+  proxy: string,
+  account: string,
+): Promise<UpgradeAuthority> => {
+  const contract = new hre.ethers.Contract(proxy, UPGRADE_ABI, hre.ethers.provider);
+
+  try {
+    const role = await contract.UPGRADE_ROLE();
+    return { requirement: 'UPGRADE_ROLE', authorised: await contract.hasRole(role, account) };
+  } catch {
+    // not an AccessControl proxy
+  }
+
+  try {
+    const owner = await contract.owner();
+    return { requirement: `owner ${owner}`, authorised: sameAddress(owner, account) };
+  } catch {
+    throw new Error(`${proxy} exposes neither UPGRADE_ROLE nor owner(), cannot check who may upgrade it`);
+  }
+};
+
+task('upgrade', 'Validates and upgrades a UUPS proxy, or prepares the upgrade for a multisig')
+  .addParam('contract', 'Name of the new implementation contract')
+  .addParam('proxy', 'Address of the proxy to upgrade')
+  .addOptionalParam('manifest', 'Path to the deployment manifest, defaults to deployments/<network>.json')
+  .addFlag('prepareOnly', 'Only deploy the implementation and print the upgradeTo calldata')
+  .addFlag('unsafeAllowRenames', 'Accept renamed storage variables, e.g. a reserved slot taking a new name')
+  .addOptionalParam(
+    'extension',
+    'USDOExpressV2Ext for the constructor of USDOExpressV2 implementations, a new one is deployed by default',
+  )
+  .setAction(async (args: UpgradeArgs, hre): Promise<UpgradeResult> => {
+    const { ethers, network, upgrades } = hre;
+    if (!ethers.utils.isAddress(args.proxy)) throw new Error(`Invalid proxy address ${args.proxy}`);
+    const proxy = ethers.utils.getAddress(args.proxy);
+    if ((await ethers.provider.getCode(proxy)) === '0x') throw new Error(`No contract deployed at ${proxy}`);
+
+    const manifestFile = args.manifest ?? manifestPath(network.name);
+    const [signer] = await ethers.getSigners();
+    const { chainId } = await ethers.provider.getNetwork();
+    const manifest = readManifest(manifestFile, network.name, chainId);
+    const record = Object.values(manifest.contracts).find(entry => sameAddress(entry.address, proxy));
+
+    const currentImplementation = await upgrades.erc1967.getImplementationAddress(proxy);
+    const authority = await getUpgradeAuthority(hre, proxy, signer.address);
+    const factory = await ethers.getContractFactory(args.contract);
+    const opts = { kind: 'uups' as const, unsafeAllowRenames: args.unsafeAllowRenames };
+
+    // 1. storage layout against the layout recorded for the live implementation
+    const layout = await getStorageLayout(hre, args.contract);
+    const baseline = manifest.layouts[currentImplementation];
+    const changes = baseline ? diffStorageLayout(baseline, layout) : [];
+
+    // 2. OpenZeppelin's own checks: storage compatibility, unsafe opcodes, UUPS upgradeability
+    // The plugin encodes the constructor arguments even to validate, a placeholder extension stands in for now
+    const validationOpts = {
+      ...opts,
+      constructorArgs: await implementationConstructorArgs(ethers, factory, ethers.constants.AddressZero),
+    };
+    let validationError: string | undefined;
+    try {
+      await upgrades.validateUpgrade(proxy, factory, validationOpts);
+    } catch (error) {
+      validationError = (error as Error).message;
+    }
+
+    console.log('\nUpgrade report');
+    console.log('  network                 %s (%d)', network.name, chainId);
+    console.log('  proxy                   %s%s', proxy, record ? ` (${record.contract} in manifest)` : '');
+    console.log('  current implementation  %s', currentImplementation);
+    console.log('  new contract            %s', args.contract);
+    console.log(
+      '  signer                  %s, %s %s',
+      signer.address,
+      authority.authorised ? 'satisfies' : 'does not satisfy',
+      authority.requirement,
+    );
+
+    console.log('\nStorage layout');
+    if (!baseline) {
+      console.log('  no layout recorded for %s in %s, diff skipped', currentImplementation, manifestFile);
+    } else if (changes.length === 0) {
+      console.log('  unchanged');
+    } else {
+      for (const change of changes) {
+        console.log('  %s %s', `[${change.severity}]`.padEnd(10), change.message);
+      }
+    }
+
+    console.log('\nOpenZeppelin validation');
+    console.log('  %s', validationError ? validationError.split('\n').join('\n  ') : 'passed');
+    console.log('');
+
+    const problems = changes.filter(change => change.severity === 'error').map(change => change.message);
+    if (validationError) problems.push('OpenZeppelin validation failed');
+    if (!args.prepareOnly && !authority.authorised) {
+      problems.push(`${signer.address} does not satisfy ${authority.requirement}, use --prepare-only for a multisig`);
+    }
+    if (problems.length > 0) {
+      throw new Error(`Upgrade of ${proxy} to ${args.contract} aborted:\n  - ${problems.join('\n  - ')}`);
+    }
+
+    // An earlier prepared upgrade of this proxy is superseded by this one
+    manifest.pending = manifest.pending.filter(
+      action => !(sameAddress(action.to, proxy) && action.step.startsWith('upgrade ')),
+    );
+
+    // The extension is deployed once the checks passed, a rejected upgrade leaves nothing behind
+    const constructorArgs = await implementationConstructorArgs(ethers, factory, args.extension);
+    if (constructorArgs.length > 0) console.log('Constructor arguments: %s', constructorArgs.join(', '));
+
+    if (args.prepareOnly) {
+      const implementation = (await upgrades.prepareUpgrade(proxy, factory, { ...opts, constructorArgs })) as string;
+      const data = new ethers.utils.Interface(UPGRADE_ABI).encodeFunctionData('upgradeTo', [implementation]);
+
+      manifest.layouts[implementation] = layout;
+      manifest.pending.push({
+        step: `upgrade ${record?.contract ?? proxy} to ${args.contract}`,
+        to: proxy,
+        data,
+        reason: `upgradeTo must be sent by the account satisfying ${authority.requirement}`,
+      });
+      writeManifest(manifestFile, manifest);
+
+      console.log('Implementation deployed at %s', implementation);
+      console.log('Send to %s with %s:', proxy, authority.requirement);
+      console.log('%s', data);
+      return { implementation, data, changes };
+    }
+
+    const upgraded = await upgrades.upgradeProxy(proxy, factory, { ...opts, constructorArgs });
+    await upgraded.deployed();
+    const implementation = await upgrades.erc1967.getImplementationAddress(proxy);
+
+    manifest.layouts[implementation] = layout;
+    if (record) {
+      record.contract = args.contract;
+      record.implementation = implementation;
+    }
+    writeManifest(manifestFile, manifest);
+
+    console.log('%s upgraded, implementation %s', proxy, implementation);
+    return { implementation, changes };
+  });
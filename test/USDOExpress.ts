@@ -1,21 +1,37 @@
 import { expect } from 'chai';
-import { ethers, upgrades } from 'hardhat';
+import hre, { ethers, upgrades } from 'hardhat';
 import { BigNumber, constants } from 'ethers';
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
-import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
-import { keccak256, toUtf8Bytes } from 'ethers/lib/utils';
+import { loadFixture, setStorageAt, time } from '@nomicfoundation/hardhat-network-helpers';
+import { defaultAbiCoder, keccak256, toUtf8Bytes } from 'ethers/lib/utils';
 import {
   MockBUIDL,
   MockBuidlRedemption,
   MockCUSDO,
+  MockPriceFeed,
   MockTBILL,
   MockUSDC,
+  MockUSDCPermit,
+  MockUSDT,
   MockSimpleRedemption,
   USDO,
   USDOExpressV2,
   AssetRegistry,
 } from '../typechain-types';
 import { anyValue } from '@nomicfoundation/hardhat-chai-matchers/withArgs';
+import { getStorageLayout } from '../utils/storageLayout';
+import { deployExpressExtension } from '../utils/extension';
+import {
+  Intent,
+  IntentKind,
+  KycAttestation,
+  intentDomain,
+  permitDomain,
+  signIntent,
+  signKycAttestation,
+  signPermit,
+} from '../sdk';
+import { AssetConfig, assetConfig } from '../utils/assetConfig';
 
 const { AddressZero } = constants;
 
@@ -156,16 +172,17 @@ describe('USDOExpress', function () {
     // !!!! IMPORTANT !!!!
     // Validate upgrade from V1 to V2 with unsafeAllowRenames
     const USDOExpressV2Factory = await ethers.getContractFactory('USDOExpressV2');
-    await upgrades.validateUpgrade(usdoExpressV1.address, USDOExpressV2Factory, {
-      unsafeAllowRenames: true,
-    });
+    const upgradeOpts = { unsafeAllowRenames: true, constructorArgs: [await deployExpressExtension(ethers)] };
+    await upgrades.validateUpgrade(usdoExpressV1.address, USDOExpressV2Factory, upgradeOpts);
     console.log('validateUpgrade done!');
 
     // !!!! IMPORTANT !!!!
     // Upgrade to USDOExpressV2
-    usdoExpress = (await upgrades.upgradeProxy(usdoExpressV1.address, USDOExpressV2Factory, {
-      unsafeAllowRenames: true,
-    })) as USDOExpressV2;
+    usdoExpress = (await upgrades.upgradeProxy(
+      usdoExpressV1.address,
+      USDOExpressV2Factory,
+      upgradeOpts,
+    )) as USDOExpressV2;
     console.log('USDOExpress upgraded to V2 at:', usdoExpress.address);
 
     // !!!! IMPORTANT !!!!
@@ -215,19 +232,21 @@ describe('USDOExpress', function () {
     console.log('Redemption contract set up');
 
     // Configure supported assets in AssetRegistry
-    await assetRegistry.setAssetConfig({
-      asset: usdc.address,
-      isSupported: true,
-      priceFeed: ethers.constants.AddressZero, // USDC is stable, no price feed needed
-      maxStalePeriod: 0, // No staleness check for stable assets without price feeds
-    });
+    await assetRegistry.setAssetConfig(
+      assetConfig({
+        asset: usdc.address,
+        priceFeed: ethers.constants.AddressZero, // USDC is stable, no price feed needed
+        maxStalePeriod: 0, // No staleness check for stable assets without price feeds
+      }),
+    );
 
-    await assetRegistry.setAssetConfig({
-      asset: tbill.address,
-      isSupported: true,
-      priceFeed: tbill.address, // TBILL contract itself provides price feed
-      maxStalePeriod: 1 * 60 * 60, // 1 hour staleness period for TBILL
-    });
+    await assetRegistry.setAssetConfig(
+      assetConfig({
+        asset: tbill.address,
+        priceFeed: tbill.address, // TBILL contract itself provides price feed
+        maxStalePeriod: 1 * 60 * 60, // 1 hour staleness period for TBILL
+      }),
+    );
 
     console.log('AssetRegistry configured with USDC and TBILL support');
   };
@@ -418,6 +437,132 @@ describe('USDOExpress', function () {
     });
   });
 
+  describe('Per-asset fee rates', function () {
+    const MINT = 0;
+    const REDEEM = 1;
+    const INSTANT_REDEEM = 2;
+    const mintAmount = ethers.utils.parseUnits('2000', 6);
+
+    this.beforeEach(async function () {
+      await usdoExpress.connect(maintainer).updateMintFee(10); // 0.1%
+      await usdoExpress.connect(maintainer).updateRedeemFee(20); // 0.2%
+      await usdoExpress.connect(maintainer).updateInstantRedeemFee(30); // 0.3%
+    });
+
+    it('should fall back to the global rates without an override', async function () {
+      expect(await usdoExpress.getFeeRate(usdc.address, MINT)).to.equal(10);
+      expect(await usdoExpress.getFeeRate(tbill.address, REDEEM)).to.equal(20);
+      expect(await usdoExpress.getFeeRate(tbill.address, INSTANT_REDEEM)).to.equal(30);
+      expect(await usdoExpress.assetTxsFee(tbill.address, mintAmount, MINT)).to.equal(
+        await usdoExpress.txsFee(mintAmount, MINT),
+      );
+    });
+
+    it('should override the mint fee of one asset only and emit event', async function () {
+      await expect(usdoExpress.connect(maintainer).setAssetFeeRate(tbill.address, MINT, 50))
+        .to.emit(usdoExpress, 'UpdateAssetFeeRate')
+        .withArgs(tbill.address, MINT, 50);
+
+      expect(await usdoExpress.getFeeRate(tbill.address, MINT)).to.equal(50);
+      expect(await usdoExpress.getFeeRate(tbill.address, REDEEM)).to.equal(20);
+      expect(await usdoExpress.getFeeRate(usdc.address, MINT)).to.equal(10);
+
+      const tbillPreview = await usdoExpress.previewMint(tbill.address, mintAmount);
+      expect(tbillPreview.fee).to.equal(mintAmount.mul(50).div(1e4));
+      const usdcPreview = await usdoExpress.previewMint(usdc.address, mintAmount);
+      expect(usdcPreview.fee).to.equal(mintAmount.mul(10).div(1e4));
+    });
+
+    it('should charge each asset its own fee when minting with USDC and TBILL', async function () {
+      await usdoExpress.connect(maintainer).setAssetFeeRate(usdc.address, MINT, 0);
+      await usdoExpress.connect(maintainer).setAssetFeeRate(tbill.address, MINT, 100); // 1%
+
+      await usdc.transfer(whitelistedUser.address, mintAmount);
+      await usdc.connect(whitelistedUser).approve(usdoExpress.address, mintAmount);
+      await tbill.transfer(whitelistedUser.address, mintAmount);
+      await tbill.connect(whitelistedUser).approve(usdoExpress.address, mintAmount);
+
+      const tbillPreview = await usdoExpress.previewMint(tbill.address, mintAmount);
+      await expect(usdoExpress.connect(whitelistedUser).instantMint(usdc.address, whitelistedUser.address, mintAmount))
+        .to.emit(usdoExpress, 'InstantMint')
+        .withArgs(usdc.address, whitelistedUser.address, whitelistedUser.address, mintAmount, anyValue, 0);
+      await expect(usdoExpress.connect(whitelistedUser).instantMint(tbill.address, whitelistedUser.address, mintAmount))
+        .to.emit(usdoExpress, 'InstantMint')
+        .withArgs(
+          tbill.address,
+          whitelistedUser.address,
+          whitelistedUser.address,
+          mintAmount,
+          tbillPreview.usdoAmtCurr,
+          mintAmount.div(100),
+        );
+
+      expect(await usdc.balanceOf(feeTo.address)).to.equal(0);
+      expect(await tbill.balanceOf(feeTo.address)).to.equal(mintAmount.div(100));
+      expect(await tbill.balanceOf(treasury.address)).to.equal(mintAmount.sub(mintAmount.div(100)));
+    });
+
+    it('should apply the USDC redeem overrides to previews, instant redeem and queue processing', async function () {
+      const redeemAmount = ethers.utils.parseUnits('1000', 18);
+      await usdoExpress.connect(maintainer).setAssetFeeRate(usdc.address, REDEEM, 5);
+      await usdoExpress.connect(maintainer).setAssetFeeRate(usdc.address, INSTANT_REDEEM, 0);
+
+      const queued = await usdoExpress.previewRedeem(redeemAmount, false);
+      expect(queued.feeAmt).to.equal(ethers.utils.parseUnits('0.5', 6));
+      expect(queued.usdcAmt).to.equal(ethers.utils.parseUnits('999.5', 6));
+      const instant = await usdoExpress.previewRedeem(redeemAmount, true);
+      expect(instant.feeAmt).to.equal(0);
+
+      await usdo.mint(whitelistedUser.address, redeemAmount.mul(2));
+      await usdc.transfer(simpleRedemption.address, ethers.utils.parseUnits('1000', 6));
+      await usdo.connect(whitelistedUser).approve(usdoExpress.address, redeemAmount);
+      await expect(usdoExpress.connect(whitelistedUser).instantRedeemSelf(whitelistedUser.address, redeemAmount, 0))
+        .to.emit(usdoExpress, 'InstantRedeem')
+        .withArgs(whitelistedUser.address, whitelistedUser.address, redeemAmount, instant.usdcAmt, 0, anyValue, 0, 0);
+
+      await usdc.transfer(usdoExpress.address, ethers.utils.parseUnits('1000', 6));
+      await usdoExpress.connect(whitelistedUser).redeemRequest(whitelistedUser.address, redeemAmount);
+      await expect(usdoExpress.connect(operator).processRedemptionQueue(1))
+        .to.emit(usdoExpress, 'ProcessRedeem')
+        .withArgs(
+          whitelistedUser.address,
+          whitelistedUser.address,
+          redeemAmount,
+          queued.usdcAmt,
+          queued.feeAmt,
+          anyValue,
+        );
+    });
+
+    it('should restore the global rate when the override is removed', async function () {
+      await usdoExpress.connect(maintainer).setAssetFeeRate(tbill.address, MINT, 0);
+      expect(await usdoExpress.getFeeRate(tbill.address, MINT)).to.equal(0);
+
+      await expect(usdoExpress.connect(maintainer).removeAssetFeeRate(tbill.address, MINT))
+        .to.emit(usdoExpress, 'RemoveAssetFeeRate')
+        .withArgs(tbill.address, MINT);
+      expect(await usdoExpress.getFeeRate(tbill.address, MINT)).to.equal(10);
+    });
+
+    it('should fail to set an override without MAINTAINER_ROLE', async function () {
+      await expect(usdoExpress.connect(operator).setAssetFeeRate(usdc.address, MINT, 5)).to.be.revertedWith(
+        `AccessControl: account ${operator.address.toLowerCase()} is missing role ${roles.MAINTAINER_ROLE}`,
+      );
+      await expect(usdoExpress.connect(operator).removeAssetFeeRate(usdc.address, MINT)).to.be.revertedWith(
+        `AccessControl: account ${operator.address.toLowerCase()} is missing role ${roles.MAINTAINER_ROLE}`,
+      );
+    });
+
+    it('should fail to set an override for an unsupported asset or above 100%', async function () {
+      await expect(usdoExpress.connect(maintainer).setAssetFeeRate(buidl.address, MINT, 5))
+        .to.be.revertedWithCustomError(usdoExpress, 'USDOExpressTokenNotSupported')
+        .withArgs(buidl.address);
+      await expect(usdoExpress.connect(maintainer).setAssetFeeRate(usdc.address, MINT, 10001))
+        .to.be.revertedWithCustomError(usdoExpress, 'USDOExpressInvalidInput')
+        .withArgs(10001);
+    });
+  });
+
   describe('Instant Mint/Redeem', function () {
     const mintFeeRate = 10; // 0.1%
     const redeemFeeRate = 20; // 0.2%
@@ -923,6 +1068,1096 @@ describe('USDOExpress', function () {
       const finalFeeToBalance = await usdc.balanceOf(feeTo.address);
       expect(finalFeeToBalance).to.be.gt(initialFeeToBalance); // Fees should be collected
     });
+
+    describe('Partial fills', function () {
+      const usdcAmt = (amount: string) => ethers.utils.parseUnits(amount, 6);
+
+      this.beforeEach(async function () {
+        await usdoExpress.connect(maintainer).setPartialFill(true);
+      });
+
+      it('should only let the maintainer switch partial fills', async function () {
+        await expect(usdoExpress.connect(whitelistedUser).setPartialFill(false)).to.be.revertedWith(
+          `AccessControl: account ${whitelistedUser.address.toLowerCase()} is missing role ${roles.MAINTAINER_ROLE}`,
+        );
+        await expect(usdoExpress.connect(maintainer).setPartialFill(false))
+          .to.emit(usdoExpress, 'UpdatePartialFill')
+          .withArgs(false);
+        expect(await usdoExpress._partialFill()).to.equal(false);
+      });
+
+      it('should pay out the head request in part and keep the rest queued under its id', async function () {
+        await usdoExpress.connect(whitelistedUser).redeemRequest(whitelistedUser.address, redeemAmount);
+        const { id } = await usdoExpress.getRedemptionQueueInfo(0);
+        await usdc.transfer(usdoExpress.address, usdcAmt('200'));
+
+        await expect(usdoExpress.connect(operator).processRedemptionQueue(1))
+          .to.emit(usdoExpress, 'PartialProcessRedeem')
+          .withArgs(
+            usdc.address,
+            whitelistedUser.address,
+            whitelistedUser.address,
+            ethers.utils.parseUnits('200', 18),
+            usdcAmt('199.6'),
+            usdcAmt('0.4'),
+            ethers.utils.parseUnits('300', 18),
+            id,
+          )
+          .and.to.emit(usdoExpress, 'ProcessRedemptionQueue')
+          .withArgs(usdcAmt('199.6'), ethers.utils.parseUnits('200', 18), usdcAmt('0.4'));
+
+        const head = await usdoExpress.getRedemptionQueueInfo(0);
+        expect(await usdoExpress.getRedemptionQueueLength()).to.equal(1);
+        expect(head.usdoAmt).to.equal(ethers.utils.parseUnits('300', 18));
+        expect(head.id).to.equal(id);
+        expect(await usdoExpress.getRedemptionUserInfo(whitelistedUser.address)).to.equal(
+          ethers.utils.parseUnits('300', 18),
+        );
+        expect(await usdc.balanceOf(whitelistedUser.address)).to.equal(usdcAmt('199.6'));
+
+        // The remainder is processed like any other request once funded
+        await usdc.transfer(usdoExpress.address, usdcAmt('300'));
+        await expect(usdoExpress.connect(operator).processRedemptionQueue(1))
+          .to.emit(usdoExpress, 'ProcessRedeem')
+          .withArgs(
+            whitelistedUser.address,
+            whitelistedUser.address,
+            ethers.utils.parseUnits('300', 18),
+            usdcAmt('299.4'),
+            usdcAmt('0.6'),
+            id,
+          );
+        expect(await usdoExpress.getRedemptionQueueLength()).to.equal(0);
+        expect(await usdoExpress.getRedemptionUserInfo(whitelistedUser.address)).to.equal(0);
+      });
+
+      it('should keep the requests behind a partially filled request in the queue', async function () {
+        await usdoExpress.connect(maintainer).grantKycInBulk([non_whitelist.address]);
+        await usdo.mint(non_whitelist.address, redeemAmount);
+        await usdoExpress.connect(whitelistedUser).redeemRequest(whitelistedUser.address, redeemAmount);
+        await usdoExpress.connect(non_whitelist).redeemRequest(non_whitelist.address, redeemAmount);
+        await usdc.transfer(usdoExpress.address, usdcAmt('600'));
+
+        await expect(usdoExpress.connect(operator).processRedemptionQueue(0))
+          .to.emit(usdoExpress, 'PartialProcessRedeem')
+          .withArgs(
+            usdc.address,
+            non_whitelist.address,
+            non_whitelist.address,
+            ethers.utils.parseUnits('100', 18),
+            usdcAmt('99.8'),
+            usdcAmt('0.2'),
+            ethers.utils.parseUnits('400', 18),
+            anyValue,
+          );
+
+        expect(await usdoExpress.getRedemptionQueueLength()).to.equal(1);
+        expect((await usdoExpress.getRedemptionQueueInfo(0)).sender).to.equal(non_whitelist.address);
+        expect(await usdc.balanceOf(usdoExpress.address)).to.equal(0);
+      });
+
+      it('should leave the queue untouched without liquidity', async function () {
+        await usdoExpress.connect(whitelistedUser).redeemRequest(whitelistedUser.address, redeemAmount);
+
+        await expect(usdoExpress.connect(operator).processRedemptionQueue(1)).to.not.emit(
+          usdoExpress,
+          'PartialProcessRedeem',
+        );
+        expect((await usdoExpress.getRedemptionQueueInfo(0)).usdoAmt).to.equal(redeemAmount);
+      });
+
+      it('should cancel only the unpaid part of a partially filled request', async function () {
+        await usdoExpress.connect(whitelistedUser).redeemRequest(whitelistedUser.address, redeemAmount);
+        await usdc.transfer(usdoExpress.address, usdcAmt('200'));
+        await usdoExpress.connect(operator).processRedemptionQueue(1);
+
+        await expect(usdoExpress.connect(maintainer).cancel(1))
+          .to.emit(usdoExpress, 'Cancel')
+          .withArgs(1, ethers.utils.parseUnits('300', 18));
+        expect(await usdo.balanceOf(whitelistedUser.address)).to.equal(ethers.utils.parseUnits('300', 18));
+      });
+    });
+    describe('Cancel by id', function () {
+      let ids: string[];
+
+      this.beforeEach(async function () {
+        await usdoExpress.connect(maintainer).grantKycInBulk([non_whitelist.address]);
+        await usdo.mint(whitelistedUser.address, redeemAmount);
+        await usdo.mint(non_whitelist.address, redeemAmount);
+
+        await usdoExpress.connect(whitelistedUser).redeemRequest(whitelistedUser.address, redeemAmount);
+        await usdoExpress.connect(non_whitelist).redeemRequest(non_whitelist.address, redeemAmount);
+        await usdoExpress.connect(whitelistedUser).redeemRequest(whitelistedUser.address, redeemAmount);
+        ids = [];
+        for (let i = 0; i < 3; i++) ids.push((await usdoExpress.getRedemptionQueueInfo(i)).id);
+      });
+
+      it('should let the sender cancel a request in the middle of the queue', async function () {
+        await expect(usdoExpress.connect(non_whitelist).cancelRedemption(ids[1]))
+          .to.emit(usdoExpress, 'ProcessRedemptionCancel')
+          .withArgs(non_whitelist.address, non_whitelist.address, redeemAmount, ids[1]);
+
+        expect(await usdo.balanceOf(non_whitelist.address)).to.equal(redeemAmount);
+        expect(await usdoExpress.getRedemptionUserInfo(non_whitelist.address)).to.equal(0);
+        // The slot stays until processing reaches it
+        expect(await usdoExpress.getRedemptionQueueLength()).to.equal(3);
+        expect((await usdoExpress.getRedemptionQueueInfo(1)).id).to.equal(ethers.constants.HashZero);
+        expect((await usdoExpress.getRedemptionQueueInfo(2)).id).to.equal(ids[2]);
+
+        await usdc.transfer(usdoExpress.address, ethers.utils.parseUnits('1000', 6));
+        await expect(usdoExpress.connect(operator).processRedemptionQueue(0))
+          .to.emit(usdoExpress, 'ProcessRedemptionQueue')
+          .withArgs(anyValue, redeemAmount.mul(2), anyValue);
+        expect(await usdoExpress.getRedemptionQueueLength()).to.equal(0);
+        expect(await usdc.balanceOf(non_whitelist.address)).to.equal(0);
+        expect(await usdoExpress.getRedemptionUserInfo(whitelistedUser.address)).to.equal(0);
+      });
+
+      it('should fail to cancel a request of another sender or no longer queued', async function () {
+        await expect(usdoExpress.connect(whitelistedUser).cancelRedemption(ids[1]))
+          .to.be.revertedWithCustomError(usdoExpress, 'USDOExpressNotRedemptionSender')
+          .withArgs(whitelistedUser.address, ids[1]);
+
+        await usdoExpress.connect(non_whitelist).cancelRedemption(ids[1]);
+        await expect(usdoExpress.connect(non_whitelist).cancelRedemption(ids[1]))
+          .to.be.revertedWithCustomError(usdoExpress, 'USDOExpressRedemptionNotFound')
+          .withArgs(ids[1]);
+
+        await usdc.transfer(usdoExpress.address, ethers.utils.parseUnits('500', 6));
+        await usdoExpress.connect(operator).processRedemptionQueue(1);
+        await expect(usdoExpress.connect(whitelistedUser).cancelRedemption(ids[0]))
+          .to.be.revertedWithCustomError(usdoExpress, 'USDOExpressRedemptionNotFound')
+          .withArgs(ids[0]);
+      });
+
+      it('should let the sender cancel while redeem is paused', async function () {
+        await usdoExpress.connect(operator).pauseRedeem();
+        await expect(usdoExpress.connect(whitelistedUser).cancelRedemption(ids[0]))
+          .to.emit(usdoExpress, 'ProcessRedemptionCancel')
+          .withArgs(whitelistedUser.address, whitelistedUser.address, redeemAmount, ids[0]);
+        // Cancelled slots still count towards the queue length
+        expect(await usdoExpress.getRedemptionQueueLength()).to.equal(3);
+      });
+
+      it('should let the maintainer cancel any request by id', async function () {
+        await expect(usdoExpress.connect(operator).cancelById(ids[2])).to.be.revertedWith(
+          `AccessControl: account ${operator.address.toLowerCase()} is missing role ${roles.MAINTAINER_ROLE}`,
+        );
+
+        await expect(usdoExpress.connect(maintainer).cancelById(ids[2]))
+          .to.emit(usdoExpress, 'ProcessRedemptionCancel')
+          .withArgs(whitelistedUser.address, whitelistedUser.address, redeemAmount, ids[2]);
+        expect(await usdo.balanceOf(whitelistedUser.address)).to.equal(redeemAmount);
+        expect(await usdoExpress.getRedemptionUserInfo(whitelistedUser.address)).to.equal(redeemAmount);
+      });
+
+      it('should look up the queued requests by id and by sender', async function () {
+        expect(await usdoExpress.getUserRedemptions(whitelistedUser.address)).to.deep.equal([ids[0], ids[2]]);
+        expect(await usdoExpress.getUserRedemptions(non_whitelist.address)).to.deep.equal([ids[1]]);
+        expect(await usdoExpress.getRedemptionIndex(ids[2])).to.equal(2);
+
+        await usdoExpress.connect(maintainer).cancelById(ids[0]);
+        expect(await usdoExpress.getUserRedemptions(whitelistedUser.address)).to.deep.equal([ids[2]]);
+        await expect(usdoExpress.getRedemptionIndex(ids[0]))
+          .to.be.revertedWithCustomError(usdoExpress, 'USDOExpressRedemptionNotFound')
+          .withArgs(ids[0]);
+
+        await usdc.transfer(usdoExpress.address, ethers.utils.parseUnits('500', 6));
+        await usdoExpress.connect(operator).processRedemptionQueue(2);
+        expect(await usdoExpress.getRedemptionIndex(ids[2])).to.equal(0);
+        expect(await usdoExpress.getUserRedemptions(non_whitelist.address)).to.deep.equal([]);
+      });
+
+      it('should skip cancelled requests when cancelling from the front', async function () {
+        await usdoExpress.connect(maintainer).cancelById(ids[0]);
+
+        await expect(usdoExpress.connect(maintainer).cancel(2))
+          .to.emit(usdoExpress, 'Cancel')
+          .withArgs(2, redeemAmount);
+        expect((await usdoExpress.getRedemptionQueueInfo(0)).id).to.equal(ids[2]);
+      });
+    });
+  });
+
+  describe('KYC records and tiers', function () {
+    const usdcAmt = (amount: string) => ethers.utils.parseUnits(amount, 6);
+    const usdoAmt = (amount: string) => ethers.utils.parseUnits(amount, 18);
+
+    this.beforeEach(async function () {
+      await usdc.transfer(whitelistedUser.address, usdcAmt('5000'));
+      await usdc.connect(whitelistedUser).approve(usdoExpress.address, usdcAmt('5000'));
+    });
+
+    it('should reject mints, redeems and queue processing once the record expired', async function () {
+      const expiry = (await time.latest()) + 86400;
+      await expect(usdoExpress.connect(maintainer).setKycRecords([whitelistedUser.address], [{ expiry, tier: 0 }]))
+        .to.emit(usdoExpress, 'UpdateKycRecord')
+        .withArgs(whitelistedUser.address, expiry, 0);
+
+      await usdoExpress.connect(whitelistedUser).instantMint(usdc.address, whitelistedUser.address, usdcAmt('1000'));
+      await usdo.mint(whitelistedUser.address, _10k);
+      await usdoExpress.connect(whitelistedUser).redeemRequest(whitelistedUser.address, _500);
+      await usdc.transfer(usdoExpress.address, usdcAmt('500'));
+
+      // Still valid at the expiry itself
+      await time.setNextBlockTimestamp(expiry);
+      await usdoExpress.connect(whitelistedUser).redeemRequest(whitelistedUser.address, _500);
+
+      await time.increase(1);
+      await expect(
+        usdoExpress.connect(whitelistedUser).instantMint(usdc.address, whitelistedUser.address, usdcAmt('1000')),
+      )
+        .to.be.revertedWithCustomError(usdoExpress, 'USDOExpressKycExpired')
+        .withArgs(whitelistedUser.address, expiry);
+      await expect(
+        usdoExpress.connect(whitelistedUser).instantRedeemSelf(whitelistedUser.address, _500, 0),
+      ).to.be.revertedWithCustomError(usdoExpress, 'USDOExpressKycExpired');
+      await expect(
+        usdoExpress.connect(whitelistedUser).redeemRequest(whitelistedUser.address, _500),
+      ).to.be.revertedWithCustomError(usdoExpress, 'USDOExpressKycExpired');
+      await expect(usdoExpress.connect(operator).processRedemptionQueue(1)).to.be.revertedWithCustomError(
+        usdoExpress,
+        'USDOExpressKycExpired',
+      );
+
+      // Re-verified
+      await usdoExpress.connect(maintainer).setKycRecords([whitelistedUser.address], [{ expiry: 0, tier: 0 }]);
+      await expect(usdoExpress.connect(operator).processRedemptionQueue(1)).to.emit(usdoExpress, 'ProcessRedeem');
+    });
+
+    it('should apply the mint minimum, first deposit and per-transaction limits of the tier', async function () {
+      await expect(usdoExpress.connect(maintainer).setKycTier(1, usdoAmt('100'), usdoAmt('200'), usdoAmt('500'), _10k))
+        .to.emit(usdoExpress, 'UpdateKycTier')
+        .withArgs(1, usdoAmt('100'), usdoAmt('200'), usdoAmt('500'), _10k);
+      await usdoExpress.connect(maintainer).setKycRecords([whitelistedUser.address], [{ expiry: 0, tier: 1 }]);
+
+      const { record, tier } = await usdoExpress.getKycRecord(whitelistedUser.address);
+      expect(record.tier).to.equal(1);
+      expect([tier.mintMinimum, tier.firstDepositAmount]).to.deep.equal([usdoAmt('100'), usdoAmt('200')]);
+
+      // Below the global first deposit and mint minimum of 1K
+      await expect(
+        usdoExpress.connect(whitelistedUser).instantMint(usdc.address, whitelistedUser.address, usdcAmt('150')),
+      ).to.be.revertedWithCustomError(usdoExpress, 'FirstDepositLessThanRequired');
+      await usdoExpress.connect(whitelistedUser).instantMint(usdc.address, whitelistedUser.address, usdcAmt('200'));
+      await usdoExpress.connect(whitelistedUser).instantMint(usdc.address, whitelistedUser.address, usdcAmt('100'));
+
+      await expect(
+        usdoExpress.connect(whitelistedUser).instantMint(usdc.address, whitelistedUser.address, usdcAmt('600')),
+      ).to.be.revertedWithCustomError(usdoExpress, 'MintTxLimitExceeded');
+
+      await usdoExpress.connect(maintainer).setKycTier(1, usdoAmt('100'), usdoAmt('200'), 0, usdoAmt('600'));
+      await usdo.mint(whitelistedUser.address, _10k);
+      await expect(usdoExpress.connect(whitelistedUser).redeemRequest(whitelistedUser.address, usdoAmt('700')))
+        .to.be.revertedWithCustomError(usdoExpress, 'RedeemTxLimitExceeded')
+        .withArgs(usdoAmt('700'), usdoAmt('600'));
+      await usdoExpress.connect(whitelistedUser).redeemRequest(whitelistedUser.address, usdoAmt('600'));
+      await usdoExpress.connect(whitelistedUser).instantMint(usdc.address, whitelistedUser.address, usdcAmt('600'));
+    });
+
+    it('should take the mint rules from the tier of the receiver, whose first deposit is tracked', async function () {
+      await usdoExpress.connect(maintainer).setKycTier(1, usdoAmt('100'), usdoAmt('200'), 0, 0);
+      await usdoExpress.connect(maintainer).setKycRecords([whitelistedUser.address], [{ expiry: 0, tier: 1 }]);
+      await usdoExpress.connect(maintainer).grantKycInBulk([non_whitelist.address]);
+
+      // The payer's tier would allow 200, the retail receiver still makes a first deposit of the global 1K
+      await expect(
+        usdoExpress.connect(whitelistedUser).instantMint(usdc.address, non_whitelist.address, usdcAmt('200')),
+      )
+        .to.be.revertedWithCustomError(usdoExpress, 'FirstDepositLessThanRequired')
+        .withArgs(usdoAmt('200'), usdoAmt('1000'));
+      await usdoExpress.connect(whitelistedUser).instantMint(usdc.address, non_whitelist.address, usdcAmt('1000'));
+
+      // And the institutional receiver gets its own tier from a retail payer
+      await usdc.transfer(non_whitelist.address, usdcAmt('200'));
+      await usdc.connect(non_whitelist).approve(usdoExpress.address, usdcAmt('200'));
+      await usdoExpress.connect(non_whitelist).instantMint(usdc.address, whitelistedUser.address, usdcAmt('200'));
+      expect(await usdoExpress._firstDeposit(whitelistedUser.address)).to.be.true;
+    });
+
+    it('should only accept records of set tiers and reset them on grant', async function () {
+      await expect(usdoExpress.connect(maintainer).setKycTier(0, 0, 0, 0, 0))
+        .to.be.revertedWithCustomError(usdoExpress, 'USDOExpressInvalidInput')
+        .withArgs(0);
+      await expect(usdoExpress.connect(whitelistedUser).setKycTier(1, 0, 0, 0, 0)).to.be.revertedWith(
+        /AccessControl: account .* is missing role/,
+      );
+      await expect(usdoExpress.connect(maintainer).setKycRecords([non_whitelist.address], [{ expiry: 0, tier: 1 }]))
+        .to.be.revertedWithCustomError(usdoExpress, 'USDOExpressKycTierNotSet')
+        .withArgs(1);
+      await expect(
+        usdoExpress.connect(maintainer).setKycRecords([non_whitelist.address], []),
+      ).to.be.revertedWithCustomError(usdoExpress, 'USDOExpressInvalidInput');
+      await expect(
+        usdoExpress.connect(whitelistedUser).setKycRecords([non_whitelist.address], [{ expiry: 0, tier: 0 }]),
+      ).to.be.revertedWith(/AccessControl: account .* is missing role/);
+
+      await usdoExpress.connect(maintainer).setKycTier(1, 0, 0, usdoAmt('500'), 0);
+      await usdoExpress.connect(maintainer).setKycRecords([non_whitelist.address], [{ expiry: 1, tier: 1 }]);
+      expect(await usdoExpress._kycList(non_whitelist.address)).to.be.true;
+
+      await usdoExpress.connect(maintainer).grantKycInBulk([non_whitelist.address]);
+      const { record, tier } = await usdoExpress.getKycRecord(non_whitelist.address);
+      expect([record.expiry, record.tier]).to.deep.equal([BigNumber.from(0), 0]);
+      expect(tier.mintMinimum).to.equal(minimumAmt);
+      expect(tier.maxMintPerTx).to.equal(0);
+    });
+  });
+
+  describe('KYC attestations', function () {
+    const usdcAmt = (amount: string) => ethers.utils.parseUnits(amount, 6);
+    const usdoAmt = (amount: string) => ethers.utils.parseUnits(amount, 18);
+    let compliance: SignerWithAddress;
+
+    const attest = async (account: string, fields: Partial<KycAttestation> = {}, signer = compliance) => {
+      const attestation: KycAttestation = {
+        account,
+        tier: 0,
+        expiry: 0,
+        nonce: await usdoExpress._kycNonces(account),
+        ...fields,
+      };
+      return signKycAttestation(signer, await intentDomain(usdoExpress), attestation);
+    };
+
+    this.beforeEach(async function () {
+      compliance = (await ethers.getSigners())[9];
+      await usdoExpress.setKycSigner(compliance.address, true);
+      await usdc.transfer(non_whitelist.address, usdcAmt('5000'));
+      await usdc.connect(non_whitelist).approve(usdoExpress.address, usdcAmt('5000'));
+    });
+
+    it('should cache the attestation of the caller on its first mint', async function () {
+      await usdoExpress.connect(maintainer).setKycTier(1, usdoAmt('100'), usdoAmt('200'), 0, 0);
+      const expiry = (await time.latest()) + 86400;
+      const { attestation, signature } = await attest(non_whitelist.address, { tier: 1, expiry });
+
+      await expect(
+        usdoExpress
+          .connect(non_whitelist)
+          .instantMintWithKyc(usdc.address, non_whitelist.address, usdcAmt('200'), attestation, signature),
+      )
+        .to.emit(usdoExpress, 'KycAttested')
+        .withArgs(non_whitelist.address, compliance.address, expiry, 1, 0)
+        .and.to.emit(usdoExpress, 'InstantMint');
+
+      expect(await usdoExpress._kycList(non_whitelist.address)).to.be.true;
+      expect(await usdoExpress._kycNonces(non_whitelist.address)).to.equal(1);
+      const { record, tier } = await usdoExpress.getKycRecord(non_whitelist.address);
+      expect([record.expiry.toNumber(), record.tier]).to.deep.equal([expiry, 1]);
+      expect(tier.firstDepositAmount).to.equal(usdoAmt('200'));
+      expect((await usdoExpress.getKycTier(1)).isSet).to.be.true;
+
+      // Cached, later calls need no attestation until it expires
+      await usdoExpress.connect(non_whitelist).instantMint(usdc.address, non_whitelist.address, usdcAmt('100'));
+      await time.increaseTo(expiry + 1);
+      await expect(
+        usdoExpress.connect(non_whitelist).instantMint(usdc.address, non_whitelist.address, usdcAmt('100')),
+      ).to.be.revertedWithCustomError(usdoExpress, 'USDOExpressKycExpired');
+    });
+
+    it('should accept the attestation of the receiver on instant and queued redeems', async function () {
+      await usdo.mint(whitelistedUser.address, _10k);
+      await usdc.transfer(simpleRedemption.address, usdcAmt('500'));
+
+      const first = await attest(non_whitelist.address);
+      await expect(
+        usdoExpress
+          .connect(whitelistedUser)
+          .instantRedeemSelfWithKyc(non_whitelist.address, _500, 0, first.attestation, first.signature),
+      )
+        .to.emit(usdoExpress, 'InstantRedeem')
+        .and.to.emit(usdoExpress, 'KycAttested');
+      expect(await usdc.balanceOf(non_whitelist.address)).to.equal(usdcAmt('5500'));
+
+      // The nonce moved on, the next attestation carries the new one
+      await usdoExpress.connect(maintainer).revokeKycInBulk([non_whitelist.address]);
+      const second = await attest(non_whitelist.address);
+      expect(second.attestation.nonce).to.equal(2);
+      await expect(
+        usdoExpress
+          .connect(whitelistedUser)
+          .redeemRequestWithKyc(non_whitelist.address, _500, second.attestation, second.signature),
+      ).to.emit(usdoExpress, 'AddToRedemptionQueue');
+      expect(await usdoExpress._kycList(non_whitelist.address)).to.be.true;
+    });
+
+    it('should reject unregistered signers, unset tiers, expired attestations and used nonces', async function () {
+      const mintWithKyc = ({ attestation, signature }: Awaited<ReturnType<typeof attest>>) =>
+        usdoExpress
+          .connect(non_whitelist)
+          .instantMintWithKyc(usdc.address, non_whitelist.address, usdcAmt('1000'), attestation, signature);
+
+      await expect(mintWithKyc(await attest(non_whitelist.address, {}, non_whitelist)))
+        .to.be.revertedWithCustomError(usdoExpress, 'USDOExpressInvalidKycSigner')
+        .withArgs(non_whitelist.address);
+      const tampered = await attest(non_whitelist.address);
+      await expect(
+        mintWithKyc({ ...tampered, attestation: { ...tampered.attestation, expiry: 1 } }),
+      ).to.be.revertedWithCustomError(usdoExpress, 'USDOExpressKycExpired');
+      await expect(mintWithKyc({ ...tampered, attestation: { ...tampered.attestation, tier: 3 } }))
+        .to.be.revertedWithCustomError(usdoExpress, 'USDOExpressKycTierNotSet')
+        .withArgs(3);
+      await expect(mintWithKyc(await attest(non_whitelist.address, { nonce: BigNumber.from(1) })))
+        .to.be.revertedWithCustomError(usdoExpress, 'USDOExpressInvalidKycNonce')
+        .withArgs(non_whitelist.address, 1);
+
+      await mintWithKyc(tampered);
+      // Sent again, e.g. after a copy from the mempool went first, it is skipped while the record still matches it
+      await expect(mintWithKyc(tampered)).to.emit(usdoExpress, 'InstantMint');
+      expect(await usdoExpress._kycNonces(non_whitelist.address)).to.equal(1);
+      const expiry = (await time.latest()) + 86400;
+      await usdoExpress.connect(maintainer).setKycRecords([non_whitelist.address], [{ expiry, tier: 0 }]);
+      await expect(mintWithKyc(tampered))
+        .to.be.revertedWithCustomError(usdoExpress, 'USDOExpressInvalidKycNonce')
+        .withArgs(non_whitelist.address, 0);
+      // Only signed attestations are skipped, not made up ones matching the record left by grantKycInBulk
+      const forged = await attest(whitelistedUser.address, { nonce: BigNumber.from(0) }, non_whitelist);
+      await expect(mintWithKyc(forged))
+        .to.be.revertedWithCustomError(usdoExpress, 'USDOExpressInvalidKycSigner')
+        .withArgs(non_whitelist.address);
+      await expect(mintWithKyc({ ...forged, signature: '0x' }))
+        .to.be.revertedWithCustomError(usdoExpress, 'USDOExpressInvalidKycSigner')
+        .withArgs(AddressZero);
+
+      // Deregistered signers grant nothing more
+      await usdoExpress.setKycSigner(compliance.address, false);
+      await usdoExpress.connect(maintainer).revokeKycInBulk([non_whitelist.address]);
+      await expect(mintWithKyc(await attest(non_whitelist.address))).to.be.revertedWithCustomError(
+        usdoExpress,
+        'USDOExpressInvalidKycSigner',
+      );
+    });
+
+    it('should void outstanding attestations when the KYC of the account is revoked', async function () {
+      const outstanding = await attest(non_whitelist.address);
+      await usdoExpress.connect(maintainer).revokeKycInBulk([non_whitelist.address]);
+
+      await expect(
+        usdoExpress
+          .connect(non_whitelist)
+          .instantMintWithKyc(
+            usdc.address,
+            non_whitelist.address,
+            usdcAmt('1000'),
+            outstanding.attestation,
+            outstanding.signature,
+          ),
+      )
+        .to.be.revertedWithCustomError(usdoExpress, 'USDOExpressInvalidKycNonce')
+        .withArgs(non_whitelist.address, 0);
+      expect(await usdoExpress._kycList(non_whitelist.address)).to.be.false;
+    });
+
+    it('should only let the admin register compliance signers', async function () {
+      await expect(usdoExpress.setKycSigner(non_whitelist.address, true))
+        .to.emit(usdoExpress, 'UpdateKycSigner')
+        .withArgs(non_whitelist.address, true);
+      expect(await usdoExpress._kycSigners(non_whitelist.address)).to.be.true;
+
+      await expect(usdoExpress.setKycSigner(AddressZero, true)).to.be.revertedWithCustomError(
+        usdoExpress,
+        'USDOExpressZeroAddress',
+      );
+      await expect(usdoExpress.connect(maintainer).setKycSigner(maintainer.address, true)).to.be.revertedWith(
+        /AccessControl: account .* is missing role/,
+      );
+    });
+  });
+
+  describe('Redeem from cUSDO', function () {
+    const shares = ethers.utils.parseUnits('1000', 18); // 1000 cUSDO, 1:1 with USDO in the mock
+
+    this.beforeEach(async function () {
+      await usdo.mint(whitelistedUser.address, shares);
+      await usdo.connect(whitelistedUser).approve(cusdo.address, shares);
+      await cusdo.connect(whitelistedUser).deposit(shares, whitelistedUser.address);
+    });
+
+    it('should instantly redeem the USDO of cUSDO shares in one call', async function () {
+      const usdcNeeded = await usdoExpress.convertToUnderlying(usdc.address, shares);
+      await usdc.transfer(simpleRedemption.address, usdcNeeded);
+      await cusdo.connect(whitelistedUser).approve(usdoExpress.address, shares);
+
+      await expect(
+        usdoExpress.connect(whitelistedUser).instantRedeemFromCusdo(shares, whitelistedUser.address, usdcNeeded),
+      )
+        .to.emit(usdoExpress, 'RedeemFromCusdo')
+        .withArgs(whitelistedUser.address, shares, shares)
+        .and.to.emit(usdoExpress, 'InstantRedeem')
+        .withArgs(whitelistedUser.address, whitelistedUser.address, shares, usdcNeeded, 0, usdcNeeded, 0, usdcNeeded);
+
+      expect(await cusdo.balanceOf(whitelistedUser.address)).to.equal(0);
+      expect(await usdo.balanceOf(whitelistedUser.address)).to.equal(0);
+      expect(await usdc.balanceOf(whitelistedUser.address)).to.equal(usdcNeeded);
+    });
+
+    it('should queue the USDO of cUSDO shares in one call', async function () {
+      await cusdo.connect(whitelistedUser).approve(usdoExpress.address, shares);
+
+      await expect(usdoExpress.connect(whitelistedUser).redeemRequestFromCusdo(shares, whitelistedUser.address))
+        .to.emit(usdoExpress, 'RedeemFromCusdo')
+        .withArgs(whitelistedUser.address, shares, shares)
+        .and.to.emit(usdoExpress, 'AddToRedemptionQueue')
+        .withArgs(whitelistedUser.address, whitelistedUser.address, shares, anyValue);
+
+      const [sender, receiver, usdoAmt] = await usdoExpress.getRedemptionQueueInfo(0);
+      expect([sender, receiver, usdoAmt]).to.deep.equal([whitelistedUser.address, whitelistedUser.address, shares]);
+      expect(await usdoExpress.getRedemptionUserInfo(whitelistedUser.address)).to.equal(shares);
+      expect(await cusdo.balanceOf(whitelistedUser.address)).to.equal(0);
+    });
+
+    it('should apply the redeem rules to the USDO of the shares', async function () {
+      await expect(
+        usdoExpress.connect(whitelistedUser).redeemRequestFromCusdo(shares, whitelistedUser.address),
+      ).to.be.revertedWith('ERC20: insufficient allowance');
+
+      await cusdo.connect(whitelistedUser).approve(usdoExpress.address, shares);
+      await expect(usdoExpress.connect(whitelistedUser).redeemRequestFromCusdo(shares, non_whitelist.address))
+        .to.be.revertedWithCustomError(usdoExpress, 'USDOExpressNotInKycList')
+        .withArgs(whitelistedUser.address, non_whitelist.address);
+
+      await usdoExpress.connect(maintainer).setAccountLimits(whitelistedUser.address, 0, shares.sub(1));
+      await expect(
+        usdoExpress.connect(whitelistedUser).redeemRequestFromCusdo(shares, whitelistedUser.address),
+      ).to.be.revertedWithCustomError(usdoExpress, 'AccountRedeemLimitExceeded');
+
+      await usdoExpress.connect(operator).pauseRedeem();
+      await expect(
+        usdoExpress.connect(whitelistedUser).instantRedeemFromCusdo(shares, whitelistedUser.address, 0),
+      ).to.be.revertedWith('Pausable: Redeem paused');
+    });
+  });
+
+  describe('Redeem into other assets', function () {
+    const redeemAmount = ethers.utils.parseUnits('1000', 18); // 1000 USDO
+    let usdt: MockUSDT;
+    let usdtUnit: (amount: string) => BigNumber;
+
+    this.beforeEach(async function () {
+      usdt = await (await ethers.getContractFactory('MockUSDT')).deploy();
+      const decimals = await usdt.decimals();
+      usdtUnit = (amount: string) => ethers.utils.parseUnits(amount, decimals);
+      await assetRegistry.setAssetConfig(assetConfig({ asset: usdt.address }));
+
+      await usdoExpress.connect(maintainer).updateRedeemFee(20); // 0.2%
+      await usdoExpress.connect(maintainer).updateInstantRedeemFee(30); // 0.3%
+      await usdo.mint(whitelistedUser.address, redeemAmount.mul(3));
+    });
+
+    it('should instant redeem into USDT from the contract balance at the USDT fee rate', async function () {
+      await usdoExpress.connect(maintainer).setAssetFeeRate(usdt.address, 2, 10); // 0.1% instant
+      await usdt.transfer(usdoExpress.address, usdtUnit('1500'));
+
+      const preview = await usdoExpress.previewRedeemAsset(usdt.address, redeemAmount, true);
+      expect(preview.feeAmt).to.equal(usdtUnit('1'));
+      expect(preview.assetAmt).to.equal(usdtUnit('999'));
+      expect(preview.extraFee).to.equal(0);
+
+      await expect(
+        usdoExpress
+          .connect(whitelistedUser)
+          .instantRedeemAsset(usdt.address, whitelistedUser.address, redeemAmount, usdtUnit('999')),
+      )
+        .to.emit(usdoExpress, 'InstantRedeemAsset')
+        .withArgs(
+          usdt.address,
+          whitelistedUser.address,
+          whitelistedUser.address,
+          redeemAmount,
+          usdtUnit('999'),
+          usdtUnit('1'),
+          usdtUnit('999'),
+        );
+
+      expect(await usdt.balanceOf(whitelistedUser.address)).to.equal(usdtUnit('999'));
+      expect(await usdt.balanceOf(feeTo.address)).to.equal(usdtUnit('1'));
+      expect(await usdt.balanceOf(usdoExpress.address)).to.equal(usdtUnit('500'));
+      expect(await usdo.balanceOf(whitelistedUser.address)).to.equal(redeemAmount.mul(2));
+    });
+
+    it('should fail to instant redeem into USDT without enough liquidity or output', async function () {
+      await usdt.transfer(usdoExpress.address, usdtUnit('999'));
+      await expect(
+        usdoExpress.connect(whitelistedUser).instantRedeemAsset(usdt.address, whitelistedUser.address, redeemAmount, 0),
+      )
+        .to.be.revertedWithCustomError(usdoExpress, 'USDOExpressInsufficientLiquidity')
+        .withArgs(usdtUnit('1000'), usdtUnit('999'));
+
+      await usdt.transfer(usdoExpress.address, usdtUnit('1'));
+      await expect(
+        usdoExpress
+          .connect(whitelistedUser)
+          .instantRedeemAsset(usdt.address, whitelistedUser.address, redeemAmount, usdtUnit('998')),
+      )
+        .to.be.revertedWithCustomError(usdoExpress, 'InsufficientOutput')
+        .withArgs(usdtUnit('997'), usdtUnit('998'));
+    });
+
+    it('should leave the USDT due to queued requests to the queue', async function () {
+      const instantRedeem = (amount: BigNumber) =>
+        usdoExpress.connect(whitelistedUser).instantRedeemAsset(usdt.address, whitelistedUser.address, amount, 0);
+      for (let i = 0; i < 2; i++) {
+        await usdoExpress
+          .connect(whitelistedUser)
+          .redeemRequestAsset(usdt.address, whitelistedUser.address, redeemAmount);
+      }
+      await usdoExpress.connect(whitelistedUser).cancelRedemption((await usdoExpress.getRedemptionQueueInfo(1)).id);
+      expect(await usdoExpress._queuedUsdo(usdt.address)).to.equal(redeemAmount);
+      await usdt.transfer(usdoExpress.address, usdtUnit('1500'));
+
+      // 1000 of the 1500 USDT are held for the queued request
+      await expect(instantRedeem(redeemAmount))
+        .to.be.revertedWithCustomError(usdoExpress, 'USDOExpressInsufficientLiquidity')
+        .withArgs(usdtUnit('1000'), usdtUnit('500'));
+      await instantRedeem(redeemAmount.div(2));
+
+      await expect(usdoExpress.connect(operator).processRedemptionQueue(0)).to.emit(usdoExpress, 'ProcessRedeemAsset');
+      expect(await usdoExpress._queuedUsdo(usdt.address)).to.equal(0);
+    });
+
+    it('should instant redeem USDC through the redemption contract', async function () {
+      await usdc.transfer(simpleRedemption.address, ethers.utils.parseUnits('1000', 6));
+
+      await expect(
+        usdoExpress.connect(whitelistedUser).instantRedeemAsset(usdc.address, whitelistedUser.address, redeemAmount, 0),
+      ).to.emit(usdoExpress, 'InstantRedeem');
+      expect(await usdc.balanceOf(simpleRedemption.address)).to.equal(0);
+    });
+
+    it('should fail to queue a redemption into an unsupported asset', async function () {
+      await expect(
+        usdoExpress.connect(whitelistedUser).redeemRequestAsset(buidl.address, whitelistedUser.address, redeemAmount),
+      )
+        .to.be.revertedWithCustomError(usdoExpress, 'USDOExpressTokenNotSupported')
+        .withArgs(buidl.address);
+    });
+
+    it('should store the payout asset and process a mixed queue in order', async function () {
+      await usdoExpress
+        .connect(whitelistedUser)
+        .redeemRequestAsset(usdt.address, whitelistedUser.address, redeemAmount);
+      await usdoExpress.connect(whitelistedUser).redeemRequest(whitelistedUser.address, redeemAmount);
+      await usdoExpress
+        .connect(whitelistedUser)
+        .redeemRequestAsset(usdt.address, whitelistedUser.address, redeemAmount);
+
+      expect((await usdoExpress.getRedemptionQueueInfo(0)).asset).to.equal(usdt.address);
+      expect((await usdoExpress.getRedemptionQueueInfo(1)).asset).to.equal(usdc.address);
+
+      // Enough USDC for everything, USDT for the first request only
+      await usdc.transfer(usdoExpress.address, ethers.utils.parseUnits('3000', 6));
+      await usdt.transfer(usdoExpress.address, usdtUnit('1500'));
+      const [id] = (await usdoExpress.getRedemptionQueueInfo(0)).slice(3, 4);
+
+      await expect(usdoExpress.connect(operator).processRedemptionQueue(0))
+        .to.emit(usdoExpress, 'ProcessRedeemAsset')
+        .withArgs(
+          usdt.address,
+          whitelistedUser.address,
+          whitelistedUser.address,
+          redeemAmount,
+          usdtUnit('998'),
+          usdtUnit('2'),
+          id,
+        )
+        .and.to.emit(usdoExpress, 'ProcessRedeem')
+        .and.to.emit(usdoExpress, 'ProcessRedemptionQueue')
+        .withArgs(ethers.utils.parseUnits('998', 6), redeemAmount.mul(2), ethers.utils.parseUnits('2', 6));
+
+      // The second USDT request waits for liquidity
+      expect(await usdoExpress.getRedemptionQueueLength()).to.equal(1);
+      expect(await usdt.balanceOf(whitelistedUser.address)).to.equal(usdtUnit('998'));
+      expect(await usdc.balanceOf(whitelistedUser.address)).to.equal(ethers.utils.parseUnits('998', 6));
+      expect(await usdt.balanceOf(feeTo.address)).to.equal(usdtUnit('2'));
+    });
+
+    it('should preview what queue processing pays for a priced asset', async function () {
+      await usdoExpress
+        .connect(whitelistedUser)
+        .redeemRequestAsset(tbill.address, whitelistedUser.address, redeemAmount);
+      await tbill.transfer(usdoExpress.address, ethers.utils.parseUnits('1000', 6));
+
+      const { feeAmt, assetAmt } = await usdoExpress.previewRedeemAsset(tbill.address, redeemAmount, false);
+      expect(feeAmt.add(assetAmt)).to.equal(await usdoExpress.convertToUnderlying(tbill.address, redeemAmount));
+
+      await usdoExpress.connect(operator).processRedemptionQueue(1);
+      expect(await tbill.balanceOf(whitelistedUser.address)).to.equal(assetAmt);
+      expect(await tbill.balanceOf(feeTo.address)).to.equal(feeAmt);
+    });
+  });
+
+  describe('Permit mints', function () {
+    const mintAmount = ethers.utils.parseUnits('1000', 6); // 1000 USDC
+    let usdcPermit: MockUSDCPermit;
+
+    const permit = async (fields: { value?: BigNumber; deadline?: BigNumber } = {}) => {
+      const domain = await permitDomain(usdcPermit.address, ethers.provider);
+      return signPermit(whitelistedUser, domain, {
+        owner: whitelistedUser.address,
+        spender: usdoExpress.address,
+        value: mintAmount,
+        nonce: await usdcPermit.nonces(whitelistedUser.address),
+        deadline: BigNumber.from((await time.latest()) + 3600),
+        ...fields,
+      });
+    };
+
+    this.beforeEach(async function () {
+      usdcPermit = await (await ethers.getContractFactory('MockUSDCPermit')).deploy();
+      await assetRegistry.setAssetConfig(assetConfig({ asset: usdcPermit.address }));
+      await usdcPermit.transfer(whitelistedUser.address, mintAmount);
+    });
+
+    it('should mint with a permit and no prior approval', async function () {
+      const { usdoAmtCurr, fee } = await usdoExpress.previewMint(usdcPermit.address, mintAmount);
+      const { permit: signed, v, r, s } = await permit();
+
+      await expect(
+        usdoExpress
+          .connect(whitelistedUser)
+          .instantMintWithPermit(usdcPermit.address, whitelistedUser.address, mintAmount, signed.deadline, v, r, s),
+      )
+        .to.emit(usdoExpress, 'InstantMint')
+        .withArgs(usdcPermit.address, whitelistedUser.address, whitelistedUser.address, mintAmount, usdoAmtCurr, fee);
+
+      expect(await usdo.balanceOf(whitelistedUser.address)).to.equal(usdoAmtCurr);
+      expect(await usdcPermit.balanceOf(treasury.address)).to.equal(mintAmount);
+      expect(await usdcPermit.allowance(whitelistedUser.address, usdoExpress.address)).to.equal(0);
+    });
+
+    it('should mint and wrap with a permit', async function () {
+      const { usdoAmtCurr } = await usdoExpress.previewMint(usdcPermit.address, mintAmount);
+      const { permit: signed, v, r, s } = await permit();
+
+      await expect(
+        usdoExpress
+          .connect(whitelistedUser)
+          .instantMintAndWrapWithPermit(
+            usdcPermit.address,
+            whitelistedUser.address,
+            mintAmount,
+            signed.deadline,
+            v,
+            r,
+            s,
+          ),
+      ).to.emit(usdoExpress, 'InstantMintAndWrap');
+
+      expect(await cusdo.balanceOf(whitelistedUser.address)).to.equal(usdoAmtCurr);
+      expect(await usdo.balanceOf(whitelistedUser.address)).to.equal(0);
+    });
+
+    it('should fall back to the allowance when the permit was front-run', async function () {
+      const { permit: signed, v, r, s } = await permit();
+      // Someone submits the permit from the mempool first
+      await usdcPermit
+        .connect(non_whitelist)
+        .permit(whitelistedUser.address, usdoExpress.address, mintAmount, signed.deadline, v, r, s);
+
+      await usdoExpress
+        .connect(whitelistedUser)
+        .instantMintWithPermit(usdcPermit.address, whitelistedUser.address, mintAmount, signed.deadline, v, r, s);
+
+      expect(await usdcPermit.balanceOf(whitelistedUser.address)).to.equal(0);
+    });
+
+    it('should revert when the permit fails and the allowance falls short', async function () {
+      const { permit: signed, v, r, s } = await permit({ deadline: BigNumber.from(await time.latest()) });
+
+      await expect(
+        usdoExpress
+          .connect(whitelistedUser)
+          .instantMintWithPermit(usdcPermit.address, whitelistedUser.address, mintAmount, signed.deadline, v, r, s),
+      )
+        .to.be.revertedWithCustomError(usdoExpress, 'USDOExpressPermitFailed')
+        .withArgs(usdcPermit.address, whitelistedUser.address);
+
+      // Tokens without permit fall back the same way
+      await usdc.transfer(whitelistedUser.address, mintAmount);
+      await usdc.connect(whitelistedUser).approve(usdoExpress.address, mintAmount);
+      await usdoExpress
+        .connect(whitelistedUser)
+        .instantMintWithPermit(usdc.address, whitelistedUser.address, mintAmount, signed.deadline, v, r, s);
+      expect(await usdc.balanceOf(whitelistedUser.address)).to.equal(0);
+    });
+
+    it('should apply the mint rules to permit mints', async function () {
+      const { permit: signed, v, r, s } = await permit();
+      await usdcPermit.transfer(non_whitelist.address, mintAmount);
+      await usdcPermit.connect(non_whitelist).approve(usdoExpress.address, mintAmount);
+
+      await expect(
+        usdoExpress
+          .connect(non_whitelist)
+          .instantMintWithPermit(usdcPermit.address, non_whitelist.address, mintAmount, signed.deadline, v, r, s),
+      ).to.be.revertedWithCustomError(usdoExpress, 'USDOExpressNotInKycList');
+
+      await usdoExpress.connect(operator).pauseMint();
+      await expect(
+        usdoExpress
+          .connect(whitelistedUser)
+          .instantMintWithPermit(usdcPermit.address, whitelistedUser.address, mintAmount, signed.deadline, v, r, s),
+      ).to.be.revertedWith('Pausable: Mint paused');
+    });
+  });
+
+  describe('Signed intents', function () {
+    const mintAmount = ethers.utils.parseUnits('1000', 6); // 1000 USDC
+    const redeemAmount = ethers.utils.parseUnits('500', 18); // 500 USDO
+    let relayer: SignerWithAddress;
+
+    const sign = async (signer: SignerWithAddress, kind: IntentKind, fields: Partial<Intent> = {}) => {
+      const intent: Intent = {
+        from: signer.address,
+        underlying: usdc.address,
+        amount: kind === 'mint' ? mintAmount : redeemAmount,
+        recipient: signer.address,
+        minOut: BigNumber.from(0),
+        nonce: await usdoExpress._intentNonces(signer.address),
+        deadline: BigNumber.from((await time.latest()) + 3600),
+        ...fields,
+      };
+      return signIntent(signer, await intentDomain(usdoExpress), kind, intent);
+    };
+
+    this.beforeEach(async function () {
+      // Relayers need no KYC and hold no funds of the signer
+      relayer = (await ethers.getSigners())[8];
+      await usdc.transfer(whitelistedUser.address, mintAmount);
+      await usdc.connect(whitelistedUser).approve(usdoExpress.address, mintAmount);
+    });
+
+    it('should mint for the signer of a mint intent sent by a relayer', async function () {
+      const { usdoAmtCurr, fee } = await usdoExpress.previewMint(usdc.address, mintAmount);
+      const { intent, signature } = await sign(whitelistedUser, 'mint', { minOut: usdoAmtCurr });
+
+      await expect(usdoExpress.connect(relayer).instantMintWithIntent(intent, signature))
+        .to.emit(usdoExpress, 'InstantMint')
+        .withArgs(usdc.address, whitelistedUser.address, whitelistedUser.address, mintAmount, usdoAmtCurr, fee)
+        .and.to.emit(usdoExpress, 'IntentExecuted')
+        .withArgs(whitelistedUser.address, 0, relayer.address);
+
+      expect(await usdo.balanceOf(whitelistedUser.address)).to.equal(usdoAmtCurr);
+      expect(await usdc.balanceOf(whitelistedUser.address)).to.equal(0);
+      expect(await usdoExpress._intentNonces(whitelistedUser.address)).to.equal(1);
+    });
+
+    it('should redeem the USDO of the signer of a redeem intent sent by a relayer', async function () {
+      await usdo.mint(whitelistedUser.address, redeemAmount);
+      const usdcNeeded = await usdoExpress.convertToUnderlying(usdc.address, redeemAmount);
+      await usdc.transfer(simpleRedemption.address, usdcNeeded);
+
+      const { intent, signature } = await sign(whitelistedUser, 'redeem', { minOut: usdcNeeded });
+      const usdcBalance = await usdc.balanceOf(whitelistedUser.address);
+      await expect(usdoExpress.connect(relayer).instantRedeemWithIntent(intent, signature))
+        .to.emit(usdoExpress, 'InstantRedeem')
+        .withArgs(
+          whitelistedUser.address,
+          whitelistedUser.address,
+          redeemAmount,
+          usdcNeeded,
+          0,
+          usdcNeeded,
+          0,
+          usdcNeeded,
+        );
+
+      expect(await usdo.balanceOf(whitelistedUser.address)).to.equal(0);
+      expect(await usdc.balanceOf(whitelistedUser.address)).to.equal(usdcBalance.add(usdcNeeded));
+    });
+
+    it('should reject replayed, expired and tampered intents', async function () {
+      const signed = await sign(whitelistedUser, 'mint');
+      await usdoExpress.connect(relayer).instantMintWithIntent(signed.intent, signed.signature);
+      await expect(usdoExpress.connect(relayer).instantMintWithIntent(signed.intent, signed.signature))
+        .to.be.revertedWithCustomError(usdoExpress, 'USDOExpressInvalidIntentNonce')
+        .withArgs(whitelistedUser.address, 0);
+
+      const expired = await sign(whitelistedUser, 'mint', { deadline: BigNumber.from(await time.latest()) });
+      await expect(usdoExpress.connect(relayer).instantMintWithIntent(expired.intent, expired.signature))
+        .to.be.revertedWithCustomError(usdoExpress, 'USDOExpressIntentExpired')
+        .withArgs(expired.intent.deadline);
+
+      const { intent, signature } = await sign(whitelistedUser, 'mint');
+      await expect(
+        usdoExpress.connect(relayer).instantMintWithIntent({ ...intent, recipient: relayer.address }, signature),
+      )
+        .to.be.revertedWithCustomError(usdoExpress, 'USDOExpressInvalidIntentSignature')
+        .withArgs(whitelistedUser.address);
+      // A mint signature does not authorize a redeem
+      await expect(usdoExpress.connect(relayer).instantRedeemWithIntent(intent, signature))
+        .to.be.revertedWithCustomError(usdoExpress, 'USDOExpressInvalidIntentSignature')
+        .withArgs(whitelistedUser.address);
+
+      // Signed by another account for the whitelisted user
+      const forged = await sign(relayer, 'mint', { from: whitelistedUser.address, nonce: BigNumber.from(1) });
+      await expect(usdoExpress.connect(relayer).instantMintWithIntent(forged.intent, forged.signature))
+        .to.be.revertedWithCustomError(usdoExpress, 'USDOExpressInvalidIntentSignature')
+        .withArgs(whitelistedUser.address);
+    });
+
+    it('should apply the KYC, minimum output and limit rules to the signer', async function () {
+      const toOutsider = await sign(whitelistedUser, 'mint', { recipient: non_whitelist.address });
+      await expect(usdoExpress.connect(relayer).instantMintWithIntent(toOutsider.intent, toOutsider.signature))
+        .to.be.revertedWithCustomError(usdoExpress, 'USDOExpressNotInKycList')
+        .withArgs(whitelistedUser.address, non_whitelist.address);
+
+      const { usdoAmtCurr } = await usdoExpress.previewMint(usdc.address, mintAmount);
+      const greedy = await sign(whitelistedUser, 'mint', { minOut: usdoAmtCurr.add(1) });
+      await expect(usdoExpress.connect(relayer).instantMintWithIntent(greedy.intent, greedy.signature))
+        .to.be.revertedWithCustomError(usdoExpress, 'InsufficientOutput')
+        .withArgs(usdoAmtCurr, usdoAmtCurr.add(1));
+
+      await usdoExpress.connect(maintainer).setMintLimit(usdoAmtCurr.sub(1));
+      const { intent, signature } = await sign(whitelistedUser, 'mint');
+      await expect(usdoExpress.connect(relayer).instantMintWithIntent(intent, signature)).to.be.revertedWithCustomError(
+        usdoExpress,
+        'MintLimitExceeded',
+      );
+
+      await usdoExpress.connect(operator).pauseMint();
+      await expect(usdoExpress.connect(relayer).instantMintWithIntent(intent, signature)).to.be.revertedWith(
+        'Pausable: Mint paused',
+      );
+      // Reverted intents keep their nonce
+      expect(await usdoExpress._intentNonces(whitelistedUser.address)).to.equal(0);
+    });
+
+    it('should accept the ERC-1271 signatures of contract wallets', async function () {
+      const wallet = await (await ethers.getContractFactory('MockERC1271Wallet')).deploy(whitelistedUser.address);
+      await usdoExpress.connect(maintainer).grantKycInBulk([wallet.address]);
+      await usdc.connect(whitelistedUser).transfer(wallet.address, mintAmount);
+      await wallet
+        .connect(whitelistedUser)
+        .execute(usdc.address, usdc.interface.encodeFunctionData('approve', [usdoExpress.address, mintAmount]));
+
+      const { intent, signature } = await sign(whitelistedUser, 'mint', {
+        from: wallet.address,
+        recipient: wallet.address,
+      });
+      await usdoExpress.connect(relayer).instantMintWithIntent(intent, signature);
+
+      const { usdoAmtCurr } = await usdoExpress.previewMint(usdc.address, mintAmount);
+      expect(await usdo.balanceOf(wallet.address)).to.equal(usdoAmtCurr);
+      expect(await usdoExpress._intentNonces(wallet.address)).to.equal(1);
+    });
+  });
+
+  describe('Redemption queue migration', function () {
+    const redeemAmount = ethers.utils.parseUnits('1000', 18); // 1000 USDO
+
+    interface LegacyRequest {
+      sender: string;
+      receiver: string;
+      usdoAmt: BigNumber;
+    }
+
+    this.beforeEach(async function () {
+      await usdoExpress.connect(maintainer).updateRedeemFee(20); // 0.2%
+      await usdo.mint(whitelistedUser.address, redeemAmount);
+    });
+
+    const storageSlot = async (label: string) => {
+      const layout = await getStorageLayout(hre, 'USDOExpressV2');
+      return (layout.find(entry => entry.label === label) as { slot: number }).slot;
+    };
+
+    // Write requests to the bytes queue used before the id-indexed queue, as abi.encode(from, to, amt, id)
+    const queueLegacyRequests = async (requests: LegacyRequest[]) => {
+      const queueSlot = await storageSlot('_redemptionQueue');
+      const infoSlot = await storageSlot('_redemptionInfo');
+      const ids: string[] = [];
+
+      for (const [position, { sender, receiver, usdoAmt }] of requests.entries()) {
+        const id = keccak256(defaultAbiCoder.encode(['address', 'uint256'], [sender, position]));
+        const data = defaultAbiCoder.encode(
+          ['address', 'address', 'uint256', 'bytes32'],
+          [sender, receiver, usdoAmt, id],
+        );
+
+        // bytes longer than 31 bytes store length * 2 + 1 in their slot and the content from keccak256(slot)
+        const entrySlot = keccak256(defaultAbiCoder.encode(['int128', 'uint256'], [position, queueSlot + 1]));
+        const words = (data.length - 2) / 64;
+        await setStorageAt(usdoExpress.address, entrySlot, words * 32 * 2 + 1);
+        const content = BigNumber.from(keccak256(entrySlot));
+        for (let word = 0; word < words; word++) {
+          await setStorageAt(usdoExpress.address, content.add(word), '0x' + data.slice(2 + word * 64, 66 + word * 64));
+        }
+
+        // The USDO was burnt when the request was queued
+        const queued = await usdoExpress.getRedemptionUserInfo(receiver);
+        const receiverSlot = keccak256(defaultAbiCoder.encode(['address', 'uint256'], [receiver, infoSlot]));
+        await setStorageAt(usdoExpress.address, receiverSlot, queued.add(usdoAmt).toHexString());
+        ids.push(id);
+      }
+      // _begin in the low and _end in the high 128 bits
+      await setStorageAt(usdoExpress.address, queueSlot, BigNumber.from(requests.length).shl(128).toHexString());
+      return ids;
+    };
+
+    const legacyRequests = () =>
+      Array.from({ length: 3 }, () => ({
+        sender: whitelistedUser.address,
+        receiver: whitelistedUser.address,
+        usdoAmt: redeemAmount,
+      }));
+
+    it('should move the legacy requests in order and refuse new ones until all are moved', async function () {
+      const ids = await queueLegacyRequests(legacyRequests());
+      expect(await usdoExpress.getRedemptionQueueLength()).to.equal(0);
+      await expect(usdoExpress.connect(whitelistedUser).redeemRequest(whitelistedUser.address, redeemAmount))
+        .to.be.revertedWithCustomError(usdoExpress, 'USDOExpressQueueMigrationPending')
+        .withArgs(3);
+      await expect(usdoExpress.connect(operator).migrateRedemptionQueue(0)).to.be.revertedWith(
+        `AccessControl: account ${operator.address.toLowerCase()} is missing role ${roles.MAINTAINER_ROLE}`,
+      );
+
+      await expect(usdoExpress.connect(maintainer).migrateRedemptionQueue(2))
+        .to.emit(usdoExpress, 'MigrateRedemptionQueue')
+        .withArgs(2, 1);
+      expect(await usdoExpress.getRedemptionQueueLength()).to.equal(2);
+      const first = await usdoExpress.getRedemptionQueueInfo(0);
+      expect(first.id).to.equal(ids[0]);
+      expect(first.asset).to.equal(usdc.address);
+      await expect(
+        usdoExpress.connect(whitelistedUser).redeemRequest(whitelistedUser.address, redeemAmount),
+      ).to.be.revertedWithCustomError(usdoExpress, 'USDOExpressQueueMigrationPending');
+
+      await expect(usdoExpress.connect(maintainer).migrateRedemptionQueue(0))
+        .to.emit(usdoExpress, 'MigrateRedemptionQueue')
+        .withArgs(1, 0);
+      expect((await usdoExpress.getRedemptionQueueInfo(2)).asset).to.equal(usdc.address);
+      expect(await usdoExpress.getRedemptionIndex(ids[2])).to.equal(2);
+
+      await usdoExpress.connect(whitelistedUser).redeemRequest(whitelistedUser.address, redeemAmount);
+      const { id } = await usdoExpress.getRedemptionQueueInfo(3);
+      expect(await usdoExpress.getUserRedemptions(whitelistedUser.address)).to.deep.equal([...ids, id]);
+      expect(await usdoExpress.getRedemptionUserInfo(whitelistedUser.address)).to.equal(redeemAmount.mul(4));
+    });
+
+    it('should pay out and cancel the migrated requests', async function () {
+      const ids = await queueLegacyRequests(legacyRequests());
+      await usdoExpress.connect(maintainer).migrateRedemptionQueue(0);
+
+      await usdc.transfer(usdoExpress.address, ethers.utils.parseUnits('1000', 6));
+      await expect(usdoExpress.connect(operator).processRedemptionQueue(1))
+        .to.emit(usdoExpress, 'ProcessRedeem')
+        .withArgs(
+          whitelistedUser.address,
+          whitelistedUser.address,
+          redeemAmount,
+          ethers.utils.parseUnits('998', 6),
+          ethers.utils.parseUnits('2', 6),
+          ids[0],
+        );
+
+      await expect(usdoExpress.connect(whitelistedUser).cancelRedemption(ids[2]))
+        .to.emit(usdoExpress, 'ProcessRedemptionCancel')
+        .withArgs(whitelistedUser.address, whitelistedUser.address, redeemAmount, ids[2]);
+      expect(await usdoExpress.getRedemptionUserInfo(whitelistedUser.address)).to.equal(redeemAmount);
+      expect(await usdoExpress.getUserRedemptions(whitelistedUser.address)).to.deep.equal([ids[1]]);
+    });
   });
 
   describe('USDOMintRedeemLimiter', async function () {
@@ -1068,6 +2303,206 @@ describe('USDOExpress', function () {
         usdoExpress.connect(whitelistedUser).instantMint(tbill.address, whitelistedUser.address, tbillAmount500),
       ).to.not.be.reverted;
     });
+
+    describe('Per-account limits', function () {
+      const _1500 = ethers.utils.parseUnits('1500', 18);
+      let other: SignerWithAddress;
+
+      const mint = async (user: SignerWithAddress) => {
+        const amount = ethers.utils.parseUnits('1000', 6);
+        await usdc.transfer(user.address, amount);
+        await usdc.connect(user).approve(usdoExpress.address, amount);
+        return usdoExpress.connect(user).instantMint(usdc.address, user.address, amount);
+      };
+
+      this.beforeEach(async function () {
+        other = (await ethers.getSigners())[8];
+        await usdoExpress.connect(maintainer).grantKycInBulk([other.address]);
+        await usdoExpress.connect(maintainer).updateFirstDeposit(whitelistedUser.address, true);
+        await usdoExpress.connect(maintainer).updateFirstDeposit(other.address, true);
+      });
+
+      it('should cap every account at the default limit and reset its window after the duration', async function () {
+        await expect(usdoExpress.connect(maintainer).setAccountLimitDefaults(_1500, 0))
+          .to.emit(usdoExpress, 'AccountLimitDefaultsUpdated')
+          .withArgs(_1500, 0);
+
+        // The limits count the USDO minted
+        const { usdoAmtCurr } = await usdoExpress.previewMint(usdc.address, ethers.utils.parseUnits('1000', 6));
+        await mint(whitelistedUser);
+        await expect(mint(whitelistedUser))
+          .to.be.revertedWithCustomError(usdoExpress, 'AccountMintLimitExceeded')
+          .withArgs(whitelistedUser.address, usdoAmtCurr, _1500);
+        // Each account has its own window
+        await mint(other);
+
+        let limits = await usdoExpress.getAccountLimits(whitelistedUser.address);
+        expect(limits.mintLimit).to.equal(_1500);
+        expect(limits.mintRemaining).to.equal(_1500.sub(usdoAmtCurr));
+        expect(limits.redeemLimit).to.equal(0);
+        expect(limits.redeemRemaining).to.equal(ethers.constants.MaxUint256);
+
+        await time.increase(86400); // 1 day
+        limits = await usdoExpress.getAccountLimits(whitelistedUser.address);
+        expect(limits.mintRemaining).to.equal(_1500);
+        await expect(mint(whitelistedUser)).to.not.be.reverted;
+      });
+
+      it('should apply the limits of an account instead of the defaults until they are removed', async function () {
+        await usdoExpress.connect(maintainer).setAccountLimitDefaults(_1500, 0);
+        await expect(usdoExpress.connect(maintainer).setAccountLimits(whitelistedUser.address, _10k, _500))
+          .to.emit(usdoExpress, 'AccountLimitsUpdated')
+          .withArgs(whitelistedUser.address, _10k, _500);
+
+        await mint(whitelistedUser);
+        await mint(whitelistedUser);
+        await usdoExpress.connect(whitelistedUser).redeemRequest(whitelistedUser.address, _500);
+        await expect(usdoExpress.connect(whitelistedUser).redeemRequest(whitelistedUser.address, _500))
+          .to.be.revertedWithCustomError(usdoExpress, 'AccountRedeemLimitExceeded')
+          .withArgs(whitelistedUser.address, _500, _500);
+
+        await expect(usdoExpress.connect(maintainer).removeAccountLimits(whitelistedUser.address))
+          .to.emit(usdoExpress, 'AccountLimitsRemoved')
+          .withArgs(whitelistedUser.address);
+
+        // Back on the defaults, the 2K minted in this window are over the default limit
+        const limits = await usdoExpress.getAccountLimits(whitelistedUser.address);
+        expect(limits.mintLimit).to.equal(_1500);
+        expect(limits.mintRemaining).to.equal(0);
+        expect(limits.redeemRemaining).to.equal(ethers.constants.MaxUint256);
+        await expect(usdoExpress.connect(whitelistedUser).redeemRequest(whitelistedUser.address, _500)).to.not.be
+          .reverted;
+      });
+
+      it('should leave an account with limits of 0 to the global limits only', async function () {
+        await usdoExpress.connect(maintainer).setAccountLimitDefaults(_1500, _1500);
+        await usdoExpress.connect(maintainer).setAccountLimits(whitelistedUser.address, 0, 0);
+
+        await mint(whitelistedUser);
+        await mint(whitelistedUser);
+        expect((await usdoExpress.getAccountLimits(whitelistedUser.address)).mintRemaining).to.equal(
+          ethers.constants.MaxUint256,
+        );
+
+        // The global window still counts the account
+        await usdoExpress.connect(maintainer).setMintLimit(ethers.utils.parseUnits('2500', 18));
+        await expect(mint(whitelistedUser)).to.be.revertedWithCustomError(usdoExpress, 'MintLimitExceeded');
+      });
+
+      it('should only allow maintainers to set the per-account limits', async function () {
+        const error = `AccessControl: account ${operator.address.toLowerCase()} is missing role ${
+          roles.MAINTAINER_ROLE
+        }`;
+        await expect(usdoExpress.connect(operator).setAccountLimitDefaults(_1500, _1500)).to.be.revertedWith(error);
+        await expect(usdoExpress.connect(operator).setAccountLimits(other.address, _1500, _1500)).to.be.revertedWith(
+          error,
+        );
+        await expect(usdoExpress.connect(operator).removeAccountLimits(other.address)).to.be.revertedWith(error);
+      });
+    });
+
+    describe('Token bucket mode', function () {
+      const FIXED_WINDOW = 0;
+      const TOKEN_BUCKET = 1;
+      let perMint: BigNumber;
+      let limit: BigNumber;
+
+      const mint = async () => {
+        const amount = ethers.utils.parseUnits('1000', 6);
+        await usdc.transfer(whitelistedUser.address, amount);
+        await usdc.connect(whitelistedUser).approve(usdoExpress.address, amount);
+        return usdoExpress.connect(whitelistedUser).instantMint(usdc.address, whitelistedUser.address, amount);
+      };
+
+      this.beforeEach(async function () {
+        await usdoExpress.connect(maintainer).updateFirstDeposit(whitelistedUser.address, true);
+        ({ usdoAmtCurr: perMint } = await usdoExpress.previewMint(usdc.address, ethers.utils.parseUnits('1000', 6)));
+        // Room for two mints per window
+        limit = perMint.mul(2);
+        await usdoExpress.connect(maintainer).setMintLimit(limit);
+      });
+
+      it('should keep the fixed window by default and report its capacity', async function () {
+        expect(await usdoExpress._mintLimiterMode()).to.equal(FIXED_WINDOW);
+        expect(await usdoExpress._redeemLimiterMode()).to.equal(FIXED_WINDOW);
+
+        let [remaining, refillTime] = await usdoExpress.getMintCapacity();
+        expect(remaining).to.equal(limit);
+        expect(refillTime).to.equal(0);
+
+        await mint();
+        [remaining, refillTime] = await usdoExpress.getMintCapacity();
+        expect(remaining).to.equal(perMint);
+        const windowEnd = (await usdoExpress._mintResetTime()).add(86400);
+        expect(refillTime).to.equal(windowEnd.sub(await time.latest()));
+
+        // The whole limit comes back at once at the end of the window
+        await time.increaseTo(windowEnd.sub(1));
+        expect((await usdoExpress.getMintCapacity()).remaining).to.equal(perMint);
+        await time.increaseTo(windowEnd);
+        [remaining, refillTime] = await usdoExpress.getMintCapacity();
+        expect(remaining).to.equal(limit);
+        expect(refillTime).to.equal(0);
+      });
+
+      it('should refill the token bucket continuously', async function () {
+        await expect(usdoExpress.connect(maintainer).setMintLimiterMode(TOKEN_BUCKET))
+          .to.emit(usdoExpress, 'MintLimiterModeUpdated')
+          .withArgs(TOKEN_BUCKET);
+
+        await mint();
+        await mint();
+        await expect(mint()).to.be.revertedWithCustomError(usdoExpress, 'MintLimitExceeded');
+
+        // A few seconds passed between the transactions, each gives back limit / 86400
+        const perSecond = limit.div(86400);
+        let [remaining, refillTime] = await usdoExpress.getMintCapacity();
+        expect(remaining).to.be.lte(perSecond.mul(10));
+        expect(refillTime).to.be.closeTo(86400, 10);
+
+        // Half the limit is back after half the duration
+        await time.increase(86400 / 2);
+        [remaining, refillTime] = await usdoExpress.getMintCapacity();
+        expect(remaining).to.be.closeTo(perMint, perSecond.mul(10));
+        expect(refillTime).to.be.closeTo(86400 / 2, 10);
+        await expect(mint()).to.not.be.reverted;
+        await expect(mint()).to.be.revertedWithCustomError(usdoExpress, 'MintLimitExceeded');
+      });
+
+      it('should not allow twice the limit around the end of a window', async function () {
+        // Fixed window: fill the limit just before the end of the window, mint it again right after
+        await mint();
+        await time.increase(86400 - 60);
+        await mint();
+        await time.increase(120);
+        await mint();
+        await expect(mint()).to.not.be.reverted;
+
+        await usdoExpress.connect(maintainer).setMintLimiterMode(TOKEN_BUCKET);
+        await time.increase(86400);
+        expect((await usdoExpress.getMintCapacity()).remaining).to.equal(limit);
+
+        // Token bucket: two minutes after filling it, only two minutes worth of the limit is back
+        await mint();
+        await mint();
+        await time.increase(120);
+        await expect(mint()).to.be.revertedWithCustomError(usdoExpress, 'MintLimitExceeded');
+      });
+
+      it('should only allow maintainers to set the limiter modes', async function () {
+        const error = `AccessControl: account ${operator.address.toLowerCase()} is missing role ${
+          roles.MAINTAINER_ROLE
+        }`;
+        await expect(usdoExpress.connect(operator).setMintLimiterMode(TOKEN_BUCKET)).to.be.revertedWith(error);
+        await expect(usdoExpress.connect(operator).setRedeemLimiterMode(TOKEN_BUCKET)).to.be.revertedWith(error);
+
+        await expect(usdoExpress.connect(maintainer).setRedeemLimiterMode(TOKEN_BUCKET))
+          .to.emit(usdoExpress, 'RedeemLimiterModeUpdated')
+          .withArgs(TOKEN_BUCKET);
+        expect(await usdoExpress._redeemLimiterMode()).to.equal(TOKEN_BUCKET);
+        expect(await usdoExpress.getRedeemCapacity()).to.deep.equal([await usdoExpress._redeemLimit(), 0]);
+      });
+    });
   });
 
   describe('Pause and Unpause', function () {
@@ -1232,12 +2667,12 @@ describe('USDOExpress', function () {
       const newToken = ethers.Wallet.createRandom().address;
 
       await expect(
-        assetRegistry.setAssetConfig({
-          asset: newToken,
-          isSupported: true,
-          priceFeed: ethers.constants.AddressZero,
-          maxStalePeriod: 0, // No staleness check for assets without price feeds
-        }),
+        assetRegistry.setAssetConfig(
+          assetConfig({
+            asset: newToken,
+            maxStalePeriod: 0, // No staleness check for assets without price feeds
+          }),
+        ),
       )
         .to.emit(assetRegistry, 'AssetAdded')
         .withArgs(newToken, anyValue);
@@ -1250,33 +2685,33 @@ describe('USDOExpress', function () {
     it('should prevent disabling assets via setAssetConfig', async function () {
       // First add a test asset
       const testToken = ethers.Wallet.createRandom().address;
-      await assetRegistry.setAssetConfig({
-        asset: testToken,
-        isSupported: true,
-        priceFeed: ethers.constants.AddressZero,
-        maxStalePeriod: 0, // No staleness check for assets without price feeds
-      });
+      await assetRegistry.setAssetConfig(
+        assetConfig({
+          asset: testToken,
+          maxStalePeriod: 0, // No staleness check for assets without price feeds
+        }),
+      );
 
       // Attempting to disable via setAssetConfig should revert
       await expect(
-        assetRegistry.setAssetConfig({
-          asset: testToken,
-          isSupported: false,
-          priceFeed: ethers.constants.AddressZero,
-          maxStalePeriod: 0,
-        }),
+        assetRegistry.setAssetConfig(
+          assetConfig({
+            asset: testToken,
+            isSupported: false,
+          }),
+        ),
       ).to.be.revertedWithCustomError(assetRegistry, 'AssetRegistryUnsupportedAssetConfiguration');
     });
 
     it('should allow removing assets via removeAsset function', async function () {
       // First add a test asset
       const testToken = ethers.Wallet.createRandom().address;
-      await assetRegistry.setAssetConfig({
-        asset: testToken,
-        isSupported: true,
-        priceFeed: ethers.constants.AddressZero,
-        maxStalePeriod: 0, // No staleness check for assets without price feeds
-      });
+      await assetRegistry.setAssetConfig(
+        assetConfig({
+          asset: testToken,
+          maxStalePeriod: 0, // No staleness check for assets without price feeds
+        }),
+      );
 
       // Then remove it using dedicated function
       await expect(assetRegistry.removeAsset(testToken)).to.emit(assetRegistry, 'AssetRemoved').withArgs(testToken);
@@ -1290,12 +2725,12 @@ describe('USDOExpress', function () {
 
       // Attempting to create a disabled asset config should revert
       await expect(
-        assetRegistry.setAssetConfig({
-          asset: testToken,
-          isSupported: false,
-          priceFeed: ethers.constants.AddressZero,
-          maxStalePeriod: 0,
-        }),
+        assetRegistry.setAssetConfig(
+          assetConfig({
+            asset: testToken,
+            isSupported: false,
+          }),
+        ),
       ).to.be.revertedWithCustomError(assetRegistry, 'AssetRegistryUnsupportedAssetConfiguration');
     });
 
@@ -1331,4 +2766,286 @@ describe('USDOExpress', function () {
       ).to.be.revertedWithCustomError(usdoExpress, 'USDOExpressZeroAddress');
     });
   });
+
+  describe('Multi-oracle prices', function () {
+    const REVERT = 0;
+    const FALLBACK = 1;
+    const price = (value: string, decimals: number) => ethers.utils.parseUnits(value, decimals);
+    const assetAmount = price('1000', 6);
+
+    let asset: MockUSDC;
+    let primary: MockPriceFeed;
+    let secondary: MockPriceFeed;
+
+    // A 6 decimals asset priced by an 8 decimals primary feed and an 18 decimals secondary feed
+    beforeEach(async function () {
+      asset = (await (await ethers.getContractFactory('MockUSDC')).deploy()) as MockUSDC;
+      const MockPriceFeedFactory = await ethers.getContractFactory('MockPriceFeed');
+      primary = (await MockPriceFeedFactory.deploy(8)) as MockPriceFeed;
+      secondary = (await MockPriceFeedFactory.deploy(18)) as MockPriceFeed;
+      await primary.setAnswer(price('1.01', 8), await time.latest());
+      await secondary.setAnswer(price('1.01', 18), await time.latest());
+    });
+
+    const configure = (oraclePolicy: number, overrides: Partial<AssetConfig> = {}) =>
+      assetRegistry.setAssetConfig(
+        assetConfig({
+          asset: asset.address,
+          priceFeed: primary.address,
+          maxStalePeriod: 3600,
+          secondaryPriceFeed: secondary.address,
+          maxDeviationBps: 100, // 1%
+          oraclePolicy,
+          ...overrides,
+        }),
+      );
+
+    it('should reject a secondary feed without a distinct primary feed', async function () {
+      await expect(configure(REVERT, { priceFeed: AddressZero })).to.be.revertedWithCustomError(
+        assetRegistry,
+        'AssetRegistryInvalidOracleConfiguration',
+      );
+      await expect(configure(REVERT, { secondaryPriceFeed: primary.address })).to.be.revertedWithCustomError(
+        assetRegistry,
+        'AssetRegistryInvalidOracleConfiguration',
+      );
+      await expect(configure(REVERT, { maxDeviationBps: 10001 })).to.be.revertedWithCustomError(
+        assetRegistry,
+        'AssetRegistryInvalidOracleConfiguration',
+      );
+    });
+
+    it('should compare feeds of different decimals and price with the primary feed', async function () {
+      await configure(REVERT);
+
+      // 0.98% above the primary price
+      await secondary.setAnswer(price('1.0199', 18), await time.latest());
+      expect(await assetRegistry.convertFromUnderlying(asset.address, assetAmount)).to.equal(price('1010', 18));
+      expect(await assetRegistry.convertToUnderlying(asset.address, price('1010', 18))).to.equal(assetAmount);
+
+      // 1.01% below the primary price
+      await secondary.setAnswer(price('0.9998', 18), await time.latest());
+      await expect(assetRegistry.convertFromUnderlying(asset.address, assetAmount))
+        .to.be.revertedWithCustomError(assetRegistry, 'AssetRegistryPriceDeviation')
+        .withArgs(price('1.01', 8), price('0.9998', 18), 100);
+    });
+
+    it('should revert on divergence or a failing feed under REVERT', async function () {
+      await configure(REVERT);
+
+      await secondary.setAnswer(price('1.05', 18), await time.latest());
+      await expect(assetRegistry.convertToUnderlying(asset.address, price('1010', 18)))
+        .to.be.revertedWithCustomError(assetRegistry, 'AssetRegistryPriceDeviation')
+        .withArgs(price('1.01', 8), price('1.05', 18), 100);
+
+      // Fresh primary, stale secondary
+      await secondary.setAnswer(price('1.01', 18), (await time.latest()) - 7200);
+      await expect(assetRegistry.convertFromUnderlying(asset.address, assetAmount)).to.be.revertedWithCustomError(
+        assetRegistry,
+        'AssetRegistryStalePriceData',
+      );
+
+      await secondary.setAnswer(price('1.01', 18), await time.latest());
+      await secondary.setReverting(true);
+      await expect(assetRegistry.convertFromUnderlying(asset.address, assetAmount)).to.be.revertedWith(
+        'MockPriceFeed: reverting',
+      );
+    });
+
+    it('should use the price favouring the protocol on divergence under FALLBACK', async function () {
+      await configure(FALLBACK);
+
+      // Mints use the lower price, redemptions the higher one
+      await secondary.setAnswer(price('1.05', 18), await time.latest());
+      expect(await assetRegistry.convertFromUnderlying(asset.address, assetAmount)).to.equal(price('1010', 18));
+      expect(await assetRegistry.convertToUnderlying(asset.address, price('1050', 18))).to.equal(assetAmount);
+
+      // Same with the feeds swapped around
+      await primary.setAnswer(price('1.05', 8), await time.latest());
+      await secondary.setAnswer(price('1.01', 18), await time.latest());
+      expect(await assetRegistry.convertFromUnderlying(asset.address, assetAmount)).to.equal(price('1010', 18));
+      expect(await assetRegistry.convertToUnderlying(asset.address, price('1050', 18))).to.equal(assetAmount);
+    });
+
+    it('should fall back to the fresh feed when the other one fails under FALLBACK', async function () {
+      await configure(FALLBACK);
+      await secondary.setAnswer(price('1.02', 18), await time.latest());
+
+      // Stale primary, fresh secondary
+      await primary.setAnswer(price('1.01', 8), (await time.latest()) - 7200);
+      expect(await assetRegistry.convertFromUnderlying(asset.address, assetAmount)).to.equal(price('1020', 18));
+      expect(await assetRegistry.convertToUnderlying(asset.address, price('1020', 18))).to.equal(assetAmount);
+
+      // Incomplete round on the primary, then a primary that reverts
+      await primary.setAnswer(price('1.01', 8), await time.latest());
+      await primary.setRound(2, 1);
+      expect(await assetRegistry.convertFromUnderlying(asset.address, assetAmount)).to.equal(price('1020', 18));
+      await primary.setReverting(true);
+      expect(await assetRegistry.convertFromUnderlying(asset.address, assetAmount)).to.equal(price('1020', 18));
+
+      // Fresh primary, invalid secondary
+      await primary.setReverting(false);
+      await primary.setRound(2, 2);
+      await secondary.setAnswer(0, await time.latest());
+      expect(await assetRegistry.convertFromUnderlying(asset.address, assetAmount)).to.equal(price('1010', 18));
+
+      // Both fail: the reason of the primary feed
+      await primary.setAnswer(price('1.01', 8), (await time.latest()) - 7200);
+      await expect(assetRegistry.convertFromUnderlying(asset.address, assetAmount)).to.be.revertedWithCustomError(
+        assetRegistry,
+        'AssetRegistryStalePriceData',
+      );
+    });
+  });
+
+  describe('Price bounds and depeg guard', function () {
+    const price = (value: string, decimals: number) => ethers.utils.parseUnits(value, decimals);
+    const usdtAmt = (amount: string) => ethers.utils.parseUnits(amount, 6);
+    const usdoAmt = (amount: string) => ethers.utils.parseUnits(amount, 18);
+
+    let usdt: MockUSDT;
+    let usdtFeed: MockPriceFeed;
+
+    // USDT is taken at 1 USD, its market price only decides whether it can be minted with
+    beforeEach(async function () {
+      usdt = await (await ethers.getContractFactory('MockUSDT')).deploy();
+      usdtFeed = (await (await ethers.getContractFactory('MockPriceFeed')).deploy(8)) as MockPriceFeed;
+      await usdtFeed.setAnswer(price('1.0001', 8), await time.latest());
+      await assetRegistry.setAssetConfig(
+        assetConfig({
+          asset: usdt.address,
+          maxStalePeriod: 3600,
+          depegGuardFeed: usdtFeed.address,
+          depegThreshold: price('0.98', 18),
+        }),
+      );
+
+      await usdt.transfer(whitelistedUser.address, usdtAmt('10000'));
+      await usdt.connect(whitelistedUser).approve(usdoExpress.address, usdtAmt('10000'));
+    });
+
+    const setUsdtPrice = async (value: string) => usdtFeed.setAnswer(price(value, 8), await time.latest());
+    const mintWithUsdt = (amount: string) =>
+      usdoExpress.connect(whitelistedUser).instantMint(usdt.address, whitelistedUser.address, usdtAmt(amount));
+
+    it('should expose the guards in getAssetConfig and reject misplaced ones', async function () {
+      const config = await assetRegistry.getAssetConfig(usdt.address);
+      expect(config.depegGuardFeed).to.equal(usdtFeed.address);
+      expect(config.depegThreshold).to.equal(price('0.98', 18));
+      expect([config.minPrice, config.maxPrice]).to.deep.equal([BigNumber.from(0), BigNumber.from(0)]);
+
+      const guarded = { asset: usdt.address, maxStalePeriod: 3600, depegGuardFeed: usdtFeed.address };
+      // A guard is for assets without a price feed, and needs a threshold and a stale period
+      await expect(
+        assetRegistry.setAssetConfig(
+          assetConfig({ ...guarded, priceFeed: tbill.address, depegThreshold: price('0.98', 18) }),
+        ),
+      ).to.be.revertedWithCustomError(assetRegistry, 'AssetRegistryInvalidDepegGuard');
+      await expect(assetRegistry.setAssetConfig(assetConfig(guarded))).to.be.revertedWithCustomError(
+        assetRegistry,
+        'AssetRegistryInvalidDepegGuard',
+      );
+      await expect(
+        assetRegistry.setAssetConfig(assetConfig({ ...guarded, maxStalePeriod: 0, depegThreshold: 1 })),
+      ).to.be.revertedWithCustomError(assetRegistry, 'AssetRegistryInvalidStalePeriod');
+
+      // Bounds are for assets with a price feed, and the lower one may not exceed the upper one
+      await expect(assetRegistry.setAssetConfig(assetConfig({ asset: usdt.address, minPrice: 1 })))
+        .to.be.revertedWithCustomError(assetRegistry, 'AssetRegistryInvalidPriceBounds')
+        .withArgs(1, 0);
+      await expect(
+        assetRegistry.setAssetConfig(
+          assetConfig({
+            asset: tbill.address,
+            priceFeed: tbill.address,
+            maxStalePeriod: 3600,
+            minPrice: price('1.05', 18),
+            maxPrice: price('1', 18),
+          }),
+        ),
+      )
+        .to.be.revertedWithCustomError(assetRegistry, 'AssetRegistryInvalidPriceBounds')
+        .withArgs(price('1.05', 18), price('1', 18));
+    });
+
+    it('should reject TBILL prices outside its bounds in both directions', async function () {
+      await assetRegistry.setAssetConfig(
+        assetConfig({
+          asset: tbill.address,
+          priceFeed: tbill.address,
+          maxStalePeriod: 3600,
+          minPrice: price('1', 18),
+          maxPrice: price('1.05', 18),
+        }),
+      );
+      const tbillAmt = ethers.utils.parseUnits('1000', 6);
+      expect(await assetRegistry.convertFromUnderlying(tbill.address, tbillAmt)).to.equal(usdoAmt('1010'));
+
+      // A broken feed reporting 1.50 instead of 1.01
+      await tbill.setTbillUsdcRate(1.5e6);
+      await expect(assetRegistry.convertFromUnderlying(tbill.address, tbillAmt))
+        .to.be.revertedWithCustomError(assetRegistry, 'AssetRegistryPriceOutOfBounds')
+        .withArgs(price('1.5', 18), price('1', 18), price('1.05', 18));
+      await tbill.setTbillUsdcRate(0.5e6);
+      await expect(assetRegistry.convertToUnderlying(tbill.address, usdoAmt('1000')))
+        .to.be.revertedWithCustomError(assetRegistry, 'AssetRegistryPriceOutOfBounds')
+        .withArgs(price('0.5', 18), price('1', 18), price('1.05', 18));
+    });
+
+    it('should stop USDT mints during a depeg and resume them after the recovery', async function () {
+      await expect(mintWithUsdt('1000')).to.emit(usdoExpress, 'InstantMint');
+
+      await setUsdtPrice('0.95');
+      await expect(mintWithUsdt('1000'))
+        .to.be.revertedWithCustomError(assetRegistry, 'AssetRegistryDepegged')
+        .withArgs(usdt.address, price('0.95', 18), price('0.98', 18));
+      await expect(usdoExpress.previewMint(usdt.address, usdtAmt('1000'))).to.be.revertedWithCustomError(
+        assetRegistry,
+        'AssetRegistryDepegged',
+      );
+
+      // Other assets are not affected
+      await usdc.transfer(whitelistedUser.address, ethers.utils.parseUnits('1000', 6));
+      await usdc.connect(whitelistedUser).approve(usdoExpress.address, ethers.utils.parseUnits('1000', 6));
+      await expect(
+        usdoExpress
+          .connect(whitelistedUser)
+          .instantMint(usdc.address, whitelistedUser.address, ethers.utils.parseUnits('1000', 6)),
+      ).to.emit(usdoExpress, 'InstantMint');
+
+      await setUsdtPrice('0.99');
+      await expect(mintWithUsdt('1000')).to.emit(usdoExpress, 'InstantMint');
+
+      // Without a fresh market price there are no USDT mints either
+      await usdtFeed.setAnswer(price('1', 8), (await time.latest()) - 7200);
+      await expect(mintWithUsdt('1000')).to.be.revertedWithCustomError(assetRegistry, 'AssetRegistryStalePriceData');
+    });
+
+    it('should keep redemptions into USDT working during a depeg', async function () {
+      await usdo.mint(whitelistedUser.address, usdoAmt('3000'));
+      await setUsdtPrice('0.90');
+
+      // Instant redemptions pay USDT 1:1
+      await usdt.transfer(usdoExpress.address, usdtAmt('1000'));
+      await expect(
+        usdoExpress
+          .connect(whitelistedUser)
+          .instantRedeemAsset(usdt.address, whitelistedUser.address, usdoAmt('1000'), 0),
+      ).to.emit(usdoExpress, 'InstantRedeemAsset');
+      expect(await usdt.balanceOf(usdoExpress.address)).to.equal(0);
+
+      // Queued redemptions are paid too, in part when the USDT runs short
+      await usdoExpress.connect(maintainer).setPartialFill(true);
+      await usdoExpress
+        .connect(whitelistedUser)
+        .redeemRequestAsset(usdt.address, whitelistedUser.address, usdoAmt('1000'));
+      await usdt.transfer(usdoExpress.address, usdtAmt('400'));
+      await expect(usdoExpress.connect(operator).processRedemptionQueue(1)).to.emit(
+        usdoExpress,
+        'PartialProcessRedeem',
+      );
+      expect((await usdoExpress.getRedemptionQueueInfo(0)).usdoAmt).to.equal(usdoAmt('600'));
+      expect(await usdt.balanceOf(usdoExpress.address)).to.equal(0);
+    });
+  });
 });
@@ -0,0 +1,128 @@
+import { expect } from 'chai';
+import { ethers, upgrades } from 'hardhat';
+import { BigNumber } from 'ethers';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { AssetRegistry, MockERC20Decimals, MockPriceFeed } from '../typechain-types';
+import { assetConfig } from '../utils/assetConfig';
+
+const ASSET_DECIMALS = [0, 2, 6, 8, 18, 24];
+const FEED_DECIMALS = [6, 8, 18];
+const SAMPLES = 20;
+
+// mulberry32, seeded so a failing case can be replayed
+const random = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// A positive integer of 1 to `maxDigits` digits
+const randomAmount = (next: () => number, maxDigits: number): BigNumber => {
+  const digits = 1 + Math.floor(next() * maxDigits);
+  let value = String(1 + Math.floor(next() * 9));
+  while (value.length < digits) value += String(Math.floor(next() * 10));
+  return BigNumber.from(value);
+};
+
+const ceilDiv = (a: BigNumber, b: BigNumber) => a.add(b).sub(1).div(b);
+
+describe('AssetRegistry decimals', function () {
+  let owner: SignerWithAddress;
+
+  const deployFixture = async () => {
+    [owner] = await ethers.getSigners();
+    const assetRegistry = (await upgrades.deployProxy(await ethers.getContractFactory('AssetRegistry'), [
+      owner.address,
+    ])) as AssetRegistry;
+    return { assetRegistry };
+  };
+
+  const deployToken = async (decimals: number) =>
+    (await (await ethers.getContractFactory('MockERC20Decimals')).deploy(decimals)) as MockERC20Decimals;
+
+  const deployFeed = async (decimals: number, answer: BigNumber) => {
+    const feed = (await (await ethers.getContractFactory('MockPriceFeed')).deploy(decimals)) as MockPriceFeed;
+    await feed.setAnswer(answer, await time.latest());
+    return feed;
+  };
+
+  it('caches the decimals of an asset when it is configured', async function () {
+    const { assetRegistry } = await loadFixture(deployFixture);
+    const token = await deployToken(6);
+    await assetRegistry.setAssetConfig(assetConfig({ asset: token.address }));
+
+    await token.setDecimals(8);
+    expect(await assetRegistry.getAssetDecimals(token.address)).to.equal(6);
+    expect(await assetRegistry.convertFromUnderlying(token.address, 1e6)).to.equal(ethers.utils.parseUnits('1', 18));
+
+    await assetRegistry.setAssetConfig(assetConfig({ asset: token.address }));
+    expect(await assetRegistry.getAssetDecimals(token.address)).to.equal(8);
+    expect(await assetRegistry.convertFromUnderlying(token.address, 1e6)).to.equal(ethers.utils.parseUnits('0.01', 18));
+  });
+
+  it('scales assets with more than 18 decimals down and rounds against the caller', async function () {
+    const { assetRegistry } = await loadFixture(deployFixture);
+    const token = await deployToken(24);
+    await assetRegistry.setAssetConfig(assetConfig({ asset: token.address }));
+
+    expect(await assetRegistry.convertFromUnderlying(token.address, ethers.utils.parseUnits('1', 24))).to.equal(
+      ethers.utils.parseUnits('1', 18),
+    );
+    // Less than one USDO wei mints nothing
+    expect(await assetRegistry.convertFromUnderlying(token.address, 999_999)).to.equal(0);
+    expect(await assetRegistry.convertFromUnderlying(token.address, 1_999_999)).to.equal(1);
+    expect(await assetRegistry.convertToUnderlying(token.address, 1)).to.equal(1_000_000);
+  });
+
+  /**
+   * For every combination of asset and feed decimals, random amounts are converted both ways. A conversion must equal
+   * the exact result rounded down, and a round trip may lose at most one unit of the coarser token, never gain.
+   */
+  for (const assetDecimals of ASSET_DECIMALS) {
+    for (const feedDecimals of [undefined, ...FEED_DECIMALS]) {
+      const name = feedDecimals === undefined ? 'no feed' : `a feed of ${feedDecimals} decimals`;
+
+      it(`round-trips ${assetDecimals} decimals assets with ${name}`, async function () {
+        const { assetRegistry } = await loadFixture(deployFixture);
+        const next = random(assetDecimals * 100 + (feedDecimals ?? 0));
+        const token = await deployToken(assetDecimals);
+
+        // USDO per asset base unit as numerator / denominator, the price between 0.5 and 2
+        let numerator = BigNumber.from(1);
+        let denominator = BigNumber.from(1);
+        if (feedDecimals === undefined) {
+          await assetRegistry.setAssetConfig(assetConfig({ asset: token.address }));
+        } else {
+          const rate = ethers.utils.parseUnits((0.5 + next() * 1.5).toFixed(6), feedDecimals);
+          const feed = await deployFeed(feedDecimals, rate);
+          await assetRegistry.setAssetConfig(
+            assetConfig({ asset: token.address, priceFeed: feed.address, maxStalePeriod: 3600 }),
+          );
+          numerator = rate;
+          denominator = BigNumber.from(10).pow(feedDecimals);
+        }
+        if (assetDecimals <= 18) numerator = numerator.mul(BigNumber.from(10).pow(18 - assetDecimals));
+        else denominator = denominator.mul(BigNumber.from(10).pow(assetDecimals - 18));
+
+        for (let i = 0; i < SAMPLES; i++) {
+          // Up to a trillion tokens, from a single base unit up
+          const assetAmount = randomAmount(next, assetDecimals + 12);
+          const usdoAmount = await assetRegistry.convertFromUnderlying(token.address, assetAmount);
+          expect(usdoAmount).to.equal(assetAmount.mul(numerator).div(denominator));
+          const assetBack = await assetRegistry.convertToUnderlying(token.address, usdoAmount);
+          expect(assetBack).to.be.lte(assetAmount);
+          expect(assetAmount.sub(assetBack)).to.be.lte(ceilDiv(denominator, numerator));
+
+          const usdoIn = randomAmount(next, 30);
+          const assetOut = await assetRegistry.convertToUnderlying(token.address, usdoIn);
+          expect(assetOut).to.equal(usdoIn.mul(denominator).div(numerator));
+          const usdoBack = await assetRegistry.convertFromUnderlying(token.address, assetOut);
+          expect(usdoBack).to.be.lte(usdoIn);
+          expect(usdoIn.sub(usdoBack)).to.be.lte(ceilDiv(numerator, denominator));
+        }
+      });
+    }
+  }
+});
@@ -0,0 +1,154 @@
+import { expect } from 'chai';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ethers } from 'hardhat';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { parseUnits } from 'ethers/lib/utils';
+import { USDOExpressV2 } from '../typechain-types';
+import {
+  KycExpiredError,
+  KycTierNotSetError,
+  USDOExpressClient,
+  intentDomain,
+  kycAttestationFromJson,
+  recoverKycAttestationSigner,
+} from '../sdk';
+import { AttestationRefusedError, createAttestorServer, issueKycAttestation } from '../attestor';
+import { deployExpress } from './fixtures';
+
+const TOKEN = 'compliance-backend-token';
+
+const usdo = (amount: string) => parseUnits(amount, 18);
+const usdc = (amount: string) => parseUnits(amount, 6);
+
+describe('attestor', function () {
+  let alice: SignerWithAddress;
+  let compliance: SignerWithAddress;
+
+  const deployFixture = async () => {
+    [, alice, compliance] = await ethers.getSigners();
+
+    const { express, usdoToken, usdcToken } = await deployExpress({
+      limits: {
+        mintMinimum: usdo('10'),
+        mintLimit: usdo('1000'),
+        redeemMinimum: usdo('10'),
+        redeemLimit: usdo('500'),
+        firstDepositAmount: usdo('100'),
+      },
+    });
+
+    await express.setKycSigner(compliance.address, true);
+    await express.setKycTier(1, usdo('10'), usdo('50'), 0, 0);
+    await usdcToken.transfer(alice.address, usdc('5000'));
+
+    // The attestor signs with the compliance key, alice has no KYC yet
+    const attestorExpress = express.connect(compliance);
+    return { express, attestorExpress, usdoToken, usdcToken };
+  };
+
+  describe('issueKycAttestation', function () {
+    it('signs the next nonce of the account for a registered signer', async function () {
+      const { express, attestorExpress } = await loadFixture(deployFixture);
+      const expiry = (await time.latest()) + 86400;
+
+      const signed = await issueKycAttestation(attestorExpress, {
+        account: alice.address.toLowerCase(),
+        tier: 1,
+        expiry,
+      });
+
+      const { account, tier, nonce } = signed.attestation;
+      expect([account, tier, signed.attestation.expiry, nonce.toNumber()]).to.deep.equal([alice.address, 1, expiry, 0]);
+      expect(recoverKycAttestationSigner(await intentDomain(express), signed)).to.equal(compliance.address);
+
+      await express.grantKycInBulk([alice.address]);
+      expect((await issueKycAttestation(attestorExpress, { account: alice.address })).attestation.nonce).to.equal(1);
+    });
+
+    it('refuses unregistered signers, unset tiers and past expiries', async function () {
+      const { express, attestorExpress } = await loadFixture(deployFixture);
+
+      await expect(issueKycAttestation(express, { account: alice.address })).to.be.rejectedWith(
+        AttestationRefusedError,
+      );
+      await expect(issueKycAttestation(attestorExpress, { account: alice.address, tier: 2 })).to.be.rejectedWith(
+        KycTierNotSetError,
+      );
+      await expect(
+        issueKycAttestation(attestorExpress, { account: alice.address, expiry: await time.latest() }),
+      ).to.be.rejectedWith(KycExpiredError);
+      await expect(issueKycAttestation(attestorExpress, { account: '0x1234' })).to.be.rejectedWith(TypeError);
+      await expect(issueKycAttestation(attestorExpress, { account: alice.address, tier: -1 })).to.be.rejectedWith(
+        TypeError,
+      );
+    });
+  });
+
+  describe('server', function () {
+    let server: http.Server | undefined;
+
+    afterEach(async function () {
+      if (!server) return;
+      // fetch keeps its connections alive, close would wait for them
+      server.closeAllConnections();
+      await new Promise(resolve => server?.close(resolve));
+      server = undefined;
+    });
+
+    const listen = async (express: USDOExpressV2): Promise<string> => {
+      server = createAttestorServer(express, { token: TOKEN });
+      await new Promise<void>(resolve => server?.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+      return `http://127.0.0.1:${port}`;
+    };
+
+    const post = (url: string, body: string, token = TOKEN) =>
+      fetch(`${url}/attestations`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body,
+      });
+
+    const quietly = async <T>(action: () => Promise<T>): Promise<T> => {
+      const { log } = console;
+      console.log = () => undefined;
+      try {
+        return await action();
+      } finally {
+        console.log = log;
+      }
+    };
+
+    it('answers with an attestation the customer mints with', async function () {
+      const { express, attestorExpress, usdoToken, usdcToken } = await loadFixture(deployFixture);
+      const url = await listen(attestorExpress);
+
+      const res = await quietly(() => post(url, JSON.stringify({ account: alice.address, tier: 1 })));
+      expect(res.status).to.equal(200);
+      const attestation = kycAttestationFromJson(await res.json());
+
+      const client = USDOExpressClient.connect(express.address, alice);
+      await client.mint(usdcToken.address, '50', { attestation });
+      expect(await usdoToken.balanceOf(alice.address)).to.equal(usdo('50'));
+      expect((await express.getKycRecord(alice.address)).record.tier).to.equal(1);
+    });
+
+    it('rejects unauthenticated and malformed requests', async function () {
+      const { express, attestorExpress } = await loadFixture(deployFixture);
+      const url = await listen(attestorExpress);
+      const body = JSON.stringify({ account: alice.address });
+
+      expect((await post(url, body, 'wrong')).status).to.equal(401);
+      expect((await post(url, '{')).status).to.equal(400);
+      expect((await post(url, JSON.stringify({ account: alice.address, tier: 2 }))).status).to.equal(422);
+      expect((await fetch(`${url}/attestations`)).status).to.equal(404);
+
+      // The signer was deregistered
+      await express.setKycSigner(compliance.address, false);
+      expect((await post(url, body)).status).to.equal(503);
+      expect(() => createAttestorServer(attestorExpress, { token: '' })).to.throw(TypeError);
+    });
+  });
+});
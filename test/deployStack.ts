@@ -0,0 +1,173 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { expect } from 'chai';
+import { ethers, run } from 'hardhat';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { keccak256, toUtf8Bytes } from 'ethers/lib/utils';
+import { DeploymentManifest } from '../utils/manifest';
+import { NetworkConfigError } from '../utils/config';
+
+const roles = {
+  MINTER: keccak256(toUtf8Bytes('MINTER_ROLE')),
+  BURNER: keccak256(toUtf8Bytes('BURNER_ROLE')),
+  MULTIPLIER_ROLE: keccak256(toUtf8Bytes('MULTIPLIER_ROLE')),
+};
+
+describe('deploy:stack', function () {
+  let deployer: SignerWithAddress;
+  let maintainer: SignerWithAddress;
+  let treasury: SignerWithAddress;
+  let tmpDir: string;
+  let configFile: string;
+  let manifestFile: string;
+
+  const writeConfig = async (maintainerAddress: string) => {
+    const usdc = await (await ethers.getContractFactory('MockUSDC')).deploy();
+    const usyc = await (await ethers.getContractFactory('MockUSYC')).deploy();
+    const oracle = await (await ethers.getContractFactory('MockTBILL')).deploy(usdc.address);
+    const helper = await (
+      await ethers.getContractFactory('MockUsycHelper')
+    ).deploy(usyc.address, usdc.address, oracle.address);
+
+    const cfg = {
+      CHAIN_ID: (await ethers.provider.getNetwork()).chainId,
+      ADDRESS: {
+        USDC_ADDRESS: usdc.address,
+        TREASURY: treasury.address,
+        FEE_TO: treasury.address,
+        ADMIN_ADDRESS: deployer.address,
+        MAINTAINER_ADDRESS: maintainerAddress,
+        OPERATOR_ADDRESS: deployer.address,
+        USYC_ADDRESS: usyc.address,
+        USYC_HELPER: helper.address,
+        USYC_TREASURY: treasury.address,
+      },
+      LIMITS: {
+        TOTAL_SUPPLY_CAP: '100_000_000',
+        FIRST_DEPOSIT_AMOUNT: '100_000',
+        MINT_MINIMUM: '1',
+        MINT_LIMIT: '150_000_000',
+        MINT_DURATION: '864_000',
+        REDEEM_MINIMUM: '1',
+        REDEEM_LIMIT: '150_000_000',
+        REDEEM_DURATION: '864_000',
+        MIN_FEE: '0',
+        REDEEM_FEE: '10',
+        TOTAL_LIQUIDITY: '1_000_000',
+      },
+    };
+    fs.writeFileSync(configFile, JSON.stringify(cfg));
+  };
+
+  const deployStack = (): Promise<DeploymentManifest> =>
+    run('deploy:stack', { networkConfig: configFile, manifest: manifestFile });
+
+  beforeEach(async function () {
+    [deployer, maintainer, treasury] = await ethers.getSigners();
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'deploy-stack-'));
+    configFile = path.join(tmpDir, 'config.json');
+    manifestFile = path.join(tmpDir, 'manifest.json');
+  });
+
+  afterEach(function () {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('deploys and wires the full stack', async function () {
+    await writeConfig(deployer.address);
+    const manifest = await deployStack();
+
+    expect(Object.keys(manifest.contracts)).to.deep.equal([
+      'USDO',
+      'cUSDO',
+      'AssetRegistry',
+      'USDOExpressV2',
+      'UsycRedemption',
+      'LiquidityController',
+    ]);
+    expect(manifest.pending).to.be.empty;
+
+    const { USDO, USDOExpressV2, UsycRedemption, LiquidityController } = manifest.contracts;
+    expect(USDO.implementation).to.be.properAddress;
+    expect(USDO.txHash).to.match(/^0x[0-9a-f]{64}$/);
+    expect(USDO.blockNumber).to.be.greaterThan(0);
+
+    const usdo = await ethers.getContractAt('USDO', USDO.address);
+    expect(await usdo.hasRole(roles.MINTER, USDOExpressV2.address)).to.be.true;
+    expect(await usdo.hasRole(roles.BURNER, USDOExpressV2.address)).to.be.true;
+    expect(await usdo.hasRole(roles.MULTIPLIER_ROLE, USDOExpressV2.address)).to.be.true;
+    expect(await usdo.totalSupplyCap()).to.equal(ethers.utils.parseUnits('100000000', 18));
+
+    const usdoExpress = await ethers.getContractAt('USDOExpressV2', USDOExpressV2.address);
+    expect(await usdoExpress._redemptionContract()).to.equal(UsycRedemption.address);
+
+    const redemption = await ethers.getContractAt('UsycRedemption', UsycRedemption.address);
+    expect(await redemption.liquidityController()).to.equal(LiquidityController.address);
+    expect(await redemption.caller()).to.equal(USDOExpressV2.address);
+
+    const liquidityController = await ethers.getContractAt('LiquidityController', LiquidityController.address);
+    expect(await liquidityController.caller()).to.equal(UsycRedemption.address);
+
+    const written = JSON.parse(fs.readFileSync(manifestFile, 'utf8')) as DeploymentManifest;
+    expect(written.contracts).to.deep.equal(manifest.contracts);
+  });
+
+  it('resumes from the manifest without redeploying', async function () {
+    await writeConfig(deployer.address);
+    const first = await deployStack();
+    const blockNumber = await ethers.provider.getBlockNumber();
+
+    const second = await deployStack();
+    expect(second.contracts).to.deep.equal(first.contracts);
+    expect(await ethers.provider.getBlockNumber()).to.equal(blockNumber);
+  });
+
+  it('redeploys a contract missing from the manifest only', async function () {
+    await writeConfig(deployer.address);
+    const first = await deployStack();
+
+    const manifest = JSON.parse(fs.readFileSync(manifestFile, 'utf8')) as DeploymentManifest;
+    delete manifest.contracts.LiquidityController;
+    fs.writeFileSync(manifestFile, JSON.stringify(manifest));
+
+    const second = await deployStack();
+    expect(second.contracts.USDOExpressV2).to.deep.equal(first.contracts.USDOExpressV2);
+    expect(second.contracts.LiquidityController.address).to.not.equal(first.contracts.LiquidityController.address);
+
+    const redemption = await ethers.getContractAt('UsycRedemption', second.contracts.UsycRedemption.address);
+    expect(await redemption.liquidityController()).to.equal(second.contracts.LiquidityController.address);
+  });
+
+  it('records wiring the deployer is not allowed to perform as pending', async function () {
+    await writeConfig(maintainer.address);
+    const manifest = await deployStack();
+
+    expect(manifest.pending).to.have.length(1);
+    const [action] = manifest.pending;
+    expect(action.step).to.equal('USDOExpressV2 setRedemption');
+    expect(action.to).to.equal(manifest.contracts.USDOExpressV2.address);
+
+    await maintainer.sendTransaction({ to: action.to, data: action.data });
+    const usdoExpress = await ethers.getContractAt('USDOExpressV2', action.to);
+    expect(await usdoExpress._redemptionContract()).to.equal(manifest.contracts.UsycRedemption.address);
+  });
+
+  it('refuses to resume a manifest from another chain', async function () {
+    await writeConfig(deployer.address);
+    fs.writeFileSync(
+      manifestFile,
+      JSON.stringify({ version: 1, network: 'other', chainId: 1, contracts: {}, pending: [] }),
+    );
+
+    await expect(deployStack()).to.be.rejectedWith('manifest is for chainId 1');
+  });
+
+  it('refuses a network config for another chain', async function () {
+    await writeConfig(deployer.address);
+    const cfg = JSON.parse(fs.readFileSync(configFile, 'utf8'));
+    fs.writeFileSync(configFile, JSON.stringify({ ...cfg, CHAIN_ID: 1 }));
+
+    await expect(deployStack()).to.be.rejectedWith(NetworkConfigError, 'CHAIN_ID 1 does not match network');
+  });
+});
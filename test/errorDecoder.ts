@@ -0,0 +1,124 @@
+import { expect } from 'chai';
+import { ethers, run, upgrades } from 'hardhat';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { keccak256, parseUnits, toUtf8Bytes } from 'ethers/lib/utils';
+import { USDO } from '../typechain-types';
+import {
+  DecodedError,
+  RevertError,
+  decodeError,
+  decodeRevertData,
+  explainError,
+  loadErrorRegistry,
+} from '../utils/errorDecoder';
+
+const MINTER_ROLE = keccak256(toUtf8Bytes('MINTER_ROLE'));
+
+const encodeError = (name: string, params: string[], args: unknown[]): string => {
+  const inputs = params.map(param => ethers.utils.ParamType.from(param));
+  const selector = ethers.utils.id(`${name}(${inputs.map(input => input.type).join(',')})`).slice(0, 10);
+  return ethers.utils.hexConcat([selector, ethers.utils.defaultAbiCoder.encode(inputs, args)]);
+};
+
+describe('errorDecoder', function () {
+  const deployFixture = async () => {
+    const [owner, alice] = await ethers.getSigners();
+    const usdo = (await upgrades.deployProxy(await ethers.getContractFactory('USDO'), [
+      'USDO Token',
+      'USDO',
+      owner.address,
+    ])) as USDO;
+    await usdo.updateTotalSupplyCap(parseUnits('1000', 18));
+    await usdo.grantRole(MINTER_ROLE, owner.address);
+    return { usdo, owner, alice };
+  };
+
+  it('registers file-level errors no contract ABI lists', async function () {
+    const registry = loadErrorRegistry();
+    const selector = ethers.utils.id('InsufficientUSDCReceived(uint256,uint256)').slice(0, 10);
+
+    expect(registry.get(selector)?.name).to.equal('InsufficientUSDCReceived');
+  });
+
+  it('decodes a revert raised by a contract with amounts in human units', async function () {
+    const { usdo, alice } = await loadFixture(deployFixture);
+
+    const error = await usdo.mint(alice.address, parseUnits('1500', 18)).catch(e => e);
+    const decoded = decodeError(error) as DecodedError;
+
+    expect(decoded.name).to.equal('USDOExceedsTotalSupplyCap');
+    expect(decoded.message).to.equal(
+      'USDOExceedsTotalSupplyCap(newTotalSupply: 1500.0 USDO, totalSupplyCap: 1000.0 USDO)',
+    );
+  });
+
+  it('formats USDC amounts, addresses and timestamps', async function () {
+    const [, alice] = await ethers.getSigners();
+
+    const quota = decodeRevertData(
+      encodeError(
+        'InsufficientUserQuota',
+        ['address user', 'uint256 available', 'uint256 requested'],
+        [alice.address, parseUnits('100', 6), parseUnits('250.5', 6)],
+      ),
+    );
+    expect(quota?.message).to.equal(
+      `InsufficientUserQuota(user: ${alice.address}, available: 100.0 USDC, requested: 250.5 USDC)`,
+    );
+
+    const stale = decodeRevertData(
+      encodeError('StalePrice', ['uint256 updatedAt', 'uint256 maxAge'], [1_700_000_000, 3600]),
+    );
+    expect(stale?.message).to.equal('StalePrice(updatedAt: 2023-11-14T22:13:20.000Z, maxAge: 3600s)');
+  });
+
+  it('formats limits in USDO and leaves amounts of the paid out asset raw', async function () {
+    const [, alice] = await ethers.getSigners();
+
+    const limit = decodeRevertData(
+      encodeError(
+        'AccountMintLimitExceeded',
+        ['address account', 'uint256 amount', 'uint256 limit'],
+        [alice.address, parseUnits('20', 18), parseUnits('15', 18)],
+      ),
+    );
+    expect(limit?.message).to.equal(
+      `AccountMintLimitExceeded(account: ${alice.address}, amount: 20.0 USDO, limit: 15.0 USDO)`,
+    );
+
+    const output = decodeRevertData(
+      encodeError('InsufficientOutput', ['uint256 received', 'uint256 minimum'], [999_000, 1_000_000]),
+    );
+    expect(output?.message).to.equal('InsufficientOutput(received: 999000, minimum: 1000000)');
+  });
+
+  it("decodes Solidity's Error(string) and Panic(uint256)", async function () {
+    const reason = decodeRevertData(encodeError('Error', ['string'], ['Ownable: caller is not the owner']));
+    expect(reason?.message).to.equal("Error('Ownable: caller is not the owner')");
+
+    const panic = decodeRevertData(encodeError('Panic', ['uint256'], [0x11]));
+    expect(panic?.message).to.equal('Panic(0x11: arithmetic overflow or underflow)');
+  });
+
+  it('wraps decodable errors and passes anything else through', async function () {
+    const { usdo, alice } = await loadFixture(deployFixture);
+    const error = await usdo.mint(alice.address, parseUnits('1500', 18)).catch(e => e);
+
+    const explained = explainError(error);
+    expect(explained).to.be.instanceOf(RevertError);
+    expect((explained as RevertError).cause).to.equal(error);
+
+    const unknown = new Error('0xdeadbeef');
+    expect(explainError(unknown)).to.equal(unknown);
+    expect(decodeRevertData('0xdeadbeef')).to.be.undefined;
+  });
+
+  it('runs as a hardhat task', async function () {
+    const data = encodeError('ExcessiveSellFee', ['uint256 feeRate'], [parseUnits('2.5', 18)]);
+
+    const decoded: DecodedError = await run('decode-error', { data });
+
+    expect(decoded.signature).to.equal('ExcessiveSellFee(uint256)');
+    expect(decoded.args[0].formatted).to.equal('2.5 %');
+  });
+});
@@ -0,0 +1,77 @@
+import { ethers, upgrades } from 'hardhat';
+import { keccak256, parseUnits, toUtf8Bytes } from 'ethers/lib/utils';
+import { AssetRegistry, MockCUSDO, MockUSDC, USDO, USDOExpressV2 } from '../typechain-types';
+import type { USDOMintRedeemLimiterCfgStruct } from '../typechain-types/contracts/extensions/USDOExpressV2';
+import { deployExpressExtension } from '../utils/extension';
+import { assetConfig } from '../utils/assetConfig';
+
+const MINTER_ROLE = keccak256(toUtf8Bytes('MINTER_ROLE'));
+const BURNER_ROLE = keccak256(toUtf8Bytes('BURNER_ROLE'));
+
+const usdo = (amount: string) => parseUnits(amount, 18);
+
+export interface ExpressDeployment {
+  express: USDOExpressV2;
+  usdoToken: USDO;
+  usdcToken: MockUSDC;
+  cusdo: MockCUSDO;
+  assetRegistry: AssetRegistry;
+}
+
+/**
+ * Deploys USDO, MockUSDC, MockCUSDO, an AssetRegistry supporting USDC and a USDOExpressV2 proxy with its extension.
+ * The first signer holds every role and receives the fees unless `feeTo` is given, the express may mint and burn
+ * USDO. The limiter has no minimums and a 1,000,000 USDO daily limit, `limits` overrides any of its fields.
+ */
+export const deployExpress = async ({
+  limits = {},
+  feeTo,
+}: { limits?: Partial<USDOMintRedeemLimiterCfgStruct>; feeTo?: string } = {}): Promise<ExpressDeployment> => {
+  const [owner] = await ethers.getSigners();
+
+  const usdoToken = (await upgrades.deployProxy(await ethers.getContractFactory('USDO'), [
+    'USDO Token',
+    'USDO',
+    owner.address,
+  ])) as USDO;
+  await usdoToken.updateTotalSupplyCap(usdo('10000000'));
+
+  const usdcToken = (await (await ethers.getContractFactory('MockUSDC')).deploy()) as MockUSDC;
+  const cusdo = (await (await ethers.getContractFactory('MockCUSDO')).deploy(usdoToken.address)) as MockCUSDO;
+
+  const assetRegistry = (await upgrades.deployProxy(await ethers.getContractFactory('AssetRegistry'), [
+    owner.address,
+  ])) as AssetRegistry;
+  await assetRegistry.setAssetConfig(assetConfig({ asset: usdcToken.address }));
+
+  const express = (await upgrades.deployProxy(
+    await ethers.getContractFactory('USDOExpressV2'),
+    [
+      usdoToken.address,
+      cusdo.address,
+      usdcToken.address,
+      owner.address,
+      feeTo ?? owner.address,
+      owner.address,
+      owner.address,
+      owner.address,
+      assetRegistry.address,
+      {
+        mintMinimum: 0,
+        mintLimit: usdo('1000000'),
+        mintDuration: 86400,
+        redeemMinimum: 0,
+        redeemLimit: usdo('1000000'),
+        redeemDuration: 86400,
+        firstDepositAmount: 0,
+        ...limits,
+      },
+    ],
+    { constructorArgs: [await deployExpressExtension(ethers)] },
+  )) as USDOExpressV2;
+
+  await usdoToken.grantRole(MINTER_ROLE, express.address);
+  await usdoToken.grantRole(BURNER_ROLE, express.address);
+
+  return { express, usdoToken, usdcToken, cusdo, assetRegistry };
+};
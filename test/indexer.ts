@@ -0,0 +1,263 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { expect } from 'chai';
+import { ethers, network, run } from 'hardhat';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { parseUnits } from 'ethers/lib/utils';
+import { providers, utils } from 'ethers';
+import { IndexerSource, IndexerStore, SyncResult, syncEvents } from '../indexer';
+import { MANIFEST_VERSION } from '../utils/manifest';
+import { deployExpress } from './fixtures';
+
+const usdo = (amount: string) => parseUnits(amount, 18);
+const usdc = (amount: string) => parseUnits(amount, 6);
+
+describe('Event indexer', function () {
+  let alice: SignerWithAddress;
+  let bob: SignerWithAddress;
+
+  const deployFixture = async () => {
+    [, alice, bob] = await ethers.getSigners();
+    const startBlock = await ethers.provider.getBlockNumber();
+
+    const { express, usdoToken, usdcToken, assetRegistry } = await deployExpress();
+
+    await express.grantKycInBulk([alice.address, bob.address]);
+
+    await usdcToken.transfer(alice.address, usdc('1000'));
+    await usdcToken.connect(alice).approve(express.address, usdc('1000'));
+    await express.connect(alice).instantMint(usdcToken.address, alice.address, usdc('1000'));
+    await express.connect(alice).redeemRequest(bob.address, usdo('400'));
+
+    const sources: IndexerSource[] = [
+      { name: 'USDOExpressV2', address: express.address, startBlock },
+      { name: 'USDO', address: usdoToken.address, startBlock },
+      { name: 'AssetRegistry', address: assetRegistry.address, startBlock },
+    ];
+    return { express, usdoToken, usdcToken, assetRegistry, sources };
+  };
+
+  const tempDb = () => path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'indexer-')), 'events.sqlite');
+
+  it('backfills the events into typed rows with block timestamps', async function () {
+    const { express, usdoToken, usdcToken, assetRegistry, sources } = await loadFixture(deployFixture);
+    const store = await IndexerStore.open();
+
+    const result = await syncEvents(ethers.provider, store, sources, { batchSize: 3 });
+
+    expect(result.complete).to.be.true;
+    expect(result.head).to.equal(await ethers.provider.getBlockNumber());
+    expect(result.inserted).to.deep.include({
+      instant_mints: 1,
+      redemption_requests: 1,
+      usdo_mints: 1,
+      assets_added: 1,
+    });
+
+    const [mint] = store.rows('instant_mints');
+    expect(mint).to.include({
+      address: express.address,
+      underlying: usdcToken.address,
+      from: alice.address,
+      to: alice.address,
+      req_amt: usdc('1000').toString(),
+      receive_amt: usdo('1000').toString(),
+      fee: '0',
+    });
+    expect(mint.block_timestamp).to.equal((await ethers.provider.getBlock(mint.block_number)).timestamp);
+
+    const [request] = store.rows('redemption_requests');
+    expect(request).to.include({ from: alice.address, to: bob.address, usdo_amt: usdo('400').toString() });
+    expect(request.id).to.equal(await express.getRedemptionQueueInfo(0).then(info => info.id));
+
+    expect(store.rows('usdo_mints')[0]).to.include({ address: usdoToken.address, to: alice.address });
+    expect(store.rows('assets_added')[0]).to.include({
+      asset: usdcToken.address,
+      config_asset: usdcToken.address,
+      config_is_supported: 1,
+      config_max_stale_period: '0',
+      config_secondary_price_feed: ethers.constants.AddressZero,
+      config_max_deviation_bps: '0',
+      config_oracle_policy: '0',
+      config_depeg_guard_feed: ethers.constants.AddressZero,
+      config_depeg_threshold: '0',
+    });
+    // Every proxy announced its implementation
+    expect(store.rows('upgrades').map(row => row.address)).to.have.members([
+      express.address,
+      usdoToken.address,
+      assetRegistry.address,
+    ]);
+    store.close();
+  });
+
+  it('resumes from the checkpoint saved in the database file', async function () {
+    const { express, usdoToken, sources } = await loadFixture(deployFixture);
+    const file = tempDb();
+
+    let store = await IndexerStore.open(file);
+    const first = await syncEvents(ethers.provider, store, sources);
+    store.close();
+    expect(store.file).to.equal(file);
+
+    await express.connect(alice).redeemRequest(alice.address, usdo('100'));
+    await usdoToken.connect(alice).transfer(bob.address, usdo('1'));
+
+    store = await IndexerStore.open(file);
+    expect(store.checkpoint('USDOExpressV2')?.block_number).to.equal(first.head);
+
+    const second = await syncEvents(ethers.provider, store, sources);
+    // The request burns the USDO, the transfer has no table
+    expect(second.inserted).to.deep.equal({ redemption_requests: 1, usdo_burns: 1 });
+    expect(store.rows('redemption_requests').map(row => row.to)).to.deep.equal([bob.address, alice.address]);
+
+    const third = await syncEvents(ethers.provider, store, sources);
+    expect(third.inserted).to.deep.equal({});
+    store.close();
+  });
+
+  it('leaves the unconfirmed blocks for a later run', async function () {
+    const { express, sources } = await loadFixture(deployFixture);
+    const store = await IndexerStore.open();
+
+    await syncEvents(ethers.provider, store, sources);
+    await express.connect(alice).redeemRequest(alice.address, usdo('100'));
+
+    const result = await syncEvents(ethers.provider, store, sources, { confirmations: 1 });
+    expect(result.inserted).to.deep.equal({});
+    expect(store.rows('redemption_requests')).to.have.length(1);
+    store.close();
+  });
+
+  it('rolls back and re-indexes the blocks replaced by a reorg', async function () {
+    const { express, sources } = await loadFixture(deployFixture);
+    const store = await IndexerStore.open();
+    await syncEvents(ethers.provider, store, sources);
+    const forkPoint = await ethers.provider.getBlock('latest');
+
+    const snapshot = await network.provider.send('evm_snapshot');
+    await express.connect(alice).redeemRequest(alice.address, usdo('100'));
+    await express.connect(alice).redeemRequest(alice.address, usdo('50'));
+    await syncEvents(ethers.provider, store, sources);
+    expect(store.rows('redemption_requests')).to.have.length(3);
+
+    // Replace both blocks with a different chain of the same height
+    await network.provider.send('evm_revert', [snapshot]);
+    await network.provider.send('evm_mine');
+    await express.connect(alice).redeemRequest(bob.address, usdo('75'));
+
+    const result = await syncEvents(ethers.provider, store, sources);
+
+    expect(result.reorg).to.deep.equal({ ancestor: forkPoint.number, removed: 4 });
+    expect(result.inserted).to.deep.equal({ redemption_requests: 1, usdo_burns: 1 });
+    expect(store.rows('redemption_requests').map(row => row.usdo_amt)).to.deep.equal([
+      usdo('400').toString(),
+      usdo('75').toString(),
+    ]);
+    expect(store.checkpoint('USDOExpressV2')?.block_hash).to.equal((await ethers.provider.getBlock('latest')).hash);
+    store.close();
+  });
+
+  it('reads AssetAdded from before the secondary price feed into a database without its columns', async function () {
+    const { assetRegistry, usdcToken, sources } = await loadFixture(deployFixture);
+    const file = tempDb();
+
+    // A database created before the oracle and price guard columns
+    let store = await IndexerStore.open(file);
+    for (const column of [
+      'config_secondary_price_feed',
+      'config_max_deviation_bps',
+      'config_oracle_policy',
+      'config_min_price',
+      'config_max_price',
+      'config_depeg_guard_feed',
+      'config_depeg_threshold',
+    ]) {
+      store.query(`ALTER TABLE assets_added DROP COLUMN ${column}`);
+    }
+    store.save();
+    store.close();
+
+    // The registry as it emitted the event before the upgrade
+    const legacy = new utils.Interface([
+      'event AssetAdded(address indexed asset, tuple(address asset, bool isSupported, address priceFeed, uint256 maxStalePeriod) config)',
+    ]);
+    const topic = assetRegistry.interface.getEventTopic('AssetAdded');
+    const provider = new (class extends providers.Web3Provider {
+      async getLogs(filter: providers.Filter): Promise<providers.Log[]> {
+        return (await super.getLogs(filter)).map(log =>
+          log.topics[0] === topic
+            ? {
+                ...log,
+                ...legacy.encodeEventLog(legacy.getEvent('AssetAdded'), [
+                  usdcToken.address,
+                  [usdcToken.address, true, ethers.constants.AddressZero, 0],
+                ]),
+              }
+            : log,
+        );
+      }
+    })({ request: args => network.provider.request(args) });
+
+    store = await IndexerStore.open(file);
+    const result = await syncEvents(provider, store, sources);
+    expect(result.inserted).to.deep.include({ assets_added: 1 });
+    expect(store.rows('assets_added')[0]).to.include({
+      config_asset: usdcToken.address,
+      config_max_stale_period: '0',
+      config_secondary_price_feed: '',
+      config_max_deviation_bps: '',
+      config_oracle_policy: '',
+      config_depeg_threshold: '',
+    });
+    store.close();
+  });
+
+  it('refuses a database indexed at another address', async function () {
+    const { sources } = await loadFixture(deployFixture);
+    const store = await IndexerStore.open();
+    await syncEvents(ethers.provider, store, sources);
+
+    const moved = [{ ...sources[0], address: bob.address }];
+    await expect(syncEvents(ethers.provider, store, moved)).to.be.rejectedWith('use a fresh database');
+    store.close();
+  });
+
+  it('index:events reads the contracts from the deployment manifest', async function () {
+    const { express, usdoToken, sources } = await loadFixture(deployFixture);
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'indexer-'));
+    const manifest = path.join(dir, 'manifest.json');
+    const db = path.join(dir, 'events.sqlite');
+    const record = (address: string) => ({ address, blockNumber: sources[0].startBlock });
+    fs.writeFileSync(
+      manifest,
+      JSON.stringify({
+        version: MANIFEST_VERSION,
+        network: network.name,
+        chainId: network.config.chainId,
+        updatedAt: '',
+        contracts: { USDOExpressV2: record(express.address), USDO: record(usdoToken.address) },
+        layouts: {},
+        pending: [],
+      }),
+    );
+
+    const log = console.log;
+    console.log = () => undefined;
+    let result: SyncResult;
+    try {
+      result = await run('index:events', { manifest, db });
+    } finally {
+      console.log = log;
+    }
+
+    expect(result.complete).to.be.true;
+    expect(result.inserted).to.not.have.property('assets_added');
+    const store = await IndexerStore.open(db);
+    expect(store.rows('instant_mints')).to.have.length(1);
+    expect(store.checkpoint('USDO')?.block_number).to.equal(result.head);
+    store.close();
+  });
+});
@@ -0,0 +1,144 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import hre, { run } from 'hardhat';
+import { expect } from 'chai';
+import { loadFixture, setStorageAt, time } from '@nomicfoundation/hardhat-network-helpers';
+import { keccak256, parseUnits, toUtf8Bytes } from 'ethers/lib/utils';
+import { USDOExpressV2 } from '../typechain-types';
+import { MultiplierKeeperResult, readAccrualLog, runMultiplierKeeper } from '../keepers/multiplier';
+import { getStorageLayout } from '../utils/storageLayout';
+import { deployExpress } from './fixtures';
+
+const MULTIPLIER_ROLE = keccak256(toUtf8Bytes('MULTIPLIER_ROLE'));
+
+const DAY = 86400;
+const base = parseUnits('1', 18);
+
+describe('keeper:multiplier', function () {
+  let tmpDir: string;
+  let logFile: string;
+
+  const deployFixture = async () => {
+    const { express, usdoToken: usdo } = await deployExpress();
+
+    await usdo.grantRole(MULTIPLIER_ROLE, express.address);
+    await express.updateAPY(500); // 5%
+    await express.updateTimeBuffer(23 * 60 * 60);
+
+    return { express, usdo };
+  };
+
+  beforeEach(function () {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'keeper-multiplier-'));
+    logFile = path.join(tmpDir, 'log.json');
+  });
+
+  afterEach(function () {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('accrues on the first run and logs the accrual', async function () {
+    const { express, usdo } = await loadFixture(deployFixture);
+    const increment = await express._increment();
+
+    const result = await runMultiplierKeeper(express, usdo, { logFile });
+
+    expect(result.txHash).to.match(/^0x[0-9a-f]{64}$/);
+    expect(await usdo.bonusMultiplier()).to.equal(base.add(increment));
+
+    const [entry] = readAccrualLog(logFile);
+    expect(entry.txHash).to.equal(result.txHash);
+    expect(entry.bonusMultiplierBefore).to.equal(base.toString());
+    expect(entry.bonusMultiplierAfter).to.equal(base.add(increment).toString());
+    expect(result.dueAt).to.equal(entry.timestamp + DAY);
+  });
+
+  it('waits a full day although _timeBuffer is shorter', async function () {
+    const { express, usdo } = await loadFixture(deployFixture);
+    const first = await runMultiplierKeeper(express, usdo, { logFile });
+
+    await time.increaseTo(first.dueAt - 60);
+    const early = await runMultiplierKeeper(express, usdo, { logFile });
+    expect(early.skipped).to.match(/^next accrual due at/);
+    expect(early.dueAt).to.equal(first.dueAt);
+
+    await time.increaseTo(first.dueAt);
+    const second = await runMultiplierKeeper(express, usdo, { logFile });
+    expect(second.txHash).to.not.be.undefined;
+
+    expect(readAccrualLog(logFile)).to.have.length(2);
+    expect(await usdo.bonusMultiplier()).to.equal(base.add((await express._increment()).mul(2)));
+  });
+
+  it('follows _timeBuffer when it is longer than a day', async function () {
+    const { express, usdo } = await loadFixture(deployFixture);
+    await express.updateTimeBuffer(2 * DAY);
+    const first = await runMultiplierKeeper(express, usdo);
+
+    await time.increase(DAY);
+    const result = await runMultiplierKeeper(express, usdo);
+
+    expect(result.skipped).to.not.be.undefined;
+    expect(result.dueAt).to.equal((first.entry?.timestamp as number) + 2 * DAY);
+  });
+
+  it('does not send anything in dry-run mode', async function () {
+    const { express, usdo } = await loadFixture(deployFixture);
+
+    const result = await runMultiplierKeeper(express, usdo, { dryRun: true, logFile });
+
+    expect(result.skipped).to.be.undefined;
+    expect(result.txHash).to.be.undefined;
+    expect(await express._lastUpdateTS()).to.equal(0);
+    expect(fs.existsSync(logFile)).to.be.false;
+  });
+
+  describe('APY drift', function () {
+    const setIncrement = async (express: USDOExpressV2, increment: number) => {
+      const layout = await getStorageLayout(hre, 'USDOExpressV2');
+      const slot = layout.find(entry => entry.label === '_increment')?.slot as number;
+      await setStorageAt(express.address, slot, increment);
+    };
+
+    it('reports no drift for the increment set by updateAPY', async function () {
+      const { express, usdo } = await loadFixture(deployFixture);
+
+      const result = await runMultiplierKeeper(express, usdo, { dryRun: true });
+
+      expect(result.drift.exceeded).to.be.false;
+      expect(result.drift.impliedApy).to.be.closeTo(500, 0.001);
+    });
+
+    it('alerts but accrues by default', async function () {
+      const { express, usdo } = await loadFixture(deployFixture);
+      await setIncrement(express, 2e14); // ~7.3%
+
+      const result = await runMultiplierKeeper(express, usdo);
+
+      expect(result.drift.exceeded).to.be.true;
+      expect(result.drift.impliedApy).to.be.closeTo(730, 0.001);
+      expect(result.txHash).to.not.be.undefined;
+    });
+
+    it('refuses to accrue when asked to', async function () {
+      const { express, usdo } = await loadFixture(deployFixture);
+      await setIncrement(express, 2e14);
+
+      const result = await runMultiplierKeeper(express, usdo, { refuseOnDrift: true });
+
+      expect(result.skipped).to.match(/implies 730 bps, _apy is 500 bps/);
+      expect(await usdo.bonusMultiplier()).to.equal(base);
+    });
+  });
+
+  it('runs as a hardhat task', async function () {
+    const { express, usdo } = await loadFixture(deployFixture);
+
+    const result: MultiplierKeeperResult = await run('keeper:multiplier', { express: express.address, log: logFile });
+
+    expect(result.txHash).to.not.be.undefined;
+    expect(await usdo.bonusMultiplier()).to.be.gt(base);
+    expect(readAccrualLog(logFile)).to.have.length(1);
+  });
+});
@@ -0,0 +1,220 @@
+import { expect } from 'chai';
+import { ethers, run } from 'hardhat';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { keccak256, parseUnits, toUtf8Bytes } from 'ethers/lib/utils';
+import { MockUSDT } from '../typechain-types';
+import { QueueKeeperResult, planRedemptionQueue, runQueueKeeper } from '../keepers/queue';
+import { deployExpress } from './fixtures';
+import { assetConfig } from '../utils/assetConfig';
+
+const MINTER_ROLE = keccak256(toUtf8Bytes('MINTER_ROLE'));
+
+const usdo = (amount: string) => parseUnits(amount, 18);
+const usdc = (amount: string) => parseUnits(amount, 6);
+
+describe('keeper:queue', function () {
+  let owner: SignerWithAddress;
+  let alice: SignerWithAddress;
+  let bob: SignerWithAddress;
+  let carol: SignerWithAddress;
+  let feeTo: SignerWithAddress;
+
+  const deployFixture = async () => {
+    [owner, alice, bob, carol, feeTo] = await ethers.getSigners();
+
+    const { express, usdoToken, usdcToken, assetRegistry } = await deployExpress({
+      limits: { mintMinimum: usdo('1'), redeemMinimum: usdo('1'), firstDepositAmount: usdo('1') },
+      feeTo: feeTo.address,
+    });
+
+    await usdoToken.grantRole(MINTER_ROLE, owner.address);
+    await express.grantKycInBulk([alice.address, bob.address, carol.address]);
+    await express.updateRedeemFee(10); // 0.1%
+
+    // 100, 200 and 300 USDO queued, 350 USDC available: the first two are covered
+    for (const [user, amount] of [
+      [alice, '100'],
+      [bob, '200'],
+      [carol, '300'],
+    ] as const) {
+      await usdoToken.mint(user.address, usdo(amount));
+      await express.connect(user).redeemRequest(user.address, usdo(amount));
+    }
+    await usdcToken.transfer(express.address, usdc('350'));
+
+    return { express, usdoToken, usdcToken, assetRegistry };
+  };
+
+  it('plans the prefix the USDC balance covers', async function () {
+    const { express, usdcToken } = await loadFixture(deployFixture);
+
+    const plan = await planRedemptionQueue(express);
+
+    expect(plan.queueLength).to.equal(3);
+    expect(plan.covered.map(entry => entry.receiver)).to.deep.equal([alice.address, bob.address]);
+    expect(plan.balances).to.deep.equal({ [usdcToken.address]: usdc('350') });
+    expect(plan.totals).to.deep.equal({ [usdcToken.address]: usdc('300') });
+    expect(plan.fees).to.deep.equal({ [usdcToken.address]: usdc('0.3') });
+    expect(plan.blocker).to.deep.equal({
+      reason: 'liquidity',
+      index: 2,
+      asset: usdcToken.address,
+      shortfall: usdc('250'),
+    });
+  });
+
+  it('checks the liquidity of each payout asset separately', async function () {
+    const { express, usdoToken, usdcToken, assetRegistry } = await loadFixture(deployFixture);
+    const usdtToken = (await (await ethers.getContractFactory('MockUSDT')).deploy()) as MockUSDT;
+    await assetRegistry.setAssetConfig(assetConfig({ asset: usdtToken.address }));
+
+    await usdcToken.transfer(express.address, usdc('250'));
+    await usdoToken.mint(alice.address, usdo('80'));
+    await express.connect(alice).redeemRequestAsset(usdtToken.address, alice.address, usdo('50'));
+    await express.connect(alice).redeemRequestAsset(usdtToken.address, alice.address, usdo('30'));
+    await usdtToken.transfer(express.address, usdc('60'));
+
+    const plan = await planRedemptionQueue(express);
+
+    expect(plan.covered.map(entry => entry.asset)).to.deep.equal([
+      usdcToken.address,
+      usdcToken.address,
+      usdcToken.address,
+      usdtToken.address,
+    ]);
+    expect(plan.totals).to.deep.equal({ [usdcToken.address]: usdc('600'), [usdtToken.address]: usdc('50') });
+    expect(plan.blocker).to.deep.equal({
+      reason: 'liquidity',
+      index: 4,
+      asset: usdtToken.address,
+      shortfall: usdc('20'),
+    });
+
+    await runQueueKeeper(express);
+    expect(await express.getRedemptionQueueLength()).to.equal(1);
+    expect(await usdtToken.balanceOf(alice.address)).to.equal(usdc('49.95'));
+  });
+
+  it('pays out part of the blocking request when partial fills are enabled', async function () {
+    const { express, usdcToken } = await loadFixture(deployFixture);
+    await express.setPartialFill(true);
+
+    const plan = await planRedemptionQueue(express);
+
+    expect(plan.covered).to.have.length(2);
+    expect(plan.partial).to.deep.include({
+      index: 2,
+      receiver: carol.address,
+      usdoAmt: usdo('50'),
+      assetAmt: usdc('50'),
+      fee: usdc('0.05'),
+      remainingUsdo: usdo('250'),
+    });
+    expect(plan.totals).to.deep.equal({ [usdcToken.address]: usdc('350') });
+
+    const result = await runQueueKeeper(express);
+    expect(result.length).to.equal(3);
+    expect(await usdcToken.balanceOf(carol.address)).to.equal(usdc('49.95'));
+    const head = await express.getRedemptionQueueInfo(0);
+    expect([head.receiver, head.usdoAmt]).to.deep.equal([carol.address, usdo('250')]);
+
+    // Nothing left to fill
+    expect((await runQueueKeeper(express)).skipped).to.equal('request 0 is blocked');
+  });
+
+  it('steps over requests cancelled by id', async function () {
+    const { express, usdcToken } = await loadFixture(deployFixture);
+    await express.connect(alice).cancelRedemption((await express.getRedemptionQueueInfo(0)).id);
+
+    const plan = await planRedemptionQueue(express);
+    expect(plan.covered.map(entry => [entry.index, entry.receiver])).to.deep.equal([[1, bob.address]]);
+    expect(plan.blocker).to.deep.include({ reason: 'liquidity', index: 2 });
+
+    const result = await runQueueKeeper(express);
+    expect(result.length).to.equal(2);
+    expect(await express.getRedemptionQueueLength()).to.equal(1);
+    expect(await usdcToken.balanceOf(bob.address)).to.equal(usdc('199.8'));
+  });
+
+  it('processes exactly the covered requests', async function () {
+    const { express, usdcToken } = await loadFixture(deployFixture);
+
+    const result = await runQueueKeeper(express);
+
+    expect(result.length).to.equal(2);
+    expect(result.txHash).to.match(/^0x[0-9a-f]{64}$/);
+    expect(await express.getRedemptionQueueLength()).to.equal(1);
+    expect(await usdcToken.balanceOf(alice.address)).to.equal(usdc('99.9'));
+    expect(await usdcToken.balanceOf(bob.address)).to.equal(usdc('199.8'));
+    expect(await usdcToken.balanceOf(feeTo.address)).to.equal(usdc('0.3'));
+
+    const [, receiver] = await express.getRedemptionQueueInfo(0);
+    expect(receiver).to.equal(carol.address);
+  });
+
+  it('does not send anything in dry-run mode', async function () {
+    const { express } = await loadFixture(deployFixture);
+    const blockNumber = await ethers.provider.getBlockNumber();
+
+    const result = await runQueueKeeper(express, { dryRun: true });
+
+    expect(result.length).to.equal(2);
+    expect(result.gasEstimate).to.not.be.undefined;
+    expect(result.txHash).to.be.undefined;
+    expect(await ethers.provider.getBlockNumber()).to.equal(blockNumber);
+    expect(await express.getRedemptionQueueLength()).to.equal(3);
+  });
+
+  it('stops before a request whose sender lost KYC', async function () {
+    const { express } = await loadFixture(deployFixture);
+    await express.revokeKycInBulk([alice.address]);
+
+    const result = await runQueueKeeper(express);
+
+    expect(result.plan.blocker).to.deep.equal({ reason: 'kyc', index: 0, account: alice.address });
+    expect(result.length).to.equal(0);
+    expect(result.skipped).to.equal('request 0 is blocked');
+    expect(await express.getRedemptionQueueLength()).to.equal(3);
+  });
+
+  it('stops before a request whose sender KYC expired', async function () {
+    const { express } = await loadFixture(deployFixture);
+    const expiry = (await time.latest()) + 60;
+    await express.setKycRecords([alice.address], [{ expiry, tier: 0 }]);
+
+    expect((await planRedemptionQueue(express)).blocker?.reason).to.equal('liquidity');
+    await time.increaseTo(expiry + 1);
+
+    const plan = await planRedemptionQueue(express);
+    expect(plan.blocker).to.deep.equal({ reason: 'kyc', index: 0, account: alice.address });
+  });
+
+  it('shortens the batch to fit the gas cap', async function () {
+    const { express } = await loadFixture(deployFixture);
+    const single = await express.estimateGas.processRedemptionQueue(1);
+
+    const result = await runQueueKeeper(express, { maxGas: single.add(1_000) });
+
+    expect(result.length).to.equal(1);
+    expect(await express.getRedemptionQueueLength()).to.equal(2);
+  });
+
+  it('skips the run while the network fee is above the cap', async function () {
+    const { express } = await loadFixture(deployFixture);
+
+    const result = await runQueueKeeper(express, { maxFeePerGas: 1 });
+
+    expect(result.length).to.equal(0);
+    expect(result.skipped).to.match(/^network fee \d+ wei above cap 1$/);
+  });
+
+  it('runs as a hardhat task', async function () {
+    const { express } = await loadFixture(deployFixture);
+
+    const result: QueueKeeperResult = await run('keeper:queue', { express: express.address, maxItems: 1 });
+
+    expect(result.length).to.equal(1);
+    expect(await express.getRedemptionQueueLength()).to.equal(2);
+  });
+});
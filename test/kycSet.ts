@@ -0,0 +1,122 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers, run } from 'hardhat';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { parseUnits } from 'ethers/lib/utils';
+import { parseKycCsv } from '../utils/kycRecords';
+import type { KycSetBatch } from '../tasks/kycSet';
+import { deployExpress } from './fixtures';
+
+const usdo = (amount: string) => parseUnits(amount, 18);
+
+describe('kyc:set', function () {
+  let alice: SignerWithAddress;
+  let bob: SignerWithAddress;
+  let carol: SignerWithAddress;
+  let tmpDir: string;
+
+  before(async function () {
+    [, alice, bob, carol] = await ethers.getSigners();
+  });
+
+  const deployFixture = async () => {
+    const { express } = await deployExpress();
+    await express.setKycTier(1, usdo('100'), usdo('1000'), 0, 0);
+
+    return { express };
+  };
+
+  beforeEach(function () {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kyc-set-'));
+  });
+
+  afterEach(function () {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const writeCsv = (text: string): string => {
+    const file = path.join(tmpDir, 'records.csv');
+    fs.writeFileSync(file, text);
+    return file;
+  };
+
+  const quietly = async <T>(action: () => Promise<T>): Promise<T> => {
+    const { log, table, error } = console;
+    console.log = console.table = console.error = () => undefined;
+    try {
+      return await action();
+    } finally {
+      Object.assign(console, { log, table, error });
+    }
+  };
+
+  it('parses unix and ISO expiries, empty cells and comments', function () {
+    const records = parseKycCsv(
+      [
+        'tier,address,expiry',
+        '# institutional',
+        `1,${alice.address.toLowerCase()},1893455999`,
+        '',
+        `2,${bob.address},2029-12-31T23:59:59Z`,
+        `,${carol.address},`,
+      ].join('\n'),
+    );
+
+    expect(records).to.deep.equal([
+      { line: 3, account: alice.address, expiry: 1893455999, tier: 1 },
+      { line: 5, account: bob.address, expiry: 1893455999, tier: 2 },
+      { line: 6, account: carol.address, expiry: 0, tier: 0 },
+    ]);
+  });
+
+  it('rejects invalid lines and accounts listed twice', function () {
+    expect(() => parseKycCsv('account\n')).to.throw('CSV:1: unknown column account');
+    expect(() => parseKycCsv('expiry,tier\n')).to.throw('CSV:1: missing address column');
+    expect(() => parseKycCsv('address,expiry\n0x1234,\n')).to.throw('CSV:2: invalid address 0x1234');
+    expect(() => parseKycCsv(`address,expiry\n${alice.address},soon\n`)).to.throw('CSV:2: invalid expiry soon');
+    expect(() => parseKycCsv(`address,tier\n${alice.address},-1\n`)).to.throw('CSV:2: invalid tier -1');
+    expect(() => parseKycCsv(`address,tier\n${alice.address}\n`)).to.throw('CSV:2: expected 2 column(s), got 1');
+    expect(() => parseKycCsv(`address\n${alice.address}\n${alice.address.toLowerCase()}\n`)).to.throw(
+      `CSV:3: ${alice.address} already listed on line 2`,
+    );
+  });
+
+  it('sets the records in batches', async function () {
+    const { express } = await loadFixture(deployFixture);
+    const file = writeCsv(
+      ['address,expiry,tier', `${alice.address},1893455999,1`, `${bob.address},,0`, `${carol.address},,1`].join('\n'),
+    );
+
+    const batches: KycSetBatch[] = await quietly(() =>
+      run('kyc:set', { express: express.address, file, batchSize: 2 }),
+    );
+
+    expect(batches.map(batch => batch.records.length)).to.deep.equal([2, 1]);
+    expect(batches.every(batch => batch.txHash)).to.be.true;
+    expect(await express._kycList(bob.address)).to.be.true;
+    const { record, tier } = await express.getKycRecord(alice.address);
+    expect([record.expiry.toNumber(), record.tier]).to.deep.equal([1893455999, 1]);
+    expect(tier.firstDepositAmount).to.equal(usdo('1000'));
+  });
+
+  it('sends nothing on a dry run and stops on a tier that is not set', async function () {
+    const { express } = await loadFixture(deployFixture);
+    const blockNumber = await ethers.provider.getBlockNumber();
+
+    const dryRun = writeCsv(['address,tier', `${alice.address},1`].join('\n'));
+    const batches: KycSetBatch[] = await quietly(() =>
+      run('kyc:set', { express: express.address, file: dryRun, dryRun: true }),
+    );
+    expect(batches[0].txHash).to.be.undefined;
+    expect(await express._kycList(alice.address)).to.be.false;
+
+    const unset = writeCsv(['address,tier', `${alice.address},1`, `${bob.address},3`].join('\n'));
+    await expect(quietly(() => run('kyc:set', { express: express.address, file: unset }))).to.be.rejectedWith(
+      'USDOExpressKycTierNotSet(tier: 3)',
+    );
+    expect(await ethers.provider.getBlockNumber()).to.equal(blockNumber);
+  });
+});
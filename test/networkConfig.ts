@@ -0,0 +1,110 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { NetworkConfigError, networkConfigFile, parseNetworkConfig, parseNumeric } from '../utils/config';
+
+const USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const TREASURY = '0x5EaFF7af80488033Bc845709806D5Fae5291eB88';
+
+const validConfig = () => ({
+  CHAIN_ID: 1,
+  ADDRESS: {
+    USDC_ADDRESS: USDC,
+    TREASURY,
+    TBILL_ADDRESS: ethers.constants.AddressZero,
+    ADMIN_ADDRESS: '',
+  },
+  LIMITS: {
+    TOTAL_SUPPLY_CAP: '75_000_000',
+    FIRST_DEPOSIT_AMOUNT: '100_000',
+    MINT_MINIMUM: '1',
+    MINT_LIMIT: '150_000_000',
+    MINT_DURATION: '864_000',
+    REDEEM_MINIMUM: '0.5',
+    REDEEM_LIMIT: '150_000_000',
+    REDEEM_DURATION: '864_000',
+    MIN_FEE: '0',
+    REDEEM_FEE: '10',
+    TOTAL_LIQUIDITY: '1_000_000',
+  },
+});
+
+const issuesOf = (raw: unknown, required: Parameters<typeof parseNetworkConfig>[2] = []): string[] => {
+  try {
+    parseNetworkConfig(raw, 'config/test.json', required);
+  } catch (error) {
+    expect(error).to.be.instanceOf(NetworkConfigError);
+    return (error as NetworkConfigError).issues;
+  }
+  return [];
+};
+
+describe('Network config', function () {
+  it('parses addresses and limits with their decimals', function () {
+    const { CHAIN_ID, ADDRESS, LIMITS } = parseNetworkConfig(validConfig(), 'config/test.json', ['USDC_ADDRESS']);
+
+    expect(CHAIN_ID).to.equal(1);
+    expect(ADDRESS.USDC_ADDRESS).to.equal(USDC);
+    expect(ADDRESS.ADMIN_ADDRESS).to.equal(ethers.constants.AddressZero);
+    expect(LIMITS.TOTAL_SUPPLY_CAP).to.equal(ethers.utils.parseUnits('75000000', 18));
+    expect(LIMITS.REDEEM_MINIMUM).to.equal(ethers.utils.parseUnits('0.5', 18));
+    expect(LIMITS.MINT_DURATION).to.equal(864000);
+    expect(LIMITS.REDEEM_FEE).to.equal(10);
+    expect(LIMITS.TOTAL_LIQUIDITY).to.equal(ethers.utils.parseUnits('1000000', 6));
+  });
+
+  it('rejects empty and zero addresses that are required', function () {
+    const cfg = validConfig();
+    cfg.ADDRESS.TBILL_ADDRESS = ethers.constants.AddressZero;
+
+    expect(issuesOf(cfg, ['ADMIN_ADDRESS', 'TBILL_ADDRESS'])).to.deep.equal([
+      'ADDRESS.TBILL_ADDRESS is required but set to the zero address',
+      'ADDRESS.ADMIN_ADDRESS is required but empty',
+    ]);
+  });
+
+  it('rejects the zero address where it is not a placeholder', function () {
+    const cfg = validConfig();
+    cfg.ADDRESS.TREASURY = ethers.constants.AddressZero;
+
+    expect(issuesOf(cfg)).to.deep.equal([
+      'ADDRESS.TREASURY must not be the zero address, leave it empty if it is not deployed',
+    ]);
+  });
+
+  it('rejects addresses that are invalid or not checksummed', function () {
+    const cfg = validConfig();
+    cfg.ADDRESS.USDC_ADDRESS = USDC.toLowerCase();
+    cfg.ADDRESS.TREASURY = '0x1234';
+
+    expect(issuesOf(cfg)).to.deep.equal([
+      `ADDRESS.USDC_ADDRESS "${USDC.toLowerCase()}" is not checksummed, expected "${USDC}"`,
+      'ADDRESS.TREASURY "0x1234" is not a valid address',
+    ]);
+  });
+
+  it('reports every malformed limit, unknown key and missing chain id at once', function () {
+    const { LIMITS, ADDRESS } = validConfig();
+    const cfg = {
+      ADDRESS: { ...ADDRESS, USDC: USDC },
+      LIMITS: { ...LIMITS, MINT_LIMIT: '150,000,000', MINT_DURATION: '1.5', REDEEM_FEE: 10 },
+    };
+
+    expect(issuesOf(cfg)).to.deep.equal([
+      'CHAIN_ID must be a positive integer, got undefined',
+      'ADDRESS.USDC is not a known entry',
+      'LIMITS.MINT_LIMIT "150,000,000" is not a number with at most 18 decimals',
+      'LIMITS.MINT_DURATION "1.5" is not a number with at most 0 decimals',
+      'LIMITS.REDEEM_FEE must be a numeric string such as "150_000_000"',
+    ]);
+  });
+
+  it('parses underscore separated numerics', function () {
+    expect(parseNumeric('150_000_000', 6)).to.equal(150_000_000_000_000);
+    expect(() => parseNumeric('_1', 0)).to.throw('is not a number');
+  });
+
+  it('maps networks to their config file', function () {
+    expect(networkConfigFile('arb_mainnet')).to.match(/config[\\/]arbi_mainnet\.json$/);
+    expect(networkConfigFile('arbi_sepolia')).to.match(/config[\\/]arbi_sepolia\.json$/);
+  });
+});
@@ -0,0 +1,143 @@
+import { expect } from 'chai';
+import { ethers, run } from 'hardhat';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { loadFixture, mine } from '@nomicfoundation/hardhat-network-helpers';
+import { keccak256, parseUnits, toUtf8Bytes } from 'ethers/lib/utils';
+import { DEFAULT_LOOKBACK_BLOCKS, listRedemptionQueue } from '../keepers/queue';
+import { deployExpress } from './fixtures';
+
+const MINTER_ROLE = keccak256(toUtf8Bytes('MINTER_ROLE'));
+
+const usdo = (amount: string) => parseUnits(amount, 18);
+const usdc = (amount: string) => parseUnits(amount, 6);
+
+describe('queue:show', function () {
+  let owner: SignerWithAddress;
+  let alice: SignerWithAddress;
+  let bob: SignerWithAddress;
+  let carol: SignerWithAddress;
+
+  const deployFixture = async () => {
+    [owner, alice, bob, carol] = await ethers.getSigners();
+
+    const { express, usdoToken, usdcToken } = await deployExpress();
+
+    await usdoToken.grantRole(MINTER_ROLE, owner.address);
+    await express.grantKycInBulk([alice.address, bob.address, carol.address]);
+    await express.updateRedeemFee(10); // 0.1%
+
+    const requestBlocks: number[] = [];
+    for (const [user, receiver, amount] of [
+      [alice, alice, '100'],
+      [bob, carol, '200'],
+      [carol, carol, '300'],
+    ] as const) {
+      await usdoToken.mint(user.address, usdo(amount));
+      const tx = await express.connect(user).redeemRequest(receiver.address, usdo(amount));
+      requestBlocks.push((await tx.wait()).blockNumber);
+    }
+
+    return { express, usdcToken, requestBlocks };
+  };
+
+  const captureLog = async <T>(action: () => Promise<T>): Promise<string> => {
+    const lines: string[] = [];
+    const log = console.log;
+    console.log = (...args: unknown[]) => lines.push(args.join(' '));
+    try {
+      await action();
+    } finally {
+      console.log = log;
+    }
+    return lines.join('\n');
+  };
+
+  it('lists every request with its net and cumulative payout and request time', async function () {
+    const { express, requestBlocks } = await loadFixture(deployFixture);
+
+    const entries = await listRedemptionQueue(express, { blockRange: 2 });
+
+    expect(entries.map(entry => entry.receiver)).to.deep.equal([alice.address, carol.address, carol.address]);
+    expect(entries.map(entry => entry.netAmt)).to.deep.equal([usdc('99.9'), usdc('199.8'), usdc('299.7')]);
+    expect(entries.map(entry => entry.cumulativeAmt)).to.deep.equal([usdc('100'), usdc('300'), usdc('600')]);
+    for (const [i, entry] of entries.entries()) {
+      expect(entry.requestedAt).to.equal((await ethers.provider.getBlock(requestBlocks[i])).timestamp);
+      expect(entry.kycLost).to.be.empty;
+    }
+  });
+
+  it('leaves the timestamp unset for requests before the scanned range', async function () {
+    const { express, requestBlocks } = await loadFixture(deployFixture);
+
+    const entries = await listRedemptionQueue(express, { fromBlock: requestBlocks[1] });
+
+    expect(entries[0].requestedAt).to.be.undefined;
+    expect(entries[1].requestedAt).to.not.be.undefined;
+  });
+
+  it('searches only the most recent blocks without a fromBlock', async function () {
+    const { express } = await loadFixture(deployFixture);
+    await mine(DEFAULT_LOOKBACK_BLOCKS);
+
+    const entries = await listRedemptionQueue(express);
+
+    expect(entries).to.have.length(3);
+    expect(entries.every(entry => entry.requestedAt === undefined)).to.be.true;
+  });
+
+  it('flags requests whose sender or receiver lost KYC', async function () {
+    const { express } = await loadFixture(deployFixture);
+    await express.revokeKycInBulk([carol.address]);
+
+    const entries = await listRedemptionQueue(express);
+
+    expect(entries.map(entry => entry.kycLost)).to.deep.equal([[], [carol.address], [carol.address]]);
+  });
+
+  it('leaves out requests cancelled by id', async function () {
+    const { express } = await loadFixture(deployFixture);
+    await express.connect(bob).cancelRedemption((await express.getRedemptionQueueInfo(1)).id);
+
+    const entries = await listRedemptionQueue(express);
+
+    expect(entries.map(entry => entry.index)).to.deep.equal([0, 2]);
+    expect(entries.map(entry => entry.cumulativeAmt)).to.deep.equal([usdc('100'), usdc('400')]);
+  });
+
+  it('flags partially filled requests', async function () {
+    const { express, usdcToken } = await loadFixture(deployFixture);
+    await express.setPartialFill(true);
+    await usdcToken.transfer(express.address, usdc('150'));
+    await express.processRedemptionQueue(0);
+
+    const entries = await listRedemptionQueue(express);
+    expect(entries).to.have.length(2);
+    expect(entries[0]).to.deep.include({ usdoAmt: usdo('150'), requestedUsdo: usdo('200') });
+
+    const output = await captureLog(() => run('queue:show', { express: express.address, format: 'csv' }));
+    expect(output.split('\n')[1]).to.match(/,Partially filled: 50.0 of 200.0 USDO paid$/);
+  });
+
+  it('prints CSV', async function () {
+    const { express } = await loadFixture(deployFixture);
+    await express.revokeKycInBulk([bob.address]);
+
+    const output = await captureLog(() => run('queue:show', { express: express.address, format: 'csv' }));
+    const [header, first, second] = output.split('\n');
+
+    expect(header).to.equal('index,sender,receiver,usdo,asset,amount,cumulative,requestedAt,flag');
+    expect(first).to.match(new RegExp(`^0,${alice.address},${alice.address},100.0,USDC,99.9,100.0,\\d{4}-.*Z,$`));
+    expect(second).to.match(new RegExp(`,KYC lost: ${bob.address}$`));
+  });
+
+  it('prints JSON and rejects unknown formats', async function () {
+    const { express } = await loadFixture(deployFixture);
+
+    const output = await captureLog(() => run('queue:show', { express: express.address, format: 'json' }));
+    expect(JSON.parse(output)).to.have.length(3);
+
+    await expect(run('queue:show', { express: express.address, format: 'xml' })).to.be.rejectedWith(
+      'Unknown format xml',
+    );
+  });
+});
@@ -0,0 +1,167 @@
+import { expect } from 'chai';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ethers } from 'hardhat';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { parseUnits } from 'ethers/lib/utils';
+import { MockUSDT, USDOExpressV2 } from '../typechain-types';
+import {
+  InsufficientAllowanceError,
+  IntentExpiredError,
+  IntentNonceError,
+  IntentSignatureError,
+  USDOExpressClient,
+  intentToJson,
+} from '../sdk';
+import { RelayRefusedError, createRelayerServer, relayIntent } from '../relayer';
+import { deployExpress } from './fixtures';
+import { assetConfig } from '../utils/assetConfig';
+
+const usdo = (amount: string) => parseUnits(amount, 18);
+const usdc = (amount: string) => parseUnits(amount, 6);
+
+describe('relayer', function () {
+  let alice: SignerWithAddress;
+  let bob: SignerWithAddress;
+  let relayer: SignerWithAddress;
+
+  const deployFixture = async () => {
+    [, alice, bob, relayer] = await ethers.getSigners();
+
+    const { express, usdoToken, usdcToken, assetRegistry } = await deployExpress({
+      limits: {
+        mintMinimum: usdo('10'),
+        mintLimit: usdo('1000'),
+        redeemMinimum: usdo('10'),
+        redeemLimit: usdo('500'),
+        firstDepositAmount: usdo('100'),
+      },
+    });
+    const usdtToken = (await (await ethers.getContractFactory('MockUSDT')).deploy()) as MockUSDT;
+    await assetRegistry.setAssetConfig(assetConfig({ asset: usdtToken.address }));
+
+    await express.grantKycInBulk([alice.address, bob.address]);
+    await usdcToken.transfer(alice.address, usdc('5000'));
+    await usdtToken.transfer(express.address, usdc('150'));
+    await usdcToken.connect(alice).approve(express.address, usdc('5000'));
+
+    // Alice signs, the relayer sends and pays the gas
+    const client = USDOExpressClient.connect(express.address, alice);
+    const relayerExpress = express.connect(relayer);
+    return { client, express, relayerExpress, usdoToken, usdcToken, usdtToken };
+  };
+
+  // Rejects with `type` and asserts nothing was mined in the meantime
+  const expectPreflightError = async (promise: Promise<unknown>, type: new (...args: never[]) => Error) => {
+    const blockNumber = await ethers.provider.getBlockNumber();
+    await expect(promise).to.be.rejectedWith(type);
+    expect(await ethers.provider.getBlockNumber()).to.equal(blockNumber);
+  };
+
+  describe('relayIntent', function () {
+    it('sends a mint intent signed with the sdk from the relayer', async function () {
+      const { client, express, relayerExpress, usdoToken, usdcToken } = await loadFixture(deployFixture);
+
+      const signed = await client.signMintIntent(usdcToken.address, '150', { to: bob.address, slippageBps: 50 });
+      expect(signed.intent.minOut).to.equal(usdo('149.25'));
+
+      const { receipt } = await relayIntent(relayerExpress, signed);
+
+      expect(receipt.from).to.equal(relayer.address);
+      expect(await usdoToken.balanceOf(bob.address)).to.equal(usdo('150'));
+      expect(await usdcToken.balanceOf(alice.address)).to.equal(usdc('4850'));
+      expect(await express._intentNonces(alice.address)).to.equal(1);
+    });
+
+    it('asks for an allowance before signing a mint', async function () {
+      const { client, express, usdcToken } = await loadFixture(deployFixture);
+      await usdcToken.connect(alice).approve(express.address, 0);
+
+      await expectPreflightError(client.signMintIntent(usdcToken.address, '150'), InsufficientAllowanceError);
+    });
+
+    it('sends a redeem intent into another asset', async function () {
+      const { client, relayerExpress, usdoToken, usdcToken, usdtToken } = await loadFixture(deployFixture);
+      await client.mint(usdcToken.address, '150');
+
+      const signed = await client.signRedeemIntent('100', { asset: usdtToken.address });
+      await relayIntent(relayerExpress, signed);
+
+      expect(await usdoToken.balanceOf(alice.address)).to.equal(usdo('50'));
+      expect(await usdtToken.balanceOf(alice.address)).to.equal(usdc('100'));
+    });
+
+    it('refuses used nonces, expiring intents and bad signatures without sending', async function () {
+      const { client, relayerExpress, usdcToken } = await loadFixture(deployFixture);
+
+      const used = await client.signMintIntent(usdcToken.address, '150');
+      await relayIntent(relayerExpress, used);
+      await expectPreflightError(relayIntent(relayerExpress, used), IntentNonceError);
+
+      const expiring = await client.signMintIntent(usdcToken.address, '150', { validFor: 30 });
+      await expectPreflightError(relayIntent(relayerExpress, expiring), IntentExpiredError);
+
+      const signed = await client.signMintIntent(usdcToken.address, '150');
+      const tampered = { ...signed, intent: { ...signed.intent, recipient: bob.address } };
+      await expectPreflightError(relayIntent(relayerExpress, tampered), IntentSignatureError);
+    });
+
+    it('refuses intents while the network fee is above the cap', async function () {
+      const { client, relayerExpress, usdcToken } = await loadFixture(deployFixture);
+
+      const signed = await client.signMintIntent(usdcToken.address, '150');
+      await expectPreflightError(relayIntent(relayerExpress, signed, { maxFeePerGas: 1 }), RelayRefusedError);
+    });
+  });
+
+  describe('server', function () {
+    let server: http.Server | undefined;
+
+    afterEach(async function () {
+      if (!server) return;
+      // fetch keeps its connections alive, close would wait for them
+      server.closeAllConnections();
+      await new Promise(resolve => server?.close(resolve));
+      server = undefined;
+    });
+
+    const listen = async (express: USDOExpressV2): Promise<string> => {
+      server = createRelayerServer(express);
+      await new Promise<void>(resolve => server?.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+      return `http://127.0.0.1:${port}`;
+    };
+
+    const post = (url: string, body: string) =>
+      fetch(`${url}/intents`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+
+    it('relays posted intents and answers with the transaction', async function () {
+      const { client, relayerExpress, usdoToken, usdcToken } = await loadFixture(deployFixture);
+      const url = await listen(relayerExpress);
+
+      const signed = await client.signMintIntent(usdcToken.address, '150');
+      const body = JSON.stringify(intentToJson(signed));
+      const res = await post(url, body);
+
+      expect(res.status).to.equal(200);
+      const json = await res.json();
+      expect(json).to.include({ kind: 'mint', from: alice.address, nonce: '0' });
+      const receipt = await ethers.provider.getTransactionReceipt(json.txHash);
+      expect(receipt.from).to.equal(relayer.address);
+      expect(await usdoToken.balanceOf(alice.address)).to.equal(usdo('150'));
+
+      // Replayed
+      expect((await post(url, body)).status).to.equal(422);
+    });
+
+    it('rejects malformed requests', async function () {
+      const { relayerExpress } = await loadFixture(deployFixture);
+      const url = await listen(relayerExpress);
+
+      expect((await post(url, '{')).status).to.equal(400);
+      expect((await post(url, JSON.stringify({ kind: 'swap' }))).status).to.equal(400);
+      expect((await fetch(`${url}/intents`)).status).to.equal(404);
+    });
+  });
+});
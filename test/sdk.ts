@@ -0,0 +1,397 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { keccak256, parseUnits, toUtf8Bytes } from 'ethers/lib/utils';
+import { MockUSDCPermit, MockUSDT, USDOExpressV2 } from '../typechain-types';
+import {
+  AccountLimitExceededError,
+  AttestationUnsupportedError,
+  BelowMinimumError,
+  FirstDepositTooSmallError,
+  InsufficientBalanceError,
+  InsufficientLiquidityError,
+  KycExpiredError,
+  KycSignerError,
+  LimitExceededError,
+  NoRedemptionContractError,
+  NotInKycListError,
+  NotRedemptionSenderError,
+  PausedError,
+  PermitUnsupportedError,
+  RedemptionNotFoundError,
+  RevertError,
+  TxLimitExceededError,
+  USDOExpressClient,
+  UnsupportedAssetError,
+  intentDomain,
+  signKycAttestation,
+} from '../sdk';
+import { deployExpress } from './fixtures';
+import { assetConfig } from '../utils/assetConfig';
+
+const MINTER_ROLE = keccak256(toUtf8Bytes('MINTER_ROLE'));
+
+const usdo = (amount: string) => parseUnits(amount, 18);
+const usdc = (amount: string) => parseUnits(amount, 6);
+
+describe('sdk', function () {
+  let owner: SignerWithAddress;
+  let alice: SignerWithAddress;
+  let bob: SignerWithAddress;
+  let carol: SignerWithAddress;
+
+  const deployFixture = async () => {
+    [owner, alice, bob, carol] = await ethers.getSigners();
+
+    const { express, usdoToken, usdcToken, cusdo, assetRegistry } = await deployExpress({
+      limits: {
+        mintMinimum: usdo('10'),
+        mintLimit: usdo('1000'),
+        redeemMinimum: usdo('10'),
+        redeemLimit: usdo('500'),
+        firstDepositAmount: usdo('100'),
+      },
+    });
+
+    await express.grantKycInBulk([alice.address, bob.address]);
+    await usdcToken.transfer(alice.address, usdc('5000'));
+
+    const client = USDOExpressClient.connect(express.address, alice);
+    return { client, express, usdoToken, usdcToken, cusdo, assetRegistry };
+  };
+
+  // Rejects with `type` and asserts nothing was mined in the meantime
+  const expectPreflightError = async (promise: Promise<unknown>, type: new (...args: never[]) => Error) => {
+    const blockNumber = await ethers.provider.getBlockNumber();
+    await expect(promise).to.be.rejectedWith(type);
+    expect(await ethers.provider.getBlockNumber()).to.equal(blockNumber);
+  };
+
+  describe('mint', function () {
+    it('scales decimal strings by the decimals of the underlying', async function () {
+      const { client, usdcToken } = await loadFixture(deployFixture);
+
+      const preview = await client.previewMint(usdcToken.address, '150.5');
+
+      expect(preview.amount).to.equal(usdc('150.5'));
+      expect(preview.usdoAmt).to.equal(usdo('150.5'));
+    });
+
+    it('approves the underlying and mints the previewed amount', async function () {
+      const { client, express, usdoToken, usdcToken } = await loadFixture(deployFixture);
+
+      const { preview } = await client.mint(usdcToken.address, '150');
+
+      expect(await usdoToken.balanceOf(alice.address)).to.equal(preview.usdoAmt);
+      expect(await usdcToken.allowance(alice.address, express.address)).to.equal(0);
+      expect(await express._firstDeposit(alice.address)).to.be.true;
+    });
+
+    it('mints to another receiver and wraps into cUSDO', async function () {
+      const { client, usdcToken, cusdo } = await loadFixture(deployFixture);
+
+      await client.mintAndWrap(usdcToken.address, '150', { to: bob.address });
+
+      expect(await cusdo.balanceOf(bob.address)).to.equal(usdo('150'));
+    });
+
+    it('applies the first-deposit rule to the receiver, then the mint minimum', async function () {
+      const { client, usdcToken } = await loadFixture(deployFixture);
+
+      await expectPreflightError(client.mint(usdcToken.address, '50'), FirstDepositTooSmallError);
+      await client.mint(usdcToken.address, '100');
+      await client.mint(usdcToken.address, '50');
+      await expectPreflightError(client.mint(usdcToken.address, '5'), BelowMinimumError);
+      await expectPreflightError(client.mint(usdcToken.address, '50', { to: bob.address }), FirstDepositTooSmallError);
+    });
+
+    it('rejects receivers outside the KYC list', async function () {
+      const { client, usdcToken } = await loadFixture(deployFixture);
+
+      const promise = client.mint(usdcToken.address, '150', { to: carol.address });
+
+      await expectPreflightError(promise, NotInKycListError);
+      await expect(promise).to.be.rejected.and.eventually.have.property('account', carol.address);
+    });
+
+    it('applies the KYC tier of the sender and rejects expired records', async function () {
+      const { client, express, usdcToken } = await loadFixture(deployFixture);
+      await express.setKycTier(1, usdo('20'), usdo('50'), usdo('200'), usdo('100'));
+      const expiry = (await time.latest()) + 3600;
+      await express.setKycRecords([alice.address], [{ expiry, tier: 1 }]);
+
+      await client.mint(usdcToken.address, '50');
+      await expectPreflightError(client.mint(usdcToken.address, '15'), BelowMinimumError);
+      await expectPreflightError(client.mint(usdcToken.address, '201'), TxLimitExceededError);
+      await client.mint(usdcToken.address, '200');
+      await expectPreflightError(client.queueRedeem('101'), TxLimitExceededError);
+      await client.queueRedeem('100');
+
+      // Valid up to and including the expiry
+      await time.increaseTo(expiry);
+      await client.preflightMint(usdcToken.address, '20');
+      await time.increase(1);
+      const promise = client.mint(usdcToken.address, '20');
+      await expectPreflightError(promise, KycExpiredError);
+      await expect(promise).to.be.rejected.and.eventually.have.property('expiry', expiry);
+    });
+
+    it('rejects unsupported assets and a paused mint', async function () {
+      const { client, express, usdoToken, usdcToken } = await loadFixture(deployFixture);
+
+      await expectPreflightError(client.mint(usdoToken.address, '150'), UnsupportedAssetError);
+      await express.pauseMint();
+      await expectPreflightError(client.mint(usdcToken.address, '150'), PausedError);
+    });
+
+    it('tracks the rolling mint limit', async function () {
+      const { client, usdcToken } = await loadFixture(deployFixture);
+      await client.mint(usdcToken.address, '900');
+
+      expect((await client.mintWindow()).remaining).to.equal(usdo('100'));
+      await expectPreflightError(client.mint(usdcToken.address, '101'), LimitExceededError);
+    });
+
+    it('checks the per-account limits of the sender', async function () {
+      const { client, express, usdcToken } = await loadFixture(deployFixture);
+      await express.setAccountLimitDefaults(usdo('300'), usdo('100'));
+      await client.mint(usdcToken.address, '200');
+
+      const promise = client.mint(usdcToken.address, '101');
+      await expectPreflightError(promise, AccountLimitExceededError);
+      await expect(promise).to.be.rejected.and.eventually.have.property('remaining').that.deep.equals(usdo('100'));
+      await expectPreflightError(client.queueRedeem('101'), AccountLimitExceededError);
+      await client.queueRedeem('100');
+    });
+  });
+
+  describe('KYC attestations', function () {
+    // Owner is the compliance signer, carol is not whitelisted
+    const deployAttestationFixture = async () => {
+      const fixture = await deployFixture();
+      await fixture.express.setKycSigner(owner.address, true);
+      await fixture.express.setKycTier(1, usdo('20'), usdo('50'), usdo('200'), 0);
+      await fixture.usdcToken.transfer(carol.address, usdc('5000'));
+      return { ...fixture, client: USDOExpressClient.connect(fixture.express.address, carol) };
+    };
+
+    const attest = async (express: USDOExpressV2, signer = owner) =>
+      signKycAttestation(signer, await intentDomain(express), {
+        account: carol.address,
+        tier: 1,
+        expiry: 0,
+        nonce: await express._kycNonces(carol.address),
+      });
+
+    it('sends the attestation until it is cached, then mints without it', async function () {
+      const { client, express, usdcToken } = await loadFixture(deployAttestationFixture);
+      const attestation = await attest(express);
+
+      // The attested tier applies before it is cached, whatever the case of the attested account
+      const lowercased = {
+        ...attestation,
+        attestation: { ...attestation.attestation, account: carol.address.toLowerCase() },
+      };
+      await expectPreflightError(
+        client.mint(usdcToken.address, '201', { attestation: lowercased }),
+        TxLimitExceededError,
+      );
+      const first = await client.mint(usdcToken.address, '50', { attestation });
+      expect(first.receipt.events?.some(event => event.event === 'KycAttested')).to.be.true;
+      expect(await express._kycList(carol.address)).to.be.true;
+
+      const second = await client.mint(usdcToken.address, '20', { attestation });
+      expect(second.receipt.events?.some(event => event.event === 'KycAttested')).to.be.false;
+    });
+
+    it('queues a redemption with an attestation and refuses it for other assets', async function () {
+      const { client, express, usdoToken, cusdo } = await loadFixture(deployAttestationFixture);
+      await usdoToken.grantRole(MINTER_ROLE, owner.address);
+      await usdoToken.mint(carol.address, usdo('100'));
+      const attestation = await attest(express);
+
+      const unsupported = client.queueRedeem('50', { attestation, asset: cusdo.address });
+      await expectPreflightError(unsupported, AttestationUnsupportedError);
+      await expect(unsupported).to.be.rejected.and.eventually.have.property('asset', cusdo.address);
+      // Addresses compare regardless of their case
+      const { id } = await client.queueRedeem('50', { attestation, asset: (await express._usdc()).toLowerCase() });
+      expect((await client.getQueuePosition(id))?.sender).to.equal(carol.address);
+    });
+
+    it('rejects attestations of unregistered signers and voided ones', async function () {
+      const { client, express, usdcToken } = await loadFixture(deployAttestationFixture);
+
+      const unregistered = client.mint(usdcToken.address, '50', { attestation: await attest(express, bob) });
+      await expectPreflightError(unregistered, KycSignerError);
+      await expect(unregistered).to.be.rejected.and.eventually.have.property('signer', bob.address);
+
+      // Revoked after signing, the attestation no longer goes along and carol has no KYC
+      const attestation = await attest(express);
+      await express.revokeKycInBulk([carol.address]);
+      await expectPreflightError(client.mint(usdcToken.address, '50', { attestation }), NotInKycListError);
+    });
+  });
+
+  describe('permit', function () {
+    const deployPermitFixture = async () => {
+      const fixture = await deployFixture();
+      const permitToken = (await (await ethers.getContractFactory('MockUSDCPermit')).deploy()) as MockUSDCPermit;
+      await fixture.assetRegistry.setAssetConfig(assetConfig({ asset: permitToken.address }));
+      await permitToken.transfer(alice.address, usdc('5000'));
+      return { ...fixture, permitToken };
+    };
+
+    it('mints with a permit in a single transaction', async function () {
+      const { client, express, usdoToken, permitToken } = await loadFixture(deployPermitFixture);
+      const nonce = await alice.getTransactionCount();
+
+      const { preview } = await client.mintWithPermit(permitToken.address, '150');
+
+      expect(await alice.getTransactionCount()).to.equal(nonce + 1);
+      expect(await usdoToken.balanceOf(alice.address)).to.equal(preview.usdoAmt);
+      expect(await permitToken.nonces(alice.address)).to.equal(1);
+      expect(await permitToken.allowance(alice.address, express.address)).to.equal(0);
+    });
+
+    it('mints and wraps with a permit for another receiver', async function () {
+      const { client, cusdo, permitToken } = await loadFixture(deployPermitFixture);
+
+      await client.mintAndWrapWithPermit(permitToken.address, '150', { to: bob.address });
+
+      expect(await cusdo.balanceOf(bob.address)).to.equal(usdo('150'));
+    });
+
+    it('rejects underlyings without permits before sending', async function () {
+      const { client, usdcToken } = await loadFixture(deployPermitFixture);
+
+      await expectPreflightError(client.mintWithPermit(usdcToken.address, '150'), PermitUnsupportedError);
+    });
+  });
+
+  describe('redeem', function () {
+    const redeemFixture = async () => {
+      const fixture = await deployFixture();
+      await fixture.client.mint(fixture.usdcToken.address, '1000');
+      return fixture;
+    };
+
+    it('derives minAmtOut from the slippage', async function () {
+      const { client, express, usdcToken } = await loadFixture(redeemFixture);
+      const redemption = await (await ethers.getContractFactory('MockSimpleRedemption')).deploy(usdcToken.address);
+      await express.setRedemption(redemption.address);
+      await express.updateInstantRedeemFee(10); // 0.1%
+      await usdcToken.transfer(redemption.address, usdc('1000'));
+
+      const { preview, minAmtOut } = await client.instantRedeem('200', { slippageBps: 100 });
+
+      expect(preview.assetAmt).to.equal(usdc('199.8'));
+      expect(minAmtOut).to.equal(usdc('197.802'));
+      expect(await usdcToken.balanceOf(alice.address)).to.equal(usdc('4199.8'));
+    });
+
+    it('refuses an instant redemption without a redemption contract', async function () {
+      const { client } = await loadFixture(redeemFixture);
+
+      await expectPreflightError(client.instantRedeem('200'), NoRedemptionContractError);
+    });
+
+    it('names the revert when the transaction fails past the preflight', async function () {
+      const { client, express, usdcToken } = await loadFixture(redeemFixture);
+      const redemption = await (await ethers.getContractFactory('MockSimpleRedemption')).deploy(usdcToken.address);
+      await express.setRedemption(redemption.address);
+
+      const error = await client.instantRedeem('200').catch(e => e);
+
+      expect(error).to.be.instanceOf(RevertError);
+      expect((error as RevertError).decoded.message).to.equal("Error('ERC20: transfer amount exceeds balance')");
+    });
+
+    it('redeems cUSDO shares in one call, approving them when needed', async function () {
+      const { client, express, usdoToken, usdcToken, cusdo } = await loadFixture(redeemFixture);
+      await usdoToken.connect(alice).approve(cusdo.address, usdo('300'));
+      await cusdo.connect(alice).deposit(usdo('300'), alice.address);
+      const redemption = await (await ethers.getContractFactory('MockSimpleRedemption')).deploy(usdcToken.address);
+      await express.setRedemption(redemption.address);
+      await usdcToken.transfer(redemption.address, usdc('1000'));
+
+      const preview = await client.previewRedeemFromCusdo('200');
+      expect(preview.shares).to.equal(usdo('200'));
+      expect(preview.amount).to.equal(usdo('200'));
+      expect(preview.assetAmt).to.equal(usdc('200'));
+
+      await client.instantRedeemFromCusdo('200');
+      const { id } = await client.queueRedeemFromCusdo('50', { to: bob.address });
+
+      expect(await cusdo.balanceOf(alice.address)).to.equal(usdo('50'));
+      expect(await usdoToken.balanceOf(alice.address)).to.equal(usdo('700'));
+      expect(await usdcToken.balanceOf(alice.address)).to.equal(usdc('4200'));
+      expect((await client.getQueuePosition(id))?.usdoAmt).to.equal(usdo('50'));
+      await expectPreflightError(client.queueRedeemFromCusdo('100'), InsufficientBalanceError);
+    });
+
+    it('queues a redemption and locates it by id', async function () {
+      const { client, express } = await loadFixture(redeemFixture);
+      await client.queueRedeem('100');
+
+      const { id } = await client.queueRedeem('50', { to: bob.address });
+      const position = await client.getQueuePosition(id);
+
+      expect(position).to.deep.include({ index: 1, sender: alice.address, receiver: bob.address });
+      expect(position?.usdoAmt).to.equal(usdo('50'));
+      expect(position?.usdoAhead).to.equal(usdo('100'));
+      expect(await express.getRedemptionQueueLength()).to.equal(2);
+      expect(await client.getQueuePosition(ethers.constants.HashZero)).to.be.undefined;
+    });
+
+    it('cancels a queued redemption of the signer', async function () {
+      const { client, express, usdoToken } = await loadFixture(redeemFixture);
+      const balance = await usdoToken.balanceOf(alice.address);
+      const first = await client.queueRedeem('100');
+      const second = await client.queueRedeem('50');
+
+      const bobClient = USDOExpressClient.connect(express.address, bob);
+      await expectPreflightError(bobClient.cancelRedeem(first.id), NotRedemptionSenderError);
+
+      const { position } = await client.cancelRedeem(first.id);
+      expect(position).to.deep.include({ index: 0, usdoAmt: usdo('100') });
+      expect(await usdoToken.balanceOf(alice.address)).to.equal(balance.sub(usdo('50')));
+      await expectPreflightError(client.cancelRedeem(first.id), RedemptionNotFoundError);
+
+      const remaining = await client.getQueuePosition(second.id);
+      expect(remaining).to.deep.include({ index: 1, usdoAhead: ethers.constants.Zero });
+      expect(await client.getQueuePosition(ethers.constants.HashZero)).to.be.undefined;
+    });
+
+    it('redeems into USDT from the contract balance, instantly or through the queue', async function () {
+      const { client, express, assetRegistry } = await loadFixture(redeemFixture);
+      const usdtToken = (await (await ethers.getContractFactory('MockUSDT')).deploy()) as MockUSDT;
+      await expectPreflightError(client.queueRedeem('50', { asset: usdtToken.address }), UnsupportedAssetError);
+
+      await assetRegistry.setAssetConfig(assetConfig({ asset: usdtToken.address }));
+      await expectPreflightError(client.instantRedeem('100', { asset: usdtToken.address }), InsufficientLiquidityError);
+
+      await usdtToken.transfer(express.address, usdc('150'));
+      const { preview } = await client.instantRedeem('100', { asset: usdtToken.address });
+      expect(preview).to.deep.include({ asset: usdtToken.address });
+      expect(await usdtToken.balanceOf(alice.address)).to.equal(usdc('100'));
+
+      const { id } = await client.queueRedeem('50', { asset: usdtToken.address });
+      expect((await client.getQueuePosition(id))?.asset).to.equal(usdtToken.address);
+      // The 50 USDT left are held for the queued request
+      const promise = client.instantRedeem('50', { asset: usdtToken.address });
+      await expectPreflightError(promise, InsufficientLiquidityError);
+      await expect(promise).to.be.rejected.and.eventually.have.property('available').that.deep.equals(usdc('0'));
+    });
+
+    it('checks the redeem minimum, the rolling limit and the pause state', async function () {
+      const { client, express } = await loadFixture(redeemFixture);
+
+      await expectPreflightError(client.queueRedeem('5'), BelowMinimumError);
+      await client.queueRedeem('400');
+      await expectPreflightError(client.queueRedeem('101'), LimitExceededError);
+      await express.pauseRedeem();
+      await expectPreflightError(client.queueRedeem('50'), PausedError);
+    });
+  });
+});
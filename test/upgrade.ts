@@ -0,0 +1,186 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { expect } from 'chai';
+import { ethers, run, upgrades } from 'hardhat';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { DeploymentManifest } from '../utils/manifest';
+import { StorageLayoutEntry, diffStorageLayout } from '../utils/storageLayout';
+import type { UpgradeResult } from '../tasks/upgrade';
+
+const entry = (label: string, slot: number, type = 'uint256', bytes = 32): StorageLayoutEntry => ({
+  contract: 'contracts/extensions/USDOExpressV2.sol:USDOExpressV2',
+  label,
+  slot,
+  offset: 0,
+  type,
+  bytes,
+});
+
+describe('Storage layout diff', function () {
+  const previous = [
+    entry('_apy', 0),
+    entry('RESERVE1', 1),
+    entry('_treasury', 2, 'address', 20),
+    entry('__gap', 3, 'uint256[50]', 1600),
+  ];
+
+  it('reports no changes for an identical layout', function () {
+    expect(diffStorageLayout(previous, previous)).to.be.empty;
+  });
+
+  it('flags a reserved slot taking a new name', function () {
+    const next = [...previous];
+    next[1] = entry('_bonus', 1);
+
+    const [change] = diffStorageLayout(previous, next);
+    expect(change.kind).to.equal('reserved-reused');
+    expect(change.severity).to.equal('warning');
+  });
+
+  it('accepts variables taken from the end-aligned gap', function () {
+    const next = [...previous.slice(0, 3), entry('_feeOverride', 3), entry('__gap', 4, 'uint256[49]', 1568)];
+
+    const changes = diffStorageLayout(previous, next);
+    expect(changes.map(change => [change.kind, change.severity])).to.deep.equal([
+      ['gap-resized', 'info'],
+      ['added', 'info'],
+    ]);
+  });
+
+  it('rejects a gap whose end moves', function () {
+    const next = [...previous.slice(0, 3), entry('_feeOverride', 3), entry('__gap', 4, 'uint256[50]', 1600)];
+
+    const errors = diffStorageLayout(previous, next).filter(change => change.severity === 'error');
+    expect(errors.map(change => change.kind)).to.deep.equal(['gap-end-moved', 'added']);
+  });
+
+  it('rejects retyped and inserted variables', function () {
+    const next = [entry('_apy', 0), entry('_inserted', 1), entry('RESERVE1', 2), entry('_treasury', 3, 'address', 20)];
+
+    const kinds = diffStorageLayout(previous, next).map(change => change.kind);
+    expect(kinds).to.include('retyped');
+    expect(kinds).to.include('gap-removed');
+  });
+});
+
+describe('upgrade', function () {
+  let deployer: SignerWithAddress;
+  let admin: SignerWithAddress;
+  let treasury: SignerWithAddress;
+  let tmpDir: string;
+  let configFile: string;
+  let manifestFile: string;
+
+  const deployStack = async (adminAddress: string): Promise<DeploymentManifest> => {
+    const usdc = await (await ethers.getContractFactory('MockUSDC')).deploy();
+    const usyc = await (await ethers.getContractFactory('MockUSYC')).deploy();
+    const oracle = await (await ethers.getContractFactory('MockTBILL')).deploy(usdc.address);
+    const helper = await (
+      await ethers.getContractFactory('MockUsycHelper')
+    ).deploy(usyc.address, usdc.address, oracle.address);
+
+    const cfg = {
+      CHAIN_ID: (await ethers.provider.getNetwork()).chainId,
+      ADDRESS: {
+        USDC_ADDRESS: usdc.address,
+        TREASURY: treasury.address,
+        FEE_TO: treasury.address,
+        ADMIN_ADDRESS: adminAddress,
+        MAINTAINER_ADDRESS: deployer.address,
+        OPERATOR_ADDRESS: deployer.address,
+        USYC_ADDRESS: usyc.address,
+        USYC_HELPER: helper.address,
+        USYC_TREASURY: treasury.address,
+      },
+      LIMITS: {
+        TOTAL_SUPPLY_CAP: '100_000_000',
+        FIRST_DEPOSIT_AMOUNT: '100_000',
+        MINT_MINIMUM: '1',
+        MINT_LIMIT: '150_000_000',
+        MINT_DURATION: '864_000',
+        REDEEM_MINIMUM: '1',
+        REDEEM_LIMIT: '150_000_000',
+        REDEEM_DURATION: '864_000',
+        MIN_FEE: '0',
+        REDEEM_FEE: '10',
+        TOTAL_LIQUIDITY: '1_000_000',
+      },
+    };
+    fs.writeFileSync(configFile, JSON.stringify(cfg));
+    return run('deploy:stack', { networkConfig: configFile, manifest: manifestFile });
+  };
+
+  const upgrade = (contract: string, proxy: string, prepareOnly = false): Promise<UpgradeResult> =>
+    run('upgrade', { contract, proxy, manifest: manifestFile, prepareOnly });
+
+  const readManifest = (): DeploymentManifest => JSON.parse(fs.readFileSync(manifestFile, 'utf8'));
+
+  beforeEach(async function () {
+    [deployer, admin, treasury] = await ethers.getSigners();
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'upgrade-'));
+    configFile = path.join(tmpDir, 'config.json');
+    manifestFile = path.join(tmpDir, 'manifest.json');
+  });
+
+  afterEach(function () {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('records the storage layout of every deployed implementation', async function () {
+    const manifest = await deployStack(deployer.address);
+
+    const layout = manifest.layouts[manifest.contracts.USDOExpressV2.implementation as string];
+    expect(layout.map(item => item.label)).to.include.members(['RESERVE1', '_RESERVE2', '__gap']);
+  });
+
+  it('upgrades a proxy when the signer holds UPGRADE_ROLE', async function () {
+    const { contracts } = await deployStack(deployer.address);
+    const proxy = contracts.USDOExpressV2.address;
+
+    const result = await upgrade('MockUSDOExpressV3', proxy);
+
+    expect(result.implementation).to.equal(await upgrades.erc1967.getImplementationAddress(proxy));
+    expect(result.changes.map(change => [change.kind, change.severity])).to.deep.equal([['added', 'info']]);
+
+    const manifest = readManifest();
+    expect(manifest.contracts.USDOExpressV2.contract).to.equal('MockUSDOExpressV3');
+    expect(manifest.contracts.USDOExpressV2.implementation).to.equal(result.implementation);
+    expect(manifest.layouts[result.implementation]).to.not.be.undefined;
+
+    const upgraded = await ethers.getContractAt('MockUSDOExpressV3', proxy);
+    await upgraded.setUpgradeVersion(3);
+    expect(await upgraded.upgradeVersion()).to.equal(3);
+  });
+
+  it('refuses to upgrade without UPGRADE_ROLE', async function () {
+    const { contracts } = await deployStack(admin.address);
+
+    await expect(upgrade('MockUSDOExpressV3', contracts.USDOExpressV2.address)).to.be.rejectedWith(
+      'does not satisfy UPGRADE_ROLE',
+    );
+  });
+
+  it('refuses an upgrade with an incompatible storage layout', async function () {
+    const { contracts } = await deployStack(deployer.address);
+
+    await expect(upgrade('cUSDO', contracts.USDO.address)).to.be.rejectedWith('OpenZeppelin validation failed');
+  });
+
+  it('prepares the upgrade and emits upgradeTo calldata for the role holder', async function () {
+    const { contracts } = await deployStack(admin.address);
+    const proxy = contracts.USDOExpressV2.address;
+    const before = await upgrades.erc1967.getImplementationAddress(proxy);
+
+    const result = await upgrade('MockUSDOExpressV3', proxy, true);
+    expect(await upgrades.erc1967.getImplementationAddress(proxy)).to.equal(before);
+
+    const manifest = readManifest();
+    const action = manifest.pending.find(item => item.data === result.data);
+    expect(action?.to).to.equal(proxy);
+    expect(manifest.layouts[result.implementation]).to.not.be.undefined;
+
+    await admin.sendTransaction({ to: proxy, data: result.data });
+    expect(await upgrades.erc1967.getImplementationAddress(proxy)).to.equal(result.implementation);
+  });
+});
@@ -0,0 +1,22 @@
+import { constants } from 'ethers';
+import type { IAssetRegistry } from '../typechain-types/contracts/extensions/AssetRegistry';
+
+export type AssetConfig = IAssetRegistry.AssetConfigStruct;
+
+/**
+ * An AssetRegistry asset configuration for `setAssetConfig`. The asset is supported, the fields left out are unset:
+ * no price feeds, no price bounds and no depeg guard.
+ */
+export const assetConfig = (config: Pick<AssetConfig, 'asset'> & Partial<AssetConfig>): AssetConfig => ({
+  isSupported: true,
+  priceFeed: constants.AddressZero,
+  maxStalePeriod: 0,
+  secondaryPriceFeed: constants.AddressZero,
+  maxDeviationBps: 0,
+  oraclePolicy: 0,
+  minPrice: 0,
+  maxPrice: 0,
+  depegGuardFeed: constants.AddressZero,
+  depegThreshold: 0,
+  ...config,
+});
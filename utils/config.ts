@@ -0,0 +1,210 @@
+import fs from 'fs';
+import path from 'path';
+import { BigNumber, constants, utils } from 'ethers';
+import type { HardhatRuntimeEnvironment } from 'hardhat/types';
+
+export const CONFIG_DIR = path.join(__dirname, '..', 'config');
+
+// Hardhat networks whose config file predates the network name
+const CONFIG_FILE_NAMES: Record<string, string> = {
+  arb_mainnet: 'arbi_mainnet',
+};
+
+/**
+ * Path of the config file of a Hardhat network.
+ */
+export const networkConfigFile = (network: string): string =>
+  path.join(CONFIG_DIR, `${CONFIG_FILE_NAMES[network] ?? network}.json`);
+
+/**
+ * Address entries of config/<network>.json.
+ * An empty string means "not set on this network". `zeroAllowed` marks the legacy entries where the zero address is
+ * used as an explicit placeholder, anywhere else a zero address is treated as a typo and rejected.
+ */
+const ADDRESS_SCHEMA = {
+  USDO_ADDRESS: { zeroAllowed: false },
+  CUSDO_ADDRESS: { zeroAllowed: false },
+  USDC_ADDRESS: { zeroAllowed: false },
+  TBILL_ADDRESS: { zeroAllowed: true },
+  BUIDL_ADDRESS: { zeroAllowed: true },
+  BUIDL_REDEMPTION: { zeroAllowed: true },
+  TREASURY: { zeroAllowed: false },
+  BUIDL_TREASURY: { zeroAllowed: true },
+  FEE_TO: { zeroAllowed: false },
+  ADMIN_ADDRESS: { zeroAllowed: false },
+  MAINTAINER_ADDRESS: { zeroAllowed: false },
+  OPERATOR_ADDRESS: { zeroAllowed: false },
+  ASSET_REGISTRY: { zeroAllowed: false },
+  USDO_EXPRESS_ADDRESS: { zeroAllowed: false },
+  USYC_ADDRESS: { zeroAllowed: false },
+  USYC_HELPER: { zeroAllowed: false },
+  USYC_TREASURY: { zeroAllowed: false },
+} as const;
+
+/**
+ * Numeric entries of config/<network>.json and the decimals they are parsed with.
+ * USDO denominated amounts use 18 decimals, USYC amounts 6, durations are seconds and fees basis points.
+ */
+const LIMITS_DECIMALS = {
+  TOTAL_SUPPLY_CAP: 18,
+  FIRST_DEPOSIT_AMOUNT: 18,
+  MINT_MINIMUM: 18,
+  MINT_LIMIT: 18,
+  MINT_DURATION: 0,
+  REDEEM_MINIMUM: 18,
+  REDEEM_LIMIT: 18,
+  REDEEM_DURATION: 0,
+  MIN_FEE: 0,
+  REDEEM_FEE: 0,
+  TOTAL_LIQUIDITY: 6,
+} as const;
+
+export type AddressKey = keyof typeof ADDRESS_SCHEMA;
+export type LimitKey = keyof typeof LIMITS_DECIMALS;
+
+export interface NetworkConfig {
+  file: string;
+  CHAIN_ID: number;
+  // Checksummed, unset entries are the zero address
+  ADDRESS: Record<AddressKey, string>;
+  LIMITS: Record<LimitKey, BigNumber>;
+}
+
+export interface LoadNetworkConfigOptions {
+  // Defaults to networkConfigFile(<network>)
+  file?: string;
+  // Address entries the caller cannot work without
+  require?: AddressKey[];
+}
+
+export class NetworkConfigError extends Error {
+  constructor(readonly file: string, readonly issues: string[]) {
+    super(`Invalid network config ${file}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'NetworkConfigError';
+  }
+}
+
+// Accepts "150_000_000" as well as "0.5" style values
+const NUMERIC = /^\d+(_\d+)*(\.\d+)?$/;
+
+export const parseNumeric = (value: string, decimals: number): BigNumber => {
+  if (!NUMERIC.test(value)) throw new Error(`"${value}" is not a number`);
+  return utils.parseUnits(value.replace(/_/g, ''), decimals);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validate the raw JSON of a network config. All problems are collected and reported at once.
+ */
+export const parseNetworkConfig = (raw: unknown, file: string, required: AddressKey[] = []): NetworkConfig => {
+  const issues: string[] = [];
+  const root = isRecord(raw) ? raw : {};
+  const rawAddress = isRecord(root.ADDRESS) ? root.ADDRESS : {};
+  const rawLimits = isRecord(root.LIMITS) ? root.LIMITS : {};
+
+  if (!isRecord(raw)) issues.push('config must be a JSON object');
+
+  const chainId = root.CHAIN_ID;
+  if (typeof chainId !== 'number' || !Number.isInteger(chainId) || chainId <= 0) {
+    issues.push(`CHAIN_ID must be a positive integer, got ${JSON.stringify(chainId)}`);
+  }
+
+  for (const key of Object.keys(rawAddress)) {
+    if (!(key in ADDRESS_SCHEMA)) issues.push(`ADDRESS.${key} is not a known entry`);
+  }
+  for (const key of Object.keys(rawLimits)) {
+    if (!(key in LIMITS_DECIMALS)) issues.push(`LIMITS.${key} is not a known entry`);
+  }
+
+  const ADDRESS = {} as Record<AddressKey, string>;
+  for (const [key, { zeroAllowed }] of Object.entries(ADDRESS_SCHEMA) as [AddressKey, { zeroAllowed: boolean }][]) {
+    const value = rawAddress[key] ?? '';
+    ADDRESS[key] = constants.AddressZero;
+
+    if (typeof value !== 'string') {
+      issues.push(`ADDRESS.${key} must be a string`);
+      continue;
+    }
+
+    if (value === '') {
+      if (required.includes(key)) issues.push(`ADDRESS.${key} is required but empty`);
+      continue;
+    }
+
+    if (!utils.isAddress(value)) {
+      issues.push(`ADDRESS.${key} "${value}" is not a valid address`);
+      continue;
+    }
+
+    const checksummed = utils.getAddress(value);
+    if (checksummed !== value) {
+      issues.push(`ADDRESS.${key} "${value}" is not checksummed, expected "${checksummed}"`);
+      continue;
+    }
+
+    if (checksummed === constants.AddressZero) {
+      if (required.includes(key)) {
+        issues.push(`ADDRESS.${key} is required but set to the zero address`);
+      } else if (!zeroAllowed) {
+        issues.push(`ADDRESS.${key} must not be the zero address, leave it empty if it is not deployed`);
+      }
+      continue;
+    }
+
+    ADDRESS[key] = checksummed;
+  }
+
+  const LIMITS = {} as Record<LimitKey, BigNumber>;
+  for (const [key, decimals] of Object.entries(LIMITS_DECIMALS) as [LimitKey, number][]) {
+    const value = rawLimits[key];
+    LIMITS[key] = constants.Zero;
+
+    if (typeof value !== 'string') {
+      issues.push(`LIMITS.${key} must be a numeric string such as "150_000_000"`);
+      continue;
+    }
+
+    try {
+      LIMITS[key] = parseNumeric(value, decimals);
+    } catch {
+      issues.push(`LIMITS.${key} "${value}" is not a number with at most ${decimals} decimals`);
+    }
+  }
+
+  if (issues.length > 0) throw new NetworkConfigError(file, issues);
+
+  return { file, CHAIN_ID: chainId as number, ADDRESS, LIMITS };
+};
+
+/**
+ * Load and validate the config of the selected Hardhat network, checking that it belongs to the connected chain.
+ */
+export const loadNetworkConfig = async (
+  hre: HardhatRuntimeEnvironment,
+  options: LoadNetworkConfigOptions = {},
+): Promise<NetworkConfig> => {
+  const file = options.file ?? networkConfigFile(hre.network.name);
+  if (!fs.existsSync(file)) {
+    throw new NetworkConfigError(file, [`no config found for network "${hre.network.name}"`]);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new NetworkConfigError(file, [`not valid JSON: ${(error as Error).message}`]);
+  }
+
+  const cfg = parseNetworkConfig(raw, file, options.require);
+
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  if (chainId !== cfg.CHAIN_ID) {
+    throw new NetworkConfigError(file, [
+      `CHAIN_ID ${cfg.CHAIN_ID} does not match network "${hre.network.name}" with chainId ${chainId}`,
+    ]);
+  }
+
+  return cfg;
+};
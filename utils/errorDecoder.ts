@@ -0,0 +1,238 @@
+import fs from 'fs';
+import path from 'path';
+import { BigNumber, utils } from 'ethers';
+
+export const ARTIFACTS_DIR = path.join(__dirname, '..', 'artifacts');
+
+// Custom errors by 4-byte selector
+export type ErrorRegistry = Map<string, utils.ErrorFragment>;
+
+type ArgUnit = { decimals: number; symbol: string } | 'timestamp' | 'seconds';
+
+export interface DecodedArg {
+  name: string;
+  type: string;
+  value: unknown;
+  // Value in human units where the unit is known, e.g. '5.0 USDO' or an ISO date
+  formatted: string;
+}
+
+export interface DecodedError {
+  selector: string;
+  name: string;
+  signature: string;
+  args: DecodedArg[];
+  // name(arg: formatted, ...)
+  message: string;
+}
+
+// Revert carrying a decoded custom error, the original provider error is kept as `cause`
+export class RevertError extends Error {
+  constructor(readonly decoded: DecodedError, readonly cause?: unknown) {
+    super(`Reverted with ${decoded.message}`);
+    this.name = 'RevertError';
+  }
+}
+
+const USDO = { decimals: 18, symbol: 'USDO' };
+const USDC = { decimals: 6, symbol: 'USDC' };
+const PERCENT = { decimals: 18, symbol: '%' }; // UsycRedemption.FEE_MULTIPLIER, 100e18 is 100%
+const MULTIPLIER = { decimals: 18, symbol: 'x' };
+
+// Units of the amounts carried by the protocol errors, arguments without an entry are printed as they are.
+// USDOExpressInsufficientLiquidity and InsufficientOutput carry amounts of whichever asset is paid out, so they stay raw
+const ARG_UNITS: Record<string, Record<string, ArgUnit>> = {
+  MintLessThanMinimum: { amount: USDO, minimum: USDO },
+  FirstDepositLessThanRequired: { amount: USDO, minimum: USDO },
+  RedeemLessThanMinimum: { amount: USDO, minimum: USDO },
+  MintTxLimitExceeded: { amount: USDO, limit: USDO },
+  RedeemTxLimitExceeded: { amount: USDO, limit: USDO },
+  AccountMintLimitExceeded: { amount: USDO, limit: USDO },
+  AccountRedeemLimitExceeded: { amount: USDO, limit: USDO },
+  USDOExpressTooEarly: { amount: 'timestamp' },
+  USDOExpressReceiveUSDCFailed: { amount: USDC, received: USDC },
+  AssetRegistryStalePriceData: { updatedAt: 'timestamp', currentTime: 'timestamp', maxStale: 'seconds' },
+  StalePrice: { updatedAt: 'timestamp', maxAge: 'seconds' },
+  InsufficientUSDCReceived: { received: USDC, required: USDC },
+  ExcessiveSellFee: { feeRate: PERCENT },
+  QuotaExceedsTotal: { userQuota: USDC, totalLiquidity: USDC },
+  QuotaExceedsUsed: { newQuota: USDC, usedAmount: USDC },
+  InsufficientTotalLiquidity: { available: USDC, requested: USDC },
+  InsufficientUserQuota: { available: USDC, requested: USDC },
+  USDOExceedsTotalSupplyCap: { newTotalSupply: USDO, totalSupplyCap: USDO },
+  ERC20InsufficientBalance: { shares: USDO, sharesNeeded: USDO },
+  ERC20InsufficientAllowance: { allowance: USDO, needed: USDO },
+  USDOInsufficientBurnBalance: { shares: USDO, sharesNeeded: USDO },
+  USDOInvalidBonusMultiplier: { bonusMultiplier: MULTIPLIER },
+  ERC2612ExpiredDeadline: { deadline: 'timestamp', blockTimestamp: 'timestamp' },
+};
+
+// Solidity's own Error(string) and Panic(uint256), ethers refuses to build an ErrorFragment for these
+const BUILTIN_ERRORS: Record<string, { name: string; inputs: utils.ParamType[] }> = {
+  '0x08c379a0': { name: 'Error', inputs: [utils.ParamType.from('string message')] },
+  '0x4e487b71': { name: 'Panic', inputs: [utils.ParamType.from('uint256 code')] },
+};
+
+const PANIC_REASONS: Record<number, string> = {
+  0x01: 'assertion failed',
+  0x11: 'arithmetic overflow or underflow',
+  0x12: 'division or modulo by zero',
+  0x21: 'invalid enum value',
+  0x22: 'invalid storage byte array',
+  0x31: 'pop on an empty array',
+  0x32: 'array index out of bounds',
+  0x41: 'out of memory',
+  0x51: 'call to an uninitialized function',
+};
+
+interface AstErrorDefinition {
+  nodeType: 'ErrorDefinition';
+  name: string;
+  errorSelector?: string;
+  parameters: { parameters: { name: string; typeDescriptions: { typeString: string } }[] };
+}
+
+interface AstNode {
+  nodeType: string;
+  nodes?: AstNode[];
+}
+
+const selectorOf = (fragment: utils.ErrorFragment): string => utils.id(fragment.format()).slice(0, 10);
+
+const register = (registry: ErrorRegistry, fragment: utils.ErrorFragment): void => {
+  const selector = selectorOf(fragment);
+  if (!registry.has(selector)) registry.set(selector, fragment);
+};
+
+// Only elementary parameter types can be rebuilt from the AST, anything else is skipped by the selector check
+const registerAstError = (registry: ErrorRegistry, node: AstErrorDefinition): void => {
+  try {
+    const fragment = utils.ErrorFragment.fromObject({
+      type: 'error',
+      name: node.name,
+      inputs: node.parameters.parameters.map(param => ({
+        name: param.name,
+        type: param.typeDescriptions.typeString.replace(/ (memory|calldata|storage)$/, ''),
+      })),
+    });
+    if (node.errorSelector === undefined || selectorOf(fragment) === `0x${node.errorSelector}`) {
+      register(registry, fragment);
+    }
+  } catch {
+    // Not an ABI type
+  }
+};
+
+const listFiles = (dir: string): string[] =>
+  fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const file = path.join(dir, entry.name);
+    return entry.isDirectory() ? listFiles(file) : [file];
+  });
+
+const registries = new Map<string, ErrorRegistry>();
+
+/**
+ * Collect every custom error of the compiled artifacts.
+ * Contract ABIs only list the errors a contract can revert with, so the build-info ASTs are walked as well to pick
+ * up file-level errors no contract uses yet, e.g. InsufficientUSDCReceived in UsycRedemption.sol.
+ */
+export const loadErrorRegistry = (artifactsDir = ARTIFACTS_DIR): ErrorRegistry => {
+  const cached = registries.get(artifactsDir);
+  if (cached) return cached;
+
+  const registry: ErrorRegistry = new Map();
+
+  if (fs.existsSync(artifactsDir)) {
+    const buildInfoDir = path.join(artifactsDir, 'build-info');
+    for (const file of listFiles(artifactsDir)) {
+      if (!file.endsWith('.json') || file.endsWith('.dbg.json') || file.startsWith(buildInfoDir)) continue;
+
+      const { abi } = JSON.parse(fs.readFileSync(file, 'utf8')) as { abi?: { type: string }[] };
+      for (const fragment of abi ?? []) {
+        if (fragment.type === 'error') register(registry, utils.ErrorFragment.fromObject(fragment));
+      }
+    }
+
+    if (fs.existsSync(buildInfoDir)) {
+      for (const file of listFiles(buildInfoDir)) {
+        const { output } = JSON.parse(fs.readFileSync(file, 'utf8')) as {
+          output: { sources: Record<string, { ast: AstNode }> };
+        };
+        for (const { ast } of Object.values(output.sources)) {
+          for (const node of ast.nodes ?? []) {
+            for (const child of [node, ...(node.nodes ?? [])]) {
+              if (child.nodeType === 'ErrorDefinition') registerAstError(registry, child as AstErrorDefinition);
+            }
+          }
+        }
+      }
+    }
+  }
+
+  registries.set(artifactsDir, registry);
+  return registry;
+};
+
+const formatArg = (error: string, name: string, value: unknown): string => {
+  const unit = ARG_UNITS[error]?.[name];
+  if (BigNumber.isBigNumber(value)) {
+    if (unit === 'timestamp') return new Date(value.toNumber() * 1000).toISOString();
+    if (unit === 'seconds') return `${value}s`;
+    if (unit) return `${utils.formatUnits(value, unit.decimals)} ${unit.symbol}`;
+  }
+  return String(value);
+};
+
+/**
+ * Decode revert data into the matching custom error, or Error(string) and Panic(uint256).
+ * Returns undefined for empty data and unknown selectors.
+ */
+export const decodeRevertData = (data: string, registry = loadErrorRegistry()): DecodedError | undefined => {
+  if (!utils.isHexString(data) || data.length < 10) return undefined;
+
+  const selector = data.slice(0, 10).toLowerCase();
+  const fragment = registry.get(selector) ?? BUILTIN_ERRORS[selector];
+  if (!fragment) return undefined;
+  const signature = `${fragment.name}(${fragment.inputs.map(input => input.type).join(',')})`;
+
+  const values = utils.defaultAbiCoder.decode(fragment.inputs, utils.hexDataSlice(data, 4));
+  const args = fragment.inputs.map((input, i) => {
+    const name = input.name || `arg${i}`;
+    return { name, type: input.type, value: values[i], formatted: formatArg(fragment.name, name, values[i]) };
+  });
+
+  let message = `${fragment.name}(${args.map(arg => `${arg.name}: ${arg.formatted}`).join(', ')})`;
+  if (fragment.name === 'Error') message = `Error('${args[0].value}')`;
+  if (fragment.name === 'Panic') {
+    const code = (args[0].value as BigNumber).toNumber();
+    message = `Panic(0x${code.toString(16).padStart(2, '0')}: ${PANIC_REASONS[code] ?? 'unknown panic code'})`;
+  }
+
+  return { selector, name: fragment.name, signature, args, message };
+};
+
+// Provider errors nest the revert data at different depths, e.g. error.error.data or error.data.data
+export const findRevertData = (error: unknown, depth = 0): string | undefined => {
+  if (depth > 5 || error === null || error === undefined) return undefined;
+  if (typeof error === 'string') return utils.isHexString(error) && error.length >= 10 ? error : undefined;
+  if (typeof error !== 'object') return undefined;
+
+  const record = error as Record<string, unknown>;
+  for (const key of ['data', 'error', 'cause']) {
+    const found = findRevertData(record[key], depth + 1);
+    if (found) return found;
+  }
+  return undefined;
+};
+
+export const decodeError = (error: unknown, registry = loadErrorRegistry()): DecodedError | undefined => {
+  const data = findRevertData(error);
+  return data === undefined ? undefined : decodeRevertData(data, registry);
+};
+
+// Wrap a provider error into a RevertError when its revert data can be decoded, anything else is returned as it is
+export const explainError = (error: unknown, registry = loadErrorRegistry()): unknown => {
+  if (error instanceof RevertError) return error;
+  const decoded = decodeError(error, registry);
+  return decoded ? new RevertError(decoded, error) : error;
+};
@@ -0,0 +1,29 @@
+import type { ContractFactory } from 'ethers';
+import type { HardhatRuntimeEnvironment } from 'hardhat/types';
+
+type Ethers = HardhatRuntimeEnvironment['ethers'];
+
+// Deploys the USDOExpressV2Ext that a USDOExpressV2 implementation delegatecalls and returns its address
+export const deployExpressExtension = async (ethers: Ethers): Promise<string> => {
+  const extension = await (await ethers.getContractFactory('USDOExpressV2Ext')).deploy();
+  await extension.deployed();
+  return extension.address;
+};
+
+/**
+ * Constructor arguments of an implementation for the upgrades plugin. USDOExpressV2 and the contracts extending it
+ * take the address of their USDOExpressV2Ext, a new one is deployed unless `extension` is given. Other
+ * implementations take none.
+ */
+export const implementationConstructorArgs = async (
+  ethers: Ethers,
+  factory: ContractFactory,
+  extension?: string,
+): Promise<unknown[]> => {
+  const inputs = factory.interface.deploy.inputs;
+  if (inputs.length === 0) return [];
+  if (inputs.length === 1 && inputs[0].name === 'extension') {
+    return [extension ?? (await deployExpressExtension(ethers))];
+  }
+  throw new Error(`Unsupported implementation constructor (${inputs.map(input => input.format()).join(', ')})`);
+};
@@ -0,0 +1,22 @@
+import http from 'http';
+
+// Request body as text, rejects with a TypeError once it grows past `maxBytes`
+export const readBody = (req: http.IncomingMessage, maxBytes: number): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => {
+      body += chunk;
+      if (body.length > maxBytes) {
+        reject(new TypeError('Request body too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+export const reply = (res: http.ServerResponse, status: number, body: unknown): void => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
@@ -0,0 +1,13 @@
+import type { USDOExpress__factory, USDOExpressV2__factory } from '../typechain-types';
+
+// Drops the trailing ethers `overrides` argument typechain appends to every contract method
+type DropLast<T extends unknown[]> = T extends [...infer Head, unknown] ? Head : never;
+
+type InitializerArgs<F extends (...args: never[]) => unknown> = DropLast<Required<Parameters<F>>>;
+
+/**
+ * Argument tuples of the proxy initializers, derived from the generated typechain factories so that a change of the
+ * Solidity signature breaks the deploy scripts at compile time instead of at deployment.
+ */
+export type USDOExpressV2InitializerArgs = InitializerArgs<ReturnType<USDOExpressV2__factory['attach']>['initialize']>;
+export type USDOExpressInitializerArgs = InitializerArgs<ReturnType<USDOExpress__factory['attach']>['initialize']>;
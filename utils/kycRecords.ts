@@ -0,0 +1,72 @@
+import fs from 'fs';
+import { utils } from 'ethers';
+
+// Largest tier id of USDOExpressV2.KycRecord, a uint32
+const MAX_TIER = 2 ** 32 - 1;
+
+export interface KycCsvRecord {
+  // Line of the file, for error messages
+  line: number;
+  account: string;
+  // Unix timestamp, 0 never expires
+  expiry: number;
+  tier: number;
+}
+
+const COLUMNS = ['address', 'expiry', 'tier'] as const;
+
+// Unix seconds or an ISO 8601 date, empty for no expiry
+const parseExpiry = (value: string): number => {
+  if (value === '') return 0;
+  if (/^\d+$/.test(value)) return Number(value);
+  const millis = Date.parse(value);
+  if (Number.isNaN(millis)) throw new Error(`invalid expiry ${value}`);
+  return Math.floor(millis / 1000);
+};
+
+const parseTier = (value: string): number => {
+  if (value === '') return 0;
+  const tier = Number(value);
+  if (!/^\d+$/.test(value) || tier > MAX_TIER) throw new Error(`invalid tier ${value}`);
+  return tier;
+};
+
+/**
+ * Parse KYC records from CSV text. The header names the columns, `address` is required, `expiry` (unix seconds or
+ * an ISO 8601 date) and `tier` are optional and default to no expiry and the default tier. Blank lines and lines
+ * starting with # are skipped. Throws on the first invalid line and on accounts listed twice.
+ */
+export const parseKycCsv = (text: string, source = 'CSV'): KycCsvRecord[] => {
+  const lines = text.split(/\r?\n/).map((line, index) => ({ line: index + 1, cells: line.trim() }));
+  const rows = lines.filter(({ cells }) => cells !== '' && !cells.startsWith('#'));
+  if (rows.length === 0) throw new Error(`${source}: missing header`);
+
+  const [header, ...body] = rows;
+  const names = header.cells.split(',').map(name => name.trim().toLowerCase());
+  const unknown = names.filter(name => !(COLUMNS as readonly string[]).includes(name));
+  if (unknown.length > 0) throw new Error(`${source}:${header.line}: unknown column ${unknown[0]}`);
+  if (!names.includes('address')) throw new Error(`${source}:${header.line}: missing address column`);
+
+  const seen = new Map<string, number>();
+  return body.map(({ line, cells }) => {
+    const values = cells.split(',').map(value => value.trim());
+    if (values.length !== names.length) {
+      throw new Error(`${source}:${line}: expected ${names.length} column(s), got ${values.length}`);
+    }
+    const cell = (name: (typeof COLUMNS)[number]): string => values[names.indexOf(name)] ?? '';
+
+    try {
+      if (!utils.isAddress(cell('address'))) throw new Error(`invalid address ${cell('address')}`);
+      const account = utils.getAddress(cell('address'));
+      const duplicate = seen.get(account);
+      if (duplicate !== undefined) throw new Error(`${account} already listed on line ${duplicate}`);
+      seen.set(account, line);
+
+      return { line, account, expiry: parseExpiry(cell('expiry')), tier: parseTier(cell('tier')) };
+    } catch (error) {
+      throw new Error(`${source}:${line}: ${(error as Error).message}`);
+    }
+  });
+};
+
+export const readKycCsv = (file: string): KycCsvRecord[] => parseKycCsv(fs.readFileSync(file, 'utf8'), file);
@@ -0,0 +1,65 @@
+import fs from 'fs';
+import path from 'path';
+import type { StorageLayoutEntry } from './storageLayout';
+
+// Bump whenever the manifest shape changes in a non backwards-compatible way
+export const MANIFEST_VERSION = 1;
+
+export const DEPLOYMENTS_DIR = path.join(__dirname, '..', 'deployments');
+
+export interface DeploymentRecord {
+  contract: string;
+  // Proxy address for UUPS deployments, plain contract address otherwise
+  address: string;
+  implementation?: string;
+  txHash: string;
+  blockNumber: number;
+  args: unknown[];
+  deployedAt: string;
+}
+
+export interface PendingAction {
+  step: string;
+  to: string;
+  data: string;
+  reason: string;
+}
+
+export interface DeploymentManifest {
+  version: number;
+  network: string;
+  chainId: number;
+  updatedAt: string;
+  contracts: Record<string, DeploymentRecord>;
+  // Storage layout of every implementation deployed through the manifest, keyed by implementation address
+  layouts: Record<string, StorageLayoutEntry[]>;
+  // Wiring calls the deployer was not authorised to execute, to be run by the role holder
+  pending: PendingAction[];
+}
+
+export const manifestPath = (network: string): string => path.join(DEPLOYMENTS_DIR, `${network}.json`);
+
+/**
+ * Load the manifest for a network, or start an empty one if none exists yet.
+ * Refuses to resume from a manifest written for another chain or manifest version.
+ */
+export const readManifest = (file: string, network: string, chainId: number): DeploymentManifest => {
+  if (!fs.existsSync(file)) {
+    return { version: MANIFEST_VERSION, network, chainId, updatedAt: '', contracts: {}, layouts: {}, pending: [] };
+  }
+
+  const manifest = JSON.parse(fs.readFileSync(file, 'utf8')) as DeploymentManifest;
+  if (manifest.version !== MANIFEST_VERSION) {
+    throw new Error(`${file}: unsupported manifest version ${manifest.version}, expected ${MANIFEST_VERSION}`);
+  }
+  if (manifest.chainId !== chainId) {
+    throw new Error(`${file}: manifest is for chainId ${manifest.chainId}, connected to chainId ${chainId}`);
+  }
+  return { ...manifest, layouts: manifest.layouts ?? {}, pending: manifest.pending ?? [] };
+};
+
+export const writeManifest = (file: string, manifest: DeploymentManifest): void => {
+  manifest.updatedAt = new Date().toISOString();
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(manifest, null, 2) + '\n');
+};
@@ -0,0 +1,180 @@
+import type { HardhatRuntimeEnvironment } from 'hardhat/types';
+
+export interface StorageLayoutEntry {
+  // Contract the layout was compiled for, e.g. contracts/extensions/USDOExpressV2.sol:USDOExpressV2
+  contract: string;
+  label: string;
+  slot: number;
+  offset: number;
+  type: string;
+  bytes: number;
+}
+
+export type StorageChangeKind =
+  | 'added'
+  | 'renamed'
+  | 'reserved-reused'
+  | 'retyped'
+  | 'removed'
+  | 'gap-resized'
+  | 'gap-end-moved'
+  | 'gap-removed';
+
+export interface StorageChange {
+  kind: StorageChangeKind;
+  severity: 'info' | 'warning' | 'error';
+  slot: number;
+  message: string;
+}
+
+interface SolcStorageLayout {
+  storage: { contract: string; label: string; slot: string; offset: number; type: string }[];
+  types: Record<string, { label: string; numberOfBytes: string }> | null;
+}
+
+const SLOT_SIZE = 32;
+
+// Placeholder slots kept to preserve the layout of earlier versions, e.g. RESERVE1 and _RESERVE2
+const isReserved = (label: string): boolean => /^_*reserve/i.test(label);
+
+const isGap = (label: string): boolean => label === '__gap';
+
+const slotsOf = (entry: StorageLayoutEntry): number => Math.ceil((entry.offset + entry.bytes) / SLOT_SIZE);
+
+const position = (entry: StorageLayoutEntry): string => `${entry.slot}:${entry.offset}`;
+
+/**
+ * Read the storage layout of a compiled contract from its build info.
+ * The layout is part of the compiler output because @openzeppelin/hardhat-upgrades requests it.
+ */
+export const getStorageLayout = async (
+  hre: HardhatRuntimeEnvironment,
+  contractName: string,
+): Promise<StorageLayoutEntry[]> => {
+  const { sourceName, contractName: name } = await hre.artifacts.readArtifact(contractName);
+  const buildInfo = await hre.artifacts.getBuildInfo(`${sourceName}:${name}`);
+  const output = buildInfo?.output.contracts[sourceName]?.[name] as { storageLayout?: SolcStorageLayout } | undefined;
+  if (!output?.storageLayout) throw new Error(`No storage layout in the build info of ${contractName}`);
+
+  const { storage, types } = output.storageLayout;
+  return storage.map(entry => ({
+    contract: entry.contract,
+    label: entry.label,
+    slot: Number(entry.slot),
+    offset: entry.offset,
+    type: types?.[entry.type]?.label ?? entry.type,
+    bytes: Number(types?.[entry.type]?.numberOfBytes ?? SLOT_SIZE),
+  }));
+};
+
+/**
+ * Compare two storage layouts position by position.
+ * Renames are reported as warnings, a reserved slot taking a new name is reported separately as it usually means the
+ * slot is being reused. `__gap` arrays may shrink to make room for new variables as long as their end slot is
+ * unchanged. Anything that moves or retypes existing storage is an error.
+ */
+export const diffStorageLayout = (previous: StorageLayoutEntry[], next: StorageLayoutEntry[]): StorageChange[] => {
+  const changes: StorageChange[] = [];
+  const nextByPosition = new Map(next.map(entry => [position(entry), entry]));
+  const matched = new Set<StorageLayoutEntry>();
+  // Slots handed out by shrinking gaps, new variables may be placed there
+  const freedSlots: [number, number][] = [];
+
+  const previousGaps = previous.filter(entry => isGap(entry.label));
+  const nextGaps = next.filter(entry => isGap(entry.label));
+
+  for (const entry of previous) {
+    if (isGap(entry.label)) {
+      const end = entry.slot + slotsOf(entry);
+      // A gap keeps its end slot when it shrinks, otherwise fall back to the gap at the same position in the list
+      const gap =
+        nextGaps.find(candidate => candidate.slot + slotsOf(candidate) === end) ??
+        nextGaps[previousGaps.indexOf(entry)];
+      if (!gap || matched.has(gap)) {
+        changes.push({
+          kind: 'gap-removed',
+          severity: 'error',
+          slot: entry.slot,
+          message: `__gap (${entry.type}) at slot ${entry.slot} was removed`,
+        });
+        continue;
+      }
+
+      matched.add(gap);
+      const nextEnd = gap.slot + slotsOf(gap);
+      if (nextEnd !== end) {
+        changes.push({
+          kind: 'gap-end-moved',
+          severity: 'error',
+          slot: entry.slot,
+          message: `__gap at slot ${entry.slot} ends at slot ${nextEnd} instead of ${end}, every following slot shifts`,
+        });
+      } else if (gap.slot !== entry.slot) {
+        freedSlots.push([entry.slot, gap.slot]);
+        changes.push({
+          kind: 'gap-resized',
+          severity: 'info',
+          slot: entry.slot,
+          message: `__gap at slot ${entry.slot} ${entry.type} -> ${gap.type}, ${gap.slot - entry.slot} slot(s) taken`,
+        });
+      }
+      continue;
+    }
+
+    const candidate = nextByPosition.get(position(entry));
+    if (!candidate) {
+      changes.push({
+        kind: 'removed',
+        severity: 'error',
+        slot: entry.slot,
+        message: `${entry.label} (${entry.type}) at slot ${entry.slot} no longer exists`,
+      });
+      continue;
+    }
+
+    matched.add(candidate);
+    if (candidate.type !== entry.type || candidate.bytes !== entry.bytes) {
+      changes.push({
+        kind: 'retyped',
+        severity: 'error',
+        slot: entry.slot,
+        message: `${entry.label} at slot ${entry.slot} changed type ${entry.type} -> ${candidate.type}`,
+      });
+    }
+    if (candidate.label !== entry.label) {
+      const reserved = isReserved(entry.label);
+      changes.push({
+        kind: reserved ? 'reserved-reused' : 'renamed',
+        severity: 'warning',
+        slot: entry.slot,
+        message: reserved
+          ? `reserved slot ${entry.label} at slot ${entry.slot} is reused as ${candidate.label}, check it is still empty`
+          : `${entry.label} at slot ${entry.slot} renamed to ${candidate.label}`,
+      });
+    }
+  }
+
+  const previousEnd = Math.max(0, ...previous.map(entry => entry.slot + slotsOf(entry)));
+  for (const entry of next) {
+    if (matched.has(entry)) continue;
+
+    const inGap = freedSlots.some(([from, to]) => entry.slot >= from && entry.slot < to);
+    if (inGap || entry.slot >= previousEnd) {
+      changes.push({
+        kind: 'added',
+        severity: 'info',
+        slot: entry.slot,
+        message: `${entry.label} (${entry.type}) added at slot ${entry.slot}${inGap ? ' from a gap' : ''}`,
+      });
+    } else {
+      changes.push({
+        kind: 'added',
+        severity: 'error',
+        slot: entry.slot,
+        message: `${entry.label} (${entry.type}) added at slot ${entry.slot}, overlapping existing storage`,
+      });
+    }
+  }
+
+  return changes.sort((a, b) => a.slot - b.slot);
+};
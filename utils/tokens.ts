@@ -0,0 +1,37 @@
+import type { BigNumber } from 'ethers';
+import type { HardhatRuntimeEnvironment } from 'hardhat/types';
+
+export interface TokenInfo {
+  address: string;
+  symbol: string;
+  decimals: number;
+  format: (amount: BigNumber) => string;
+}
+
+const METADATA = '@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol:IERC20Metadata';
+
+/**
+ * Returns a lookup of symbol and decimals for the tokens a task prints amounts of, each token is read once.
+ * The cache lives as long as the lookup, addresses are reused across local deployments.
+ */
+export const tokenLookup = (hre: HardhatRuntimeEnvironment): ((address: string) => Promise<TokenInfo>) => {
+  const tokens = new Map<string, Promise<TokenInfo>>();
+
+  const read = async (address: string): Promise<TokenInfo> => {
+    const token = await hre.ethers.getContractAt(METADATA, address);
+    const [symbol, decimals] = await Promise.all([
+      token.symbol() as Promise<string>,
+      token.decimals() as Promise<number>,
+    ]);
+    return { address, symbol, decimals, format: amount => hre.ethers.utils.formatUnits(amount, decimals) };
+  };
+
+  return address => {
+    let info = tokens.get(address.toLowerCase());
+    if (!info) {
+      info = read(address);
+      tokens.set(address.toLowerCase(), info);
+    }
+    return info;
+  };
+};